@@ -1,24 +1,29 @@
 import { Component, OnInit, OnDestroy, inject, PLATFORM_ID } from '@angular/core';
-import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { CommonModule, DatePipe, isPlatformBrowser } from '@angular/common';
 import { RouterOutlet } from '@angular/router';
 import { TvOptimizationsService } from '@core/services/tv-optimizations.service';
+import { OfflineContentCacheService } from '@core/services/offline-content-cache.service';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CommonModule, RouterOutlet],
+  imports: [CommonModule, DatePipe, RouterOutlet],
   template: `
     <main class="app-container">
       <router-outlet></router-outlet>
     </main>
     
-    <!-- Индикатор за offline състояние (показва се само когато е offline) -->
+    <!-- Индикатор за offline състояние (показва се само когато е offline или се показва запазено съдържание) -->
     
-    @if (isOffline) {
+    @if ((isOffline || offlineCache.isServingSnapshot()) && offlineCache.showOfflineIndicator()) {
     <div class="offline-indicator">
       <div class="offline-message">
         <span class="offline-icon">⚠</span>
+        @if (offlineCache.servingSnapshotSince(); as savedAt) {
+        <span>Няма връзка - запазено съдържание от {{ savedAt | date:'dd.MM.yyyy HH:mm' }}</span>
+        } @else {
         <span>Няма връзка с интернет</span>
+        }
       </div>
     </div>
   }
@@ -62,6 +67,7 @@ import { TvOptimizationsService } from '@core/services/tv-optimizations.service'
 export class AppComponent implements OnInit, OnDestroy {
   private readonly platformId = inject(PLATFORM_ID);
   private readonly tvOptimizations = inject(TvOptimizationsService);
+  protected readonly offlineCache = inject(OfflineContentCacheService);
 
   // Индикатор за offline състояние
   isOffline = false;
@@ -45,6 +45,7 @@ export interface AuthState {
     isAuthenticated: boolean;
     token: string | null;
     tokenExpiration: Date | null;
+    shopDomain: string | null; // LoginResponse.shop_domain (QR code links)
     user: {
         email: string;
         username: string;
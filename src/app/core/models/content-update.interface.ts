@@ -0,0 +1,63 @@
+import { Product } from './product.interface';
+import { ProductGroup } from './api';
+
+/**
+ * Background content update models
+ *
+ * The updater polls the stock API, compares the result with the content
+ * currently known to the screen and publishes the difference.
+ */
+
+/**
+ * Product whose price changed since the previous check
+ */
+export interface ProductPriceChange {
+    product: Product;
+    previousPrice: number;
+}
+
+/**
+ * Product list difference (matched by product id)
+ */
+export interface ProductDiff {
+    added: Product[];
+    removed: Product[];
+    priceChanged: ProductPriceChange[];
+
+    /** Same id and price, other displayed fields changed (name, image, description, discount...) */
+    updated: Product[];
+}
+
+/**
+ * Group list difference (matched by group id)
+ */
+export interface ProductGroupDiff {
+    added: ProductGroup[];
+    removed: ProductGroup[];
+
+    /** Same id, renamed */
+    renamed: ProductGroup[];
+}
+
+/**
+ * One detected content update
+ */
+export interface ContentUpdate {
+    products: ProductDiff;
+
+    /** null when groups were not fetched (groups API unavailable) */
+    groups: ProductGroupDiff | null;
+
+    /** Fresh product list (full API list, before the slideshow selection pipeline) */
+    allProducts: Product[];
+
+    /** Large change - slideshow restarts from the first slide when behavior.restartOnMajorUpdate */
+    isMajor: boolean;
+
+    detectedAt: Date;
+}
+
+/**
+ * Updater state (for logs / admin diagnostics)
+ */
+export type ContentUpdateStatus = 'disabled' | 'idle' | 'checking' | 'error';
@@ -95,6 +95,24 @@ export enum SlideshowLoopMode {
     COUNT = 'count'
 }
 
+/** Action after the last loop ('once' / 'count' loop modes) */
+export enum SlideshowEndActionType {
+    STOP = 'stop',
+    HOLDING_SLIDE = 'holding-slide',
+    SWITCH_CONFIG = 'switch-config',
+    BLANK = 'blank'
+}
+
+/** Playlist item (slide) types */
+export enum PlaylistItemType {
+    PRODUCT = 'product',
+    MENU = 'menu',
+    PROMO = 'promo',
+    IMAGE = 'image',
+    VIDEO = 'video',
+    ANNOUNCEMENT = 'announcement'
+}
+
 /** Template selection modes */
 export enum TemplateSelectionMode {
     SINGLE = 'single',
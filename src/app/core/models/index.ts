@@ -18,6 +18,15 @@ export * from './classic-promo-template-config.interface';
 // API response exports
 export * from './api-response.interface';
 
+// Media library exports
+export * from './media.interface';
+
+// Synchronized playback exports
+export * from './sync.interface';
+
+// Background content update exports
+export * from './content-update.interface';
+
 // Enumerations
 export * from './enums';
 
@@ -0,0 +1,71 @@
+import { FileUploadResponse, UploadedFile } from './api-response.interface';
+import { UploadStatus } from './enums';
+
+/**
+ * Media library models
+ *
+ * Uploaded images / videos are referenced from the configuration as
+ * `media://<id>` URLs and resolved to playable URLs at runtime.
+ */
+
+/** URL scheme for media library references stored in the configuration */
+export const MEDIA_URL_PREFIX = 'media://';
+
+/** Media file kind (derived from the MIME type) */
+export type MediaKind = 'image' | 'video';
+
+/**
+ * Upload in progress (admin media page)
+ */
+export interface MediaUploadTask {
+    /** Client-side task ID */
+    id: string;
+
+    /** Original filename */
+    fileName: string;
+
+    /** File size in bytes */
+    size: number;
+
+    /** Current status */
+    status: UploadStatus;
+
+    /** Progress 0-100 (UPLOADING) */
+    progress: number;
+
+    /** Error message (FAILED) */
+    error?: string;
+
+    /** Stored file (COMPLETED) */
+    file?: UploadedFile;
+}
+
+/**
+ * Pluggable storage backend for the media library
+ * Default: IndexedDB (local, works offline); replace via MEDIA_STORAGE_BACKEND
+ */
+export interface MediaStorageBackend {
+    /** Backend name for logging */
+    readonly name: string;
+
+    /** All stored files (newest first) */
+    list(): Promise<UploadedFile[]>;
+
+    /**
+     * Store file
+     * @param file - File from the browser file input
+     * @param metadata - Dimensions / duration collected before upload
+     * @param onProgress - Progress callback (0-100)
+     */
+    upload(
+        file: File,
+        metadata: UploadedFile['metadata'],
+        onProgress: (progress: number) => void
+    ): Promise<FileUploadResponse>;
+
+    /** Delete file by ID */
+    delete(id: string): Promise<void>;
+
+    /** URL usable in <img> / <video> (object URL for local backends) */
+    getPlaybackUrl(file: UploadedFile): Promise<string>;
+}
@@ -1,3 +1,5 @@
+import { BadgePosition, ProductBadgeType } from './enums';
+
 /**
  * Core Product interface for TV slideshow display
  * Optimized for smart TV viewing and remote API integration
@@ -24,6 +26,19 @@ export interface Product {
     /** Current stock availability */
     inStock: boolean;
 
+    /** Optional: Stock quantity from the stock system (units) */
+    quantity?: number;
+
+    /** Optional: Units per pack / big pack (stock policy counted in packs) */
+    quantityPerPack?: number;
+    quantityPerBigPack?: number;
+
+    /** Optional: Availability level set by the configured stock policy */
+    stockStatus?: ProductStockStatus;
+
+    /** Optional: Texts in the secondary language (StockItem stk_name_2 / description_2) */
+    secondary?: ProductSecondaryLanguage;
+
     /** Optional: Long description for admin panel only */
     longDescription?: string;
 
@@ -36,6 +51,18 @@ export interface Product {
     /** Optional: Discount information */
     discount?: ProductDiscount;
 
+    /** Optional: Product code from the stock system (QR code links) */
+    code?: string;
+
+    /** Optional: All price lists from the stock system (display / "was" price selection) */
+    prices?: Partial<Record<ProductPriceField, number>>;
+
+    /** Optional: Name of the customer price list behind `customer_file_price` */
+    priceListName?: string;
+
+    /** Optional: Free-form tags (used by template rules) */
+    tags?: string[];
+
     /** Optional: TV-specific display override settings */
     displaySettings?: ProductDisplaySettings;
 
@@ -44,6 +71,38 @@ export interface Product {
     updatedAt?: Date;
 }
 
+/**
+ * Product texts in the secondary language (e.g. English next to Bulgarian)
+ * Missing field = the template shows the primary text only.
+ */
+export interface ProductSecondaryLanguage {
+    name?: string;
+    shortDescription?: string;
+}
+
+/**
+ * Availability level from the stock policy (SlideshowStockSettings)
+ */
+export type ProductStockStatus = 'in-stock' | 'low-stock' | 'sold-out';
+
+/**
+ * Price fields returned by the stock system (StockItem)
+ */
+export type ProductPriceField =
+    | 'price'
+    | 'basic_price'
+    | 'customer_file_price'
+    | 'price_1'
+    | 'price_2'
+    | 'price_3'
+    | 'price_4'
+    | 'price_5'
+    | 'price_6'
+    | 'price_7'
+    | 'price_8'
+    | 'price_9'
+    | 'price_10';
+
 /**
  * Product badge configuration for visual highlights
  */
@@ -55,7 +114,10 @@ export interface ProductBadge {
     color: 'primary' | 'secondary' | 'success' | 'warning' | 'error';
 
     /** Badge position on product card */
-    position: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+    position: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | BadgePosition;
+
+    /** Optional: Badge kind (badge rules show one badge per type) */
+    type?: ProductBadgeType;
 }
 
 /**
@@ -105,6 +167,26 @@ export interface ProductResponse {
     lastUpdated: Date;
 }
 
+/**
+ * Result of the slideshow product selection pipeline
+ */
+export interface ProductSelectionResult {
+    /** Final slide list (filtered, ordered, limited) */
+    products: Product[];
+
+    /** Products matching selection + filters (before maxProducts) */
+    matchedCount: number;
+
+    /** Products received from the API */
+    sourceCount: number;
+
+    /** Required minimum (SlideshowProductSettings.minProducts) */
+    minProducts: number;
+
+    /** false when fewer than minProducts match */
+    meetsMinimum: boolean;
+}
+
 /**
  * Product filtering options for admin panel
  */
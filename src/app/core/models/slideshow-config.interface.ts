@@ -1,4 +1,5 @@
-import { ProductBadge, ProductDiscount } from './product.interface';
+import { Product, ProductBadge, ProductDiscount, ProductDisplaySettings, ProductPriceField } from './product.interface';
+import { BadgePosition, ProductBadgeType } from './enums';
 import { MenuTemplateConfig } from './menu-template-config.interface';
 import { ClassicPromoTemplateConfig } from './classic-promo-template-config.interface';
 
@@ -31,6 +32,36 @@ export interface SlideshowConfig {
     /** Auto-refresh and update settings */
     autoUpdate: SlideshowAutoUpdateSettings;
 
+    /** Dayparting schedule (optional, base settings apply when missing) */
+    schedule?: SlideshowScheduleSettings;
+
+    /** Mixed slide sequence (optional, product slides only when missing/disabled) */
+    playlist?: SlideshowPlaylistSettings;
+
+    /** Scrolling news ticker overlay (optional) */
+    ticker?: SlideshowTickerSettings;
+
+    /** Clock, date and discount countdown overlays (optional) */
+    widgets?: SlideshowWidgetSettings;
+
+    /** Full-screen emergency / closure message (optional) */
+    emergency?: SlideshowEmergencySettings;
+
+    /** Multi-zone screen layout (optional, single full-screen carousel when missing/disabled) */
+    layout?: SlideshowLayoutSettings;
+
+    /** Synchronized playback across screens (optional, independent playback when missing/disabled) */
+    sync?: SlideshowSyncSettings;
+
+    /** QR code with the product link on template slides (optional, hidden when missing/disabled) */
+    qrCode?: SlideshowQrCodeSettings;
+
+    /** Admin-defined product badges (optional, built-in discount / low stock badges when missing/disabled) */
+    badges?: SlideshowBadgeSettings;
+
+    /** Bilingual product texts on templates (optional, primary language only when missing) */
+    language?: SlideshowLanguageSettings;
+
     /** Configuration metadata */
     metadata: SlideshowConfigMetadata;
 }
@@ -51,6 +82,9 @@ export interface SlideshowGeneralSettings {
     /** Loop count if loopMode is 'count' */
     loopCount?: number;
 
+    /** What happens after the last loop (loopMode 'once' | 'count') */
+    endAction?: SlideshowEndAction;
+
     /** Auto-start slideshow on page load */
     autoStart: boolean;
 
@@ -60,10 +94,29 @@ export interface SlideshowGeneralSettings {
     /** Show slide progress indicators */
     showProgressIndicators: boolean;
 
-    /** Emergency stop hotkey (for TV remote) */
+    /** Emergency stop hotkey (for TV remote) - toggles SlideshowConfig.emergency */
     emergencyStopKey?: string;
 }
 
+/**
+ * End-of-loop action for finite loop modes
+ */
+export interface SlideshowEndAction {
+    /** Action type: stay on last slide, holding slide, switch settings or blank screen */
+    type: 'stop' | 'holding-slide' | 'switch-config' | 'blank';
+
+    /** Holding slide content (type 'holding-slide') */
+    holdingSlide?: {
+        title: string;
+        message?: string;
+        imageUrl?: string;
+        backgroundColor?: string;
+    };
+
+    /** Alternate products/template/timing played in an infinite loop (type 'switch-config') */
+    switchTo?: SlideshowScheduleOverrides;
+}
+
 /**
  * Product selection and management
  */
@@ -98,6 +151,82 @@ export interface SlideshowProductSettings {
 
     /** Minimum products required to start slideshow */
     minProducts: number;
+
+    /**
+     * Product image overrides: productId → image URL (`media://<id>` from the media library or http URL)
+     * @deprecated Use overrides[productId].imageUrl - still read, moved to `overrides` on the next edit
+     */
+    imageOverrides?: Record<string, string>;
+
+    /** Local product data over the ERP data: productId → overridden fields */
+    overrides?: Record<string, ProductOverride>;
+
+    /** Price lists used on screen (missing = price / basic_price) */
+    pricing?: SlideshowPricingSettings;
+
+    /** Stock policy based on StockItem quantity (missing / disabled = every product is in stock) */
+    stock?: SlideshowStockSettings;
+}
+
+/**
+ * Local override of one product (missing field = ERP value)
+ */
+export interface ProductOverride {
+    /** TV friendly name instead of the ERP name */
+    name?: string;
+
+    shortDescription?: string;
+    longDescription?: string;
+
+    /** `media://<id>` from the media library or http URL */
+    imageUrl?: string;
+    secondaryImageUrl?: string;
+
+    /** Custom badge, null = no built-in badge (discount / low stock) */
+    badge?: ProductBadge | null;
+
+    /** Merged over the product display settings (priority, customDuration) */
+    displaySettings?: ProductDisplaySettings;
+
+    /** Discount end as local date-time ('2025-03-31T20:00') - ProductDiscount.validUntil for the countdown widget */
+    discountValidUntil?: string;
+}
+
+/**
+ * Stock availability policy
+ */
+export interface SlideshowStockSettings {
+    /** Use the stock quantity (false = every product is in stock) */
+    enabled: boolean;
+
+    /** Quantity counted in single items, packs or big packs */
+    unit: 'item' | 'pack' | 'bigPack';
+
+    /** Minimum quantity counted as in stock */
+    inStockThreshold: number;
+
+    /** "Last few items" badge below this quantity (null = no badge) */
+    lowStockThreshold: number | null;
+
+    /** Low stock badge text */
+    lowStockBadgeText: string;
+
+    /** Sold out products: removed, greyed out or covered by an overlay */
+    soldOutBehavior: 'hide' | 'grey' | 'overlay';
+
+    /** Overlay text for sold out products */
+    soldOutText: string;
+}
+
+/**
+ * Price list selection (branch / wholesale screens)
+ */
+export interface SlideshowPricingSettings {
+    /** Price shown on slides, used by price filters and ordering */
+    displayPrice: ProductPriceField;
+
+    /** "Was" price for discount and badge calculation (null = no discounts) */
+    comparePrice: ProductPriceField | null;
 }
 
 /**
@@ -116,6 +245,9 @@ export interface SlideshowTemplateSettings {
     /** Template weights for random selection */
     randomWeights?: Record<string, number>;
 
+    /** When rotation/random picks a new template: every slide or every loop */
+    rotationScope?: 'slide' | 'loop';
+
     /** Product-to-template mapping rules */
     productTemplateRules?: ProductTemplateRule[];
 
@@ -186,6 +318,9 @@ export interface SlideshowTimingSettings {
         isPremiumCategory?: number;
     };
 
+    /** Product categories that use durationOverrides.isPremiumCategory */
+    premiumCategories?: string[];
+
     /** Timing validation */
     validation: {
         minSlideDuration: number;
@@ -195,11 +330,16 @@ export interface SlideshowTimingSettings {
     };
 }
 
+/**
+ * Stage rotation in degrees clockwise (90 / 270 = portrait on a landscape TV)
+ */
+export type DisplayRotation = 0 | 90 | 180 | 270;
+
 /**
  * TV-specific optimization settings
  */
 export interface SlideshowTvSettings {
-    /** TV safe area enforcement */
+    /** TV safe area enforcement (margins of the physical screen) */
     safeArea: {
         enabled: boolean;
         marginPercentage: number;
@@ -211,6 +351,9 @@ export interface SlideshowTvSettings {
         };
     };
 
+    /** Rotate the whole stage via CSS when the TV OS cannot (optional, 0 when missing) */
+    rotation?: DisplayRotation;
+
     /** Performance optimizations */
     performance: {
         /** Enable hardware acceleration */
@@ -234,7 +377,7 @@ export interface SlideshowTvSettings {
         /** Enable remote control navigation */
         enabled: boolean;
 
-        /** Key mappings */
+        /** Key mappings - key name ('ArrowRight'), code ('MediaPlayPause') or 'keyCode:<n>' (webOS) */
         keyMappings: {
             nextSlide: string[];
             previousSlide: string[];
@@ -300,6 +443,226 @@ export interface SlideshowAutoUpdateSettings {
     };
 }
 
+/**
+ * Dayparting schedule settings
+ * Switches products, template and timing by time of day, weekday and date
+ */
+export interface SlideshowScheduleSettings {
+    /** Enable/disable schedule evaluation */
+    enabled: boolean;
+
+    /** Schedule entries (highest priority active entry wins) */
+    entries: SlideshowScheduleEntry[];
+}
+
+/**
+ * Single schedule entry (time window + settings overrides)
+ */
+export interface SlideshowScheduleEntry {
+    /** Unique entry ID */
+    id: string;
+
+    /** Entry name for admin panel (e.g., "Закуска") */
+    name: string;
+
+    /** Enable/disable this entry */
+    enabled: boolean;
+
+    /** Priority when several entries are active (higher wins) */
+    priority: number;
+
+    /** Daily time window, local time in HH:mm (end before start wraps past midnight) */
+    timeRange?: {
+        start: string;
+        end: string;
+    };
+
+    /** Active weekdays (0 = Sunday ... 6 = Saturday), all days if empty */
+    weekdays?: number[];
+
+    /** Active date range, inclusive, in YYYY-MM-DD */
+    dateRange?: {
+        from?: string;
+        to?: string;
+    };
+
+    /** Settings applied on top of the base configuration */
+    overrides: SlideshowScheduleOverrides;
+}
+
+/**
+ * Settings overridden by an active schedule entry
+ */
+export interface SlideshowScheduleOverrides {
+    /** Product selection overrides */
+    products?: Partial<SlideshowProductSettings>;
+
+    /** Template overrides */
+    templates?: Partial<SlideshowTemplateSettings>;
+
+    /** Timing overrides */
+    timing?: Partial<SlideshowTimingSettings>;
+}
+
+/**
+ * Playlist - one loop of mixed slide types
+ */
+export interface SlideshowPlaylistSettings {
+    /** Use playlist instead of plain product slides */
+    enabled: boolean;
+
+    /** Items in playback order */
+    items: PlaylistItem[];
+}
+
+/**
+ * Fields shared by all playlist items
+ */
+export interface PlaylistItemBase {
+    /** Unique item identifier */
+    id: string;
+
+    /** Item name for admin identification */
+    name: string;
+
+    /** Disabled items are skipped */
+    enabled: boolean;
+
+    /** Slide duration override in milliseconds (clamped by timing.validation; playing videos run to the end) */
+    duration?: number;
+
+    /** Template override (product / menu / promo items) */
+    templateId?: string;
+}
+
+/**
+ * Product spotlight slides
+ * - productIds: these products (from the selection pipeline result)
+ * - otherwise: next `count` products from the selection (all remaining when missing)
+ */
+export interface ProductPlaylistItem extends PlaylistItemBase {
+    type: 'product';
+    productIds?: string[];
+    count?: number;
+}
+
+/**
+ * One page of the menu template (templateSpecificConfig.menu.slides)
+ */
+export interface MenuPlaylistItem extends PlaylistItemBase {
+    type: 'menu';
+    /** MenuSlide.slideId (first page when missing) */
+    menuSlideId?: string;
+}
+
+/**
+ * One classic-promo slide (templateSpecificConfig.classicPromo.slides)
+ */
+export interface PromoPlaylistItem extends PlaylistItemBase {
+    type: 'promo';
+    /** ClassicPromoSlide.slideId (first slide when missing) */
+    promoSlideId?: string;
+}
+
+/**
+ * Full-screen image
+ */
+export interface ImagePlaylistItem extends PlaylistItemBase {
+    type: 'image';
+    imageUrl: string;
+    fit?: 'cover' | 'contain';
+    backgroundColor?: string;
+}
+
+/**
+ * Product / marketing video (muted inline playback, advances when the video ends)
+ */
+export interface VideoPlaylistItem extends PlaylistItemBase {
+    type: 'video';
+    videoUrl: string;
+    /** Poster shown while loading and on LOW performance TVs */
+    posterUrl?: string;
+    fit?: 'cover' | 'contain';
+    backgroundColor?: string;
+    /**
+     * LOW performance TVs: 'poster' shows posterUrl for `duration`, 'skip' removes the slide
+     * Default: 'poster' when posterUrl is set, otherwise 'skip'
+     */
+    lowPerformanceMode?: 'poster' | 'skip';
+}
+
+/**
+ * Text announcement
+ */
+export interface AnnouncementPlaylistItem extends PlaylistItemBase {
+    type: 'announcement';
+    title: string;
+    message?: string;
+    imageUrl?: string;
+    /** Full-screen background image behind the text */
+    backgroundImageUrl?: string;
+    backgroundColor?: string;
+    textColor?: string;
+}
+
+export type PlaylistItem =
+    | ProductPlaylistItem
+    | MenuPlaylistItem
+    | PromoPlaylistItem
+    | ImagePlaylistItem
+    | VideoPlaylistItem
+    | AnnouncementPlaylistItem;
+
+/**
+ * Fields shared by all resolved slides
+ */
+export interface SlideshowSlideBase {
+    /** Stable key for @for tracking */
+    key: string;
+
+    /** Product for product slides; placeholder for template-rendered menu/promo slides */
+    product: Product;
+
+    /** Menu page / promo slide ID passed to the template */
+    templateSlideId?: string;
+}
+
+/**
+ * Product slide (source item missing for plain product slides)
+ */
+export interface ProductSlide extends SlideshowSlideBase {
+    type: 'product';
+    item?: ProductPlaylistItem;
+}
+
+/**
+ * Slide of a non-product playlist item
+ */
+export interface PlaylistItemSlide<T extends PlaylistItem> extends SlideshowSlideBase {
+    type: T['type'];
+    item: T;
+}
+
+/**
+ * Video slide
+ */
+export interface VideoSlide extends PlaylistItemSlide<VideoPlaylistItem> {
+    /** Shown as poster only (LOW performance) */
+    posterOnly: boolean;
+}
+
+/**
+ * Resolved slide in the carousel (runtime only, not persisted)
+ * Discriminated by `type` - narrows `item` to the matching playlist item.
+ */
+export type SlideshowSlide =
+    | ProductSlide
+    | PlaylistItemSlide<MenuPlaylistItem>
+    | PlaylistItemSlide<PromoPlaylistItem>
+    | PlaylistItemSlide<ImagePlaylistItem>
+    | VideoSlide
+    | PlaylistItemSlide<AnnouncementPlaylistItem>;
+
 /**
  * Configuration metadata and tracking
  */
@@ -344,4 +707,333 @@ export interface SlideshowConfigMetadata {
 
     /** Notes and comments */
     notes?: string;
+}
+
+/**
+ * News ticker overlay rendered over all templates (inside the TV safe area)
+ */
+export interface SlideshowTickerSettings {
+    enabled: boolean;
+
+    /** Bar position */
+    position: 'top' | 'bottom';
+
+    /** Scroll speed in pixels per second */
+    speed: number;
+
+    /** Seconds per item in stepped paging mode (weak TVs without animations) */
+    pageDuration: number;
+
+    /** Bar colors */
+    backgroundColor: string;
+    textColor: string;
+
+    /** Font size in pixels */
+    fontSize: number;
+
+    /** Separator between items while scrolling */
+    separator?: string;
+
+    /** Ticker messages */
+    items: SlideshowTickerItem[];
+}
+
+/**
+ * Ticker message
+ */
+export interface SlideshowTickerItem {
+    /** Unique item identifier */
+    id: string;
+
+    /** Message text */
+    text: string;
+
+    /** Disabled items are never shown */
+    enabled: boolean;
+
+    /** Active date range, inclusive, in YYYY-MM-DD */
+    dateRange?: {
+        from?: string;
+        to?: string;
+    };
+}
+
+/**
+ * Screen corner for overlay widgets
+ */
+export type SlideshowWidgetPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/**
+ * Overlay widgets rendered by the container over any template
+ * Widgets in the same corner are stacked
+ */
+export interface SlideshowWidgetSettings {
+    clock: SlideshowClockWidget;
+    date: SlideshowDateWidget;
+    discountCountdown: SlideshowCountdownWidget;
+
+    /** Shared widget style */
+    style: {
+        backgroundColor: string;
+        textColor: string;
+        /** Font size in pixels */
+        fontSize: number;
+    };
+}
+
+/**
+ * Current time (bg-BG locale)
+ */
+export interface SlideshowClockWidget {
+    enabled: boolean;
+    position: SlideshowWidgetPosition;
+    format: '24h' | '12h';
+    showSeconds: boolean;
+}
+
+/**
+ * Current date (bg-BG locale)
+ * - short: 19.10.2026 г.
+ * - long: 19 октомври 2026 г.
+ * - weekday: понеделник, 19 октомври
+ */
+export interface SlideshowDateWidget {
+    enabled: boolean;
+    position: SlideshowWidgetPosition;
+    format: 'short' | 'long' | 'weekday';
+}
+
+/**
+ * Countdown to ProductDiscount.validUntil, shown automatically on product slides
+ * Discounted products without their own end date (ProductOverride.discountValidUntil)
+ * count down to the campaign end.
+ */
+export interface SlideshowCountdownWidget {
+    enabled: boolean;
+    position: SlideshowWidgetPosition;
+
+    /** Text before the remaining time, e.g. "Промоцията изтича след" */
+    label: string;
+
+    /** Hide countdown while the end is further away than this many days (0 = always show) */
+    maxDays: number;
+
+    /** Optional: Campaign end as local date-time ('2025-03-31T20:00') for discounted products without validUntil */
+    campaignEnd?: string;
+}
+
+/**
+ * Emergency takeover - replaces the slideshow with a full-screen message
+ * Toggled from the admin panel (cross-tab via localStorage) or the emergencyStopKey
+ */
+export interface SlideshowEmergencySettings {
+    /** Takeover is on screen */
+    active: boolean;
+
+    /** Message title, e.g. "Временно затворено" */
+    title: string;
+
+    /** Optional message body */
+    message?: string;
+
+    /** Message colors */
+    backgroundColor: string;
+    textColor: string;
+
+    /** Last activation (ISO timestamp) and its source */
+    activatedAt?: string;
+    activatedBy?: 'admin' | 'remote';
+}
+
+/**
+ * Multi-zone screen layout
+ * Zones are placed in percent of the TV safe area; exactly one 'carousel' zone hosts the main slideshow.
+ */
+export interface SlideshowLayoutSettings {
+    /** Split the screen into zones */
+    enabled: boolean;
+
+    /** Zones in paint order (later zones are drawn on top) */
+    zones: SlideshowLayoutZone[];
+}
+
+/**
+ * Zone content source
+ * - carousel: the main slideshow (products / playlist, timing, transitions)
+ * - products: own product list, template and slide duration
+ * - image: static image, e.g. a logo corner
+ * - ticker: the news ticker (instead of the overlay)
+ */
+export type SlideshowLayoutZoneContent = 'carousel' | 'products' | 'image' | 'ticker';
+
+export interface SlideshowLayoutZone {
+    /** Unique zone ID */
+    id: string;
+
+    /** Display name in the admin panel */
+    name: string;
+
+    content: SlideshowLayoutZoneContent;
+
+    /** Position and size in percent of the safe area (0-100) */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+
+    /** Zone background (optional) */
+    backgroundColor?: string;
+
+    /** 'products' - template for the zone slides */
+    templateId?: string;
+
+    /** 'products' - product IDs in order (empty = all products) */
+    productIds?: string[];
+
+    /** 'products' - seconds per slide */
+    slideDuration?: number;
+
+    /** 'image' - image URL or media library reference */
+    imageUrl?: string;
+
+    /** 'image' - scale mode */
+    imageFit?: 'contain' | 'cover';
+}
+
+/**
+ * Synchronized playback across multiple screens
+ * One leader drives the slide index / timer, followers align to it.
+ * Role and offset can be overridden per screen via `?syncRole=follower&syncOffset=1`
+ * (tabs on the same machine share the stored configuration).
+ */
+export interface SlideshowSyncSettings {
+    /** Align with the other screens in the group */
+    enabled: boolean;
+
+    /** Screens with the same group ID play together */
+    groupId: string;
+
+    /** Leader publishes its playback state, followers follow it */
+    role: SlideshowSyncRole;
+
+    /** BroadcastChannel (same machine) or WebSocket relay (separate devices) */
+    transport: SlideshowSyncTransportType;
+
+    /** WebSocket relay URL (transport 'websocket'), e.g. ws://192.168.1.10:8787 */
+    serverUrl?: string;
+
+    /** Follower shows leader index + offset ("video wall"); 0 = same slide */
+    slideOffset: number;
+}
+
+export type SlideshowSyncRole = 'leader' | 'follower';
+
+export type SlideshowSyncTransportType = 'broadcast-channel' | 'websocket';
+
+/**
+ * Secondary language display (Product.secondary)
+ * - primary: ERP primary texts only
+ * - side-by-side: both languages, secondary under the primary text
+ * - alternate: all texts switch language every alternateInterval seconds
+ */
+export interface SlideshowLanguageSettings {
+    mode: 'primary' | 'side-by-side' | 'alternate';
+
+    /** Seconds per language in 'alternate' mode */
+    alternateInterval: number;
+}
+
+/**
+ * QR code element on template slides
+ * The link is generated locally from urlPattern; placeholders:
+ * {domain} - LoginResponse.shop_domain, {id} - product ID, {code} - product code (falls back to the ID)
+ */
+export interface SlideshowQrCodeSettings {
+    /** Show QR codes on slides */
+    enabled: boolean;
+
+    /** Link pattern, e.g. https://{domain}/product/{id} */
+    urlPattern: string;
+
+    /** Short caption under the code (empty = none) */
+    label: string;
+
+    /** Placement per template ID (templates without an entry use the defaults) */
+    templates: Record<string, SlideshowQrCodePlacement>;
+}
+
+/**
+ * QR code placement for one template
+ */
+export interface SlideshowQrCodePlacement {
+    /** Show the QR code on this template */
+    enabled: boolean;
+
+    /** Corner inside the TV safe area */
+    position: SlideshowWidgetPosition;
+
+    /** Side length in % of the shorter screen edge */
+    size: number;
+}
+
+/**
+ * Product badge rules
+ * Rules are evaluated by priority (highest first); built-in discount / low stock badges
+ * follow unless a rule already produced a badge of the same type.
+ */
+export interface SlideshowBadgeSettings {
+    /** Evaluate badge rules (false = built-in badges only) */
+    enabled: boolean;
+
+    /** Badge rules */
+    rules: ProductBadgeRule[];
+
+    /** Badges shown per product when the template has no own limit */
+    defaultMaxBadges: number;
+
+    /** Max badges per product by template ID (0 = no badges on this template) */
+    templateLimits: Record<string, number>;
+}
+
+/**
+ * One badge rule (all defined conditions must match)
+ */
+export interface ProductBadgeRule {
+    /** Stable rule ID */
+    id: string;
+
+    /** Rule name for admin identification */
+    name: string;
+
+    /** Rule on/off without deleting it */
+    enabled: boolean;
+
+    /** Badge kind - one badge per type and product */
+    type: ProductBadgeType;
+
+    /** Badge text, {discount} = discount percentage */
+    text: string;
+
+    /** Badge color theme */
+    color: ProductBadge['color'];
+
+    /** Corner on the product */
+    position: BadgePosition;
+
+    /** Rule priority (higher = shown first) */
+    priority: number;
+
+    /** Rule conditions (missing = no restriction) */
+    conditions: {
+        productIds?: string[];
+        categories?: string[];
+        /** Discount percentage at least */
+        minDiscount?: number;
+        /** First seen by this screen within N days */
+        newWithinDays?: number;
+        /** Stock quantity below (units) */
+        quantityBelow?: number;
+        inStock?: boolean;
+        tags?: string[];
+    };
 }
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { SlideshowSyncRole } from './slideshow-config.interface';
+
+/**
+ * Synchronized playback models
+ *
+ * Screens exchange small JSON messages through a pluggable SyncTransport.
+ * Times are sent as durations (elapsed / remaining ms), never as wall-clock
+ * timestamps, so screens with unsynchronized clocks still align.
+ */
+
+/**
+ * Leader playback state
+ */
+export interface SyncPlaybackState {
+    /** Slide on the leader's screen */
+    slideIndex: number;
+
+    /** Number of slides on the leader (followers with fewer slides wrap around) */
+    slideCount: number;
+
+    /** Time since the current slide appeared (ms, at send time) */
+    elapsedMs: number;
+
+    /** Duration of the current slide (ms) */
+    durationMs: number;
+
+    /** Leader is paused (remote / user interaction) */
+    paused: boolean;
+}
+
+/**
+ * Message on the sync channel
+ * - state: leader playback state (on every slide change + heartbeat)
+ * - hello: a screen joined and asks the leader for the current state
+ * - bye: a screen is leaving (followers stop waiting for this leader)
+ */
+export type SyncMessage =
+    | { type: 'state'; groupId: string; senderId: string; role: SlideshowSyncRole; state: SyncPlaybackState }
+    | { type: 'hello'; groupId: string; senderId: string; role: SlideshowSyncRole }
+    | { type: 'bye'; groupId: string; senderId: string; role: SlideshowSyncRole };
+
+/**
+ * Connection status shown in the debug overlay / admin
+ */
+export type SyncConnectionStatus = 'disabled' | 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * Pluggable message transport
+ * Defaults: BroadcastChannel (same machine) and WebSocket relay (separate devices);
+ * replace via SYNC_TRANSPORT_FACTORY
+ */
+export interface SyncTransport {
+    /** Transport name for logging */
+    readonly name: string;
+
+    /**
+     * Open the channel
+     * @param onMessage - Called for every message from other screens
+     * @param onStatus - Connection status changes
+     */
+    connect(onMessage: (message: SyncMessage) => void, onStatus: (status: SyncConnectionStatus) => void): void;
+
+    /** Send message to the other screens (dropped while disconnected) */
+    send(message: SyncMessage): void;
+
+    /** Close the channel */
+    disconnect(): void;
+}
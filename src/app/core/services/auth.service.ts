@@ -36,6 +36,7 @@ export class AuthService {
         isAuthenticated: false,
         token: null,
         tokenExpiration: null,
+        shopDomain: null,
         user: null
     };
 
@@ -47,6 +48,7 @@ export class AuthService {
     readonly isAuthenticated = computed(() => this.authState().isAuthenticated);
     readonly currentUser = computed(() => this.authState().user);
     readonly token = computed(() => this.authState().token);
+    readonly shopDomain = computed(() => this.authState().shopDomain);
 
     constructor() {
         console.log('🔐 AuthService initialized');
@@ -112,6 +114,7 @@ export class AuthService {
                 ...current,
                 token: stored.token,
                 tokenExpiration: stored.expiration,
+                shopDomain: stored.shopDomain,
                 isAuthenticated: true
             }));
             return stored.token;
@@ -237,6 +240,7 @@ export class AuthService {
             isAuthenticated: true,
             token: response.token,
             tokenExpiration: expiration,
+            shopDomain: response.shop_domain || null,
             user: {
                 email: credentials.email,
                 username: credentials.username
@@ -244,7 +248,7 @@ export class AuthService {
         });
 
         // Save token to localStorage
-        this.saveToken(response.token, expiration);
+        this.saveToken(response.token, expiration, response.shop_domain || null);
 
         console.log('✅ Login successful, token expires at:', expiration.toISOString());
     }
@@ -271,20 +275,21 @@ export class AuthService {
     /**
      * Save token to localStorage
      */
-    private saveToken(token: string, expiration: Date): void {
+    private saveToken(token: string, expiration: Date, shopDomain: string | null): void {
         const storage = this.document.defaultView?.localStorage;
         if (!storage) return;
 
         storage.setItem(environment.auth.tokenKey, JSON.stringify({
             token,
-            expiration: expiration.toISOString()
+            expiration: expiration.toISOString(),
+            shopDomain
         }));
     }
 
     /**
      * Get stored token from localStorage
      */
-    private getStoredToken(): { token: string; expiration: Date } | null {
+    private getStoredToken(): { token: string; expiration: Date; shopDomain: string | null } | null {
         const storage = this.document.defaultView?.localStorage;
         if (!storage) return null;
 
@@ -295,7 +300,8 @@ export class AuthService {
             const parsed = JSON.parse(stored);
             return {
                 token: parsed.token,
-                expiration: new Date(parsed.expiration)
+                expiration: new Date(parsed.expiration),
+                shopDomain: parsed.shopDomain ?? null
             };
         } catch (error) {
             console.error('❌ Failed to parse stored token:', error);
@@ -326,6 +332,7 @@ export class AuthService {
             isAuthenticated: true,
             token: stored.token,
             tokenExpiration: stored.expiration,
+            shopDomain: stored.shopDomain,
             user: credentials ? {
                 email: credentials.email,
                 username: credentials.username
@@ -3,6 +3,19 @@ import { Injectable, inject, signal, computed, DOCUMENT } from '@angular/core';
 import { Observable, BehaviorSubject, throwError, of, Subject } from 'rxjs';
 import { catchError, tap } from 'rxjs/operators';
 
+import { parseScheduleTime } from '@core/utils/schedule.utils';
+import { DEFAULT_WIDGET_SETTINGS } from '@core/utils/widget.utils';
+import { DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS } from '@core/utils/remote-control.utils';
+import { DEFAULT_LAYOUT_SETTINGS, isZoneInBounds } from '@core/utils/layout.utils';
+import { DEFAULT_SYNC_SETTINGS } from '@core/utils/sync.utils';
+import { DEFAULT_QR_CODE_SETTINGS, MAX_QR_CODE_SIZE, MIN_QR_CODE_SIZE } from '@core/utils/product-qr.utils';
+import { MIN_UPDATE_CHECK_INTERVAL } from '@core/utils/content-update.utils';
+import { DEFAULT_PRICING_SETTINGS, PRODUCT_PRICE_FIELDS } from '@core/utils/price-list.utils';
+import { DEFAULT_STOCK_SETTINGS } from '@core/utils/stock-policy.utils';
+import { DEFAULT_BADGE_SETTINGS, MAX_BADGES_PER_PRODUCT } from '@core/utils/badge-rules.utils';
+import { cleanProductOverride } from '@core/utils/product-overrides.utils';
+import { DEFAULT_LANGUAGE_SETTINGS, MIN_ALTERNATE_INTERVAL } from '@core/utils/product-language.utils';
+import { isEmergencyTitleMissing } from '@core/utils/emergency.utils';
 import {
     SlideshowConfig,
     SlideshowGeneralSettings,
@@ -12,6 +25,18 @@ import {
     SlideshowTvSettings,
     SlideshowAutoUpdateSettings,
     SlideshowConfigMetadata,
+    SlideshowScheduleSettings,
+    SlideshowPlaylistSettings,
+    SlideshowTickerSettings,
+    SlideshowWidgetSettings,
+    SlideshowEmergencySettings,
+    SlideshowLayoutSettings,
+    SlideshowSyncSettings,
+    SlideshowQrCodeSettings,
+    SlideshowBadgeSettings,
+    SlideshowLanguageSettings,
+    ProductOverride,
+    DisplayRotation,
     ValidationResult,
     ValidationError,
     ValidationWarning
@@ -73,7 +98,9 @@ export class ConfigService {
                 randomizeOnLoop: false
             },
             maxProducts: 10,
-            minProducts: 1
+            minProducts: 1,
+            pricing: { ...DEFAULT_PRICING_SETTINGS },
+            stock: { ...DEFAULT_STOCK_SETTINGS }
         },
 
         templates: {
@@ -81,7 +108,11 @@ export class ConfigService {
             selectedTemplateId: 'classic',
             rotationOrder: [],
             randomWeights: {},
-            productTemplateRules: [],
+            rotationScope: 'slide',
+            productTemplateRules: [
+                { name: 'Промоции', conditions: { hasDiscount: true }, templateId: 'bold', priority: 100 },
+                { name: 'Лаптопи', conditions: { categories: ['laptops'] }, templateId: 'modern', priority: 50 }
+            ],
             allowFallback: true,
             fallbackTemplateId: 'classic'
         },
@@ -98,6 +129,7 @@ export class ConfigService {
                 isNewProduct: 25000,
                 isPremiumCategory: 30000
             },
+            premiumCategories: [],
             validation: {
                 minSlideDuration: 10000,
                 maxSlideDuration: 60000,
@@ -117,6 +149,7 @@ export class ConfigService {
                     left: 50
                 }
             },
+            rotation: 0,
             performance: {
                 hardwareAcceleration: true,
                 imagePreloading: 'next',
@@ -126,12 +159,7 @@ export class ConfigService {
             },
             remoteControl: {
                 enabled: true,
-                keyMappings: {
-                    nextSlide: ['ArrowRight', 'PageDown'],
-                    previousSlide: ['ArrowLeft', 'PageUp'],
-                    pauseResume: ['Space', 'Pause'],
-                    restart: ['Home', 'R']
-                }
+                keyMappings: DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS
             },
             screenSaver: {
                 preventActivation: true,
@@ -159,6 +187,48 @@ export class ConfigService {
             }
         },
 
+        schedule: {
+            enabled: false,
+            entries: []
+        },
+
+        playlist: {
+            enabled: false,
+            items: []
+        },
+
+        ticker: {
+            enabled: false,
+            position: 'bottom',
+            speed: 80,
+            pageDuration: 6,
+            backgroundColor: '#1a237e',
+            textColor: '#ffffff',
+            fontSize: 28,
+            separator: '•',
+            items: []
+        },
+
+        widgets: DEFAULT_WIDGET_SETTINGS,
+
+        emergency: {
+            active: false,
+            title: 'Временно затворено',
+            message: 'Извиняваме се за неудобството.',
+            backgroundColor: '#b71c1c',
+            textColor: '#ffffff'
+        },
+
+        layout: DEFAULT_LAYOUT_SETTINGS,
+
+        sync: DEFAULT_SYNC_SETTINGS,
+
+        qrCode: DEFAULT_QR_CODE_SETTINGS,
+
+        badges: DEFAULT_BADGE_SETTINGS,
+
+        language: DEFAULT_LANGUAGE_SETTINGS,
+
         metadata: {
             createdBy: 'system',
             createdAt: new Date(),
@@ -443,6 +513,28 @@ export class ConfigService {
         return this.saveConfig(updatedConfig);
     }
 
+    /**
+     * Set (or reset with null) the local override of one product
+     * Moves the legacy imageOverrides entry of the product into the override.
+     */
+    updateProductOverride(productId: string, override: ProductOverride | null): Observable<SlideshowConfig> {
+        console.log(`✏️ ConfigService.updateProductOverride(${productId})`);
+        const currentConfig = this.configSignal();
+        const { [productId]: _previous, ...overrides } = currentConfig.products.overrides ?? {};
+        const { [productId]: _legacyImage, ...imageOverrides } = currentConfig.products.imageOverrides ?? {};
+        const cleaned = cleanProductOverride(override);
+
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            products: {
+                ...currentConfig.products,
+                overrides: cleaned ? { ...overrides, [productId]: cleaned } : overrides,
+                imageOverrides
+            }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
     updateTemplateSettings(settings: Partial<SlideshowTemplateSettings>): Observable<SlideshowConfig> {
         console.log('🎨 ConfigService.updateTemplateSettings()');
         const currentConfig = this.configSignal();
@@ -463,6 +555,181 @@ export class ConfigService {
         return this.saveConfig(updatedConfig);
     }
 
+    updateScheduleSettings(settings: Partial<SlideshowScheduleSettings>): Observable<SlideshowConfig> {
+        console.log('🗓️ ConfigService.updateScheduleSettings()');
+        const currentConfig = this.configSignal();
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            schedule: { enabled: false, entries: [], ...currentConfig.schedule, ...settings }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
+    updatePlaylistSettings(settings: Partial<SlideshowPlaylistSettings>): Observable<SlideshowConfig> {
+        console.log('🎞️ ConfigService.updatePlaylistSettings()');
+        const currentConfig = this.configSignal();
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            playlist: { enabled: false, items: [], ...currentConfig.playlist, ...settings }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
+    updateTickerSettings(settings: Partial<SlideshowTickerSettings>): Observable<SlideshowConfig> {
+        console.log('📰 ConfigService.updateTickerSettings()');
+        const currentConfig = this.configSignal();
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            ticker: { ...this.defaultConfig.ticker!, ...currentConfig.ticker, ...settings }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
+    updateWidgetSettings(settings: Partial<SlideshowWidgetSettings>): Observable<SlideshowConfig> {
+        console.log('🕒 ConfigService.updateWidgetSettings()');
+        const currentConfig = this.configSignal();
+        const current = currentConfig.widgets ?? DEFAULT_WIDGET_SETTINGS;
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            widgets: {
+                clock: { ...current.clock, ...settings.clock },
+                date: { ...current.date, ...settings.date },
+                discountCountdown: { ...current.discountCountdown, ...settings.discountCountdown },
+                style: { ...current.style, ...settings.style }
+            }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
+    updateEmergencySettings(settings: Partial<SlideshowEmergencySettings>): Observable<SlideshowConfig> {
+        console.log(`🚨 ConfigService.updateEmergencySettings()${settings.active !== undefined ? ` - active: ${settings.active}` : ''}`);
+        const currentConfig = this.configSignal();
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            emergency: { ...this.defaultConfig.emergency!, ...currentConfig.emergency, ...settings }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
+    /**
+     * Update multi-zone layout settings
+     */
+    updateLayoutSettings(settings: Partial<SlideshowLayoutSettings>): Observable<SlideshowConfig> {
+        console.log(`🧩 ConfigService.updateLayoutSettings()${settings.zones ? ` - ${settings.zones.length} zones` : ''}`);
+        const currentConfig = this.configSignal();
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            layout: { ...this.defaultConfig.layout!, ...currentConfig.layout, ...settings }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
+    /**
+     * Update synchronized playback settings
+     */
+    updateSyncSettings(settings: Partial<SlideshowSyncSettings>): Observable<SlideshowConfig> {
+        console.log(`🔗 ConfigService.updateSyncSettings()${settings.role ? ` - role: ${settings.role}` : ''}`);
+        const currentConfig = this.configSignal();
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            sync: { ...this.defaultConfig.sync!, ...currentConfig.sync, ...settings }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
+    /**
+     * Update background content update and offline settings (nested groups are merged)
+     */
+    updateAutoUpdateSettings(settings: Partial<SlideshowAutoUpdateSettings>): Observable<SlideshowConfig> {
+        console.log(`🔄 ConfigService.updateAutoUpdateSettings()${settings.enabled !== undefined ? ` - enabled: ${settings.enabled}` : ''}`);
+        const currentConfig = this.configSignal();
+        const current = { ...this.defaultConfig.autoUpdate, ...currentConfig.autoUpdate };
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            autoUpdate: {
+                ...current,
+                ...settings,
+                sources: { ...current.sources, ...settings.sources },
+                behavior: { ...current.behavior, ...settings.behavior },
+                offline: { ...current.offline, ...settings.offline }
+            }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
+    /**
+     * Update product QR code settings (link pattern and per-template placement)
+     */
+    updateQrCodeSettings(settings: Partial<SlideshowQrCodeSettings>): Observable<SlideshowConfig> {
+        console.log('🔳 ConfigService.updateQrCodeSettings()');
+        const currentConfig = this.configSignal();
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            qrCode: { ...this.defaultConfig.qrCode!, ...currentConfig.qrCode, ...settings }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
+    /**
+     * Update product badge rules and per-template badge limits
+     */
+    updateBadgeSettings(settings: Partial<SlideshowBadgeSettings>): Observable<SlideshowConfig> {
+        console.log('🏷️ ConfigService.updateBadgeSettings()');
+        const currentConfig = this.configSignal();
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            badges: { ...this.defaultConfig.badges!, ...currentConfig.badges, ...settings }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
+    /**
+     * Update bilingual product text display
+     */
+    updateLanguageSettings(settings: Partial<SlideshowLanguageSettings>): Observable<SlideshowConfig> {
+        console.log('🌐 ConfigService.updateLanguageSettings()');
+        const currentConfig = this.configSignal();
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            language: { ...this.defaultConfig.language!, ...currentConfig.language, ...settings }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
+    /**
+     * Update stage rotation (portrait / upside-down mounted screens)
+     */
+    updateDisplayRotation(rotation: DisplayRotation): Observable<SlideshowConfig> {
+        console.log(`🔄 ConfigService.updateDisplayRotation(${rotation})`);
+        const currentConfig = this.configSignal();
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            tvOptimizations: { ...currentConfig.tvOptimizations, rotation }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
+    /**
+     * Update TV remote control settings (enabled flag and key mappings)
+     */
+    updateRemoteControlSettings(settings: Partial<SlideshowTvSettings['remoteControl']>): Observable<SlideshowConfig> {
+        console.log('🎮 ConfigService.updateRemoteControlSettings()');
+        const currentConfig = this.configSignal();
+        const currentRemoteControl = currentConfig.tvOptimizations.remoteControl;
+        const updatedConfig: SlideshowConfig = {
+            ...currentConfig,
+            tvOptimizations: {
+                ...currentConfig.tvOptimizations,
+                remoteControl: {
+                    ...currentRemoteControl,
+                    ...settings,
+                    keyMappings: { ...currentRemoteControl.keyMappings, ...settings.keyMappings }
+                }
+            }
+        };
+        return this.saveConfig(updatedConfig);
+    }
+
     /**
      * Reset configuration to defaults
      */
@@ -566,6 +833,27 @@ export class ConfigService {
             });
         }
 
+        const { minTransitionDuration, maxTransitionDuration } = config.timing.validation;
+        if (config.timing.transitionType !== 'none' &&
+            (config.timing.transitionDuration < minTransitionDuration || config.timing.transitionDuration > maxTransitionDuration)) {
+            errors.push({
+                field: 'timing.transitionDuration',
+                message: `Transition duration must be between ${minTransitionDuration}ms and ${maxTransitionDuration}ms`,
+                code: 'TRANSITION_DURATION_INVALID'
+            });
+        }
+
+        Object.entries(config.timing.durationOverrides ?? {}).forEach(([key, duration]) => {
+            if (typeof duration === 'number' &&
+                (duration < config.timing.validation.minSlideDuration || duration > config.timing.validation.maxSlideDuration)) {
+                warnings.push({
+                    field: `timing.durationOverrides.${key}`,
+                    message: `Duration override ${duration}ms is outside the allowed range and will be clamped`,
+                    suggestion: `Use a value between ${config.timing.validation.minSlideDuration}ms and ${config.timing.validation.maxSlideDuration}ms`
+                });
+            }
+        });
+
         // Validate product settings
         if (config.products.minProducts < 1) {
             errors.push({
@@ -575,6 +863,96 @@ export class ConfigService {
             });
         }
 
+        if (config.products.maxProducts && config.products.maxProducts < config.products.minProducts) {
+            errors.push({
+                field: 'products.maxProducts',
+                message: 'Maximum products must not be less than minimum products',
+                code: 'MAX_PRODUCTS_BELOW_MIN'
+            });
+        }
+
+        const { minPrice, maxPrice } = config.products.filters ?? {};
+        if (minPrice != null && maxPrice != null && minPrice > maxPrice) {
+            errors.push({
+                field: 'products.filters.minPrice',
+                message: 'Minimum price filter is greater than maximum price filter',
+                code: 'PRICE_FILTER_RANGE_INVALID'
+            });
+        }
+
+        const pricing = config.products.pricing;
+        if (pricing) {
+            if (!PRODUCT_PRICE_FIELDS.includes(pricing.displayPrice)) {
+                errors.push({
+                    field: 'products.pricing.displayPrice',
+                    message: `Unknown display price list "${pricing.displayPrice}"`,
+                    code: 'PRICING_DISPLAY_PRICE_INVALID'
+                });
+            }
+
+            if (pricing.comparePrice && !PRODUCT_PRICE_FIELDS.includes(pricing.comparePrice)) {
+                errors.push({
+                    field: 'products.pricing.comparePrice',
+                    message: `Unknown compare price list "${pricing.comparePrice}"`,
+                    code: 'PRICING_COMPARE_PRICE_INVALID'
+                });
+            }
+
+            if (pricing.comparePrice === pricing.displayPrice) {
+                warnings.push({
+                    field: 'products.pricing.comparePrice',
+                    message: 'Display and compare price use the same price list - no discounts will be shown',
+                    suggestion: 'Choose a different "was" price list or disable discounts'
+                });
+            }
+        }
+
+        const stock = config.products.stock;
+        if (stock?.enabled) {
+            if (!(stock.inStockThreshold >= 0)) {
+                errors.push({
+                    field: 'products.stock.inStockThreshold',
+                    message: 'In stock threshold must be 0 or more',
+                    code: 'STOCK_THRESHOLD_INVALID'
+                });
+            }
+
+            if (stock.lowStockThreshold !== null && stock.lowStockThreshold <= stock.inStockThreshold) {
+                warnings.push({
+                    field: 'products.stock.lowStockThreshold',
+                    message: 'Low stock threshold is not above the in stock threshold - the low stock badge is never shown',
+                    suggestion: `Set the low stock threshold above ${stock.inStockThreshold}`
+                });
+            }
+
+            if (stock.soldOutBehavior === 'overlay' && !stock.soldOutText?.trim()) {
+                errors.push({
+                    field: 'products.stock.soldOutText',
+                    message: 'Sold out overlay text is required',
+                    code: 'STOCK_SOLD_OUT_TEXT_REQUIRED'
+                });
+            }
+        }
+
+        // Validate local product overrides
+        Object.entries(config.products.overrides ?? {}).forEach(([productId, override]) => {
+            if (override.name !== undefined && !override.name.trim()) {
+                errors.push({
+                    field: `products.overrides.${productId}.name`,
+                    message: `Product override "${productId}" has an empty name`,
+                    code: 'PRODUCT_OVERRIDE_NAME_EMPTY'
+                });
+            }
+
+            if (override.name && override.name.length > 50) {
+                warnings.push({
+                    field: `products.overrides.${productId}.name`,
+                    message: `Product name "${override.name}" is longer than 50 characters`,
+                    suggestion: 'Use a shorter name - long names are cut on TV templates'
+                });
+            }
+        });
+
         if (config.products.maxProducts && config.products.maxProducts > 50) {
             warnings.push({
                 field: 'products.maxProducts',
@@ -583,6 +961,319 @@ export class ConfigService {
             });
         }
 
+        // Validate schedule entries
+        config.schedule?.entries?.forEach((entry, index) => {
+            if (entry.timeRange &&
+                (parseScheduleTime(entry.timeRange.start) === null || parseScheduleTime(entry.timeRange.end) === null)) {
+                errors.push({
+                    field: `schedule.entries[${index}].timeRange`,
+                    message: `Schedule entry "${entry.name}" has invalid time range (expected HH:mm)`,
+                    code: 'SCHEDULE_TIME_INVALID'
+                });
+            }
+
+            if (entry.dateRange?.from && entry.dateRange?.to && entry.dateRange.from > entry.dateRange.to) {
+                errors.push({
+                    field: `schedule.entries[${index}].dateRange`,
+                    message: `Schedule entry "${entry.name}" ends before it starts`,
+                    code: 'SCHEDULE_DATE_RANGE_INVALID'
+                });
+            }
+        });
+
+        // Validate product template rules
+        config.templates.productTemplateRules?.forEach((rule, index) => {
+            const { min, max } = rule.conditions?.priceRange ?? {};
+            if (min != null && max != null && min > max) {
+                errors.push({
+                    field: `templates.productTemplateRules[${index}].conditions.priceRange`,
+                    message: `Template rule "${rule.name}" has min price greater than max price`,
+                    code: 'TEMPLATE_RULE_PRICE_RANGE_INVALID'
+                });
+            }
+
+            if (!rule.templateId) {
+                errors.push({
+                    field: `templates.productTemplateRules[${index}].templateId`,
+                    message: `Template rule "${rule.name}" has no template`,
+                    code: 'TEMPLATE_RULE_TEMPLATE_MISSING'
+                });
+            }
+        });
+
+        // Validate playlist items
+        config.playlist?.items.forEach((item, index) => {
+            if (item.type === 'image' && !item.imageUrl) {
+                errors.push({
+                    field: `playlist.items[${index}].imageUrl`,
+                    message: `Playlist item "${item.name}" has no image`,
+                    code: 'PLAYLIST_IMAGE_URL_MISSING'
+                });
+            }
+
+            if (item.type === 'video' && !item.videoUrl) {
+                errors.push({
+                    field: `playlist.items[${index}].videoUrl`,
+                    message: `Playlist item "${item.name}" has no video`,
+                    code: 'PLAYLIST_VIDEO_URL_MISSING'
+                });
+            }
+
+            if (item.type === 'video' && item.lowPerformanceMode === 'poster' && !item.posterUrl) {
+                warnings.push({
+                    field: `playlist.items[${index}].posterUrl`,
+                    message: `Video "${item.name}" has no poster - it will be skipped on low performance TVs`,
+                    suggestion: 'Add a poster image for low performance TVs'
+                });
+            }
+
+            if (item.type === 'announcement' && !item.title?.trim()) {
+                errors.push({
+                    field: `playlist.items[${index}].title`,
+                    message: `Playlist announcement "${item.name}" has no title`,
+                    code: 'PLAYLIST_ANNOUNCEMENT_TITLE_MISSING'
+                });
+            }
+        });
+
+        if (config.playlist?.enabled && !config.playlist.items.some(item => item.enabled)) {
+            warnings.push({
+                field: 'playlist.items',
+                message: 'Playlist is enabled but has no active items',
+                suggestion: 'Add items or disable the playlist to show all products'
+            });
+        }
+
+        // Validate news ticker
+        if (config.ticker) {
+            if (config.ticker.speed < 10 || config.ticker.speed > 500) {
+                errors.push({
+                    field: 'ticker.speed',
+                    message: 'Ticker speed must be between 10 and 500 px/s',
+                    code: 'TICKER_SPEED_INVALID'
+                });
+            }
+
+            config.ticker.items.forEach((item, index) => {
+                if (item.dateRange?.from && item.dateRange?.to && item.dateRange.from > item.dateRange.to) {
+                    errors.push({
+                        field: `ticker.items[${index}].dateRange`,
+                        message: `Ticker item "${item.text}" ends before it starts`,
+                        code: 'TICKER_DATE_RANGE_INVALID'
+                    });
+                }
+            });
+
+            if (config.ticker.enabled && !config.ticker.items.some(item => item.enabled && item.text.trim())) {
+                warnings.push({
+                    field: 'ticker.items',
+                    message: 'News ticker is enabled but has no active messages',
+                    suggestion: 'Add messages or disable the ticker'
+                });
+            }
+        }
+
+        // Validate overlay widgets
+        if (config.widgets) {
+            if (config.widgets.style.fontSize < 12 || config.widgets.style.fontSize > 120) {
+                errors.push({
+                    field: 'widgets.style.fontSize',
+                    message: 'Widget font size must be between 12 and 120 px',
+                    code: 'WIDGET_FONT_SIZE_INVALID'
+                });
+            }
+
+            if (config.widgets.discountCountdown.maxDays < 0) {
+                errors.push({
+                    field: 'widgets.discountCountdown.maxDays',
+                    message: 'Countdown max days cannot be negative',
+                    code: 'WIDGET_COUNTDOWN_MAX_DAYS_INVALID'
+                });
+            }
+
+            const campaignEnd = config.widgets.discountCountdown.campaignEnd;
+            if (campaignEnd && isNaN(new Date(campaignEnd).getTime())) {
+                errors.push({
+                    field: 'widgets.discountCountdown.campaignEnd',
+                    message: 'Countdown campaign end must be a valid date',
+                    code: 'WIDGET_COUNTDOWN_CAMPAIGN_END_INVALID'
+                });
+            }
+        }
+
+        // Validate multi-zone layout
+        if (config.layout?.enabled) {
+            const carouselZones = config.layout.zones.filter(zone => zone.content === 'carousel');
+            if (carouselZones.length !== 1) {
+                errors.push({
+                    field: 'layout.zones',
+                    message: 'Layout must have exactly one main carousel zone',
+                    code: 'LAYOUT_CAROUSEL_ZONE_INVALID'
+                });
+            }
+
+            config.layout.zones.forEach((zone, index) => {
+                if (!isZoneInBounds(zone)) {
+                    errors.push({
+                        field: `layout.zones[${index}]`,
+                        message: `Zone "${zone.name}" must fit inside the screen (0-100%, min 5%)`,
+                        code: 'LAYOUT_ZONE_OUT_OF_BOUNDS'
+                    });
+                }
+
+                if (zone.content === 'products' && zone.slideDuration !== undefined && zone.slideDuration < 1) {
+                    errors.push({
+                        field: `layout.zones[${index}].slideDuration`,
+                        message: `Zone "${zone.name}" slide duration must be at least 1 second`,
+                        code: 'LAYOUT_ZONE_DURATION_INVALID'
+                    });
+                }
+
+                if (zone.content === 'image' && !zone.imageUrl) {
+                    warnings.push({
+                        field: `layout.zones[${index}].imageUrl`,
+                        message: `Image zone "${zone.name}" has no image`,
+                        suggestion: 'Select an image from the media library'
+                    });
+                }
+
+                if (zone.content === 'ticker' && !config.ticker?.enabled) {
+                    warnings.push({
+                        field: `layout.zones[${index}]`,
+                        message: `Ticker zone "${zone.name}" stays empty while the news ticker is disabled`,
+                        suggestion: 'Enable the news ticker'
+                    });
+                }
+            });
+        }
+
+        // Validate synchronized playback
+        if (config.sync?.enabled) {
+            if (!config.sync.groupId?.trim()) {
+                errors.push({
+                    field: 'sync.groupId',
+                    message: 'Synchronized playback requires a group ID',
+                    code: 'SYNC_GROUP_MISSING'
+                });
+            }
+
+            if (config.sync.transport === 'websocket' && !/^wss?:\/\/.+/.test(config.sync.serverUrl ?? '')) {
+                errors.push({
+                    field: 'sync.serverUrl',
+                    message: 'WebSocket sync requires a ws:// or wss:// server URL',
+                    code: 'SYNC_SERVER_URL_INVALID'
+                });
+            }
+
+            if (!Number.isInteger(config.sync.slideOffset) || config.sync.slideOffset < 0) {
+                errors.push({
+                    field: 'sync.slideOffset',
+                    message: 'Slide offset must be a whole number (0 or more)',
+                    code: 'SYNC_OFFSET_INVALID'
+                });
+            }
+
+            if (config.sync.role === 'leader' && config.sync.slideOffset > 0) {
+                warnings.push({
+                    field: 'sync.slideOffset',
+                    message: 'Slide offset only applies to followers',
+                    suggestion: 'Set the offset on follower screens (e.g. ?syncOffset=1)'
+                });
+            }
+        }
+
+        // Validate product QR codes
+        if (config.qrCode?.enabled) {
+            if (!config.qrCode.urlPattern?.trim()) {
+                errors.push({
+                    field: 'qrCode.urlPattern',
+                    message: 'QR code link pattern is required',
+                    code: 'QR_URL_PATTERN_MISSING'
+                });
+            } else if (!/^https?:\/\//.test(config.qrCode.urlPattern.replace('{domain}', 'domain'))) {
+                warnings.push({
+                    field: 'qrCode.urlPattern',
+                    message: 'QR code link does not start with http:// or https://',
+                    suggestion: 'Phones open only full links, e.g. https://{domain}/product/{id}'
+                });
+            }
+
+            Object.entries(config.qrCode.templates).forEach(([templateId, placement]) => {
+                if (placement.size < MIN_QR_CODE_SIZE || placement.size > MAX_QR_CODE_SIZE) {
+                    errors.push({
+                        field: `qrCode.templates.${templateId}.size`,
+                        message: `QR code size must be between ${MIN_QR_CODE_SIZE}% and ${MAX_QR_CODE_SIZE}%`,
+                        code: 'QR_SIZE_OUT_OF_RANGE'
+                    });
+                }
+            });
+        }
+
+        // Validate product badge rules
+        if (config.badges?.enabled) {
+            config.badges.rules.forEach((rule, index) => {
+                if (rule.enabled && !rule.text?.trim()) {
+                    errors.push({
+                        field: `badges.rules[${index}].text`,
+                        message: `Badge rule "${rule.name}" has no text`,
+                        code: 'BADGE_TEXT_MISSING'
+                    });
+                }
+
+                if (rule.conditions.newWithinDays != null && rule.conditions.newWithinDays <= 0) {
+                    errors.push({
+                        field: `badges.rules[${index}].conditions.newWithinDays`,
+                        message: `Badge rule "${rule.name}": "new within" days must be greater than 0`,
+                        code: 'BADGE_NEW_DAYS_INVALID'
+                    });
+                }
+            });
+
+            const limits = [config.badges.defaultMaxBadges, ...Object.values(config.badges.templateLimits ?? {})];
+            if (limits.some(limit => limit < 0 || limit > MAX_BADGES_PER_PRODUCT)) {
+                errors.push({
+                    field: 'badges.templateLimits',
+                    message: `Badge limit must be between 0 and ${MAX_BADGES_PER_PRODUCT}`,
+                    code: 'BADGE_LIMIT_OUT_OF_RANGE'
+                });
+            }
+        }
+
+        // Validate bilingual display
+        if (config.language?.mode === 'alternate' && config.language.alternateInterval < MIN_ALTERNATE_INTERVAL) {
+            warnings.push({
+                field: 'language.alternateInterval',
+                message: `Language switch interval below ${MIN_ALTERNATE_INTERVAL}s is not readable on TV`,
+                suggestion: `Use at least ${MIN_ALTERNATE_INTERVAL} seconds (shorter values are raised automatically)`
+            });
+        }
+
+        // Validate background content updates
+        if (config.autoUpdate?.enabled && config.autoUpdate.checkInterval < MIN_UPDATE_CHECK_INTERVAL) {
+            warnings.push({
+                field: 'autoUpdate.checkInterval',
+                message: `Update check interval is below ${MIN_UPDATE_CHECK_INTERVAL / 1000} seconds`,
+                suggestion: 'Shorter intervals are raised to 1 minute to protect the stock API'
+            });
+        }
+
+        if (config.autoUpdate?.offline && config.autoUpdate.offline.cacheDuration <= 0) {
+            errors.push({
+                field: 'autoUpdate.offline.cacheDuration',
+                message: 'Offline cache duration must be greater than 0',
+                code: 'OFFLINE_CACHE_DURATION_INVALID'
+            });
+        }
+
+        // Validate emergency takeover
+        if (isEmergencyTitleMissing(config.emergency)) {
+            errors.push({
+                field: 'emergency.title',
+                message: 'Emergency message requires a title',
+                code: 'EMERGENCY_TITLE_MISSING'
+            });
+        }
+
         // Validate TV optimizations
         if (!config.tvOptimizations.safeArea.enabled) {
             warnings.push({
@@ -592,6 +1283,42 @@ export class ConfigService {
             });
         }
 
+        const rotation = config.tvOptimizations.rotation;
+        if (rotation !== undefined && ![0, 90, 180, 270].includes(rotation)) {
+            errors.push({
+                field: 'tvOptimizations.rotation',
+                message: 'Display rotation must be 0, 90, 180 or 270 degrees',
+                code: 'DISPLAY_ROTATION_INVALID'
+            });
+        }
+
+        // Validate remote control key mappings - one key must trigger one action
+        const keyMappings = config.tvOptimizations.remoteControl?.keyMappings;
+        if (keyMappings) {
+            const keyOwners = new Map<string, string>();
+            for (const [action, keys] of Object.entries(keyMappings)) {
+                for (const key of keys ?? []) {
+                    const owner = keyOwners.get(key);
+                    if (owner && owner !== action) {
+                        errors.push({
+                            field: `tvOptimizations.remoteControl.keyMappings.${action}`,
+                            message: `Key "${key}" is mapped to both ${owner} and ${action}`,
+                            code: 'REMOTE_CONTROL_KEY_CONFLICT'
+                        });
+                    }
+                    keyOwners.set(key, action);
+                }
+            }
+
+            if (config.general.emergencyStopKey && keyOwners.has(config.general.emergencyStopKey)) {
+                warnings.push({
+                    field: 'tvOptimizations.remoteControl.keyMappings',
+                    message: `Key "${config.general.emergencyStopKey}" is also the emergency stop key`,
+                    suggestion: 'Use a different key for remote navigation'
+                });
+            }
+        }
+
         return {
             isValid: errors.length === 0,
             errors,
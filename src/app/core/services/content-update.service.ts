@@ -0,0 +1,154 @@
+// src/app/core/services/content-update.service.ts
+
+import { Injectable, inject, signal } from '@angular/core';
+import { Observable, Subject, Subscription, EMPTY, timer } from 'rxjs';
+import { catchError, exhaustMap, filter, map } from 'rxjs/operators';
+
+import { ProductGroup } from '@core/models/api';
+import { SlideshowAutoUpdateSettings } from '@core/models/slideshow-config.interface';
+import { ContentUpdate, ContentUpdateStatus } from '@core/models/content-update.interface';
+import {
+    diffProductGroups,
+    diffProducts,
+    hasContentChanges,
+    isMajorContentUpdate,
+    MIN_UPDATE_CHECK_INTERVAL
+} from '@core/utils/content-update.utils';
+import { prepareSlideshowProducts } from '@core/utils/product-selection.utils';
+import { ProductApiService } from './product-api.service';
+import { OfflineContentCacheService } from './offline-content-cache.service';
+import { ScheduleService } from './schedule.service';
+
+/**
+ * Content Update Service
+ *
+ * Background updater for the stock data shown on screen.
+ *
+ * Features:
+ * - Polls getstockslite + groups every autoUpdate.checkInterval (min. 1 minute)
+ * - Compares with the products last loaded by ProductApiService (added / removed / price / other)
+ *   or, after an offline boot, with the restored offline snapshot
+ *   after the configured price lists and stock policy (quantity changes count only when they change availability)
+ * - Publishes only real changes via `updates$` - the slideshow decides how to apply them
+ * - Failed checks keep the current content (no offline snapshot / empty list swap)
+ *
+ * Only `sources.products` is polled - templates are built in and the configuration
+ * already updates live through ConfigService (storage events).
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class ContentUpdateService {
+    private readonly productApi = inject(ProductApiService);
+    private readonly offlineCache = inject(OfflineContentCacheService);
+    private readonly scheduleService = inject(ScheduleService);
+
+    private pollSubscription: Subscription | null = null;
+    private settingsKey = '';
+    private knownGroups: ProductGroup[] | null = null;
+
+    private readonly updatesSubject = new Subject<ContentUpdate>();
+
+    // Private state signals
+    private readonly statusSignal = signal<ContentUpdateStatus>('disabled');
+    private readonly lastCheckedAtSignal = signal<Date | null>(null);
+    private readonly lastUpdateSignal = signal<ContentUpdate | null>(null);
+
+    // Public readonly signals
+    readonly status = this.statusSignal.asReadonly();
+    readonly lastCheckedAt = this.lastCheckedAtSignal.asReadonly();
+    readonly lastUpdate = this.lastUpdateSignal.asReadonly();
+
+    /** Detected content changes */
+    readonly updates$ = this.updatesSubject.asObservable();
+
+    /**
+     * Start polling (restarts only when interval / sources changed, stops when disabled)
+     */
+    start(settings: SlideshowAutoUpdateSettings): void {
+        if (!settings.enabled || !settings.sources?.products) {
+            this.stop();
+            return;
+        }
+
+        const interval = Math.max(settings.checkInterval || 0, MIN_UPDATE_CHECK_INTERVAL);
+        const key = `${interval}`;
+        if (key === this.settingsKey && this.pollSubscription) return;
+
+        this.stop();
+        this.settingsKey = key;
+        this.statusSignal.set('idle');
+
+        console.log(`🔄 ContentUpdateService.start() - checking every ${Math.round(interval / 1000)}s`);
+
+        this.pollSubscription = timer(interval, interval)
+            .pipe(
+                exhaustMap(() => this.checkForUpdates()),
+                filter((update): update is ContentUpdate => update !== null)
+            )
+            .subscribe(update => {
+                this.lastUpdateSignal.set(update);
+                this.updatesSubject.next(update);
+            });
+    }
+
+    /**
+     * Stop polling
+     */
+    stop(): void {
+        if (!this.pollSubscription) return;
+
+        console.log('⏹️ ContentUpdateService.stop()');
+        this.pollSubscription.unsubscribe();
+        this.pollSubscription = null;
+        this.settingsKey = '';
+        this.statusSignal.set('disabled');
+    }
+
+    /**
+     * Fetch fresh content and diff it against the products known so far
+     * @returns The update, or null when nothing changed / the check failed
+     */
+    private checkForUpdates(): Observable<ContentUpdate | null> {
+        const productSettings = this.scheduleService.effectiveConfig().products;
+        // Offline boot: nothing loaded live yet → the snapshot on screen is the baseline
+        const knownProducts = this.productApi.getCachedProducts() ?? this.offlineCache.getRestoredProducts() ?? [];
+        const previousProducts = prepareSlideshowProducts(knownProducts, productSettings);
+        const previousGroups = this.knownGroups ?? this.offlineCache.getRestoredGroups();
+
+        this.statusSignal.set('checking');
+
+        return this.productApi.refreshFromApi().pipe(
+            map(({ products, groups }) => {
+                this.statusSignal.set('idle');
+                this.lastCheckedAtSignal.set(new Date());
+                if (groups) this.knownGroups = groups;
+
+                const productDiff = diffProducts(previousProducts, prepareSlideshowProducts(products, productSettings));
+                const groupDiff = groups && previousGroups ? diffProductGroups(previousGroups, groups) : null;
+
+                if (!hasContentChanges(productDiff, groupDiff)) {
+                    console.log('✅ ContentUpdateService: No content changes');
+                    return null;
+                }
+
+                const update: ContentUpdate = {
+                    products: productDiff,
+                    groups: groupDiff,
+                    allProducts: products,
+                    isMajor: isMajorContentUpdate(productDiff, previousProducts.length),
+                    detectedAt: new Date()
+                };
+
+                console.log(`🆕 ContentUpdateService: +${productDiff.added.length} / -${productDiff.removed.length} products, ` +
+                    `${productDiff.priceChanged.length} price changes, ${productDiff.updated.length} updated${update.isMajor ? ' (major)' : ''}`);
+                return update;
+            }),
+            catchError(error => {
+                console.warn('⚠️ ContentUpdateService: Update check failed - keeping current content', error);
+                this.statusSignal.set('error');
+                return EMPTY;
+            })
+        );
+    }
+}
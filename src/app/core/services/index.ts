@@ -4,4 +4,13 @@ export * from './template-registry.service';
 export * from './performance-monitor.service';
 export * from './auth.service';
 export * from './token-refresh.service';
-export * from './app-initialization.service';
\ No newline at end of file
+export * from './app-initialization.service';
+export * from './schedule.service';
+export * from './product-first-seen.service';
+export * from './media-storage.backend';
+export * from './media-library.service';
+export * from './playback-sync.transport';
+export * from './playback-sync.service';
+export * from './offline-content-cache.service';
+export * from './content-update.service';
+export * from './product-language.service';
\ No newline at end of file
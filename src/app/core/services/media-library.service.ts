@@ -0,0 +1,272 @@
+// src/app/core/services/media-library.service.ts
+
+import { Injectable, inject, signal, computed, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+import { UploadedFile } from '@core/models/api-response.interface';
+import { ImageFormat, UploadStatus } from '@core/models/enums';
+import { MEDIA_URL_PREFIX, MediaKind, MediaUploadTask } from '@core/models/media.interface';
+import { MEDIA_STORAGE_BACKEND } from './media-storage.backend';
+
+/** Accepted MIME types per media kind */
+const IMAGE_MIME_TYPES: Record<string, ImageFormat> = {
+    'image/jpeg': ImageFormat.JPEG,
+    'image/png': ImageFormat.PNG,
+    'image/webp': ImageFormat.WEBP,
+    'image/svg+xml': ImageFormat.SVG,
+    'image/gif': ImageFormat.GIF
+};
+const VIDEO_MIME_TYPES = ['video/mp4', 'video/webm'];
+
+/** Size limits (bytes) - IndexedDB quota on TVs is limited */
+const MAX_IMAGE_SIZE = 20 * 1024 * 1024;
+const MAX_VIDEO_SIZE = 200 * 1024 * 1024;
+
+/**
+ * Media Library Service
+ *
+ * Uploads images / videos through the configured MediaStorageBackend
+ * (IndexedDB by default) and resolves `media://<id>` references to playable URLs.
+ *
+ * Features:
+ * - Upload queue with UploadStatus progress
+ * - Type / size validation (ImageFormat images, mp4/webm videos)
+ * - Image dimensions and video duration in UploadedFile.metadata
+ * - Synchronous resolveUrl() for templates (signal based)
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class MediaLibraryService {
+    private readonly backend = inject(MEDIA_STORAGE_BACKEND);
+    private readonly platformId = inject(PLATFORM_ID);
+
+    // Private state signals
+    private readonly filesSignal = signal<UploadedFile[]>([]);
+    private readonly uploadsSignal = signal<MediaUploadTask[]>([]);
+    private readonly playbackUrlsSignal = signal<Record<string, string>>({});
+    private readonly isLoadingSignal = signal<boolean>(false);
+
+    // Public readonly signals
+    readonly files = this.filesSignal.asReadonly();
+    readonly uploads = this.uploadsSignal.asReadonly();
+    readonly isLoading = this.isLoadingSignal.asReadonly();
+
+    readonly images = computed(() => this.filesSignal().filter(file => this.getKind(file) === 'image'));
+    readonly videos = computed(() => this.filesSignal().filter(file => this.getKind(file) === 'video'));
+
+    readonly hasActiveUploads = computed(() =>
+        this.uploadsSignal().some(task => task.status !== UploadStatus.COMPLETED && task.status !== UploadStatus.FAILED)
+    );
+
+    constructor() {
+        if (isPlatformBrowser(this.platformId)) {
+            void this.loadLibrary();
+        }
+    }
+
+    /**
+     * Load stored files and their playback URLs
+     */
+    async loadLibrary(): Promise<void> {
+        console.log(`🗂️ MediaLibraryService.loadLibrary() - backend: ${this.backend.name}`);
+        this.isLoadingSignal.set(true);
+
+        try {
+            const files = await this.backend.list();
+            this.filesSignal.set(files);
+            await Promise.all(files.map(file => this.loadPlaybackUrl(file)));
+            console.log(`✅ Media library loaded: ${files.length} files`);
+        } catch (error) {
+            console.error('❌ Failed to load media library:', error);
+        } finally {
+            this.isLoadingSignal.set(false);
+        }
+    }
+
+    /**
+     * Upload several files sequentially (one at a time - TVs / low-end PCs)
+     */
+    async uploadFiles(files: FileList | File[]): Promise<UploadedFile[]> {
+        const uploaded: UploadedFile[] = [];
+        for (const file of Array.from(files)) {
+            const result = await this.upload(file);
+            if (result) uploaded.push(result);
+        }
+        return uploaded;
+    }
+
+    /**
+     * Upload single file
+     * @returns Stored file or null on failure (details in uploads())
+     */
+    async upload(file: File): Promise<UploadedFile | null> {
+        const task: MediaUploadTask = {
+            id: `upload-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+            fileName: file.name,
+            size: file.size,
+            status: UploadStatus.PENDING,
+            progress: 0
+        };
+        this.uploadsSignal.update(tasks => [task, ...tasks]);
+
+        const validationError = this.validateFile(file);
+        if (validationError) {
+            console.warn(`⚠️ Upload rejected: ${file.name} - ${validationError}`);
+            this.updateTask(task.id, { status: UploadStatus.FAILED, error: validationError });
+            return null;
+        }
+
+        try {
+            this.updateTask(task.id, { status: UploadStatus.PROCESSING });
+            const metadata = await this.readMetadata(file);
+
+            this.updateTask(task.id, { status: UploadStatus.UPLOADING });
+            const response = await this.backend.upload(file, metadata, progress =>
+                this.updateTask(task.id, { progress })
+            );
+
+            if (!response.success) {
+                throw new Error(response.message || 'Upload failed');
+            }
+
+            const uploadedFile = response.data;
+            this.filesSignal.update(files => [uploadedFile, ...files]);
+            await this.loadPlaybackUrl(uploadedFile);
+
+            this.updateTask(task.id, { status: UploadStatus.COMPLETED, progress: 100, file: uploadedFile });
+            console.log(`✅ Uploaded ${file.name} → ${uploadedFile.url}`);
+            return uploadedFile;
+
+        } catch (error: any) {
+            console.error(`❌ Upload failed: ${file.name}`, error);
+            this.updateTask(task.id, {
+                status: UploadStatus.FAILED,
+                error: error?.name === 'QuotaExceededError'
+                    ? 'Няма достатъчно място за съхранение'
+                    : error?.message || 'Грешка при качване'
+            });
+            return null;
+        }
+    }
+
+    /**
+     * Delete file from the library
+     * References in the configuration resolve to '' afterwards
+     */
+    async delete(id: string): Promise<void> {
+        console.log(`🗑️ MediaLibraryService.delete(${id})`);
+        await this.backend.delete(id);
+
+        const playbackUrl = this.playbackUrlsSignal()[id];
+        if (playbackUrl?.startsWith('blob:')) {
+            URL.revokeObjectURL(playbackUrl);
+        }
+
+        this.filesSignal.update(files => files.filter(file => file.id !== id));
+        this.playbackUrlsSignal.update(urls => {
+            const { [id]: _removed, ...rest } = urls;
+            return rest;
+        });
+    }
+
+    /**
+     * Remove completed / failed tasks from the upload list
+     */
+    clearFinishedUploads(): void {
+        this.uploadsSignal.update(tasks =>
+            tasks.filter(task => task.status !== UploadStatus.COMPLETED && task.status !== UploadStatus.FAILED)
+        );
+    }
+
+    /**
+     * Check if URL references the media library
+     */
+    isMediaUrl(url: string | null | undefined): boolean {
+        return !!url && url.startsWith(MEDIA_URL_PREFIX);
+    }
+
+    /**
+     * Resolve `media://<id>` to a playable URL; other URLs are returned unchanged
+     * Returns '' while the library is loading or when the file was deleted
+     */
+    resolveUrl(url: string | null | undefined): string {
+        if (!url) return '';
+        if (!this.isMediaUrl(url)) return url;
+        return this.playbackUrlsSignal()[url.substring(MEDIA_URL_PREFIX.length)] ?? '';
+    }
+
+    /**
+     * Find library file by `media://<id>` reference
+     */
+    findByUrl(url: string | null | undefined): UploadedFile | null {
+        if (!this.isMediaUrl(url)) return null;
+        return this.filesSignal().find(file => file.url === url) ?? null;
+    }
+
+    getKind(file: UploadedFile): MediaKind {
+        return file.mimeType.startsWith('video/') ? 'video' : 'image';
+    }
+
+    private validateFile(file: File): string | null {
+        const isImage = file.type in IMAGE_MIME_TYPES;
+        const isVideo = VIDEO_MIME_TYPES.includes(file.type);
+
+        if (!isImage && !isVideo) {
+            return `Неподдържан формат (${file.type || 'unknown'}). Позволени: JPEG, PNG, WEBP, SVG, GIF, MP4, WEBM`;
+        }
+
+        const maxSize = isVideo ? MAX_VIDEO_SIZE : MAX_IMAGE_SIZE;
+        if (file.size > maxSize) {
+            return `Файлът е твърде голям (макс. ${Math.round(maxSize / 1024 / 1024)} MB)`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Image dimensions / video duration (best effort - missing metadata doesn't fail the upload)
+     */
+    private readMetadata(file: File): Promise<UploadedFile['metadata']> {
+        const format = IMAGE_MIME_TYPES[file.type] ?? file.type.split('/')[1];
+        const objectUrl = URL.createObjectURL(file);
+
+        return new Promise(resolve => {
+            const done = (metadata: UploadedFile['metadata']) => {
+                URL.revokeObjectURL(objectUrl);
+                resolve(metadata);
+            };
+
+            if (file.type.startsWith('video/')) {
+                const video = document.createElement('video');
+                video.preload = 'metadata';
+                video.onloadedmetadata = () => done({
+                    width: video.videoWidth,
+                    height: video.videoHeight,
+                    duration: Number.isFinite(video.duration) ? Math.round(video.duration * 1000) : undefined,
+                    format
+                });
+                video.onerror = () => done({ format });
+                video.src = objectUrl;
+            } else {
+                const img = new Image();
+                img.onload = () => done({ width: img.naturalWidth, height: img.naturalHeight, format });
+                img.onerror = () => done({ format });
+                img.src = objectUrl;
+            }
+        });
+    }
+
+    private async loadPlaybackUrl(file: UploadedFile): Promise<void> {
+        try {
+            const url = await this.backend.getPlaybackUrl(file);
+            this.playbackUrlsSignal.update(urls => ({ ...urls, [file.id]: url }));
+        } catch (error) {
+            console.warn(`⚠️ Failed to load playback URL for ${file.originalName}:`, error);
+        }
+    }
+
+    private updateTask(id: string, patch: Partial<MediaUploadTask>): void {
+        this.uploadsSignal.update(tasks => tasks.map(task => task.id === id ? { ...task, ...patch } : task));
+    }
+}
@@ -0,0 +1,136 @@
+// src/app/core/services/media-storage.backend.ts
+
+import { InjectionToken } from '@angular/core';
+
+import { FileUploadResponse, UploadedFile } from '@core/models/api-response.interface';
+import { MEDIA_URL_PREFIX, MediaStorageBackend } from '@core/models/media.interface';
+import { idbRequest, idbTransaction, openIndexedDb } from '@core/utils/indexed-db.utils';
+
+/**
+ * Stored record (metadata + binary content)
+ */
+interface StoredMediaRecord {
+    id: string;
+    file: UploadedFile;
+    blob: Blob;
+}
+
+/**
+ * IndexedDB media storage
+ *
+ * Files stay on the TV / admin machine - no server required.
+ * Progress is reported while the file is read into memory.
+ */
+export class IndexedDbMediaStorageBackend implements MediaStorageBackend {
+    readonly name = 'IndexedDB';
+
+    private readonly DB_NAME = 'tv-slideshow-media';
+    private readonly DB_VERSION = 1;
+    private readonly STORE = 'files';
+
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    async list(): Promise<UploadedFile[]> {
+        const db = await this.getDb();
+        const records = await idbTransaction<StoredMediaRecord[]>(db, this.STORE, 'readonly',
+            transaction => transaction.objectStore(this.STORE).getAll()
+        );
+
+        return (records ?? [])
+            .map(record => record.file)
+            .sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
+    }
+
+    async upload(
+        file: File,
+        metadata: UploadedFile['metadata'],
+        onProgress: (progress: number) => void
+    ): Promise<FileUploadResponse> {
+        const content = await this.readFile(file, onProgress);
+        const id = `media-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+        const extension = file.name.includes('.') ? file.name.split('.').pop() : '';
+
+        const uploadedFile: UploadedFile = {
+            id,
+            originalName: file.name,
+            fileName: extension ? `${id}.${extension}` : id,
+            mimeType: file.type,
+            size: file.size,
+            url: `${MEDIA_URL_PREFIX}${id}`,
+            metadata,
+            uploadedAt: new Date()
+        };
+
+        const db = await this.getDb();
+        await idbTransaction(db, this.STORE, 'readwrite', transaction =>
+            transaction.objectStore(this.STORE).put({
+                id,
+                file: uploadedFile,
+                blob: new Blob([content], { type: file.type })
+            } satisfies StoredMediaRecord)
+        );
+
+        return {
+            success: true,
+            data: uploadedFile,
+            message: 'File stored in IndexedDB',
+            statusCode: 201,
+            timestamp: new Date()
+        };
+    }
+
+    async delete(id: string): Promise<void> {
+        const db = await this.getDb();
+        await idbTransaction(db, this.STORE, 'readwrite', transaction =>
+            transaction.objectStore(this.STORE).delete(id)
+        );
+    }
+
+    async getPlaybackUrl(file: UploadedFile): Promise<string> {
+        const db = await this.getDb();
+        const record = await idbRequest<StoredMediaRecord | undefined>(
+            db.transaction(this.STORE, 'readonly').objectStore(this.STORE).get(file.id)
+        );
+
+        return record ? URL.createObjectURL(record.blob) : '';
+    }
+
+    private getDb(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = openIndexedDb(this.DB_NAME, this.DB_VERSION, db => {
+                if (!db.objectStoreNames.contains(this.STORE)) {
+                    db.createObjectStore(this.STORE, { keyPath: 'id' });
+                }
+            });
+            // Allow retry after a failed open
+            this.dbPromise.catch(() => this.dbPromise = null);
+        }
+        return this.dbPromise;
+    }
+
+    private readFile(file: File, onProgress: (progress: number) => void): Promise<ArrayBuffer> {
+        return new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onprogress = event => {
+                if (event.lengthComputable) {
+                    onProgress(Math.round((event.loaded / event.total) * 100));
+                }
+            };
+            reader.onload = () => {
+                onProgress(100);
+                resolve(reader.result as ArrayBuffer);
+            };
+            reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+            reader.readAsArrayBuffer(file);
+        });
+    }
+}
+
+/**
+ * Media storage backend used by MediaLibraryService
+ * Provide a different implementation (e.g. HTTP upload) in app.config.ts
+ */
+export const MEDIA_STORAGE_BACKEND = new InjectionToken<MediaStorageBackend>('MEDIA_STORAGE_BACKEND', {
+    providedIn: 'root',
+    factory: () => new IndexedDbMediaStorageBackend()
+});
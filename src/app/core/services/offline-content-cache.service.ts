@@ -0,0 +1,330 @@
+// src/app/core/services/offline-content-cache.service.ts
+
+import { Injectable, inject, signal, computed } from '@angular/core';
+
+import { Product } from '@core/models/product.interface';
+import { ProductGroup } from '@core/models/api';
+import { idbRequest, idbTransaction, isIndexedDbAvailable, openIndexedDb } from '@core/utils/indexed-db.utils';
+import { diffProducts, hasContentChanges } from '@core/utils/content-update.utils';
+import { ConfigService } from './config.service';
+
+type SnapshotKey = 'products' | 'groups';
+
+type ImageField = 'imageUrl' | 'secondaryImageUrl';
+
+const IMAGE_FIELDS: ImageField[] = ['imageUrl', 'secondaryImageUrl'];
+
+/** Parallel image downloads while saving a snapshot (TV browsers have few connections) */
+const IMAGE_DOWNLOAD_CONCURRENCY = 4;
+
+/**
+ * Product with images stored as binary (decoded from data URLs / downloaded)
+ * Fields missing from `images` keep their original URL.
+ */
+interface StoredProduct {
+    product: Product;
+    images: Partial<Record<ImageField, Blob>>;
+}
+
+interface StoredSnapshot {
+    key: SnapshotKey;
+    savedAt: number;
+    products?: StoredProduct[];
+    groups?: ProductGroup[];
+}
+
+/**
+ * Offline Content Cache Service
+ *
+ * Last good product / group snapshot in IndexedDB, so a TV that reboots
+ * without network boots straight into the content it showed before.
+ *
+ * Features:
+ * - Images are stored as Blobs (API base64 images decoded, http images downloaded)
+ * - Unchanged product lists are not written again; stored Blobs are reused by image URL
+ * - Snapshots older than autoUpdate.offline.cacheDuration are ignored
+ * - autoUpdate.offline.continueOffline = false disables the fallback
+ * - `servingSnapshotSince` drives the offline indicator
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class OfflineContentCacheService {
+    private readonly configService = inject(ConfigService);
+
+    private readonly DB_NAME = 'tv-slideshow-content';
+    private readonly DB_VERSION = 1;
+    private readonly STORE = 'snapshots';
+
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    /**
+     * Restored products are reused while the snapshot is unchanged (stable object URLs)
+     * `originals` keep the stored image URLs (compared with live data by ContentUpdateService)
+     */
+    private restoredProducts: { savedAt: number; products: Product[]; originals: Product[]; objectUrls: string[] } | null = null;
+    private restoredGroups: ProductGroup[] | null = null;
+
+    /** Products of the stored snapshot (null = not read yet) - the baseline for the next save */
+    private storedProducts: { savedAt: number; products: StoredProduct[] } | null = null;
+
+    /** Saves run one after another, so each one compares against the previous result */
+    private productsSaveQueue: Promise<void> = Promise.resolve();
+
+    // Private state signals
+    private readonly servingSnapshotSinceSignal = signal<Date | null>(null);
+
+    // Public readonly signals
+    /** Save time of the snapshot on screen instead of live data (null = live data) */
+    readonly servingSnapshotSince = this.servingSnapshotSinceSignal.asReadonly();
+
+    readonly isServingSnapshot = computed(() => this.servingSnapshotSinceSignal() !== null);
+
+    readonly showOfflineIndicator = computed(() =>
+        this.configService.config().autoUpdate?.offline?.showOfflineIndicator ?? true
+    );
+
+    /**
+     * Store the last good product list (empty lists never replace a snapshot)
+     * Skipped while the list is unchanged and the snapshot is not close to expiring.
+     */
+    saveProducts(products: Product[]): Promise<void> {
+        if (products.length === 0 || !isIndexedDbAvailable()) return Promise.resolve();
+
+        const save = this.productsSaveQueue.then(() => this.writeProducts(products));
+        this.productsSaveQueue = save.catch(() => undefined);
+        return save;
+    }
+
+    /**
+     * Store the last good group list
+     */
+    async saveGroups(groups: ProductGroup[]): Promise<void> {
+        if (groups.length === 0 || !isIndexedDbAvailable()) return;
+
+        await this.writeSnapshot({ key: 'groups', savedAt: Date.now(), groups });
+        console.log(`💾 OfflineContentCache: Saved ${groups.length} groups`);
+    }
+
+    /**
+     * Products from the last snapshot (null when missing, expired or offline mode is disabled)
+     */
+    async loadProducts(): Promise<Product[] | null> {
+        const snapshot = await this.readSnapshot('products');
+        if (!snapshot?.products) return null;
+
+        if (this.restoredProducts?.savedAt !== snapshot.savedAt) {
+            this.restoredProducts?.objectUrls.forEach(url => URL.revokeObjectURL(url));
+
+            const objectUrls: string[] = [];
+            const products = snapshot.products.map(({ product, images }) => {
+                const restored: Product = { ...product };
+                (Object.keys(images) as Array<keyof StoredProduct['images']>).forEach(field => {
+                    const url = URL.createObjectURL(images[field]!);
+                    objectUrls.push(url);
+                    restored[field] = url;
+                });
+                return restored;
+            });
+
+            const originals = snapshot.products.map(({ product }) => product);
+            this.restoredProducts = { savedAt: snapshot.savedAt, products, originals, objectUrls };
+            this.storedProducts = { savedAt: snapshot.savedAt, products: snapshot.products };
+        }
+
+        this.markServingSnapshot(snapshot.savedAt);
+        console.log(`📴 OfflineContentCache: Restored ${this.restoredProducts.products.length} products from ${new Date(snapshot.savedAt).toLocaleString()}`);
+        return this.restoredProducts.products;
+    }
+
+    /**
+     * Groups from the last snapshot (null when missing, expired or offline mode is disabled)
+     */
+    async loadGroups(): Promise<ProductGroup[] | null> {
+        const snapshot = await this.readSnapshot('groups');
+        if (!snapshot?.groups) return null;
+
+        this.markServingSnapshot(snapshot.savedAt);
+        this.restoredGroups = snapshot.groups;
+        return snapshot.groups;
+    }
+
+    /**
+     * Last restored snapshot products with their original image URLs (null when nothing was restored)
+     */
+    getRestoredProducts(): Product[] | null {
+        return this.restoredProducts?.originals ?? null;
+    }
+
+    /**
+     * Last restored snapshot groups (null when nothing was restored)
+     */
+    getRestoredGroups(): ProductGroup[] | null {
+        return this.restoredGroups;
+    }
+
+    /**
+     * Live data received again - hide the offline indicator
+     */
+    markLive(): void {
+        if (this.servingSnapshotSinceSignal()) {
+            console.log('🌐 OfflineContentCache: Live content restored');
+            this.servingSnapshotSinceSignal.set(null);
+        }
+    }
+
+    private markServingSnapshot(savedAt: number): void {
+        if (this.servingSnapshotSinceSignal()?.getTime() !== savedAt) {
+            this.servingSnapshotSinceSignal.set(new Date(savedAt));
+        }
+    }
+
+    private async writeProducts(products: Product[]): Promise<void> {
+        const previous = await this.getStoredProducts();
+        const cacheDuration = this.configService.config().autoUpdate?.offline?.cacheDuration;
+
+        if (previous) {
+            const unchanged = !hasContentChanges(diffProducts(previous.products.map(({ product }) => product), products), null);
+            // Rewrite unchanged content only to keep the snapshot from expiring
+            const fresh = !cacheDuration || Date.now() - previous.savedAt < cacheDuration / 2;
+            if (unchanged && fresh) return;
+        }
+
+        const storedProducts = await this.toStoredProducts(products, previous?.products ?? []);
+        const snapshot: StoredSnapshot = { key: 'products', savedAt: Date.now(), products: storedProducts };
+        await this.writeSnapshot(snapshot);
+        this.storedProducts = { savedAt: snapshot.savedAt, products: storedProducts };
+        console.log(`💾 OfflineContentCache: Saved ${products.length} products`);
+    }
+
+    /**
+     * Stored snapshot products - read once, then kept in sync with every write
+     * (ignores expiry: only used as the baseline for the next save)
+     */
+    private async getStoredProducts(): Promise<{ savedAt: number; products: StoredProduct[] } | null> {
+        if (!this.storedProducts) {
+            const snapshot = await this.getSnapshot('products').catch(() => undefined);
+            if (snapshot?.products) {
+                this.storedProducts = { savedAt: snapshot.savedAt, products: snapshot.products };
+            }
+        }
+        return this.storedProducts;
+    }
+
+    private async getSnapshot(key: SnapshotKey): Promise<StoredSnapshot | undefined> {
+        const db = await this.getDb();
+        return idbRequest<StoredSnapshot | undefined>(
+            db.transaction(this.STORE, 'readonly').objectStore(this.STORE).get(key)
+        );
+    }
+
+    private async readSnapshot(key: SnapshotKey): Promise<StoredSnapshot | null> {
+        const offline = this.configService.config().autoUpdate?.offline;
+        if (offline?.continueOffline === false || !isIndexedDbAvailable()) return null;
+
+        try {
+            const snapshot = await this.getSnapshot(key);
+            if (!snapshot) return null;
+
+            const age = Date.now() - snapshot.savedAt;
+            if (offline?.cacheDuration && age > offline.cacheDuration) {
+                console.warn(`⏰ OfflineContentCache: "${key}" snapshot expired (${Math.round(age / 60000)} min old)`);
+                return null;
+            }
+
+            return snapshot;
+        } catch (error) {
+            console.error(`❌ OfflineContentCache: Failed to read "${key}" snapshot`, error);
+            return null;
+        }
+    }
+
+    private async writeSnapshot(snapshot: StoredSnapshot): Promise<void> {
+        const db = await this.getDb();
+        await idbTransaction(db, this.STORE, 'readwrite', transaction =>
+            transaction.objectStore(this.STORE).put(snapshot)
+        );
+    }
+
+    /**
+     * Products with their image Blobs - reused from the previous snapshot by URL,
+     * only new URLs are decoded / downloaded (IMAGE_DOWNLOAD_CONCURRENCY at a time)
+     */
+    private async toStoredProducts(products: Product[], previous: StoredProduct[]): Promise<StoredProduct[]> {
+        const blobs = new Map<string, Blob | null>();
+        previous.forEach(({ product, images }) => {
+            IMAGE_FIELDS.forEach(field => {
+                const url = product[field];
+                const blob = images[field];
+                if (url && blob) blobs.set(url, blob);
+            });
+        });
+
+        const newUrls = [...new Set(
+            products.flatMap(product => IMAGE_FIELDS.map(field => product[field]))
+                .filter((url): url is string => !!url && !blobs.has(url))
+        )];
+
+        let next = 0;
+        const worker = async (): Promise<void> => {
+            while (next < newUrls.length) {
+                const url = newUrls[next++];
+                blobs.set(url, await this.toImageBlob(url));
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(IMAGE_DOWNLOAD_CONCURRENCY, newUrls.length) }, worker));
+
+        return products.map(product => {
+            const stored: StoredProduct = { product, images: {} };
+            IMAGE_FIELDS.forEach(field => {
+                const url = product[field];
+                const blob = url ? blobs.get(url) : null;
+                if (blob) stored.images[field] = blob;
+            });
+            return stored;
+        });
+    }
+
+    /**
+     * Binary image for data: / http(s) URLs (null = keep the URL, e.g. CORS or app assets)
+     */
+    private async toImageBlob(url: string): Promise<Blob | null> {
+        if (url.startsWith('data:')) {
+            const [header, data = ''] = url.split(',', 2);
+            const mimeType = header.slice('data:'.length).split(';')[0] || 'application/octet-stream';
+
+            try {
+                const bytes = header.includes(';base64')
+                    ? Uint8Array.from(atob(data), char => char.charCodeAt(0))
+                    : new TextEncoder().encode(decodeURIComponent(data));
+                return new Blob([bytes], { type: mimeType });
+            } catch {
+                return null;
+            }
+        }
+
+        if (/^https?:\/\//i.test(url)) {
+            try {
+                const response = await fetch(url);
+                return response.ok ? await response.blob() : null;
+            } catch {
+                return null;
+            }
+        }
+
+        return null;
+    }
+
+    private getDb(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = openIndexedDb(this.DB_NAME, this.DB_VERSION, db => {
+                if (!db.objectStoreNames.contains(this.STORE)) {
+                    db.createObjectStore(this.STORE, { keyPath: 'key' });
+                }
+            });
+            // Allow retry after a failed open
+            this.dbPromise.catch(() => this.dbPromise = null);
+        }
+        return this.dbPromise;
+    }
+}
@@ -0,0 +1,179 @@
+// src/app/core/services/playback-sync.service.ts
+
+import { Injectable, inject, signal, computed } from '@angular/core';
+
+import { SlideshowSyncSettings } from '@core/models/slideshow-config.interface';
+import { SyncConnectionStatus, SyncMessage, SyncPlaybackState, SyncTransport } from '@core/models/sync.interface';
+import { SYNC_HEARTBEAT_INTERVAL, SYNC_LEADER_TIMEOUT } from '@core/utils/sync.utils';
+import { SYNC_TRANSPORT_FACTORY } from './playback-sync.transport';
+
+/**
+ * Leader state as received by a follower
+ */
+export interface ReceivedSyncState {
+    state: SyncPlaybackState;
+
+    /** Local time of receipt (Date.now()) - elapsedMs is relative to it */
+    receivedAt: number;
+}
+
+/**
+ * Playback Sync Service
+ *
+ * Keeps several screens on the same slide (or a fixed "video wall" offset).
+ *
+ * Features:
+ * - Leader: publishes slide index / timer state on every change + heartbeat
+ * - Follower: exposes the latest leader state; null when the leader is silent
+ *   for SYNC_LEADER_TIMEOUT (the screen then plays on its own)
+ * - Late joiners send 'hello' and get the state immediately
+ * - Transport is pluggable via SYNC_TRANSPORT_FACTORY
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class PlaybackSyncService {
+    private readonly transportFactory = inject(SYNC_TRANSPORT_FACTORY);
+
+    /** Unique per tab / device - own messages are ignored */
+    private readonly screenId = `screen-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+    private transport: SyncTransport | null = null;
+    private stateProvider: (() => SyncPlaybackState | null) | null = null;
+    private heartbeatId?: ReturnType<typeof setInterval>;
+    private leaderTimeoutId?: ReturnType<typeof setTimeout>;
+    private settingsKey = '';
+
+    // Private state signals
+    private readonly settingsSignal = signal<SlideshowSyncSettings | null>(null);
+    private readonly statusSignal = signal<SyncConnectionStatus>('disabled');
+    private readonly leaderStateSignal = signal<ReceivedSyncState | null>(null);
+
+    // Public readonly signals
+    readonly settings = this.settingsSignal.asReadonly();
+    readonly status = this.statusSignal.asReadonly();
+    readonly leaderState = this.leaderStateSignal.asReadonly();
+
+    readonly isLeader = computed(() => this.settingsSignal()?.role === 'leader');
+
+    /** Follower with a live leader - the local timer must not advance slides */
+    readonly isFollowingLeader = computed(() =>
+        this.settingsSignal()?.role === 'follower' && this.leaderStateSignal() !== null
+    );
+
+    /**
+     * Join the sync group (restarts only when the settings changed)
+     * @param stateProvider - Current playback state of this screen (used by the leader)
+     */
+    start(settings: SlideshowSyncSettings, stateProvider: () => SyncPlaybackState | null): void {
+        this.stateProvider = stateProvider;
+
+        const key = JSON.stringify(settings);
+        if (key === this.settingsKey && this.transport) return;
+
+        this.stop();
+        this.settingsKey = key;
+        this.settingsSignal.set(settings);
+
+        console.log(`🔗 PlaybackSyncService.start() - ${settings.role} in group "${settings.groupId}" (offset: ${settings.slideOffset})`);
+
+        this.transport = this.transportFactory(settings);
+        this.transport.connect(
+            message => this.handleMessage(message),
+            status => this.handleStatus(status)
+        );
+
+        if (settings.role === 'leader') {
+            this.heartbeatId = setInterval(() => this.publishState(), SYNC_HEARTBEAT_INTERVAL);
+        }
+    }
+
+    /**
+     * Leave the sync group
+     */
+    stop(): void {
+        const settings = this.settingsSignal();
+        if (!this.transport || !settings) return;
+
+        console.log(`🔌 PlaybackSyncService.stop() - leaving group "${settings.groupId}"`);
+        this.send({ type: 'bye', groupId: settings.groupId, senderId: this.screenId, role: settings.role });
+
+        clearInterval(this.heartbeatId);
+        clearTimeout(this.leaderTimeoutId);
+        this.transport.disconnect();
+
+        this.transport = null;
+        this.settingsKey = '';
+        this.settingsSignal.set(null);
+        this.leaderStateSignal.set(null);
+        this.statusSignal.set('disabled');
+    }
+
+    /**
+     * Leader: send the current playback state (slide change, pause / resume, heartbeat)
+     */
+    publishState(): void {
+        const settings = this.settingsSignal();
+        if (settings?.role !== 'leader') return;
+
+        const state = this.stateProvider?.();
+        if (!state) return;
+
+        this.send({ type: 'state', groupId: settings.groupId, senderId: this.screenId, role: 'leader', state });
+    }
+
+    private handleStatus(status: SyncConnectionStatus): void {
+        this.statusSignal.set(status);
+
+        const settings = this.settingsSignal();
+        if (status !== 'connected' || !settings) return;
+
+        // Ask the leader for the current state right away (no waiting for the heartbeat)
+        if (settings.role === 'follower') {
+            this.send({ type: 'hello', groupId: settings.groupId, senderId: this.screenId, role: 'follower' });
+        } else {
+            this.publishState();
+        }
+    }
+
+    private handleMessage(message: SyncMessage): void {
+        const settings = this.settingsSignal();
+        if (!settings || message.senderId === this.screenId || message.groupId !== settings.groupId) return;
+
+        if (settings.role === 'leader') {
+            if (message.type === 'hello') {
+                this.publishState();
+            } else if (message.type === 'state') {
+                console.warn(`⚠️ PlaybackSyncService: Second leader "${message.senderId}" in group "${settings.groupId}"`);
+            }
+            return;
+        }
+
+        if (message.role !== 'leader') return;
+
+        if (message.type === 'state') {
+            this.leaderStateSignal.set({ state: message.state, receivedAt: Date.now() });
+            this.resetLeaderTimeout();
+        } else if (message.type === 'bye') {
+            console.log('👋 PlaybackSyncService: Leader left - playing independently');
+            this.clearLeader();
+        }
+    }
+
+    private resetLeaderTimeout(): void {
+        clearTimeout(this.leaderTimeoutId);
+        this.leaderTimeoutId = setTimeout(() => {
+            console.warn(`⚠️ PlaybackSyncService: No leader for ${SYNC_LEADER_TIMEOUT}ms - playing independently`);
+            this.clearLeader();
+        }, SYNC_LEADER_TIMEOUT);
+    }
+
+    private clearLeader(): void {
+        clearTimeout(this.leaderTimeoutId);
+        this.leaderStateSignal.set(null);
+    }
+
+    private send(message: SyncMessage): void {
+        this.transport?.send(message);
+    }
+}
@@ -0,0 +1,150 @@
+// src/app/core/services/playback-sync.transport.ts
+
+import { InjectionToken } from '@angular/core';
+
+import { SlideshowSyncSettings } from '@core/models/slideshow-config.interface';
+import { SyncConnectionStatus, SyncMessage, SyncTransport } from '@core/models/sync.interface';
+import { isSyncMessage } from '@core/utils/sync.utils';
+
+/**
+ * BroadcastChannel transport
+ *
+ * Screens driven by the same machine (several browser windows on a multi-output PC).
+ * Messages never leave the browser profile.
+ */
+export class BroadcastChannelSyncTransport implements SyncTransport {
+    readonly name = 'BroadcastChannel';
+
+    private channel: BroadcastChannel | null = null;
+
+    constructor(private readonly groupId: string) { }
+
+    connect(onMessage: (message: SyncMessage) => void, onStatus: (status: SyncConnectionStatus) => void): void {
+        if (typeof BroadcastChannel === 'undefined') {
+            console.warn('⚠️ BroadcastChannel not supported - playback sync disabled');
+            onStatus('disconnected');
+            return;
+        }
+
+        this.channel = new BroadcastChannel(`tv-slideshow-sync:${this.groupId}`);
+        this.channel.onmessage = (event: MessageEvent) => {
+            if (isSyncMessage(event.data)) onMessage(event.data);
+        };
+        onStatus('connected');
+    }
+
+    send(message: SyncMessage): void {
+        this.channel?.postMessage(message);
+    }
+
+    disconnect(): void {
+        this.channel?.close();
+        this.channel = null;
+    }
+}
+
+/**
+ * WebSocket transport
+ *
+ * Separate devices (one TV stick per screen) through a small relay server that
+ * forwards every message to the other clients of the same group
+ * (see tools/sync-relay-server.mjs for a local stand-in).
+ * Reconnects with backoff - TVs often boot before the network is up.
+ */
+export class WebSocketSyncTransport implements SyncTransport {
+    readonly name = 'WebSocket';
+
+    private readonly MIN_RECONNECT_DELAY = 1000;
+    private readonly MAX_RECONNECT_DELAY = 30000;
+
+    private socket: WebSocket | null = null;
+    private reconnectDelay = this.MIN_RECONNECT_DELAY;
+    private reconnectTimeoutId?: ReturnType<typeof setTimeout>;
+    private closedByUser = false;
+
+    constructor(private readonly serverUrl: string, private readonly groupId: string) { }
+
+    connect(onMessage: (message: SyncMessage) => void, onStatus: (status: SyncConnectionStatus) => void): void {
+        this.closedByUser = false;
+        this.open(onMessage, onStatus);
+    }
+
+    send(message: SyncMessage): void {
+        if (this.socket?.readyState === WebSocket.OPEN) {
+            this.socket.send(JSON.stringify(message));
+        }
+    }
+
+    disconnect(): void {
+        this.closedByUser = true;
+        clearTimeout(this.reconnectTimeoutId);
+        this.socket?.close();
+        this.socket = null;
+    }
+
+    private open(onMessage: (message: SyncMessage) => void, onStatus: (status: SyncConnectionStatus) => void): void {
+        let url: URL;
+        try {
+            url = new URL(this.serverUrl);
+            url.searchParams.set('group', this.groupId);
+        } catch (error) {
+            // Invalid server URL - reconnecting cannot help
+            console.error(`❌ Sync WebSocket: Invalid server URL "${this.serverUrl}"`, error);
+            onStatus('disconnected');
+            return;
+        }
+
+        onStatus('connecting');
+
+        try {
+            this.socket = new WebSocket(url.toString());
+        } catch (error) {
+            console.error(`❌ Sync WebSocket: Cannot connect to ${this.serverUrl}`, error);
+            onStatus('disconnected');
+            this.scheduleReconnect(onMessage, onStatus);
+            return;
+        }
+
+        this.socket.onopen = () => {
+            console.log(`🔗 Sync WebSocket connected: ${this.serverUrl} (group: ${this.groupId})`);
+            this.reconnectDelay = this.MIN_RECONNECT_DELAY;
+            onStatus('connected');
+        };
+
+        this.socket.onmessage = (event: MessageEvent) => {
+            try {
+                const message: unknown = JSON.parse(event.data);
+                if (isSyncMessage(message)) onMessage(message);
+            } catch {
+                console.warn('⚠️ Sync WebSocket: Ignoring malformed message');
+            }
+        };
+
+        this.socket.onclose = () => {
+            this.socket = null;
+            if (this.closedByUser) return;
+
+            onStatus('disconnected');
+            this.scheduleReconnect(onMessage, onStatus);
+        };
+    }
+
+    private scheduleReconnect(onMessage: (message: SyncMessage) => void, onStatus: (status: SyncConnectionStatus) => void): void {
+        console.log(`🔄 Sync WebSocket: Reconnecting in ${this.reconnectDelay}ms`);
+        this.reconnectTimeoutId = setTimeout(() => {
+            if (!this.closedByUser) this.open(onMessage, onStatus);
+        }, this.reconnectDelay);
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, this.MAX_RECONNECT_DELAY);
+    }
+}
+
+/**
+ * Transport factory used by PlaybackSyncService
+ * Provide a different factory (e.g. MQTT, a test double) in app.config.ts
+ */
+export const SYNC_TRANSPORT_FACTORY = new InjectionToken<(settings: SlideshowSyncSettings) => SyncTransport>('SYNC_TRANSPORT_FACTORY', {
+    providedIn: 'root',
+    factory: () => (settings: SlideshowSyncSettings) => settings.transport === 'websocket' && settings.serverUrl
+        ? new WebSocketSyncTransport(settings.serverUrl, settings.groupId)
+        : new BroadcastChannelSyncTransport(settings.groupId)
+});
@@ -3,7 +3,7 @@
 
 import { Injectable, inject } from '@angular/core';
 import { HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
-import { Observable, of, throwError, timer, forkJoin } from 'rxjs';
+import { Observable, of, from, throwError, timer, forkJoin } from 'rxjs';
 import { catchError, retry, timeout, tap, shareReplay, map } from 'rxjs/operators';
 
 import { environment } from '@environments/environment';
@@ -13,8 +13,8 @@ import {
     ProductFilters,
     ProductsApiResponse,
     ProductApiResponse,
-    ProductBadge,
-    ProductDiscount,
+    ProductPriceField,
+    ProductSecondaryLanguage,
     GetStocksRequest,
     GetStocksResponse,
     StockItem,
@@ -23,6 +23,10 @@ import {
     ProductGroupWithProducts,
     GroupsWithProductsResponse,
 } from '@core/models';
+import { calculateDiscount, createDiscountBadge, PRODUCT_PRICE_FIELDS } from '@core/utils/price-list.utils';
+
+import { OfflineContentCacheService } from './offline-content-cache.service';
+import { ProductFirstSeenService } from './product-first-seen.service';
 
 /**
  * Product API Service for TV slideshow application - CORRECTED ARCHITECTURE
@@ -34,6 +38,8 @@ import {
 })
 export class ProductApiService {
     private readonly http = inject(HttpClient);
+    private readonly offlineCache = inject(OfflineContentCacheService);
+    private readonly firstSeen = inject(ProductFirstSeenService);
 
     // Configuration - SHORTER TIMEOUTS for faster fallback
     private readonly apiBaseUrl = '/api/products';
@@ -48,147 +54,14 @@ export class ProductApiService {
         filters?: ProductFilters;
     } | null = null;
 
-    // 🎯 INSTANT MOCK DATA - matches GitHub Product interface EXACTLY
-    private readonly instantMockProducts: Product[] = [
-        {
-            id: '1',
-            name: 'Samsung Galaxy S24 Ultra 5G',
-            price: 2299.00,
-            imageUrl: 'https://images.unsplash.com/photo-1610945415295-d9bbf067e59c?w=800&h=600&fit=crop&crop=center',
-            shortDescription: 'Най-новият флагман с AI възможности, S Pen и 200MP камера',
-            category: 'smartphones',
-            inStock: true,
-            longDescription: 'Революционни AI възможности, титаниев корпус, S Pen с нови функции',
-            secondaryImageUrl: 'https://images.unsplash.com/photo-1511707171634-5f897ff02aa9?w=800&h=600&fit=crop',
-            badge: {
-                text: 'NEW',
-                color: 'primary',
-                position: 'top-right'
-            } as ProductBadge,
-            discount: {
-                originalPrice: 2499.00,
-                percentage: 8
-            } as ProductDiscount,
-            createdAt: new Date('2024-01-15T10:00:00.000Z'),
-            updatedAt: new Date('2024-01-15T10:00:00.000Z')
-        },
-        {
-            id: '2',
-            name: 'iPhone 15 Pro Max',
-            price: 2599.00,
-            imageUrl: 'https://images.unsplash.com/photo-1695048133142-1a20484d2569?w=800&h=600&fit=crop&crop=center',
-            shortDescription: 'Титаниев корпус, Action Button, A17 Pro чип с невероятна производителност',
-            category: 'smartphones',
-            inStock: true,
-            longDescription: 'Action Button, титаниев дизайн, Pro камера система с 5x zoom',
-            secondaryImageUrl: 'https://images.unsplash.com/photo-1678911820207-61718c9c3595?w=800&h=600&fit=crop',
-            badge: {
-                text: 'TOP',
-                color: 'warning',
-                position: 'top-right'
-            } as ProductBadge,
-            discount: {
-                originalPrice: 2799.00,
-                percentage: 7
-            } as ProductDiscount,
-            createdAt: new Date('2024-01-10T10:00:00.000Z'),
-            updatedAt: new Date('2024-01-10T10:00:00.000Z')
-        },
-        {
-            id: '3',
-            name: 'MacBook Pro 16" M3 Max',
-            price: 5999.00,
-            imageUrl: 'https://images.unsplash.com/photo-1517336714731-489689fd1ca8?w=800&h=600&fit=crop&crop=center',
-            shortDescription: 'Върхови характеристики за професионалисти с M3 Max чип',
-            category: 'laptops',
-            inStock: false,
-            longDescription: 'M3 Max чип, 48GB RAM, 2TB SSD, Liquid Retina XDR дисплей',
-            secondaryImageUrl: 'https://images.unsplash.com/photo-1541807084-5c52b6b3adef?w=800&h=600&fit=crop',
-            badge: {
-                text: 'SOLD OUT',
-                color: 'error',
-                position: 'top-left'
-            } as ProductBadge,
-            // NO discount property = undefined (not null!)
-            createdAt: new Date('2024-01-05T10:00:00.000Z'),
-            updatedAt: new Date('2024-01-20T15:30:00.000Z')
-        },
-        {
-            id: '4',
-            name: 'Sony WH-1000XM5',
-            price: 699.00,
-            imageUrl: 'https://images.unsplash.com/photo-1583394838336-acd977736f90?w=800&h=600&fit=crop&crop=center',
-            shortDescription: 'Безжични слушалки с водеща технология за потискане на шума',
-            category: 'audio',
-            inStock: true,
-            longDescription: '30-часова батерия, HD аудио, интелигентно потискане на шума',
-            secondaryImageUrl: 'https://images.unsplash.com/photo-1590658165737-15a047b7cba4?w=800&h=600&fit=crop',
-            badge: {
-                text: 'SALE',
-                color: 'success',
-                position: 'top-right'
-            } as ProductBadge,
-            discount: {
-                originalPrice: 799.00,
-                percentage: 13
-            } as ProductDiscount,
-            createdAt: new Date('2024-01-12T10:00:00.000Z'),
-            updatedAt: new Date('2024-01-12T10:00:00.000Z')
-        },
-        {
-            id: '5',
-            name: 'Dell XPS 13 Plus',
-            price: 2199.00,
-            imageUrl: 'https://images.unsplash.com/photo-1593642632823-8f785ba67e45?w=800&h=600&fit=crop&crop=center',
-            shortDescription: 'Ултра-тънък лаптоп с безгранично OLED дисплей',
-            category: 'laptops',
-            inStock: true,
-            longDescription: '13.4" OLED 3.5K, Intel Core i7-1360P, 32GB RAM, 1TB SSD',
-            secondaryImageUrl: 'https://images.unsplash.com/photo-1496181133206-80ce9b88a853?w=800&h=600&fit=crop',
-            badge: {
-                text: 'NEW',
-                color: 'primary',
-                position: 'top-right'
-            } as ProductBadge,
-            // NO discount
-            createdAt: new Date('2024-01-18T10:00:00.000Z'),
-            updatedAt: new Date('2024-01-18T10:00:00.000Z')
-        },
-        {
-            id: '6',
-            name: 'iPad Pro 12.9" M2',
-            price: 1999.00,
-            imageUrl: 'https://images.unsplash.com/photo-1544244015-0df4b3ffc6b0?w=800&h=600&fit=crop&crop=center',
-            shortDescription: 'Професионален таблет с M2 чип и Liquid Retina XDR дисплей',
-            category: 'tablets',
-            inStock: true,
-            longDescription: 'M2 чип, 12.9" Liquid Retina XDR, поддръжка за Apple Pencil (2nd gen)',
-            secondaryImageUrl: 'https://images.unsplash.com/photo-1561154464-82e9adf32764?w=800&h=600&fit=crop',
-            badge: {
-                text: 'PRO',
-                color: 'warning',
-                position: 'top-left'
-            } as ProductBadge,
-            discount: {
-                originalPrice: 2199.00,
-                percentage: 9
-            } as ProductDiscount,
-            createdAt: new Date('2024-01-08T10:00:00.000Z'),
-            updatedAt: new Date('2024-01-16T14:20:00.000Z')
-        }
-    ];
-
-    // 🔧 DEVELOPMENT MODE DETECTION
-    private readonly isDevelopmentMode = !this.isProduction();
-
     /**
-     * Get all products (with Real API + Mock fallback)
+     * Get all products (with Real API + offline snapshot fallback)
      * 
      * Strategy:
      * 1. Check cache first (5 minute TTL + filter match)
-     * 2. Try Real API (getProductsFromRealApi)
-     * 3. On error → Fallback to Mock data
-     * 4. Cache successful result
+     * 2. Try Real API (getProductsFromRealApi) - skipped when the browser reports offline
+     * 3. On success → Cache in memory + IndexedDB snapshot
+     * 4. On error → Last good snapshot from IndexedDB, or an empty list (never mock data)
      * 
      * @param filters - Optional filtering criteria
      * @param forceRefresh - Force API call bypassing cache
@@ -205,6 +78,12 @@ export class ProductApiService {
 
         console.log('🔄 Cache miss or expired, fetching products...');
 
+        // 📴 No network (e.g. TV rebooted offline) → boot straight into the snapshot
+        if (this.isBrowserOffline()) {
+            console.warn('📴 Browser is offline, loading products from offline snapshot');
+            return this.getOfflineProducts();
+        }
+
         // 2️⃣ Try Real API first
         return this.getProductsFromRealApi().pipe(
             // Success → Cache and return
@@ -212,88 +91,21 @@ export class ProductApiService {
                 console.log('✅ Real API successful, caching products');
                 // Use existing helper with filters parameter
                 this.updateCache(products, filters);
+                this.offlineCache.markLive();
+                this.saveOfflineSnapshot(() => this.offlineCache.saveProducts(products));
             }),
 
-            // Error → Fallback to Mock data
+            // Error → Fallback to offline snapshot
             catchError(error => {
-                console.warn('⚠️ Real API failed, falling back to mock data');
+                console.warn('⚠️ Real API failed, falling back to offline snapshot');
                 console.error('Real API Error:', error);
 
-                // 3️⃣ Fallback to Mock data (use existing getMockProducts if available)
-                // Check if getMockProducts exists, otherwise use instant mock
-                return this.getMockProductsFallback(filters).pipe(
-                    tap(mockProducts => {
-                        console.log('✅ Mock data loaded as fallback');
-                        // Cache mock data with filters
-                        this.updateCache(mockProducts, filters);
-                    }),
-                    catchError(mockError => {
-                        console.error('❌ Even mock data failed!', mockError);
-                        // Last resort: return empty array
-                        return of([]);
-                    })
-                );
+                // 3️⃣ Not cached in memory - the next call retries the API
+                return this.getOfflineProducts();
             })
         );
     }
 
-    /**
-     * 🎯 INSTANT MOCK DATA with CORRECTED filtering (matches GitHub ProductFilters)
-     * @private
-     */
-    private getInstantMockData(filters?: ProductFilters): Observable<Product[]> {
-        let products = [...this.instantMockProducts];
-
-        // Apply filters if provided - CORRECTED according to GitHub ProductFilters interface
-        if (filters) {
-            if (filters.category) {
-                products = products.filter(p => p.category === filters.category);
-            }
-            if (filters.inStock !== undefined) {
-                products = products.filter(p => p.inStock === filters.inStock);
-            }
-            if (filters.minPrice !== undefined) {
-                products = products.filter(p => p.price >= filters.minPrice!);
-            }
-            if (filters.maxPrice !== undefined) {
-                products = products.filter(p => p.price <= filters.maxPrice!);
-            }
-            if (filters.hasDiscount !== undefined) {
-                products = products.filter(p =>
-                    filters.hasDiscount ? !!p.discount : !p.discount
-                );
-            }
-            if (filters.searchTerm) {
-                const term = filters.searchTerm.toLowerCase();
-                products = products.filter(p =>
-                    p.name.toLowerCase().includes(term) ||
-                    p.shortDescription.toLowerCase().includes(term) ||
-                    p.category.toLowerCase().includes(term)
-                );
-            }
-        }
-
-        console.log(`🎨 Instant mock data: ${products.length} products ready!`);
-
-        // Simulate brief loading for realistic experience
-        return timer(100).pipe( // 100ms delay for smooth UX
-            map(() => products),
-            tap(products => this.updateCache(products, filters))
-        );
-    }
-
-    /**
-     * 🔧 Environment detection
-     * @private
-     */
-    private isProduction(): boolean {
-        // Check various indicators for production
-        return location.hostname !== 'localhost' &&
-            location.hostname !== '127.0.0.1' &&
-            !location.hostname.includes('dev') &&
-            !location.hostname.includes('staging');
-    }
-
     /**
      * Fetch single product by ID
      * @param id Product identifier
@@ -302,17 +114,6 @@ export class ProductApiService {
     getProductById(id: string): Observable<Product> {
         console.log(`🔍 ProductApiService.getProductById(${id})`);
 
-        // ⚡ DEVELOPMENT MODE: Use instant mock data
-        if (this.isDevelopmentMode) {
-            const product = this.instantMockProducts.find(p => p.id === id);
-            if (product) {
-                console.log('🎯 Found product in instant mock data');
-                return of(product);
-            } else {
-                return throwError(() => new Error(`Product with ID ${id} not found in mock data`));
-            }
-        }
-
         // Try to find in cache first
         const cachedProduct = this.cachedProducts?.data.find(p => p.id === id);
         if (cachedProduct && this.isCacheValid()) {
@@ -328,13 +129,17 @@ export class ProductApiService {
             tap(product => console.log('✅ Fetched single product from API')),
             catchError(error => {
                 console.error('❌ Failed to fetch product by ID:', error);
-                // Fallback to mock data
-                const mockProduct = this.instantMockProducts.find(p => p.id === id);
-                if (mockProduct) {
-                    console.log('🔄 Using mock product as fallback');
-                    return of(mockProduct);
-                }
-                return throwError(() => new Error(`Product with ID ${id} not found`));
+                // Fallback to offline snapshot
+                return this.getOfflineProducts().pipe(
+                    map(products => {
+                        const snapshotProduct = products.find(p => p.id === id);
+                        if (!snapshotProduct) {
+                            throw new Error(`Product with ID ${id} not found`);
+                        }
+                        console.log('📴 Using offline snapshot product as fallback');
+                        return snapshotProduct;
+                    })
+                );
             })
         );
     }
@@ -370,6 +175,38 @@ export class ProductApiService {
         return this.getProducts(undefined, true);
     }
 
+    /**
+     * 🔄 Background refresh for ContentUpdateService
+     * Fetches products + groups bypassing the cache; on success updates the memory cache
+     * and the offline snapshot. Errors are NOT replaced by the snapshot - the caller keeps
+     * the content already on screen.
+     * @returns Fresh products and groups (groups null when the groups API failed)
+     */
+    refreshFromApi(): Observable<{ products: Product[]; groups: ProductGroup[] | null }> {
+        console.log('🔄 ProductApiService.refreshFromApi() - Background refresh');
+
+        return forkJoin({
+            products: this.getProductsFromRealApi(),
+            groups: this.getProductGroups().pipe(catchError(() => of(null)))
+        }).pipe(
+            tap(({ products, groups }) => {
+                this.updateCache(products);
+                this.offlineCache.markLive();
+                this.saveOfflineSnapshot(() => this.offlineCache.saveProducts(products));
+                if (groups) {
+                    this.saveOfflineSnapshot(() => this.offlineCache.saveGroups(groups));
+                }
+            })
+        );
+    }
+
+    /**
+     * Products currently held in memory (ignores TTL) - null before the first successful load
+     */
+    getCachedProducts(): Product[] | null {
+        return this.cachedProducts?.data ?? null;
+    }
+
     /**
      * Clear products cache manually
      */
@@ -404,20 +241,35 @@ export class ProductApiService {
     // Private helper methods
 
     /**
-    * Helper: Get mock products fallback
-    * Uses existing getMockProducts method or instant mock data
-    * @private
-    */
-    private getMockProductsFallback(filters?: ProductFilters): Observable<Product[]> {
-        // If you have getMockProducts method, use it
-        // Otherwise return instant mock data
-        if (this.instantMockProducts && this.instantMockProducts.length > 0) {
-            console.log('📦 Using instantMockProducts as fallback');
-            return of(this.instantMockProducts);
-        }
+     * Browser reports no network (navigator.onLine is unreliable only in the "online" direction)
+     * @private
+     */
+    private isBrowserOffline(): boolean {
+        return typeof navigator !== 'undefined' && navigator.onLine === false;
+    }
+
+    /**
+     * Products from the last good IndexedDB snapshot (empty list when there is none)
+     * @private
+     */
+    private getOfflineProducts(): Observable<Product[]> {
+        return from(this.offlineCache.loadProducts()).pipe(
+            map(products => {
+                if (!products) {
+                    console.warn('📭 No offline snapshot available - nothing to display');
+                    return [];
+                }
+                return products;
+            })
+        );
+    }
 
-        // Fallback to empty array
-        return of([]);
+    /**
+     * Persist snapshot in the background (failures only logged - live data is already on screen)
+     * @private
+     */
+    private saveOfflineSnapshot(save: () => Promise<void>): void {
+        save().catch(error => console.error('❌ Failed to save offline snapshot:', error));
     }
 
     /**
@@ -439,32 +291,6 @@ export class ProductApiService {
         return isTimeValid && filtersMatch;
     }
 
-    /**
-     * Handle API errors with graceful fallback to mock data
-     * @private
-     */
-    private handleApiError(error: HttpErrorResponse): Observable<Product[]> {
-        console.error('❌ ProductApiService API Error:', {
-            status: error.status,
-            message: error.message,
-            url: error.url
-        });
-
-        // Log specific error types for TV debugging
-        if (error.status === 0) {
-            console.warn('🌐 Network error - using mock data for TV display');
-        } else if (error.status >= 500) {
-            console.warn('🔧 Server error - using mock data for TV display');
-        } else if (error.status === 404) {
-            console.warn('📭 API endpoint not found - using mock data');
-        }
-
-        // Return instant mock data as fallback
-        console.log('🔄 Falling back to instant mock data for TV slideshow');
-        this.updateCache(this.instantMockProducts);
-        return of(this.instantMockProducts);
-    }
-
     /**
      * Update internal cache with fresh data
      * @private
@@ -572,8 +398,8 @@ export class ProductApiService {
 
                 console.log(`📦 Received ${response.items.length} products from API`);
 
-                // Map StockItem[] to Product[]
-                const products = response.items.map(item => this.mapStockItemToProduct(item));
+                // Map StockItem[] to Product[] (createdAt = first seen by this screen)
+                const products = this.firstSeen.apply(response.items.map(item => this.mapStockItemToProduct(item)));
 
                 console.log(`✅ Mapped ${products.length} products successfully`);
                 return products;
@@ -724,6 +550,12 @@ export class ProductApiService {
     getGroupsWithProducts(): Observable<GroupsWithProductsResponse> {
         console.log('🔗 ProductApiService.getGroupsWithProducts() - Fetching groups with products...');
 
+        // 📴 No network → straight to the offline snapshot
+        if (this.isBrowserOffline()) {
+            console.warn('📴 Browser is offline, loading groups from offline snapshot');
+            return this.getOfflineGroupsWithProducts(new Error('Browser is offline')).pipe(shareReplay(1));
+        }
+
         // Execute parallel API calls using forkJoin
         return forkJoin({
             groups: this.getProductGroups(),
@@ -733,43 +565,47 @@ export class ProductApiService {
             map(({ groups, products }) => {
                 console.log(`✅ Received ${groups.length} groups and ${products.length} products`);
 
-                // Map products to their respective groups
-                const groupsWithProducts = this.mapProductsToGroups(groups, products);
-
-                // Calculate statistics
-                const totalProducts = products.length;
-                const totalGroups = groups.length;
-                const emptyGroupsCount = groupsWithProducts.filter(g => g.group_products.length === 0).length;
+                // Keep the last good snapshot for offline boot
+                this.offlineCache.markLive();
+                this.saveOfflineSnapshot(() => this.offlineCache.saveGroups(groups));
+                this.saveOfflineSnapshot(() => this.offlineCache.saveProducts(products));
 
-                console.log(`📊 Statistics: ${totalProducts} products, ${totalGroups} groups, ${emptyGroupsCount} empty groups`);
-
-                // Build response
-                const response: GroupsWithProductsResponse = {
-                    success: true,
-                    error: {
-                        code: 0,
-                        message: ''
-                    },
-                    data: groupsWithProducts,
-                    totalProducts,
-                    totalGroups,
-                    emptyGroupsCount,
-                    mappedAt: new Date()
-                };
-
-                return response;
+                return this.buildGroupsWithProductsResponse(groups, products);
             }),
 
-            // Error handling
-            catchError((error: any) => {
+            // Error handling → offline snapshot, error response when there is none
+            catchError((error: unknown) => {
                 console.error('❌ ProductApiService.getGroupsWithProducts() - Error:', error);
+                return this.getOfflineGroupsWithProducts(error);
+            }),
+
+            // Share replay for multiple subscribers
+            shareReplay(1)
+        );
+    }
+
+    /**
+     * 🔧 HELPER: Groups with products from the offline snapshot
+     * Returns an error response when no (valid) snapshot exists
+     * @param error - Failure that triggered the fallback (code / message of the error response)
+     * @private
+     */
+    private getOfflineGroupsWithProducts(error: unknown): Observable<GroupsWithProductsResponse> {
+        return from(Promise.all([this.offlineCache.loadGroups(), this.offlineCache.loadProducts()])).pipe(
+            map(([groups, products]) => {
+                if (groups && products) {
+                    console.log('📴 Using offline snapshot for groups with products');
+                    return this.buildGroupsWithProductsResponse(groups, products);
+                }
 
                 // Return error response
                 const errorResponse: GroupsWithProductsResponse = {
                     success: false,
                     error: {
-                        code: error.status || -1,
-                        message: error.message || 'Failed to fetch groups with products'
+                        code: error instanceof HttpErrorResponse && error.status ? error.status : -1,
+                        message: (error instanceof Error || error instanceof HttpErrorResponse) && error.message
+                            ? error.message
+                            : 'Failed to fetch groups with products'
                     },
                     data: [],
                     totalProducts: 0,
@@ -778,14 +614,41 @@ export class ProductApiService {
                     mappedAt: new Date()
                 };
 
-                return of(errorResponse);
-            }),
-
-            // Share replay for multiple subscribers
-            shareReplay(1)
+                return errorResponse;
+            })
         );
     }
 
+    /**
+     * 🔧 HELPER: Build groups-with-products response with statistics
+     * @private
+     */
+    private buildGroupsWithProductsResponse(groups: ProductGroup[], products: Product[]): GroupsWithProductsResponse {
+        // Map products to their respective groups
+        const groupsWithProducts = this.mapProductsToGroups(groups, products);
+
+        // Calculate statistics
+        const totalProducts = products.length;
+        const totalGroups = groups.length;
+        const emptyGroupsCount = groupsWithProducts.filter(g => g.group_products.length === 0).length;
+
+        console.log(`📊 Statistics: ${totalProducts} products, ${totalGroups} groups, ${emptyGroupsCount} empty groups`);
+
+        // Build response
+        return {
+            success: true,
+            error: {
+                code: 0,
+                message: ''
+            },
+            data: groupsWithProducts,
+            totalProducts,
+            totalGroups,
+            emptyGroupsCount,
+            mappedAt: new Date()
+        };
+    }
+
     /**
      * 🔧 HELPER: Map products to their respective groups
      * Maps Product[] to ProductGroup[] based on gr_id matching
@@ -826,6 +689,9 @@ export class ProductApiService {
      * @returns Product object ready for slideshow display
      */
     private mapStockItemToProduct(item: StockItem): Product {
+        // Default price lists - other selections are applied per configuration (applyPriceLists)
+        const discount = calculateDiscount(item.basic_price, item.price);
+
         // Map basic fields
         const product: Product = {
             // ID: Convert number to string
@@ -846,26 +712,41 @@ export class ProductApiService {
             // Category: Convert group ID to string
             category: item.gr_id ? item.gr_id.toString() : 'uncategorized',
 
-            // ⚠️ CRITICAL: inStock is ALWAYS true (no quantity filtering!)
+            // Code: Stock system product code (used in QR code links)
+            code: item.code?.trim() || undefined,
+
+            // ⚠️ CRITICAL: inStock is true here - the configured stock policy decides (applyStockPolicy)
             inStock: true,
 
-            // Optional: Long description (use description_2 if available)
-            longDescription: item.description_2 || undefined,
+            // Stock quantity (used by the stock policy when enabled)
+            quantity: Number.isFinite(item.quantity) ? item.quantity : undefined,
+            quantityPerPack: item.quantity_per_pack > 0 ? item.quantity_per_pack : undefined,
+            quantityPerBigPack: item.quantity_per_big_pack > 0 ? item.quantity_per_big_pack : undefined,
+
+            // Optional: Secondary language texts (stk_name_2 / description_2)
+            secondary: this.mapSecondaryLanguage(item),
+
+            // Optional: Long description (not provided by API - description_2 is the secondary language)
+            longDescription: undefined,
 
             // Optional: Secondary image (not provided by API currently)
             secondaryImageUrl: undefined,
 
             // Optional: Calculate discount if basic_price > price
-            discount: this.calculateDiscount(item.basic_price, item.price),
+            discount,
+
+            // Optional: Sale badge for discounts >= 10%
+            badge: createDiscountBadge(discount),
 
-            // Optional: Create badge based on discount or other criteria
-            badge: this.createBadge(item),
+            // Optional: All price lists (SlideshowProductSettings.pricing)
+            prices: this.mapStockItemPrices(item),
+            priceListName: item.price_list_name?.trim() || undefined,
 
             // Optional: Display settings (not provided by API)
             displaySettings: undefined,
 
-            // Timestamps (not provided by API, set to current time)
-            createdAt: new Date(),
+            // Timestamps (not provided by API - createdAt is set to the first seen date by ProductFirstSeenService)
+            createdAt: undefined,
             updatedAt: new Date()
         };
 
@@ -897,66 +778,40 @@ export class ProductApiService {
     }
 
     /**
-     * 🆕 HELPER: Calculate discount information
-     * Compares basic_price with current price to determine discount
-     * @param basicPrice - Original price from API
-     * @param currentPrice - Current/sale price from API
-     * @returns ProductDiscount object or undefined if no discount
+     * 🆕 HELPER: Secondary language texts of a stock item
+     * @param item - StockItem from API
+     * @returns undefined when the item has no secondary name / description
      */
-    private calculateDiscount(basicPrice: number, currentPrice: number): ProductDiscount | undefined {
-        // Validate prices
-        if (!basicPrice || !currentPrice || basicPrice <= 0 || currentPrice <= 0) {
-            return undefined;
-        }
-
-        // No discount if current price >= basic price
-        if (currentPrice >= basicPrice) {
-            return undefined;
-        }
+    private mapSecondaryLanguage(item: StockItem): ProductSecondaryLanguage | undefined {
+        const name = item.stk_name_2?.trim();
+        const shortDescription = item.description_2?.trim();
 
-        // Calculate discount percentage
-        const discountAmount = basicPrice - currentPrice;
-        const discountPercentage = Math.round((discountAmount / basicPrice) * 100);
-
-        // Only show discount if >= 1%
-        if (discountPercentage < 1) {
+        if (!name && !shortDescription) {
             return undefined;
         }
 
         return {
-            originalPrice: basicPrice,
-            percentage: discountPercentage,
-            // Optional: Set valid until (not provided by API, so omitted)
+            name: name || undefined,
+            shortDescription: shortDescription || undefined
         };
     }
 
     /**
-     * 🆕 HELPER: Create product badge based on stock item data
-     * Determines if product should have a badge (NEW, SALE, etc.)
+     * 🆕 HELPER: Collect all price lists of a stock item
+     * Used by SlideshowProductSettings.pricing to pick the display / "was" price
      * @param item - StockItem from API
-     * @returns ProductBadge object or undefined
+     * @returns Positive prices by field name
      */
-    private createBadge(item: StockItem): ProductBadge | undefined {
-        // Badge logic based on discount
-        if (item.basic_price && item.price && item.basic_price > item.price) {
-            const discountPercentage = Math.round(
-                ((item.basic_price - item.price) / item.basic_price) * 100
-            );
+    private mapStockItemPrices(item: StockItem): Partial<Record<ProductPriceField, number>> {
+        const prices: Partial<Record<ProductPriceField, number>> = {};
 
-            // Show SALE badge for discounts >= 10%
-            if (discountPercentage >= 10) {
-                return {
-                    text: `${discountPercentage}%`,
-                    color: 'error', // Red for sale
-                    position: 'top-right'
-                };
+        PRODUCT_PRICE_FIELDS.forEach(field => {
+            const value = Number(item[field]);
+            if (Number.isFinite(value) && value > 0) {
+                prices[field] = value;
             }
-        }
-
-        // Future: Add logic for NEW badge based on createdAt timestamp
-        // Future: Add logic for TOP badge based on popularity
-        // For now, only discount badges are supported
+        });
 
-        return undefined;
+        return prices;
     }
 }
\ No newline at end of file
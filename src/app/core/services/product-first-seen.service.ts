@@ -0,0 +1,71 @@
+// src/app/core/services/product-first-seen.service.ts
+
+import { Injectable, inject, DOCUMENT } from '@angular/core';
+
+import { Product } from '@core/models/product.interface';
+
+/**
+ * Product First Seen Service
+ *
+ * The stock API has no creation date, so "new" products are detected per screen:
+ * the first time a product ID appears it gets the current time as `createdAt`.
+ * Products known on the very first load count as old (otherwise every product
+ * would be "NEW" after installing the screen).
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class ProductFirstSeenService {
+    private readonly document = inject(DOCUMENT);
+
+    private readonly STORAGE_KEY = 'tv-slideshow-product-first-seen';
+
+    /** productId → first seen timestamp (0 = known since the first load) */
+    private firstSeen: Record<string, number> | null = null;
+
+    /**
+     * Products with `createdAt` set to the first time this screen saw them
+     */
+    apply(products: Product[]): Product[] {
+        if (products.length === 0) return products;
+
+        const known = this.load();
+        const isFirstLoad = Object.keys(known).length === 0;
+        const now = Date.now();
+        let changed = false;
+
+        products.forEach(product => {
+            if (known[product.id] === undefined) {
+                known[product.id] = isFirstLoad ? 0 : now;
+                changed = true;
+            }
+        });
+
+        if (changed) {
+            this.save(known);
+        }
+
+        return products.map(product => ({ ...product, createdAt: new Date(known[product.id]) }));
+    }
+
+    private load(): Record<string, number> {
+        if (!this.firstSeen) {
+            try {
+                const stored = this.document.defaultView?.localStorage?.getItem(this.STORAGE_KEY);
+                this.firstSeen = stored ? JSON.parse(stored) : {};
+            } catch (error) {
+                console.warn('⚠️ ProductFirstSeenService: Failed to read first seen dates', error);
+                this.firstSeen = {};
+            }
+        }
+        return this.firstSeen!;
+    }
+
+    private save(known: Record<string, number>): void {
+        try {
+            this.document.defaultView?.localStorage?.setItem(this.STORAGE_KEY, JSON.stringify(known));
+        } catch (error) {
+            console.warn('⚠️ ProductFirstSeenService: Failed to store first seen dates', error);
+        }
+    }
+}
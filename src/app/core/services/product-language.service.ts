@@ -0,0 +1,47 @@
+// src/app/core/services/product-language.service.ts
+
+import { Injectable, inject, signal, computed, effect, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+import { ScheduleService } from './schedule.service';
+import { getLanguageSettings } from '@core/utils/product-language.utils';
+
+/**
+ * Product Language Service
+ *
+ * Shared language clock for bilingual templates: in 'alternate' mode every
+ * product text on screen switches language at the same moment.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class ProductLanguageService {
+    private readonly scheduleService = inject(ScheduleService);
+    private readonly platformId = inject(PLATFORM_ID);
+
+    private readonly showSecondarySignal = signal<boolean>(false);
+
+    // Public readonly signals
+    readonly settings = computed(() => getLanguageSettings(this.scheduleService.effectiveConfig().language));
+
+    readonly mode = computed(() => this.settings().mode);
+
+    /** 'alternate' mode: secondary language is on screen */
+    readonly showSecondary = this.showSecondarySignal.asReadonly();
+
+    constructor() {
+        effect((onCleanup) => {
+            const { mode, alternateInterval } = this.settings();
+            this.showSecondarySignal.set(false);
+
+            if (mode !== 'alternate' || !isPlatformBrowser(this.platformId)) return;
+
+            console.log(`🌐 ProductLanguageService: Alternating languages every ${alternateInterval}s`);
+            const intervalId = setInterval(
+                () => this.showSecondarySignal.update(value => !value),
+                alternateInterval * 1000
+            );
+            onCleanup(() => clearInterval(intervalId));
+        });
+    }
+}
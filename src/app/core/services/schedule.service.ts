@@ -0,0 +1,73 @@
+// src/app/core/services/schedule.service.ts
+
+import { Injectable, inject, signal, computed, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Observable } from 'rxjs';
+
+import { SlideshowConfig, SlideshowScheduleEntry } from '@core/models/slideshow-config.interface';
+import { ConfigService } from './config.service';
+import { applyScheduleEntry, findActiveScheduleEntry } from '@core/utils/schedule.utils';
+
+/**
+ * Dayparting Schedule Service
+ *
+ * Evaluates `SlideshowConfig.schedule` against the local clock and exposes
+ * the effective configuration (base config + active entry overrides).
+ *
+ * Features:
+ * - Clock tick every 30s (window boundaries are minute-based)
+ * - Signal for the active entry and the effective config
+ * - Observable that emits only when the active entry changes
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class ScheduleService {
+    private readonly configService = inject(ConfigService);
+    private readonly platformId = inject(PLATFORM_ID);
+
+    // Clock check interval (ms)
+    private readonly CHECK_INTERVAL = 30000;
+
+    private readonly nowSignal = signal<Date>(new Date());
+
+    /**
+     * ID of the active entry - primitive value, so downstream computeds
+     * only recompute when the window actually changes (not on every tick)
+     */
+    private readonly activeEntryId = computed<string | null>(() =>
+        findActiveScheduleEntry(this.configService.config().schedule, this.nowSignal())?.id ?? null
+    );
+
+    // Public readonly signals
+    readonly now = this.nowSignal.asReadonly();
+
+    readonly activeEntry = computed<SlideshowScheduleEntry | null>(() => {
+        const id = this.activeEntryId();
+        if (!id) return null;
+        return this.configService.config().schedule?.entries.find(entry => entry.id === id) ?? null;
+    });
+
+    readonly effectiveConfig = computed<SlideshowConfig>(() =>
+        applyScheduleEntry(this.configService.config(), this.activeEntry())
+    );
+
+    /** Emits the active entry ID whenever the schedule switches windows */
+    readonly activeEntryChanges$: Observable<string | null> = toObservable(this.activeEntryId);
+
+    constructor() {
+        if (isPlatformBrowser(this.platformId)) {
+            setInterval(() => this.nowSignal.set(new Date()), this.CHECK_INTERVAL);
+            console.log('🗓️ ScheduleService: Clock started');
+        }
+    }
+
+    /**
+     * Resolve effective configuration for a given base config at the current time
+     * Used where the config arrives through an Observable (e.g. ConfigService.config$)
+     */
+    resolveConfig(config: SlideshowConfig): SlideshowConfig {
+        return applyScheduleEntry(config, findActiveScheduleEntry(config.schedule, this.nowSignal()));
+    }
+}
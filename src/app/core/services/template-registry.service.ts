@@ -12,6 +12,7 @@ import {
     TemplateMetadata,
     TemplateFactoryConfig,
     Product,
+    SlideshowTemplateSettings,
     TemplateCategoryEnum,
     ValidationResult,
     ValidationError,
@@ -28,6 +29,8 @@ import {
     ClassicPromoTemplateComponent,
 } from '../../features/templates';
 
+import { findMatchingTemplateRule } from '@core/utils/template-rules.utils';
+
 /**
  * Template Registry Service for TV Slideshow Application
  * Manages dynamic template loading, registration, and selection
@@ -87,6 +90,12 @@ export class TemplateRegistryService {
 
     readonly hasTemplates = computed(() => this.templates().length > 0);
 
+    // Session seed for deterministic weighted-random template draws
+    private readonly randomSeed = Math.floor(Math.random() * 2 ** 31);
+
+    // Unavailable template IDs already warned about (resolveTemplateId runs once per slide)
+    private readonly reportedUnavailableTemplates = new Set<string>();
+
     // Observable streams for backward compatibility
     private readonly templatesSubject = new BehaviorSubject<ProductTemplate[]>([]);
     readonly templates$ = this.templatesSubject.asObservable();
@@ -176,6 +185,107 @@ export class TemplateRegistryService {
         }
     }
 
+    /**
+     * Check if a template is registered, active and has a component
+     * @param templateId Template identifier
+     */
+    hasTemplate(templateId: string | undefined | null): boolean {
+        if (!templateId) return false;
+        const template = this.templateRegistry.get(templateId);
+        return !!template && template.isActive !== false && this.componentRegistry.has(templateId);
+    }
+
+    /**
+     * Resolve template ID with configured fallback
+     * Unknown/inactive templates resolve to fallbackId, then to 'classic'
+     * @param templateId Requested template
+     * @param fallbackId Fallback template (SlideshowTemplateSettings.fallbackTemplateId)
+     */
+    resolveTemplateId(templateId: string | undefined, fallbackId?: string): string {
+        if (this.hasTemplate(templateId)) return templateId!;
+
+        const fallback = this.hasTemplate(fallbackId) ? fallbackId! : 'classic';
+        if (!this.reportedUnavailableTemplates.has(String(templateId))) {
+            this.reportedUnavailableTemplates.add(String(templateId));
+            console.warn(`⚠️ Template '${templateId}' not available, using fallback '${fallback}'`);
+        }
+        return fallback;
+    }
+
+    /**
+     * Select template for a position in the slide stream
+     *
+     * Modes:
+     * - single: selectedTemplateId
+     * - rotation: rotationOrder, advancing every slide or every loop (rotationScope)
+     * - random: weighted draw from randomWeights (deterministic per position)
+     * - product-based: highest-priority matching productTemplateRule
+     *
+     * @param settings Template settings from configuration
+     * @param position Slide position in the stream (0, 1, 2, ... across loops)
+     * @param slideCount Slides per loop (used for rotationScope 'loop')
+     * @param product Product on the slide (required for product-based mode)
+     * @returns Resolved template ID (always registered)
+     */
+    selectTemplate(
+        settings: SlideshowTemplateSettings,
+        position: number,
+        slideCount: number,
+        product?: Product
+    ): string {
+        const fallbackId = settings.fallbackTemplateId;
+        const step = settings.rotationScope === 'loop'
+            ? Math.floor(position / Math.max(1, slideCount))
+            : position;
+
+        switch (settings.mode) {
+            case 'rotation': {
+                const order = (settings.rotationOrder ?? []).filter(id => this.hasTemplate(id));
+                if (order.length === 0) break;
+                return order[step % order.length];
+            }
+
+            case 'random': {
+                const picked = this.pickWeightedTemplate(settings.randomWeights ?? {}, step);
+                if (!picked) break;
+                return picked;
+            }
+
+            case 'product-based': {
+                if (!product) break;
+                const rules = (settings.productTemplateRules ?? []).filter(rule => this.hasTemplate(rule.templateId));
+                const rule = findMatchingTemplateRule(product, rules);
+                if (!rule) break;
+                return rule.templateId;
+            }
+        }
+
+        return this.resolveTemplateId(settings.selectedTemplateId, fallbackId);
+    }
+
+    /**
+     * Weighted random pick between registered templates
+     * Same step always gives the same template within a session
+     * @param weights Template ID → weight (0 or missing = never)
+     * @param step Draw index
+     */
+    pickWeightedTemplate(weights: Record<string, number>, step: number): string | null {
+        const candidates = Object.entries(weights)
+            .filter(([id, weight]) => weight > 0 && this.hasTemplate(id));
+
+        if (candidates.length === 0) return null;
+
+        const total = candidates.reduce((sum, [, weight]) => sum + weight, 0);
+        let roll = this.seededRandom(this.randomSeed + step * 7919) * total;
+
+        for (const [id, weight] of candidates) {
+            roll -= weight;
+            if (roll < 0) return id;
+        }
+
+        return candidates[candidates.length - 1][0];
+    }
+
     /**
      * Get all available templates
      * @returns Observable<ProductTemplate[]>
@@ -835,6 +945,16 @@ export class TemplateRegistryService {
         return throwError(() => new Error('No templates available'));
     }
 
+    /**
+     * Deterministic pseudo-random number in [0, 1) (mulberry32)
+     */
+    private seededRandom(seed: number): number {
+        let t = (seed + 0x6D2B79F5) | 0;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
     private getFallbackComponent(): Type<any> | null {
         console.log('🔄 Getting fallback component...');
 
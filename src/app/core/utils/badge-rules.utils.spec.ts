@@ -0,0 +1,129 @@
+// src/app/core/utils/badge-rules.utils.spec.ts
+
+import { Product, ProductBadge } from '@core/models/product.interface';
+import { ProductBadgeRule, SlideshowBadgeSettings } from '@core/models/slideshow-config.interface';
+import { BadgePosition, ProductBadgeType } from '@core/models/enums';
+import {
+    createBadgeRule,
+    getBadgeLimit,
+    getProductBadges,
+    getTemplateBadges,
+    MAX_BADGES_PER_PRODUCT,
+    productMatchesBadgeRule
+} from './badge-rules.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2025, 2, 14, 12, 0).getTime();
+
+const SALE_BADGE: ProductBadge = { text: '20%', color: 'error', position: 'top-right', type: ProductBadgeType.SALE };
+
+function product(overrides: Partial<Product> = {}): Product {
+    return {
+        id: 'a',
+        name: 'Product',
+        price: 10,
+        imageUrl: '',
+        shortDescription: '',
+        category: '1',
+        inStock: true,
+        ...overrides
+    };
+}
+
+function rule(id: string, overrides: Partial<ProductBadgeRule> = {}): ProductBadgeRule {
+    return { ...createBadgeRule(id, 0), text: id.toUpperCase(), ...overrides };
+}
+
+function settings(rules: ProductBadgeRule[], overrides: Partial<SlideshowBadgeSettings> = {}): SlideshowBadgeSettings {
+    return { enabled: true, rules, defaultMaxBadges: 2, templateLimits: {}, ...overrides };
+}
+
+describe('badge-rules.utils', () => {
+    describe('productMatchesBadgeRule', () => {
+        it('matches products first seen within newWithinDays', () => {
+            const newRule = rule('new', { conditions: { newWithinDays: 14 } });
+
+            expect(productMatchesBadgeRule(product({ createdAt: new Date(NOW - 3 * DAY_MS) }), newRule, NOW)).toBeTrue();
+            expect(productMatchesBadgeRule(product({ createdAt: new Date(NOW - 15 * DAY_MS) }), newRule, NOW)).toBeFalse();
+            expect(productMatchesBadgeRule(product(), newRule, NOW)).toBeFalse();
+        });
+
+        it('requires all defined conditions', () => {
+            const clearance = rule('clearance', { conditions: { minDiscount: 30, quantityBelow: 5, tags: ['Outlet'] } });
+            const matching = product({ discount: { originalPrice: 20, percentage: 30 }, quantity: 2, tags: ['outlet '] });
+
+            expect(productMatchesBadgeRule(matching, clearance, NOW)).toBeTrue();
+            expect(productMatchesBadgeRule({ ...matching, quantity: 5 }, clearance, NOW)).toBeFalse();
+            expect(productMatchesBadgeRule({ ...matching, tags: [] }, clearance, NOW)).toBeFalse();
+        });
+    });
+
+    describe('getProductBadges', () => {
+        it('returns only the built-in badge while rules are disabled', () => {
+            const badges = getProductBadges(product({ badge: SALE_BADGE }), settings([rule('top')], { enabled: false }), NOW);
+            expect(badges).toEqual([SALE_BADGE]);
+        });
+
+        it('orders rule badges by priority and keeps one badge per type', () => {
+            const rules = [
+                rule('low', { priority: 1, type: ProductBadgeType.TOP_SELLER }),
+                rule('high', { priority: 5, type: ProductBadgeType.RECOMMENDED }),
+                rule('duplicate', { priority: 3, type: ProductBadgeType.RECOMMENDED })
+            ];
+
+            expect(getProductBadges(product(), settings(rules), NOW).map(b => b.text)).toEqual(['HIGH', 'LOW']);
+        });
+
+        it('replaces the built-in badge when a rule produced the same type', () => {
+            const sale = rule('sale', { type: ProductBadgeType.SALE, text: '-{discount}%', position: BadgePosition.TOP_LEFT });
+            const discounted = product({ discount: { originalPrice: 25, percentage: 20 }, badge: SALE_BADGE });
+
+            const badges = getProductBadges(discounted, settings([sale]), NOW);
+
+            expect(badges.length).toBe(1);
+            expect(badges[0].text).toBe('-20%');
+            expect(badges[0].position).toBe(BadgePosition.TOP_LEFT);
+        });
+
+        it('keeps the built-in badge after the rule badges', () => {
+            const badges = getProductBadges(product({ badge: SALE_BADGE }), settings([rule('top', { type: ProductBadgeType.TOP_SELLER })]), NOW);
+            expect(badges.map(b => b.text)).toEqual(['TOP', '20%']);
+        });
+
+        it('ignores disabled rules and rules without text', () => {
+            const rules = [rule('off', { enabled: false }), rule('empty', { text: '  ' })];
+            expect(getProductBadges(product(), settings(rules), NOW)).toEqual([]);
+        });
+    });
+
+    describe('badge limits', () => {
+        const rules = [
+            rule('one', { priority: 3, type: ProductBadgeType.TOP_SELLER }),
+            rule('two', { priority: 2, type: ProductBadgeType.RECOMMENDED }),
+            rule('three', { priority: 1, type: ProductBadgeType.EXCLUSIVE })
+        ];
+
+        it('uses the template limit, then the default limit', () => {
+            const badgeSettings = settings(rules, { templateLimits: { minimal: 0, bold: 3 } });
+
+            expect(getBadgeLimit(badgeSettings, 'bold')).toBe(3);
+            expect(getBadgeLimit(badgeSettings, 'minimal')).toBe(0);
+            expect(getBadgeLimit(badgeSettings, 'classic')).toBe(2);
+            expect(getBadgeLimit(undefined, 'classic')).toBe(2);
+        });
+
+        it('never exceeds the maximum badges per product', () => {
+            expect(getBadgeLimit(settings(rules, { defaultMaxBadges: 10 }), 'classic')).toBe(MAX_BADGES_PER_PRODUCT);
+            expect(getBadgeLimit(settings(rules, { defaultMaxBadges: -1 }), 'classic')).toBe(0);
+        });
+
+        it('shows the highest priority badges up to the template limit', () => {
+            const badgeSettings = settings(rules, { templateLimits: { minimal: 0, bold: 3 } });
+
+            expect(getTemplateBadges(product(), badgeSettings, 'classic', NOW).map(b => b.text)).toEqual(['ONE', 'TWO']);
+            expect(getTemplateBadges(product(), badgeSettings, 'bold', NOW).length).toBe(3);
+            expect(getTemplateBadges(product(), badgeSettings, 'minimal', NOW)).toEqual([]);
+            expect(getTemplateBadges(null, badgeSettings, 'bold', NOW)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,159 @@
+// src/app/core/utils/badge-rules.utils.ts
+
+import { Product, ProductBadge } from '@core/models/product.interface';
+import { ProductBadgeRule, SlideshowBadgeSettings } from '@core/models/slideshow-config.interface';
+import { BadgePosition, ProductBadgeType } from '@core/models/enums';
+
+/**
+ * Product badge rule utilities
+ *
+ * Badges are evaluated when a product is rendered, so time based rules
+ * ("NEW within 14 days") and config changes apply without reloading products.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_BADGE_SETTINGS: SlideshowBadgeSettings = {
+    enabled: false,
+    rules: [],
+    defaultMaxBadges: 2,
+    templateLimits: {}
+};
+
+/** Upper limit for badges per product (TV readability) */
+export const MAX_BADGES_PER_PRODUCT = 4;
+
+/** Placeholders supported in rule text */
+export const BADGE_TEXT_PLACEHOLDERS = ['{discount}'];
+
+/**
+ * Starting point for a new rule in the admin editor
+ */
+export function createBadgeRule(id: string, priority: number): ProductBadgeRule {
+    return {
+        id,
+        name: 'Ново правило',
+        enabled: true,
+        type: ProductBadgeType.NEW,
+        text: 'НОВО',
+        color: 'primary',
+        position: BadgePosition.TOP_LEFT,
+        priority,
+        conditions: {}
+    };
+}
+
+/**
+ * Check if a product satisfies all conditions of a badge rule
+ * Missing/empty condition means "no restriction"
+ *
+ * @param now - Reference time for newWithinDays (Product.createdAt = first seen)
+ */
+export function productMatchesBadgeRule(product: Product, rule: ProductBadgeRule, now: number = Date.now()): boolean {
+    const conditions = rule.conditions ?? {};
+
+    if (conditions.productIds?.length && !conditions.productIds.includes(product.id)) {
+        return false;
+    }
+
+    if (conditions.categories?.length && !conditions.categories.includes(product.category)) {
+        return false;
+    }
+
+    if (conditions.minDiscount != null && (product.discount?.percentage ?? 0) < conditions.minDiscount) {
+        return false;
+    }
+
+    if (conditions.newWithinDays != null) {
+        const firstSeen = product.createdAt ? new Date(product.createdAt).getTime() : NaN;
+        if (isNaN(firstSeen) || now - firstSeen > conditions.newWithinDays * DAY_MS) return false;
+    }
+
+    if (conditions.quantityBelow != null) {
+        if (product.quantity === undefined || product.quantity >= conditions.quantityBelow) return false;
+    }
+
+    if (conditions.inStock !== undefined && product.inStock !== conditions.inStock) {
+        return false;
+    }
+
+    if (conditions.tags?.length) {
+        const productTags = (product.tags ?? []).map(tag => tag.trim().toLowerCase());
+        if (!conditions.tags.some(tag => productTags.includes(tag.trim().toLowerCase()))) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Sort rules by priority (highest first), keeping config order for ties
+ */
+export function sortBadgeRules(rules: ProductBadgeRule[]): ProductBadgeRule[] {
+    return rules
+        .map((rule, index) => ({ rule, index }))
+        .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index)
+        .map(({ rule }) => rule);
+}
+
+/**
+ * Badge produced by a rule ({discount} replaced with the discount percentage)
+ */
+export function buildRuleBadge(product: Product, rule: ProductBadgeRule): ProductBadge {
+    return {
+        text: rule.text.replace(/\{discount\}/g, `${product.discount?.percentage ?? 0}`).trim(),
+        color: rule.color,
+        position: rule.position,
+        type: rule.type
+    };
+}
+
+/**
+ * All badges of a product in display order
+ * - matching rules by priority, one badge per type
+ * - built-in badge (discount / low stock) last, unless a rule produced the same type
+ * Rules disabled → only the built-in badge.
+ */
+export function getProductBadges(
+    product: Product,
+    settings: SlideshowBadgeSettings | undefined,
+    now: number = Date.now()
+): ProductBadge[] {
+    const builtIn = product.badge ? [product.badge] : [];
+    if (!settings?.enabled || !settings.rules?.length) return builtIn;
+
+    const badges: ProductBadge[] = [];
+    const types = new Set<ProductBadgeType>();
+
+    sortBadgeRules(settings.rules.filter(rule => rule.enabled && rule.text.trim())).forEach(rule => {
+        if (types.has(rule.type) || !productMatchesBadgeRule(product, rule, now)) return;
+        types.add(rule.type);
+        badges.push(buildRuleBadge(product, rule));
+    });
+
+    builtIn
+        .filter(badge => !badge.type || !types.has(badge.type))
+        .forEach(badge => badges.push(badge));
+
+    return badges;
+}
+
+/**
+ * Max badges per product for a template
+ */
+export function getBadgeLimit(settings: SlideshowBadgeSettings | undefined, templateId: string): number {
+    const limit = settings?.templateLimits?.[templateId] ?? settings?.defaultMaxBadges ?? DEFAULT_BADGE_SETTINGS.defaultMaxBadges;
+    return Math.min(MAX_BADGES_PER_PRODUCT, Math.max(0, Math.floor(limit)));
+}
+
+/**
+ * Badges shown on a template (priority order, capped by the template limit)
+ */
+export function getTemplateBadges(
+    product: Product | null,
+    settings: SlideshowBadgeSettings | undefined,
+    templateId: string,
+    now: number = Date.now()
+): ProductBadge[] {
+    if (!product) return [];
+    return getProductBadges(product, settings, now).slice(0, getBadgeLimit(settings, templateId));
+}
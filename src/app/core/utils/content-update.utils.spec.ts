@@ -0,0 +1,115 @@
+// src/app/core/utils/content-update.utils.spec.ts
+
+import { Product } from '@core/models/product.interface';
+import { ProductGroup } from '@core/models/api';
+import {
+    diffProductGroups,
+    diffProducts,
+    hasContentChanges,
+    isMajorContentUpdate
+} from './content-update.utils';
+
+function product(id: string, overrides: Partial<Product> = {}): Product {
+    return {
+        id,
+        name: `Product ${id}`,
+        price: 10,
+        imageUrl: '',
+        shortDescription: '',
+        category: '1',
+        inStock: true,
+        ...overrides
+    };
+}
+
+function group(id: number, name: string): ProductGroup {
+    return { id, name } as ProductGroup;
+}
+
+describe('content-update.utils', () => {
+    describe('diffProducts', () => {
+        it('classifies added, removed, price and other changes', () => {
+            const previous = [product('kept'), product('removed'), product('price'), product('text')];
+            const next = [
+                product('text', { name: 'Renamed' }),
+                product('price', { price: 12 }),
+                product('kept'),
+                product('added')
+            ];
+
+            const diff = diffProducts(previous, next);
+
+            expect(diff.added.map(p => p.id)).toEqual(['added']);
+            expect(diff.removed.map(p => p.id)).toEqual(['removed']);
+            expect(diff.priceChanged).toEqual([{ product: next[1], previousPrice: 10 }]);
+            expect(diff.updated.map(p => p.id)).toEqual(['text']);
+        });
+
+        it('counts price list changes as price changes', () => {
+            const diff = diffProducts(
+                [product('a', { prices: { price: 10, price_1: 9 } })],
+                [product('a', { prices: { price: 10, price_1: 8 } })]
+            );
+
+            expect(diff.priceChanged.length).toBe(1);
+            expect(diff.updated.length).toBe(0);
+        });
+
+        it('reports a product once - price changes win over other changes', () => {
+            const diff = diffProducts([product('a')], [product('a', { price: 11, name: 'Renamed' })]);
+
+            expect(diff.priceChanged.length).toBe(1);
+            expect(diff.updated.length).toBe(0);
+        });
+
+        it('compares nested values by content and ignores fields that are not displayed', () => {
+            const diff = diffProducts(
+                [product('a', { discount: { originalPrice: 20, percentage: 50 }, quantity: 4 })],
+                [product('a', { discount: { originalPrice: 20, percentage: 50 }, quantity: 3 })]
+            );
+
+            expect(hasContentChanges(diff, null)).toBeFalse();
+        });
+    });
+
+    describe('diffProductGroups', () => {
+        it('detects added, removed and renamed groups', () => {
+            const diff = diffProductGroups(
+                [group(1, 'Drinks'), group(2, 'Food')],
+                [group(1, 'Beverages'), group(3, 'Snacks')]
+            );
+
+            expect(diff.added.map(g => g.id)).toEqual([3]);
+            expect(diff.removed.map(g => g.id)).toEqual([2]);
+            expect(diff.renamed.map(g => g.id)).toEqual([1]);
+        });
+    });
+
+    describe('hasContentChanges', () => {
+        it('includes group changes', () => {
+            const products = diffProducts([product('a')], [product('a')]);
+            const groups = diffProductGroups([group(1, 'Drinks')], [group(1, 'Beverages')]);
+
+            expect(hasContentChanges(products, null)).toBeFalse();
+            expect(hasContentChanges(products, groups)).toBeTrue();
+        });
+    });
+
+    describe('isMajorContentUpdate', () => {
+        const previous = [product('a'), product('b'), product('c'), product('d')];
+
+        it('is major when half of the assortment was added or removed', () => {
+            const diff = diffProducts(previous, [product('a'), product('b'), product('e')]);
+            expect(isMajorContentUpdate(diff, previous.length)).toBeTrue();
+        });
+
+        it('is not major for small assortment or price changes', () => {
+            const diff = diffProducts(previous, [product('a', { price: 1 }), product('b'), product('c')]);
+            expect(isMajorContentUpdate(diff, previous.length)).toBeFalse();
+        });
+
+        it('is major when the screen had no products before', () => {
+            expect(isMajorContentUpdate(diffProducts([], [product('a')]), 0)).toBeTrue();
+        });
+    });
+});
@@ -0,0 +1,126 @@
+// src/app/core/utils/content-update.utils.ts
+
+import { Product } from '@core/models/product.interface';
+import { ProductGroup } from '@core/models/api';
+import { ContentUpdate, ProductDiff, ProductGroupDiff } from '@core/models/content-update.interface';
+
+/**
+ * Background content update utilities
+ */
+
+/** Shortest allowed polling interval (ms) - protects the stock API from misconfiguration */
+export const MIN_UPDATE_CHECK_INTERVAL = 60 * 1000;
+
+/** Added + removed products at or above this share of the previous list = major update */
+export const MAJOR_UPDATE_RATIO = 0.5;
+
+/** How long the on-screen update notification stays visible (ms) */
+export const UPDATE_NOTIFICATION_DURATION = 6000;
+
+/** Displayed product fields compared for `updated` (price / price lists have their own list) */
+const COMPARED_PRODUCT_FIELDS: Array<keyof Product> = [
+    'name',
+    'shortDescription',
+    'longDescription',
+    'secondary',
+    'imageUrl',
+    'secondaryImageUrl',
+    'category',
+    'code',
+    'inStock',
+    'stockStatus',
+    'discount',
+    'badge'
+];
+
+/**
+ * Difference between two product lists (matched by id, order ignored)
+ */
+export function diffProducts(previous: Product[], next: Product[]): ProductDiff {
+    const previousById = new Map(previous.map(product => [product.id, product]));
+    const nextIds = new Set(next.map(product => product.id));
+
+    const diff: ProductDiff = {
+        added: [],
+        removed: previous.filter(product => !nextIds.has(product.id)),
+        priceChanged: [],
+        updated: []
+    };
+
+    next.forEach(product => {
+        const old = previousById.get(product.id);
+
+        if (!old) {
+            diff.added.push(product);
+        } else if (old.price !== product.price || !isSameValue(old.prices, product.prices)) {
+            diff.priceChanged.push({ product, previousPrice: old.price });
+        } else if (COMPARED_PRODUCT_FIELDS.some(field => !isSameValue(old[field], product[field]))) {
+            diff.updated.push(product);
+        }
+    });
+
+    return diff;
+}
+
+/**
+ * Difference between two group lists (matched by id)
+ */
+export function diffProductGroups(previous: ProductGroup[], next: ProductGroup[]): ProductGroupDiff {
+    const previousById = new Map(previous.map(group => [group.id, group]));
+    const nextIds = new Set(next.map(group => group.id));
+
+    return {
+        added: next.filter(group => !previousById.has(group.id)),
+        removed: previous.filter(group => !nextIds.has(group.id)),
+        renamed: next.filter(group => {
+            const old = previousById.get(group.id);
+            return !!old && old.name !== group.name;
+        })
+    };
+}
+
+/**
+ * Anything to apply?
+ */
+export function hasContentChanges(products: ProductDiff, groups: ProductGroupDiff | null): boolean {
+    const productChanges = products.added.length + products.removed.length
+        + products.priceChanged.length + products.updated.length;
+    const groupChanges = groups ? groups.added.length + groups.removed.length + groups.renamed.length : 0;
+
+    return productChanges + groupChanges > 0;
+}
+
+/**
+ * Major update - a large part of the assortment was replaced (or the screen had nothing before)
+ * Price / text changes are never major.
+ */
+export function isMajorContentUpdate(products: ProductDiff, previousCount: number): boolean {
+    if (previousCount === 0) return products.added.length > 0;
+    return (products.added.length + products.removed.length) / previousCount >= MAJOR_UPDATE_RATIO;
+}
+
+/**
+ * Short on-screen summary, e.g. "+2 нови · −1 премахнати · 3 нови цени"
+ */
+export function describeContentUpdate(update: ContentUpdate): string {
+    const { added, removed, priceChanged, updated } = update.products;
+    const parts: string[] = [];
+
+    if (added.length) parts.push(`+${added.length} нови`);
+    if (removed.length) parts.push(`−${removed.length} премахнати`);
+    if (priceChanged.length) parts.push(`${priceChanged.length} нови цени`);
+    if (updated.length) parts.push(`${updated.length} променени`);
+
+    const groups = update.groups;
+    if (groups && groups.added.length + groups.removed.length + groups.renamed.length > 0) {
+        parts.push('променени групи');
+    }
+
+    return parts.join(' · ');
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,99 @@
+// src/app/core/utils/emergency.utils.spec.ts
+
+import { SlideshowConfig, SlideshowEmergencySettings } from '@core/models/slideshow-config.interface';
+import {
+    getActiveEmergency,
+    hasEmergencyTitle,
+    isEmergencyOnlyChange,
+    isEmergencyTitleMissing
+} from './emergency.utils';
+
+function emergency(overrides: Partial<SlideshowEmergencySettings> = {}): SlideshowEmergencySettings {
+    return {
+        active: true,
+        title: 'Временно затворено',
+        backgroundColor: '#b71c1c',
+        textColor: '#ffffff',
+        ...overrides
+    };
+}
+
+function metadata(at: Date): SlideshowConfig['metadata'] {
+    return {
+        createdBy: 'admin',
+        createdAt: new Date(2025, 0, 1),
+        lastModified: { by: 'admin', at, changes: [] },
+        version: '1.0.0',
+        usage: { activationCount: 1, totalRuntime: 0 },
+        tags: []
+    };
+}
+
+function config(overrides: Partial<SlideshowConfig> = {}): SlideshowConfig {
+    return {
+        templates: { mode: 'single', selectedTemplateId: 'classic' },
+        timing: { baseSlideDuration: 10000 },
+        metadata: metadata(new Date(2025, 2, 14, 10, 0)),
+        ...overrides
+    } as unknown as SlideshowConfig;
+}
+
+describe('emergency.utils', () => {
+    describe('getActiveEmergency', () => {
+        it('returns the message while the takeover is active', () => {
+            const active = emergency();
+
+            expect(getActiveEmergency(config({ emergency: active }))).toBe(active);
+        });
+
+        it('returns null when inactive or missing', () => {
+            expect(getActiveEmergency(config({ emergency: emergency({ active: false }) }))).toBeNull();
+            expect(getActiveEmergency(config())).toBeNull();
+            expect(getActiveEmergency(null)).toBeNull();
+        });
+    });
+
+    describe('hasEmergencyTitle', () => {
+        it('requires a non-blank title', () => {
+            expect(hasEmergencyTitle({ title: 'Инвентаризация' })).toBeTrue();
+            expect(hasEmergencyTitle({ title: '   ' })).toBeFalse();
+            expect(hasEmergencyTitle({ title: '' })).toBeFalse();
+            expect(hasEmergencyTitle(undefined)).toBeFalse();
+        });
+    });
+
+    describe('isEmergencyTitleMissing', () => {
+        it('flags an active takeover without a title', () => {
+            expect(isEmergencyTitleMissing(emergency({ title: ' ' }))).toBeTrue();
+            expect(isEmergencyTitleMissing(emergency())).toBeFalse();
+        });
+
+        it('allows a blank title while inactive', () => {
+            expect(isEmergencyTitleMissing(emergency({ active: false, title: '' }))).toBeFalse();
+            expect(isEmergencyTitleMissing(undefined)).toBeFalse();
+        });
+    });
+
+    describe('isEmergencyOnlyChange', () => {
+        it('ignores emergency and metadata changes', () => {
+            const previous = config({ emergency: emergency({ active: false }) });
+            const next = config({
+                emergency: emergency({ activatedAt: '2025-03-14T10:05:00.000Z', activatedBy: 'remote' }),
+                metadata: metadata(new Date(2025, 2, 14, 10, 5))
+            });
+
+            expect(isEmergencyOnlyChange(previous, next)).toBeTrue();
+            expect(isEmergencyOnlyChange(config(), config({ emergency: emergency() }))).toBeTrue();
+        });
+
+        it('detects playback changes made together with the takeover', () => {
+            const previous = config();
+            const next = config({
+                emergency: emergency(),
+                timing: { baseSlideDuration: 5000 } as SlideshowConfig['timing']
+            });
+
+            expect(isEmergencyOnlyChange(previous, next)).toBeFalse();
+        });
+    });
+});
@@ -0,0 +1,47 @@
+// src/app/core/utils/emergency.utils.ts
+
+import { SlideshowConfig, SlideshowEmergencySettings } from '@core/models/slideshow-config.interface';
+
+/**
+ * Emergency takeover utilities
+ */
+
+/**
+ * Emergency message currently on screen (null when missing or not active)
+ */
+export function getActiveEmergency(
+    config: Pick<SlideshowConfig, 'emergency'> | null | undefined
+): SlideshowEmergencySettings | null {
+    const emergency = config?.emergency;
+    return emergency?.active ? emergency : null;
+}
+
+/**
+ * Emergency message has a non-blank title
+ */
+export function hasEmergencyTitle(emergency: Pick<SlideshowEmergencySettings, 'title'> | null | undefined): boolean {
+    return !!emergency?.title?.trim();
+}
+
+/**
+ * Active takeover without a title (rejected by config validation)
+ */
+export function isEmergencyTitleMissing(emergency: SlideshowEmergencySettings | null | undefined): boolean {
+    return !!emergency?.active && !hasEmergencyTitle(emergency);
+}
+
+/**
+ * Serialized config without the emergency state and save metadata
+ * Equal keys = nothing that affects playback changed
+ */
+export function getPlaybackConfigKey(config: SlideshowConfig): string {
+    return JSON.stringify({ ...config, emergency: undefined, metadata: undefined });
+}
+
+/**
+ * True when only the emergency takeover (or save metadata) differs
+ * The slideshow keeps its position instead of reloading products
+ */
+export function isEmergencyOnlyChange(previous: SlideshowConfig, next: SlideshowConfig): boolean {
+    return getPlaybackConfigKey(previous) === getPlaybackConfigKey(next);
+}
@@ -0,0 +1,65 @@
+// src/app/core/utils/indexed-db.utils.ts
+
+/**
+ * IndexedDB utilities
+ *
+ * Minimal promise wrappers around the IndexedDB API - no external dependency,
+ * works on Tizen / webOS browsers.
+ */
+
+/**
+ * Check if IndexedDB is available (private mode / old TV browsers may lack it)
+ */
+export function isIndexedDbAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Open database, running `upgrade` when the version increases
+ */
+export function openIndexedDb(
+    name: string,
+    version: number,
+    upgrade: (db: IDBDatabase) => void
+): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        if (!isIndexedDbAvailable()) {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = () => upgrade(request.result);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error(`Failed to open IndexedDB "${name}"`));
+    });
+}
+
+/**
+ * Promise for a single IDBRequest
+ */
+export function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Run request(s) in a transaction and wait for it to complete
+ */
+export function idbTransaction<T>(
+    db: IDBDatabase,
+    storeNames: string | string[],
+    mode: IDBTransactionMode,
+    run: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeNames, mode);
+        const request = run(transaction);
+
+        transaction.oncomplete = () => resolve(request ? request.result : undefined);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'));
+    });
+}
@@ -0,0 +1,113 @@
+// src/app/core/utils/layout.utils.spec.ts
+
+import { Product } from '@core/models/product.interface';
+import { SlideshowLayoutSettings, SlideshowLayoutZone } from '@core/models/slideshow-config.interface';
+import {
+    clampZoneRect,
+    DEFAULT_LAYOUT_SETTINGS,
+    getCarouselZone,
+    getSecondaryZones,
+    getZoneProducts,
+    getZoneStyles,
+    hasTickerZone,
+    isLayoutActive,
+    isZoneInBounds
+} from './layout.utils';
+
+function product(id: string): Product {
+    return { id, name: `Product ${id}`, price: 10, imageUrl: '', shortDescription: '', category: '1', inStock: true };
+}
+
+function zone(overrides: Partial<SlideshowLayoutZone> = {}): SlideshowLayoutZone {
+    return { id: 'zone', name: 'Зона', content: 'products', x: 0, y: 0, width: 50, height: 50, ...overrides };
+}
+
+const ENABLED_LAYOUT: SlideshowLayoutSettings = { ...DEFAULT_LAYOUT_SETTINGS, enabled: true };
+
+describe('layout.utils', () => {
+    describe('isLayoutActive', () => {
+        it('requires an enabled layout with a carousel zone', () => {
+            expect(isLayoutActive(ENABLED_LAYOUT)).toBeTrue();
+            expect(isLayoutActive(DEFAULT_LAYOUT_SETTINGS)).toBeFalse();
+            expect(isLayoutActive({ enabled: true, zones: [zone()] })).toBeFalse();
+            expect(isLayoutActive(undefined)).toBeFalse();
+        });
+    });
+
+    describe('getCarouselZone / getSecondaryZones', () => {
+        it('splits the main carousel from the zones with own content', () => {
+            expect(getCarouselZone(ENABLED_LAYOUT)?.id).toBe('zone-main');
+            expect(getSecondaryZones(ENABLED_LAYOUT).map(z => z.id)).toEqual(['zone-menu', 'zone-logo', 'zone-ticker']);
+        });
+
+        it('has no secondary zones while the layout is inactive', () => {
+            expect(getSecondaryZones(DEFAULT_LAYOUT_SETTINGS)).toEqual([]);
+            expect(getSecondaryZones(null)).toEqual([]);
+        });
+
+        it('uses the first carousel zone as the main one', () => {
+            const layout: SlideshowLayoutSettings = {
+                enabled: true,
+                zones: [zone({ id: 'first', content: 'carousel' }), zone({ id: 'second', content: 'carousel' })]
+            };
+
+            expect(getCarouselZone(layout)?.id).toBe('first');
+            expect(getSecondaryZones(layout)).toEqual([]);
+        });
+    });
+
+    describe('hasTickerZone', () => {
+        it('only counts ticker zones of an active layout', () => {
+            expect(hasTickerZone(ENABLED_LAYOUT)).toBeTrue();
+            expect(hasTickerZone(DEFAULT_LAYOUT_SETTINGS)).toBeFalse();
+            expect(hasTickerZone({ ...ENABLED_LAYOUT, zones: ENABLED_LAYOUT.zones.filter(z => z.content !== 'ticker') })).toBeFalse();
+        });
+    });
+
+    describe('zone geometry', () => {
+        it('keeps a valid rectangle unchanged', () => {
+            expect(clampZoneRect(zone({ x: 70, y: 20, width: 30, height: 70 }))).toEqual({ x: 70, y: 20, width: 30, height: 70 });
+        });
+
+        it('clamps zones into the frame with the minimum size', () => {
+            expect(clampZoneRect(zone({ x: -10, y: 98, width: 200, height: 1 }))).toEqual({ x: 0, y: 95, width: 100, height: 5 });
+            expect(clampZoneRect(zone({ x: 80, y: 0, width: 40, height: 2 }))).toEqual({ x: 80, y: 0, width: 20, height: 5 });
+        });
+
+        it('positions zones absolutely in percent', () => {
+            expect(getZoneStyles(zone({ x: 0, y: 90, width: 100, height: 10 }))).toEqual({
+                position: 'absolute',
+                left: '0%',
+                top: '90%',
+                width: '100%',
+                height: '10%'
+            });
+        });
+
+        it('validates zone bounds', () => {
+            expect(ENABLED_LAYOUT.zones.every(isZoneInBounds)).toBeTrue();
+            expect(isZoneInBounds(zone({ x: 60, width: 50 }))).toBeFalse();
+            expect(isZoneInBounds(zone({ y: -1 }))).toBeFalse();
+            expect(isZoneInBounds(zone({ height: 4 }))).toBeFalse();
+        });
+    });
+
+    describe('getZoneProducts', () => {
+        const products = ['a', 'b', 'c', 'd'].map(product);
+
+        it('shows all products when the zone has no own list', () => {
+            expect(getZoneProducts(products, [])).toBe(products);
+            expect(getZoneProducts(products, undefined)).toBe(products);
+        });
+
+        it('keeps the zone order and skips unknown IDs', () => {
+            expect(getZoneProducts(products, ['c', 'x', 'a']).map(p => p.id)).toEqual(['c', 'a']);
+        });
+
+        it('gives each zone its own products', () => {
+            const zones = [zone({ id: 'menu', productIds: ['a', 'b'] }), zone({ id: 'side', productIds: ['d'] })];
+
+            expect(zones.map(z => getZoneProducts(products, z.productIds).map(p => p.id))).toEqual([['a', 'b'], ['d']]);
+        });
+    });
+});
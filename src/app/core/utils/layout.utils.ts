@@ -0,0 +1,114 @@
+// src/app/core/utils/layout.utils.ts
+
+import { Product } from '@core/models/product.interface';
+import { SlideshowLayoutSettings, SlideshowLayoutZone } from '@core/models/slideshow-config.interface';
+
+/**
+ * Multi-zone layout utilities
+ *
+ * Zone rectangles are percentages of the safe-area frame, so the same layout
+ * works on any resolution and respects the TV overscan insets.
+ */
+
+export const MIN_ZONE_SIZE_PERCENT = 5;
+export const DEFAULT_ZONE_SLIDE_DURATION = 8;
+
+/**
+ * Example layout: products 70% + side menu column + logo corner + bottom ticker
+ * Disabled by default - the slideshow stays a single full-screen carousel.
+ */
+export const DEFAULT_LAYOUT_SETTINGS: SlideshowLayoutSettings = {
+    enabled: false,
+    zones: [
+        { id: 'zone-main', name: 'Продукти', content: 'carousel', x: 0, y: 0, width: 70, height: 90 },
+        {
+            id: 'zone-menu', name: 'Меню', content: 'products', x: 70, y: 20, width: 30, height: 70,
+            templateId: 'menu', productIds: [], slideDuration: 12
+        },
+        {
+            id: 'zone-logo', name: 'Лого', content: 'image', x: 70, y: 0, width: 30, height: 20,
+            imageUrl: '', imageFit: 'contain'
+        },
+        { id: 'zone-ticker', name: 'Лента', content: 'ticker', x: 0, y: 90, width: 100, height: 10 }
+    ]
+};
+
+/**
+ * Layout is in effect only when enabled and it has a main carousel zone
+ */
+export function isLayoutActive(layout: SlideshowLayoutSettings | null | undefined): layout is SlideshowLayoutSettings {
+    return !!layout?.enabled && layout.zones.some(zone => zone.content === 'carousel');
+}
+
+/**
+ * Main carousel zone (first 'carousel' zone)
+ */
+export function getCarouselZone(layout: SlideshowLayoutSettings | null | undefined): SlideshowLayoutZone | null {
+    return layout?.zones.find(zone => zone.content === 'carousel') ?? null;
+}
+
+/**
+ * Zones with their own content (products, image, ticker) - empty when the layout is inactive
+ */
+export function getSecondaryZones(layout: SlideshowLayoutSettings | null | undefined): SlideshowLayoutZone[] {
+    return isLayoutActive(layout) ? layout.zones.filter(zone => zone.content !== 'carousel') : [];
+}
+
+/**
+ * Products of a 'products' zone in the zone's own order
+ * Empty list = all products; unknown or filtered-out IDs are skipped.
+ */
+export function getZoneProducts(products: Product[], productIds: string[] | null | undefined): Product[] {
+    if (!productIds?.length) return products;
+
+    const byId = new Map(products.map(product => [product.id, product]));
+    return productIds
+        .map(id => byId.get(id))
+        .filter((product): product is Product => !!product);
+}
+
+/**
+ * Check if the layout has its own ticker zone (the overlay ticker is hidden then)
+ */
+export function hasTickerZone(layout: SlideshowLayoutSettings | null | undefined): boolean {
+    return isLayoutActive(layout) && layout.zones.some(zone => zone.content === 'ticker');
+}
+
+/**
+ * Zone rectangle clamped into the frame (percent)
+ */
+export function clampZoneRect(zone: Pick<SlideshowLayoutZone, 'x' | 'y' | 'width' | 'height'>): Pick<SlideshowLayoutZone, 'x' | 'y' | 'width' | 'height'> {
+    const x = Math.min(100 - MIN_ZONE_SIZE_PERCENT, Math.max(0, zone.x));
+    const y = Math.min(100 - MIN_ZONE_SIZE_PERCENT, Math.max(0, zone.y));
+
+    return {
+        x,
+        y,
+        width: Math.min(100 - x, Math.max(MIN_ZONE_SIZE_PERCENT, zone.width)),
+        height: Math.min(100 - y, Math.max(MIN_ZONE_SIZE_PERCENT, zone.height))
+    };
+}
+
+/**
+ * Absolute position styles for a zone inside the layout frame
+ */
+export function getZoneStyles(zone: SlideshowLayoutZone): Record<string, string> {
+    const rect = clampZoneRect(zone);
+
+    return {
+        position: 'absolute',
+        left: `${rect.x}%`,
+        top: `${rect.y}%`,
+        width: `${rect.width}%`,
+        height: `${rect.height}%`
+    };
+}
+
+/**
+ * Check if a zone fits inside the frame
+ */
+export function isZoneInBounds(zone: SlideshowLayoutZone): boolean {
+    return zone.x >= 0 && zone.y >= 0
+        && zone.width >= MIN_ZONE_SIZE_PERCENT && zone.height >= MIN_ZONE_SIZE_PERCENT
+        && zone.x + zone.width <= 100 && zone.y + zone.height <= 100;
+}
@@ -0,0 +1,157 @@
+// src/app/core/utils/playlist.utils.spec.ts
+
+import { PerformanceLevel } from '@core/models/enums';
+import { Product } from '@core/models/product.interface';
+import {
+    PlaylistItem,
+    SlideshowConfig,
+    SlideshowPlaylistSettings,
+    SlideshowTimingSettings,
+    VideoPlaylistItem
+} from '@core/models/slideshow-config.interface';
+import {
+    buildPlaylistSlides,
+    buildSlideshowSlides,
+    calculatePlaylistSlideDuration,
+    getSlideTemplateOverride,
+    hasNonProductPlaylistItems,
+    isPlaylistActive,
+    resolveVideoPlayback
+} from './playlist.utils';
+
+function product(id: string): Product {
+    return { id, name: `Product ${id}`, price: 10, imageUrl: '', shortDescription: '', category: '1', inStock: true };
+}
+
+function playlist(items: PlaylistItem[], enabled = true): SlideshowPlaylistSettings {
+    return { enabled, items };
+}
+
+function video(overrides: Partial<VideoPlaylistItem> = {}): VideoPlaylistItem {
+    return { id: 'video', name: 'Видео', enabled: true, type: 'video', videoUrl: 'promo.mp4', ...overrides };
+}
+
+const PRODUCTS = ['a', 'b', 'c', 'd', 'e'].map(product);
+
+const TIMING = {
+    baseSlideDuration: 10000,
+    durationOverrides: {},
+    premiumCategories: [],
+    validation: { minSlideDuration: 3000, maxSlideDuration: 30000, minTransitionDuration: 100, maxTransitionDuration: 3000 }
+} as unknown as SlideshowTimingSettings;
+
+describe('playlist.utils', () => {
+    describe('isPlaylistActive', () => {
+        it('requires an enabled playlist with an enabled item', () => {
+            const items: PlaylistItem[] = [{ id: 'p', name: 'Продукти', enabled: true, type: 'product' }];
+
+            expect(isPlaylistActive(playlist(items))).toBeTrue();
+            expect(isPlaylistActive(playlist(items, false))).toBeFalse();
+            expect(isPlaylistActive(playlist([{ ...items[0], enabled: false }]))).toBeFalse();
+            expect(isPlaylistActive(undefined)).toBeFalse();
+        });
+
+        it('detects items that do not depend on products', () => {
+            expect(hasNonProductPlaylistItems(playlist([{ id: 'p', name: 'Продукти', enabled: true, type: 'product' }]))).toBeFalse();
+            expect(hasNonProductPlaylistItems(playlist([{ id: 'm', name: 'Меню', enabled: true, type: 'menu' }]))).toBeTrue();
+        });
+    });
+
+    describe('buildPlaylistSlides', () => {
+        it('expands mixed item types in playlist order', () => {
+            const slides = buildPlaylistSlides(playlist([
+                { id: 'first', name: 'Първи', enabled: true, type: 'product', count: 2 },
+                { id: 'menu', name: 'Меню', enabled: true, type: 'menu', menuSlideId: 'drinks' },
+                { id: 'img', name: 'Лого', enabled: true, type: 'image', imageUrl: 'logo.png' },
+                { id: 'rest', name: 'Останали', enabled: true, type: 'product' },
+                { id: 'promo', name: 'Промо', enabled: true, type: 'promo', promoSlideId: 'summer' },
+                { id: 'note', name: 'Съобщение', enabled: true, type: 'announcement', title: 'Ново' },
+                video()
+            ]), PRODUCTS);
+
+            expect(slides.map(slide => slide.key)).toEqual([
+                'first:a', 'first:b', 'menu', 'img', 'rest:c', 'rest:d', 'rest:e', 'promo', 'note', 'video'
+            ]);
+            expect(slides.map(slide => slide.type)).toEqual([
+                'product', 'product', 'menu', 'image', 'product', 'product', 'product', 'promo', 'announcement', 'video'
+            ]);
+            expect(slides[2].templateSlideId).toBe('drinks');
+            expect(slides[7].templateSlideId).toBe('summer');
+            expect(slides[3].product.id).toBe('playlist-img');
+        });
+
+        it('takes explicit productIds without moving the product cursor', () => {
+            const slides = buildPlaylistSlides(playlist([
+                { id: 'pick', name: 'Избрани', enabled: true, type: 'product', productIds: ['d', 'missing', 'a'] },
+                { id: 'next', name: 'Следващи', enabled: true, type: 'product', count: 2 }
+            ]), PRODUCTS);
+
+            expect(slides.map(slide => slide.key)).toEqual(['pick:d', 'pick:a', 'next:a', 'next:b']);
+        });
+
+        it('skips disabled items and product items past the end of the list', () => {
+            const slides = buildPlaylistSlides(playlist([
+                { id: 'off', name: 'Изключен', enabled: false, type: 'menu' },
+                { id: 'all', name: 'Всички', enabled: true, type: 'product' },
+                { id: 'more', name: 'Още', enabled: true, type: 'product', count: 3 },
+                { id: 'menu', name: 'Меню', enabled: true, type: 'menu' }
+            ]), PRODUCTS);
+
+            expect(slides.map(slide => slide.key)).toEqual(['all:a', 'all:b', 'all:c', 'all:d', 'all:e', 'menu']);
+        });
+
+        it('shows videos as poster or skips them on LOW performance TVs', () => {
+            const items = [video({ id: 'poster', posterUrl: 'poster.jpg' }), video({ id: 'plain' })];
+
+            expect(buildPlaylistSlides(playlist(items), [], PerformanceLevel.LOW))
+                .toEqual([jasmine.objectContaining({ key: 'poster', posterOnly: true })]);
+            expect(buildPlaylistSlides(playlist(items), [], PerformanceLevel.BASIC).map(slide => slide.key))
+                .toEqual(['poster', 'plain']);
+        });
+    });
+
+    describe('resolveVideoPlayback', () => {
+        it('follows the low performance mode', () => {
+            expect(resolveVideoPlayback(video(), PerformanceLevel.STANDARD)).toBe('play');
+            expect(resolveVideoPlayback(video({ posterUrl: 'p.jpg', lowPerformanceMode: 'skip' }), PerformanceLevel.LOW)).toBe('skip');
+            expect(resolveVideoPlayback(video({ lowPerformanceMode: 'poster' }), PerformanceLevel.LOW)).toBe('skip');
+        });
+    });
+
+    describe('buildSlideshowSlides', () => {
+        it('uses one slide per product without an active playlist', () => {
+            const config = { playlist: playlist([], true) } as unknown as SlideshowConfig;
+
+            expect(buildSlideshowSlides(config, PRODUCTS.slice(0, 2)).map(slide => slide.key)).toEqual(['a', 'b']);
+            expect(buildSlideshowSlides(null, PRODUCTS.slice(0, 1)).map(slide => slide.type)).toEqual(['product']);
+        });
+    });
+
+    describe('getSlideTemplateOverride', () => {
+        it('uses the item template, then the slide type default', () => {
+            const [menu, promo, image, withTemplate] = buildPlaylistSlides(playlist([
+                { id: 'menu', name: 'Меню', enabled: true, type: 'menu' },
+                { id: 'promo', name: 'Промо', enabled: true, type: 'promo' },
+                { id: 'img', name: 'Лого', enabled: true, type: 'image', imageUrl: 'logo.png' },
+                { id: 'p', name: 'Продукт', enabled: true, type: 'product', count: 1, templateId: 'modern' }
+            ]), PRODUCTS);
+
+            expect(getSlideTemplateOverride(menu)).toBe('menu');
+            expect(getSlideTemplateOverride(promo)).toBe('classic-promo');
+            expect(getSlideTemplateOverride(image)).toBeNull();
+            expect(getSlideTemplateOverride(withTemplate)).toBe('modern');
+        });
+    });
+
+    describe('calculatePlaylistSlideDuration', () => {
+        it('prefers the clamped item duration over the base duration', () => {
+            const [menu, long] = buildPlaylistSlides(playlist([
+                { id: 'menu', name: 'Меню', enabled: true, type: 'menu' },
+                { id: 'long', name: 'Дълго', enabled: true, type: 'menu', duration: 60000 }
+            ]), []);
+
+            expect(calculatePlaylistSlideDuration(menu, TIMING)).toBe(10000);
+            expect(calculatePlaylistSlideDuration(long, TIMING)).toBe(30000);
+        });
+    });
+});
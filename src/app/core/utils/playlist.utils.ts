@@ -0,0 +1,223 @@
+// src/app/core/utils/playlist.utils.ts
+
+import { PerformanceLevel } from '@core/models/enums';
+import { Product } from '@core/models/product.interface';
+import {
+    PlaylistItem,
+    SlideshowConfig,
+    SlideshowPlaylistSettings,
+    SlideshowSlide,
+    SlideshowTimingSettings,
+    VideoPlaylistItem
+} from '@core/models/slideshow-config.interface';
+import { calculateSlideDuration, clampSlideDuration } from './slide-duration.utils';
+
+/**
+ * Playlist utilities
+ *
+ * Expands SlideshowConfig.playlist into the flat slide list rendered by the
+ * Embla carousel. Without an enabled playlist every product is one slide.
+ */
+
+/** Default template per non-product slide type */
+const DEFAULT_ITEM_TEMPLATES: Partial<Record<PlaylistItem['type'], string>> = {
+    menu: 'menu',
+    promo: 'classic-promo'
+};
+
+/**
+ * Check if playlist is enabled and has at least one active item
+ */
+export function isPlaylistActive(playlist: SlideshowPlaylistSettings | undefined): playlist is SlideshowPlaylistSettings {
+    return !!playlist?.enabled && playlist.items.some(item => item.enabled);
+}
+
+/**
+ * Check if playlist has active items that don't depend on products
+ */
+export function hasNonProductPlaylistItems(playlist: SlideshowPlaylistSettings | undefined): boolean {
+    return isPlaylistActive(playlist) && playlist.items.some(item => item.enabled && item.type !== 'product');
+}
+
+/**
+ * Minimal product for template-rendered slides without a product (menu / promo)
+ * Templates that need a product input still get a valid object.
+ */
+export function createPlaceholderProduct(item: PlaylistItem): Product {
+    return {
+        id: `playlist-${item.id}`,
+        name: item.name,
+        price: 0,
+        imageUrl: '',
+        shortDescription: '',
+        category: 'playlist',
+        inStock: true
+    };
+}
+
+/**
+ * Video playback for the performance level
+ * LOW TVs get the poster (when available) or skip the slide
+ */
+export function resolveVideoPlayback(item: VideoPlaylistItem, performanceLevel: PerformanceLevel): 'play' | 'poster' | 'skip' {
+    if (performanceLevel > PerformanceLevel.LOW) {
+        return 'play';
+    }
+
+    const mode = item.lowPerformanceMode ?? (item.posterUrl ? 'poster' : 'skip');
+    return mode === 'poster' && item.posterUrl ? 'poster' : 'skip';
+}
+
+/**
+ * Video slide that plays (advances on video end instead of the timer)
+ */
+export function isPlayingVideoSlide(slide: SlideshowSlide | undefined): boolean {
+    return slide?.type === 'video' && !slide.posterOnly;
+}
+
+/**
+ * One slide per product (no playlist)
+ */
+export function buildProductSlides(products: Product[]): SlideshowSlide[] {
+    return products.map(product => ({
+        key: product.id,
+        type: 'product',
+        product
+    }));
+}
+
+/**
+ * Expand playlist items into slides
+ *
+ * Product items draw from the selection pipeline result:
+ * explicit productIds first, otherwise the next `count` products (or all remaining).
+ *
+ * @param playlist - Playlist settings
+ * @param products - Products from the selection pipeline
+ * @param performanceLevel - Current TV performance level (video slides)
+ * @returns Slides in playback order
+ */
+export function buildPlaylistSlides(
+    playlist: SlideshowPlaylistSettings,
+    products: Product[],
+    performanceLevel: PerformanceLevel = PerformanceLevel.STANDARD
+): SlideshowSlide[] {
+    const slides: SlideshowSlide[] = [];
+    let cursor = 0;
+
+    for (const item of playlist.items) {
+        if (!item.enabled) continue;
+
+        switch (item.type) {
+            case 'product': {
+                let itemProducts: Product[];
+
+                if (item.productIds?.length) {
+                    itemProducts = item.productIds
+                        .map(id => products.find(product => product.id === id))
+                        .filter((product): product is Product => !!product);
+                } else {
+                    const count = item.count && item.count > 0 ? item.count : products.length;
+                    itemProducts = products.slice(cursor, cursor + count);
+                    cursor += itemProducts.length;
+                }
+
+                itemProducts.forEach(product => slides.push({
+                    key: `${item.id}:${product.id}`,
+                    type: 'product',
+                    product,
+                    item
+                }));
+                break;
+            }
+
+            case 'menu':
+                slides.push({
+                    key: item.id,
+                    type: 'menu',
+                    product: createPlaceholderProduct(item),
+                    item,
+                    templateSlideId: item.menuSlideId
+                });
+                break;
+
+            case 'promo':
+                slides.push({
+                    key: item.id,
+                    type: 'promo',
+                    product: createPlaceholderProduct(item),
+                    item,
+                    templateSlideId: item.promoSlideId
+                });
+                break;
+
+            case 'video': {
+                const playback = resolveVideoPlayback(item, performanceLevel);
+                if (playback === 'skip') break;
+
+                slides.push({
+                    key: item.id,
+                    type: 'video',
+                    product: createPlaceholderProduct(item),
+                    item,
+                    posterOnly: playback === 'poster'
+                });
+                break;
+            }
+
+            case 'image':
+                slides.push({
+                    key: item.id,
+                    type: 'image',
+                    product: createPlaceholderProduct(item),
+                    item
+                });
+                break;
+
+            case 'announcement':
+                slides.push({
+                    key: item.id,
+                    type: 'announcement',
+                    product: createPlaceholderProduct(item),
+                    item
+                });
+                break;
+        }
+    }
+
+    return slides;
+}
+
+/**
+ * Build slides for the configuration (playlist when active, products otherwise)
+ */
+export function buildSlideshowSlides(
+    config: SlideshowConfig | null,
+    products: Product[],
+    performanceLevel: PerformanceLevel = PerformanceLevel.STANDARD
+): SlideshowSlide[] {
+    return isPlaylistActive(config?.playlist)
+        ? buildPlaylistSlides(config!.playlist!, products, performanceLevel)
+        : buildProductSlides(products);
+}
+
+/**
+ * Template override or default template for the slide type
+ * @returns null when the slide follows the configured template mode
+ */
+export function getSlideTemplateOverride(slide: SlideshowSlide): string | null {
+    return slide.item?.templateId || DEFAULT_ITEM_TEMPLATES[slide.type] || null;
+}
+
+/**
+ * Slide duration: item duration → product rules → base duration (always clamped)
+ */
+export function calculatePlaylistSlideDuration(slide: SlideshowSlide, timing: SlideshowTimingSettings): number {
+    if (slide.item?.duration && slide.item.duration > 0) {
+        return clampSlideDuration(slide.item.duration, timing);
+    }
+
+    return slide.type === 'product'
+        ? calculateSlideDuration(slide.product, timing)
+        : clampSlideDuration(timing.baseSlideDuration, timing);
+}
@@ -0,0 +1,92 @@
+// src/app/core/utils/price-list.utils.spec.ts
+
+import { Product } from '@core/models/product.interface';
+import {
+    applyPriceList,
+    applyPriceLists,
+    calculateDiscount,
+    createDiscountBadge,
+    getPricingSettings
+} from './price-list.utils';
+
+function product(overrides: Partial<Product> = {}): Product {
+    return {
+        id: 'a',
+        name: 'Product',
+        price: 10,
+        imageUrl: '',
+        shortDescription: '',
+        category: '1',
+        inStock: true,
+        ...overrides
+    };
+}
+
+describe('price-list.utils', () => {
+    describe('calculateDiscount', () => {
+        it('calculates the rounded discount percentage', () => {
+            expect(calculateDiscount(30, 20)).toEqual({ originalPrice: 30, percentage: 33 });
+        });
+
+        it('returns undefined without a real discount', () => {
+            expect(calculateDiscount(undefined, 20)).toBeUndefined();
+            expect(calculateDiscount(20, 20)).toBeUndefined();
+            expect(calculateDiscount(20, 25)).toBeUndefined();
+            expect(calculateDiscount(1000, 999)).toBeUndefined();
+        });
+    });
+
+    describe('createDiscountBadge', () => {
+        it('creates sale badges from 10% up', () => {
+            expect(createDiscountBadge({ originalPrice: 10, percentage: 9 })).toBeUndefined();
+            expect(createDiscountBadge({ originalPrice: 10, percentage: 10 })?.text).toBe('10%');
+        });
+    });
+
+    describe('getPricingSettings', () => {
+        it('falls back to the defaults for unknown price fields', () => {
+            expect(getPricingSettings({ displayPrice: 'price_99' as never, comparePrice: null }))
+                .toEqual({ displayPrice: 'price', comparePrice: null });
+            expect(getPricingSettings(undefined)).toEqual({ displayPrice: 'price', comparePrice: 'basic_price' });
+        });
+    });
+
+    describe('applyPriceList', () => {
+        const source = product({ price: 10, prices: { price: 10, basic_price: 12, price_1: 8 } });
+
+        it('shows the configured price list and recalculates the discount and badge', () => {
+            const result = applyPriceList(source, { displayPrice: 'price_1', comparePrice: 'price' });
+
+            expect(result.price).toBe(8);
+            expect(result.discount).toEqual({ originalPrice: 10, percentage: 20 });
+            expect(result.badge?.text).toBe('20%');
+        });
+
+        it('falls back to the selling price when the price list is empty', () => {
+            expect(applyPriceList(source, { displayPrice: 'price_2', comparePrice: null }).price).toBe(10);
+        });
+
+        it('removes the discount without a "was" price', () => {
+            const result = applyPriceList(source, { displayPrice: 'price_1', comparePrice: null });
+
+            expect(result.discount).toBeUndefined();
+            expect(result.badge).toBeUndefined();
+        });
+
+        it('keeps the discount end date while the product stays discounted', () => {
+            const validUntil = new Date(2025, 2, 31);
+            const discounted = { ...source, discount: { originalPrice: 12, percentage: 17, validUntil } };
+
+            const result = applyPriceList(discounted, { displayPrice: 'price_1', comparePrice: 'basic_price' });
+
+            expect(result.discount).toEqual({ originalPrice: 12, percentage: 33, validUntil });
+        });
+    });
+
+    describe('applyPriceLists', () => {
+        it('returns the list unchanged for the default price lists', () => {
+            const products = [product()];
+            expect(applyPriceLists(products, { displayPrice: 'price', comparePrice: 'basic_price' })).toBe(products);
+        });
+    });
+});
@@ -0,0 +1,135 @@
+// src/app/core/utils/price-list.utils.ts
+
+import { Product, ProductBadge, ProductDiscount, ProductPriceField } from '@core/models/product.interface';
+import { SlideshowPricingSettings } from '@core/models/slideshow-config.interface';
+import { ProductBadgeType } from '@core/models/enums';
+
+/**
+ * Price list utilities
+ *
+ * The stock system returns several price lists per item (price, basic_price,
+ * customer_file_price, price_1…price_10). Each configuration chooses which one
+ * is shown on screen and which one is the "was" price for discounts / badges.
+ */
+
+/** Current behaviour: selling price vs. basic price */
+export const DEFAULT_PRICING_SETTINGS: SlideshowPricingSettings = {
+    displayPrice: 'price',
+    comparePrice: 'basic_price'
+};
+
+export const PRODUCT_PRICE_FIELDS: ProductPriceField[] = [
+    'price',
+    'basic_price',
+    'customer_file_price',
+    'price_1',
+    'price_2',
+    'price_3',
+    'price_4',
+    'price_5',
+    'price_6',
+    'price_7',
+    'price_8',
+    'price_9',
+    'price_10'
+];
+
+/** Discount badges are shown from this percentage up */
+const MIN_BADGE_DISCOUNT_PERCENTAGE = 10;
+
+/**
+ * Discount of the display price against the "was" price
+ * @returns undefined when a price is missing or the discount is below 1%
+ */
+export function calculateDiscount(comparePrice: number | undefined, displayPrice: number): ProductDiscount | undefined {
+    if (!comparePrice || !displayPrice || comparePrice <= 0 || displayPrice <= 0) {
+        return undefined;
+    }
+
+    if (displayPrice >= comparePrice) {
+        return undefined;
+    }
+
+    const percentage = Math.round(((comparePrice - displayPrice) / comparePrice) * 100);
+    if (percentage < 1) {
+        return undefined;
+    }
+
+    return {
+        originalPrice: comparePrice,
+        percentage
+    };
+}
+
+/**
+ * Sale badge (e.g. "25%") for discounts >= 10%
+ */
+export function createDiscountBadge(discount: ProductDiscount | undefined): ProductBadge | undefined {
+    if (!discount || discount.percentage < MIN_BADGE_DISCOUNT_PERCENTAGE) {
+        return undefined;
+    }
+
+    return {
+        text: `${discount.percentage}%`,
+        color: 'error',
+        position: 'top-right',
+        type: ProductBadgeType.SALE
+    };
+}
+
+/**
+ * Pricing from configuration (defaults when missing / invalid)
+ */
+export function getPricingSettings(pricing: Partial<SlideshowPricingSettings> | null | undefined): SlideshowPricingSettings {
+    const displayPrice = pricing?.displayPrice && PRODUCT_PRICE_FIELDS.includes(pricing.displayPrice)
+        ? pricing.displayPrice
+        : DEFAULT_PRICING_SETTINGS.displayPrice;
+    const comparePrice = pricing?.comparePrice === null
+        ? null
+        : pricing?.comparePrice && PRODUCT_PRICE_FIELDS.includes(pricing.comparePrice)
+            ? pricing.comparePrice
+            : DEFAULT_PRICING_SETTINGS.comparePrice;
+
+    return { displayPrice, comparePrice };
+}
+
+export function isDefaultPricing(pricing: SlideshowPricingSettings): boolean {
+    return pricing.displayPrice === DEFAULT_PRICING_SETTINGS.displayPrice
+        && pricing.comparePrice === DEFAULT_PRICING_SETTINGS.comparePrice;
+}
+
+/**
+ * Product with the configured display / "was" price (recalculated discount and badge)
+ * Missing or zero display price falls back to `price`; missing "was" price = no discount.
+ * Other discount fields (validUntil) are kept while the product stays discounted.
+ */
+export function applyPriceList(product: Product, pricing: SlideshowPricingSettings): Product {
+    const prices = product.prices;
+    if (!prices) return product;
+
+    const price = prices[pricing.displayPrice] || prices.price || product.price;
+    const comparePrice = pricing.comparePrice ? prices[pricing.comparePrice] : undefined;
+    const calculated = calculateDiscount(comparePrice, price);
+    const discount = calculated && { ...product.discount, ...calculated };
+
+    return {
+        ...product,
+        price,
+        discount,
+        badge: createDiscountBadge(discount)
+    };
+}
+
+/**
+ * Apply SlideshowProductSettings.pricing to a product list
+ * Products are mapped with the default price lists, so the list is returned as is for defaults.
+ */
+export function applyPriceLists(
+    products: Product[],
+    pricing: Partial<SlideshowPricingSettings> | null | undefined
+): Product[] {
+    const settings = getPricingSettings(pricing);
+    if (isDefaultPricing(settings)) return products;
+
+    return products.map(product => applyPriceList(product, settings));
+}
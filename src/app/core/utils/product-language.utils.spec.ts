@@ -0,0 +1,89 @@
+// src/app/core/utils/product-language.utils.spec.ts
+
+import { Product } from '@core/models/product.interface';
+import {
+    getLanguageSettings,
+    getProductTextMode,
+    getSecondaryText,
+    hasSecondaryLanguage,
+    isSecondaryTextVisible
+} from './product-language.utils';
+
+function product(overrides: Partial<Product> = {}): Product {
+    return {
+        id: 'a',
+        name: 'Кафе',
+        price: 3,
+        imageUrl: '',
+        shortDescription: 'Прясно изпечено',
+        category: '1',
+        inStock: true,
+        ...overrides
+    };
+}
+
+describe('product-language.utils', () => {
+    describe('getLanguageSettings', () => {
+        it('falls back to primary only', () => {
+            expect(getLanguageSettings(undefined)).toEqual({ mode: 'primary', alternateInterval: 8 });
+        });
+
+        it('keeps the alternate interval readable', () => {
+            expect(getLanguageSettings({ mode: 'alternate', alternateInterval: 1 }).alternateInterval).toBe(3);
+            expect(getLanguageSettings({ mode: 'alternate', alternateInterval: 0 }).alternateInterval).toBe(8);
+            expect(getLanguageSettings({ mode: 'alternate', alternateInterval: 12 }).alternateInterval).toBe(12);
+        });
+    });
+
+    describe('getSecondaryText', () => {
+        it('returns the trimmed secondary text', () => {
+            const bilingual = product({ secondary: { name: ' Coffee ', shortDescription: 'Freshly roasted' } });
+
+            expect(getSecondaryText(bilingual, 'name')).toBe('Coffee');
+            expect(getSecondaryText(bilingual, 'shortDescription')).toBe('Freshly roasted');
+        });
+
+        it('returns nothing when the second language is missing or repeats the primary text', () => {
+            expect(getSecondaryText(product(), 'name')).toBe('');
+            expect(getSecondaryText(product({ secondary: { name: '  ' } }), 'name')).toBe('');
+            expect(getSecondaryText(product({ secondary: { name: 'Кафе' } }), 'name')).toBe('');
+            expect(getSecondaryText(product({ secondary: { name: 'Coffee' } }), 'shortDescription')).toBe('');
+            expect(getSecondaryText(null, 'name')).toBe('');
+        });
+
+        it('detects products with any secondary text', () => {
+            expect(hasSecondaryLanguage(product({ secondary: { shortDescription: 'Freshly roasted' } }))).toBeTrue();
+            expect(hasSecondaryLanguage(product({ secondary: {} }))).toBeFalse();
+        });
+    });
+
+    describe('getProductTextMode', () => {
+        it('keeps the configured mode when the secondary text exists', () => {
+            expect(getProductTextMode('side-by-side', 'Coffee')).toBe('side-by-side');
+            expect(getProductTextMode('alternate', 'Coffee')).toBe('alternate');
+        });
+
+        it('shows the primary text only without secondary text', () => {
+            expect(getProductTextMode('side-by-side', '')).toBe('primary');
+            expect(getProductTextMode('alternate', '')).toBe('primary');
+        });
+    });
+
+    describe('isSecondaryTextVisible', () => {
+        it('always shows both languages side by side', () => {
+            expect(isSecondaryTextVisible('side-by-side', 'Coffee', false)).toBeTrue();
+            expect(isSecondaryTextVisible('side-by-side', 'Coffee', true)).toBeTrue();
+        });
+
+        it('follows the language clock when alternating', () => {
+            expect(isSecondaryTextVisible('alternate', 'Coffee', false)).toBeFalse();
+            expect(isSecondaryTextVisible('alternate', 'Coffee', true)).toBeTrue();
+        });
+
+        it('keeps the primary text when the second language is missing', () => {
+            expect(isSecondaryTextVisible('alternate', '', true)).toBeFalse();
+            expect(isSecondaryTextVisible('side-by-side', '', false)).toBeFalse();
+            expect(isSecondaryTextVisible('primary', 'Coffee', true)).toBeFalse();
+        });
+    });
+});
@@ -0,0 +1,69 @@
+// src/app/core/utils/product-language.utils.ts
+
+import { Product } from '@core/models/product.interface';
+import { SlideshowLanguageSettings } from '@core/models/slideshow-config.interface';
+
+/**
+ * Secondary language utilities
+ *
+ * StockItem carries a second name / description (stk_name_2, description_2),
+ * e.g. English for tourist-area shops. Templates show it next to the primary
+ * text or alternate both languages (SlideshowConfig.language).
+ */
+
+/** Primary language only - current behaviour */
+export const DEFAULT_LANGUAGE_SETTINGS: SlideshowLanguageSettings = {
+    mode: 'primary',
+    alternateInterval: 8
+};
+
+/** Shortest language switch interval (seconds) - shorter is unreadable on TV */
+export const MIN_ALTERNATE_INTERVAL = 3;
+
+export type ProductTextField = 'name' | 'shortDescription';
+export type ProductLanguageMode = SlideshowLanguageSettings['mode'];
+
+/**
+ * Language settings from configuration merged with defaults
+ */
+export function getLanguageSettings(language: Partial<SlideshowLanguageSettings> | null | undefined): SlideshowLanguageSettings {
+    const settings = { ...DEFAULT_LANGUAGE_SETTINGS, ...language };
+    return {
+        ...settings,
+        alternateInterval: Math.max(MIN_ALTERNATE_INTERVAL, settings.alternateInterval || DEFAULT_LANGUAGE_SETTINGS.alternateInterval)
+    };
+}
+
+/**
+ * Secondary language text ('' when missing or the same as the primary text)
+ */
+export function getSecondaryText(product: Product | null | undefined, field: ProductTextField): string {
+    const secondary = product?.secondary?.[field]?.trim() ?? '';
+    return secondary && secondary !== product?.[field]?.trim() ? secondary : '';
+}
+
+/**
+ * Effective text mode - products without secondary text show the primary text only
+ */
+export function getProductTextMode(mode: ProductLanguageMode, secondaryText: string): ProductLanguageMode {
+    return secondaryText ? mode : 'primary';
+}
+
+/**
+ * Secondary text is on screen: always in 'side-by-side', every other interval in 'alternate'
+ * @param showSecondary - ProductLanguageService clock ('alternate' mode)
+ */
+export function isSecondaryTextVisible(mode: ProductLanguageMode, secondaryText: string, showSecondary: boolean): boolean {
+    switch (getProductTextMode(mode, secondaryText)) {
+        case 'side-by-side':
+            return true;
+        case 'alternate':
+            return showSecondary;
+        default:
+            return false;
+    }
+}
+
+export function hasSecondaryLanguage(product: Product): boolean {
+    return !!getSecondaryText(product, 'name') || !!getSecondaryText(product, 'shortDescription');
+}
@@ -0,0 +1,101 @@
+// src/app/core/utils/product-overrides.utils.spec.ts
+
+import { Product } from '@core/models/product.interface';
+import {
+    applyProductOverride,
+    applyProductOverrides,
+    cleanProductOverride,
+    getProductOverrides
+} from './product-overrides.utils';
+
+function product(overrides: Partial<Product> = {}): Product {
+    return {
+        id: 'a',
+        name: 'SAMS.GAL S24U 256GB BLK',
+        price: 10,
+        imageUrl: 'https://erp.example/a.jpg',
+        shortDescription: 'ERP description',
+        category: '1',
+        inStock: true,
+        badge: { text: '20%', color: 'error', position: 'top-right' },
+        ...overrides
+    };
+}
+
+describe('product-overrides.utils', () => {
+    describe('getProductOverrides', () => {
+        it('merges the legacy image overrides (overrides win)', () => {
+            const overrides = getProductOverrides({
+                imageOverrides: { a: 'https://legacy/a.jpg', b: 'https://legacy/b.jpg' },
+                overrides: { a: { imageUrl: 'https://new/a.jpg', name: 'Galaxy S24 Ultra' } }
+            });
+
+            expect(overrides['a']).toEqual({ imageUrl: 'https://new/a.jpg', name: 'Galaxy S24 Ultra' });
+            expect(overrides['b']).toEqual({ imageUrl: 'https://legacy/b.jpg' });
+        });
+    });
+
+    describe('cleanProductOverride', () => {
+        it('drops empty fields and returns null for empty overrides', () => {
+            expect(cleanProductOverride({ name: '  ', shortDescription: '' })).toBeNull();
+            expect(cleanProductOverride({ name: ' Galaxy ', displaySettings: { priority: undefined } })).toEqual({ name: 'Galaxy' });
+        });
+
+        it('keeps a hidden badge and invalid dates out', () => {
+            expect(cleanProductOverride({ badge: null })).toEqual({ badge: null });
+            expect(cleanProductOverride({ discountValidUntil: 'soon' })).toBeNull();
+        });
+    });
+
+    describe('applyProductOverride', () => {
+        it('replaces the overridden texts and keeps the rest', () => {
+            const result = applyProductOverride(product(), { name: ' Galaxy S24 Ultra ', shortDescription: ' ' });
+
+            expect(result.name).toBe('Galaxy S24 Ultra');
+            expect(result.shortDescription).toBe('ERP description');
+        });
+
+        it('keeps the original image for media library references without a resolver', () => {
+            expect(applyProductOverride(product(), { imageUrl: 'media://image-1' }).imageUrl).toBe('https://erp.example/a.jpg');
+            expect(applyProductOverride(product(), { imageUrl: 'media://image-1' }, () => 'blob:image-1').imageUrl).toBe('blob:image-1');
+        });
+
+        it('hides the built-in badge with a null badge', () => {
+            expect(applyProductOverride(product(), { badge: null }).badge).toBeUndefined();
+            expect(applyProductOverride(product(), {}).badge?.text).toBe('20%');
+        });
+
+        it('merges display settings', () => {
+            const result = applyProductOverride(
+                product({ displaySettings: { priority: 1, customDuration: 5000 } }),
+                { displaySettings: { priority: 9 } }
+            );
+
+            expect(result.displaySettings).toEqual({ priority: 9, customDuration: 5000 });
+        });
+
+        it('sets the discount end date only for discounted products', () => {
+            const override = { discountValidUntil: '2025-03-31T20:00' };
+            const discounted = applyProductOverride(product({ discount: { originalPrice: 12, percentage: 17 } }), override);
+
+            expect(discounted.discount?.validUntil).toEqual(new Date(2025, 2, 31, 20, 0));
+            expect(applyProductOverride(product(), override).discount).toBeUndefined();
+        });
+    });
+
+    describe('applyProductOverrides', () => {
+        it('returns the list unchanged without overrides', () => {
+            const products = [product()];
+            expect(applyProductOverrides(products, { overrides: {} })).toBe(products);
+        });
+
+        it('creates new objects only for overridden products', () => {
+            const products = [product(), product({ id: 'b' })];
+            const result = applyProductOverrides(products, { overrides: { a: { name: 'Galaxy' } } });
+
+            expect(result[0]).not.toBe(products[0]);
+            expect(result[0].name).toBe('Galaxy');
+            expect(result[1]).toBe(products[1]);
+        });
+    });
+});
@@ -0,0 +1,138 @@
+// src/app/core/utils/product-overrides.utils.ts
+
+import { Product } from '@core/models/product.interface';
+import { ProductOverride, SlideshowProductSettings } from '@core/models/slideshow-config.interface';
+import { MEDIA_URL_PREFIX } from '@core/models/media.interface';
+
+/**
+ * Product override utilities
+ *
+ * ERP names / images are often not TV friendly ("SAMS.GAL S24U 256GB BLK").
+ * Overrides are stored per product in SlideshowProductSettings.overrides and
+ * merged over the mapped API product; the API caches keep the ERP originals,
+ * so the admin can always show (and reset to) the original values.
+ */
+
+export type ProductOverrideField = keyof ProductOverride;
+
+export const PRODUCT_OVERRIDE_TEXT_FIELDS = ['name', 'shortDescription', 'longDescription'] as const;
+
+export const PRODUCT_OVERRIDE_IMAGE_FIELDS = ['imageUrl', 'secondaryImageUrl'] as const;
+
+/**
+ * Keeps external URLs; `media://` references need the media library (→ original image)
+ */
+const keepExternalUrl = (url: string): string => url.startsWith(MEDIA_URL_PREFIX) ? '' : url;
+
+/**
+ * All product overrides, including the legacy `imageOverrides` map
+ */
+export function getProductOverrides(
+    settings: Pick<SlideshowProductSettings, 'overrides' | 'imageOverrides'> | null | undefined
+): Record<string, ProductOverride> {
+    const overrides: Record<string, ProductOverride> = { ...settings?.overrides };
+
+    Object.entries(settings?.imageOverrides ?? {}).forEach(([productId, imageUrl]) => {
+        overrides[productId] = { imageUrl, ...overrides[productId] };
+    });
+
+    return overrides;
+}
+
+/**
+ * Override without empty fields (null = nothing is overridden)
+ * `badge: null` is kept - it hides the built-in badge.
+ */
+export function cleanProductOverride(override: ProductOverride | null | undefined): ProductOverride | null {
+    if (!override) return null;
+
+    const cleaned: ProductOverride = {};
+
+    [...PRODUCT_OVERRIDE_TEXT_FIELDS, ...PRODUCT_OVERRIDE_IMAGE_FIELDS].forEach(field => {
+        const value = override[field]?.trim();
+        if (value) cleaned[field] = value;
+    });
+
+    if (override.badge === null || override.badge?.text.trim()) {
+        cleaned.badge = override.badge && { ...override.badge, text: override.badge.text.trim() };
+    }
+
+    const discountValidUntil = override.discountValidUntil?.trim();
+    if (discountValidUntil && parseDiscountValidUntil(discountValidUntil)) {
+        cleaned.discountValidUntil = discountValidUntil;
+    }
+
+    const displaySettings = Object.fromEntries(
+        Object.entries(override.displaySettings ?? {}).filter(([, value]) => value !== undefined && value !== null)
+    );
+    if (Object.keys(displaySettings).length > 0) {
+        cleaned.displaySettings = displaySettings;
+    }
+
+    return Object.keys(cleaned).length > 0 ? cleaned : null;
+}
+
+/**
+ * Merge one override over a product
+ * @param resolveUrl - Resolves image references; '' keeps the original image (not loaded yet / deleted)
+ */
+export function applyProductOverride(
+    product: Product,
+    override: ProductOverride,
+    resolveUrl: (url: string) => string = keepExternalUrl
+): Product {
+    const result: Product = { ...product };
+
+    PRODUCT_OVERRIDE_TEXT_FIELDS.forEach(field => {
+        const value = override[field]?.trim();
+        if (value) result[field] = value;
+    });
+
+    PRODUCT_OVERRIDE_IMAGE_FIELDS.forEach(field => {
+        const url = override[field] ? resolveUrl(override[field]!) : '';
+        if (url) result[field] = url;
+    });
+
+    if (override.badge !== undefined) {
+        result.badge = override.badge ?? undefined;
+    }
+
+    if (override.displaySettings) {
+        result.displaySettings = { ...product.displaySettings, ...override.displaySettings };
+    }
+
+    // End date only applies while the product is discounted
+    const validUntil = parseDiscountValidUntil(override.discountValidUntil);
+    if (validUntil && result.discount) {
+        result.discount = { ...result.discount, validUntil };
+    }
+
+    return result;
+}
+
+/**
+ * Discount end date of an override (null when missing or invalid)
+ */
+export function parseDiscountValidUntil(value: string | undefined): Date | null {
+    if (!value?.trim()) return null;
+
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Apply SlideshowProductSettings.overrides (returns new product objects only when overridden)
+ */
+export function applyProductOverrides(
+    products: Product[],
+    settings: Pick<SlideshowProductSettings, 'overrides' | 'imageOverrides'> | null | undefined,
+    resolveUrl: (url: string) => string = keepExternalUrl
+): Product[] {
+    const overrides = getProductOverrides(settings);
+    if (Object.keys(overrides).length === 0) return products;
+
+    return products.map(product => {
+        const override = overrides[product.id];
+        return override ? applyProductOverride(product, override, resolveUrl) : product;
+    });
+}
@@ -0,0 +1,74 @@
+// src/app/core/utils/product-qr.utils.spec.ts
+
+import { Product } from '@core/models/product.interface';
+import {
+    buildQrCodeUrl,
+    DEFAULT_QR_CODE_SETTINGS,
+    getQrCodePlacement,
+    normalizeShopDomain
+} from './product-qr.utils';
+
+function product(overrides: Partial<Product> = {}): Product {
+    return {
+        id: '42',
+        name: 'Product',
+        price: 10,
+        imageUrl: '',
+        shortDescription: '',
+        category: '1',
+        inStock: true,
+        ...overrides
+    };
+}
+
+describe('product-qr.utils', () => {
+    describe('normalizeShopDomain', () => {
+        it('strips the protocol and trailing slashes', () => {
+            expect(normalizeShopDomain(' https://shop.bg/ ')).toBe('shop.bg');
+            expect(normalizeShopDomain(null)).toBe('');
+        });
+    });
+
+    describe('buildQrCodeUrl', () => {
+        it('fills the URL placeholders', () => {
+            expect(buildQrCodeUrl('https://{domain}/p/{id}?c={code}', product({ code: 'A B' }), 'shop.bg'))
+                .toBe('https://shop.bg/p/42?c=A%20B');
+        });
+
+        it('uses the product ID when the code is missing', () => {
+            expect(buildQrCodeUrl('https://shop.bg/{code}', product(), null)).toBe('https://shop.bg/42');
+        });
+
+        it('links the shop home page for slides without a product', () => {
+            expect(buildQrCodeUrl('https://{domain}/p/{id}', null, 'shop.bg')).toBe('https://shop.bg');
+            expect(buildQrCodeUrl('https://{domain}/p/{id}', null, '')).toBeNull();
+        });
+
+        it('returns null when the domain is needed but unknown', () => {
+            expect(buildQrCodeUrl('https://{domain}/p/{id}', product(), undefined)).toBeNull();
+            expect(buildQrCodeUrl('  ', product(), 'shop.bg')).toBeNull();
+        });
+    });
+
+    describe('getQrCodePlacement', () => {
+        it('returns null while QR codes are disabled', () => {
+            expect(getQrCodePlacement(DEFAULT_QR_CODE_SETTINGS, 'classic')).toBeNull();
+            expect(getQrCodePlacement(undefined, 'classic')).toBeNull();
+        });
+
+        it('merges the template placement over the defaults', () => {
+            const settings = {
+                ...DEFAULT_QR_CODE_SETTINGS,
+                enabled: true,
+                templates: {
+                    bold: { enabled: true, position: 'top-right' as const, size: 20 },
+                    minimal: { enabled: false, position: 'bottom-left' as const, size: 14 }
+                }
+            };
+
+            expect(getQrCodePlacement(settings, 'bold')).toEqual({ enabled: true, position: 'top-right', size: 20 });
+            expect(getQrCodePlacement(settings, 'classic')?.position).toBe('bottom-left');
+            expect(getQrCodePlacement(settings, 'minimal')).toBeNull();
+        });
+    });
+});
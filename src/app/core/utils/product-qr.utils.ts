@@ -0,0 +1,74 @@
+// src/app/core/utils/product-qr.utils.ts
+
+import { Product } from '@core/models/product.interface';
+import {
+    SlideshowQrCodePlacement,
+    SlideshowQrCodeSettings
+} from '@core/models/slideshow-config.interface';
+
+/**
+ * Product QR code utilities (link building and per-template placement)
+ */
+
+/** Side length limits in % of the shorter screen edge */
+export const MIN_QR_CODE_SIZE = 8;
+export const MAX_QR_CODE_SIZE = 30;
+
+/** Placeholders supported in urlPattern */
+export const QR_URL_PLACEHOLDERS = ['{domain}', '{id}', '{code}'];
+
+export const DEFAULT_QR_CODE_PLACEMENT: SlideshowQrCodePlacement = {
+    enabled: true,
+    position: 'bottom-left',
+    size: 14
+};
+
+export const DEFAULT_QR_CODE_SETTINGS: SlideshowQrCodeSettings = {
+    enabled: false,
+    urlPattern: 'https://{domain}/product/{id}',
+    label: 'Купи онлайн',
+    templates: {}
+};
+
+/**
+ * Placement for a template, null when QR codes are off globally or for this template
+ */
+export function getQrCodePlacement(
+    settings: SlideshowQrCodeSettings | undefined,
+    templateId: string
+): SlideshowQrCodePlacement | null {
+    if (!settings?.enabled) return null;
+
+    const placement = { ...DEFAULT_QR_CODE_PLACEMENT, ...settings.templates[templateId] };
+    return placement.enabled ? placement : null;
+}
+
+/**
+ * Shop domain as a bare host ("https://shop.bg/" → "shop.bg")
+ */
+export function normalizeShopDomain(domain: string | null | undefined): string {
+    return (domain ?? '').trim().replace(/^https?:\/\//i, '').replace(/\/+$/, '');
+}
+
+/**
+ * Link for the QR code
+ * - product: urlPattern with {domain} / {id} / {code}
+ * - no product (menu, promo): shop home page
+ * Returns null when a required value is missing (e.g. not logged in yet → no shop domain)
+ */
+export function buildQrCodeUrl(pattern: string, product: Product | null, shopDomain: string | null | undefined): string | null {
+    const domain = normalizeShopDomain(shopDomain);
+
+    if (!product) {
+        return domain ? `https://${domain}` : null;
+    }
+
+    if (!pattern.trim() || (pattern.includes('{domain}') && !domain)) {
+        return null;
+    }
+
+    return pattern
+        .replace(/\{domain\}/g, domain)
+        .replace(/\{id\}/g, encodeURIComponent(product.id))
+        .replace(/\{code\}/g, encodeURIComponent(product.code || product.id));
+}
@@ -0,0 +1,134 @@
+// src/app/core/utils/product-selection.utils.spec.ts
+
+import { Product } from '@core/models/product.interface';
+import { SlideshowProductSettings } from '@core/models/slideshow-config.interface';
+import {
+    createSeededRandom,
+    orderProducts,
+    prepareSlideshowProducts,
+    productPassesFilters,
+    selectSlideshowProducts
+} from './product-selection.utils';
+import { DEFAULT_STOCK_SETTINGS } from './stock-policy.utils';
+
+function product(id: string, overrides: Partial<Product> = {}): Product {
+    return {
+        id,
+        name: `Product ${id}`,
+        price: 10,
+        imageUrl: '',
+        shortDescription: '',
+        category: '1',
+        inStock: true,
+        ...overrides
+    };
+}
+
+function settings(overrides: Partial<SlideshowProductSettings> = {}): SlideshowProductSettings {
+    return {
+        selectedProductIds: [],
+        filters: { categories: [], inStockOnly: false },
+        minProducts: 1,
+        ...overrides
+    } as SlideshowProductSettings;
+}
+
+describe('product-selection.utils', () => {
+    describe('productPassesFilters', () => {
+        it('applies category, stock, price, discount and exclude filters', () => {
+            const discounted = product('a', { price: 20, discount: { originalPrice: 25, percentage: 20 } });
+
+            expect(productPassesFilters(discounted, { categories: ['1'], inStockOnly: true, minPrice: 10, maxPrice: 20 })).toBeTrue();
+            expect(productPassesFilters(discounted, { categories: ['2'], inStockOnly: false })).toBeFalse();
+            expect(productPassesFilters(discounted, { categories: [], inStockOnly: false, maxPrice: 19 })).toBeFalse();
+            expect(productPassesFilters(discounted, { categories: [], inStockOnly: false, hasDiscount: false })).toBeFalse();
+            expect(productPassesFilters(discounted, { categories: [], inStockOnly: false, excludeIds: ['a'] })).toBeFalse();
+            expect(productPassesFilters(product('b', { inStock: false }), { categories: [], inStockOnly: true })).toBeFalse();
+        });
+    });
+
+    describe('orderProducts', () => {
+        const products = [
+            product('a', { displaySettings: { priority: 1 } }),
+            product('b', { displaySettings: { priority: 5 } }),
+            product('c'),
+            product('d', { displaySettings: { priority: 5 } })
+        ];
+
+        it('sorts by priority, highest first for descending order', () => {
+            const ordered = orderProducts(products, { sortBy: 'priority', sortDirection: 'desc', randomizeOnLoop: false });
+            expect(ordered.map(p => p.id)).toEqual(['b', 'd', 'a', 'c']);
+        });
+
+        it('keeps the source order for equal keys', () => {
+            const ordered = orderProducts(products, { sortBy: 'priority', sortDirection: 'asc', randomizeOnLoop: false });
+            expect(ordered.map(p => p.id)).toEqual(['c', 'a', 'b', 'd']);
+        });
+
+        it('shuffles deterministically with a seeded random source', () => {
+            const first = orderProducts(products, { sortBy: 'random', sortDirection: 'asc', randomizeOnLoop: false }, createSeededRandom(42));
+            const second = orderProducts(products, { sortBy: 'random', sortDirection: 'asc', randomizeOnLoop: false }, createSeededRandom(42));
+
+            expect(first.map(p => p.id)).toEqual(second.map(p => p.id));
+            expect([...first].sort((a, b) => a.id.localeCompare(b.id))).toEqual(products);
+        });
+    });
+
+    describe('selectSlideshowProducts', () => {
+        const products = [
+            product('a', { price: 5 }),
+            product('b', { price: 15, category: '2' }),
+            product('c', { price: 25 }),
+            product('d', { price: 35 })
+        ];
+
+        it('narrows to the selected products before filtering', () => {
+            const result = selectSlideshowProducts(products, settings({
+                selectedProductIds: ['a', 'b', 'c'],
+                filters: { categories: ['1'], inStockOnly: false }
+            }));
+
+            expect(result.products.map(p => p.id)).toEqual(['a', 'c']);
+            expect(result.matchedCount).toBe(2);
+            expect(result.sourceCount).toBe(4);
+        });
+
+        it('orders before applying the maxProducts limit', () => {
+            const result = selectSlideshowProducts(products, settings({
+                ordering: { sortBy: 'price', sortDirection: 'desc', randomizeOnLoop: false },
+                maxProducts: 2
+            }));
+
+            expect(result.products.map(p => p.id)).toEqual(['d', 'c']);
+            expect(result.matchedCount).toBe(4);
+        });
+
+        it('reports whether the minimum product count is met', () => {
+            const filters = { categories: ['2'], inStockOnly: false };
+
+            expect(selectSlideshowProducts(products, settings({ filters, minProducts: 2 })).meetsMinimum).toBeFalse();
+            expect(selectSlideshowProducts(products, settings({ filters, minProducts: 1 })).meetsMinimum).toBeTrue();
+        });
+    });
+
+    describe('prepareSlideshowProducts', () => {
+        it('applies price lists, the stock policy and overrides in order', () => {
+            const source = [
+                product('a', { price: 10, prices: { price: 10, price_1: 8 }, quantity: 3 }),
+                product('b', { quantity: 0 })
+            ];
+
+            const prepared = prepareSlideshowProducts(source, {
+                pricing: { displayPrice: 'price_1', comparePrice: 'price' },
+                stock: { ...DEFAULT_STOCK_SETTINGS, enabled: true, soldOutBehavior: 'hide' },
+                overrides: { a: { name: 'Renamed' } }
+            });
+
+            expect(prepared.map(p => p.id)).toEqual(['a']);
+            expect(prepared[0].price).toBe(8);
+            expect(prepared[0].discount?.percentage).toBe(20);
+            expect(prepared[0].stockStatus).toBe('low-stock');
+            expect(prepared[0].name).toBe('Renamed');
+        });
+    });
+});
@@ -0,0 +1,168 @@
+// src/app/core/utils/product-selection.utils.ts
+
+import { Product, ProductSelectionResult } from '@core/models/product.interface';
+import { SlideshowProductSettings } from '@core/models/slideshow-config.interface';
+import { applyPriceLists } from '@core/utils/price-list.utils';
+import { applyStockPolicy } from '@core/utils/stock-policy.utils';
+import { applyProductOverrides } from '@core/utils/product-overrides.utils';
+
+/**
+ * Product selection pipeline utilities
+ *
+ * Turns the raw ProductApiService list into the final slide list:
+ * selection → filters → ordering → maxProducts → minProducts check.
+ * Shared by SlideShowService (slideshow) and the admin preview.
+ */
+
+/**
+ * API products → products as configured for the screen
+ * (price lists, stock policy, then local overrides - runs before selection / filters)
+ */
+export function prepareSlideshowProducts(
+    products: Product[],
+    settings: Pick<SlideshowProductSettings, 'pricing' | 'stock' | 'overrides' | 'imageOverrides'> | null | undefined
+): Product[] {
+    const prepared = applyStockPolicy(applyPriceLists(products, settings?.pricing), settings?.stock);
+    return applyProductOverrides(prepared, settings);
+}
+
+/**
+ * Check product against SlideshowProductSettings.filters
+ * Missing/empty filter means "no restriction"
+ */
+export function productPassesFilters(product: Product, filters: SlideshowProductSettings['filters']): boolean {
+    if (!filters) return true;
+
+    if (filters.categories?.length && !filters.categories.includes(product.category)) {
+        return false;
+    }
+
+    if (filters.inStockOnly && !product.inStock) {
+        return false;
+    }
+
+    if (filters.minPrice != null && product.price < filters.minPrice) {
+        return false;
+    }
+
+    if (filters.maxPrice != null && product.price > filters.maxPrice) {
+        return false;
+    }
+
+    if (filters.hasDiscount != null) {
+        const hasDiscount = (product.discount?.percentage ?? 0) > 0;
+        if (hasDiscount !== filters.hasDiscount) return false;
+    }
+
+    if (filters.excludeIds?.includes(product.id)) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Deterministic random source (mulberry32) - stable previews for 'random' ordering
+ */
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Shuffle products (Fisher-Yates, returns new array)
+ * @param random - Random source in [0, 1)
+ */
+export function shuffleProducts(products: Product[], random: () => number = Math.random): Product[] {
+    const shuffled = [...products];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+}
+
+/**
+ * Order products by SlideshowProductSettings.ordering (stable for equal keys)
+ */
+export function orderProducts(
+    products: Product[],
+    ordering: SlideshowProductSettings['ordering'],
+    random: () => number = Math.random
+): Product[] {
+    if (!ordering) return [...products];
+
+    if (ordering.sortBy === 'random') {
+        return shuffleProducts(products, random);
+    }
+
+    const direction = ordering.sortDirection === 'desc' ? -1 : 1;
+
+    const compare = (a: Product, b: Product): number => {
+        switch (ordering.sortBy) {
+            case 'name':
+                return a.name.localeCompare(b.name, 'bg');
+            case 'price':
+                return a.price - b.price;
+            case 'category':
+                return a.category.localeCompare(b.category, 'bg');
+            case 'priority':
+                return (a.displaySettings?.priority ?? 0) - (b.displaySettings?.priority ?? 0);
+            default:
+                return 0;
+        }
+    };
+
+    return products
+        .map((product, index) => ({ product, index }))
+        .sort((a, b) => compare(a.product, b.product) * direction || a.index - b.index)
+        .map(({ product }) => product);
+}
+
+/**
+ * Run the full selection pipeline
+ *
+ * Steps:
+ * 1. selectedProductIds (when set) narrows the source list
+ * 2. filters (categories, inStockOnly, price range, hasDiscount, excludeIds)
+ * 3. ordering (sortBy / sortDirection)
+ * 4. maxProducts limit
+ * 5. minProducts check (meetsMinimum)
+ *
+ * @param products - Products from ProductApiService
+ * @param settings - Product settings from configuration
+ * @param random - Random source for 'random' ordering
+ */
+export function selectSlideshowProducts(
+    products: Product[],
+    settings: SlideshowProductSettings,
+    random: () => number = Math.random
+): ProductSelectionResult {
+    const selectedIds = settings.selectedProductIds ?? [];
+
+    const source = selectedIds.length > 0
+        ? products.filter(product => selectedIds.includes(product.id))
+        : products;
+
+    const matched = source.filter(product => productPassesFilters(product, settings.filters));
+    const ordered = orderProducts(matched, settings.ordering, random);
+
+    const maxProducts = settings.maxProducts && settings.maxProducts > 0 ? settings.maxProducts : ordered.length;
+    const limited = ordered.slice(0, maxProducts);
+
+    const minProducts = Math.max(0, settings.minProducts ?? 0);
+
+    return {
+        products: limited,
+        matchedCount: matched.length,
+        sourceCount: products.length,
+        minProducts,
+        meetsMinimum: limited.length >= minProducts
+    };
+}
@@ -0,0 +1,142 @@
+// src/app/core/utils/qr-code.utils.spec.ts
+
+import { encodeQrCode, QrCodeMatrix, QrErrorCorrectionLevel } from './qr-code.utils';
+
+/**
+ * Format information per level, indexed by mask (ISO/IEC 18004 Table C.1, after the 0x5412 XOR)
+ */
+const REFERENCE_FORMAT_BITS: Record<QrErrorCorrectionLevel, string[]> = {
+    L: ['111011111000100', '111001011110011', '111110110101010', '111100010011101',
+        '110011000101111', '110001100011000', '110110001000001', '110100101110110'],
+    M: ['101010000010010', '101000100100101', '101111001111100', '101101101001011',
+        '100010111111001', '100000011001110', '100111110010111', '100101010100000'],
+    Q: ['011010101011111', '011000001101000', '011111100110001', '011101000000110',
+        '010010010110100', '010000110000011', '010111011011010', '010101111101101'],
+    H: ['001011010001001', '001001110111110', '001110011100111', '001100111010000',
+        '000011101100010', '000001001010101', '000110100001100', '000100000111011']
+};
+
+/** Mask conditions for module (x, y) - column j = x, row i = y in the standard */
+const MASKS: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 === 0,
+    (_, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(y / 2) + Math.floor(x / 3)) % 2 === 0,
+    (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+    (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+    (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+function bitString(modules: boolean[][], positions: [number, number][]): string {
+    return positions.map(([x, y]) => modules[y][x] ? '1' : '0').join('');
+}
+
+/** Format bits 14 → 0 around the top-left finder */
+function readFormatBits(modules: boolean[][]): string {
+    const positions: [number, number][] = [];
+    for (let x = 0; x <= 5; x++) positions.push([x, 8]);
+    positions.push([7, 8], [8, 8], [8, 7]);
+    for (let y = 5; y >= 0; y--) positions.push([8, y]);
+    return bitString(modules, positions);
+}
+
+/** Format bits 14 → 0 of the copy next to the bottom-left and top-right finders */
+function readFormatBitsCopy(modules: boolean[][]): string {
+    const size = modules.length;
+    const positions: [number, number][] = [];
+    for (let y = size - 1; y >= size - 7; y--) positions.push([8, y]);
+    for (let x = size - 8; x < size; x++) positions.push([x, 8]);
+    return bitString(modules, positions);
+}
+
+/**
+ * Version 1 data codeword (0 or 1) - both fill the bottom-right column pair upwards,
+ * two modules per row, right module first
+ */
+function readVersion1Codeword(modules: boolean[][], index: number, mask: number): number {
+    let value = 0;
+    for (let bit = 0; bit < 8; bit++) {
+        const x = 20 - (bit % 2);
+        const y = 20 - index * 4 - Math.floor(bit / 2);
+        value = (value << 1) | (modules[y][x] !== MASKS[mask](x, y) ? 1 : 0);
+    }
+    return value;
+}
+
+/** 7x7 finder pattern with its top-left module at (x, y) */
+function hasFinderPattern(matrix: QrCodeMatrix, x: number, y: number): boolean {
+    for (let dy = 0; dy < 7; dy++) {
+        for (let dx = 0; dx < 7; dx++) {
+            const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3));
+            if (matrix.modules[y + dy][x + dx] !== (ring !== 2)) return false;
+        }
+    }
+    return true;
+}
+
+describe('qr-code.utils', () => {
+    it('uses the smallest version that fits', () => {
+        const small = encodeQrCode('https://shop.bg/p/42');
+        expect(small.version).toBe(2);
+        expect(small.size).toBe(25);
+        expect(small.modules.length).toBe(25);
+        expect(small.modules.every(row => row.length === 25)).toBeTrue();
+
+        expect(encodeQrCode('https://shop.bg/p/42', 'H').version).toBeGreaterThan(small.version);
+        expect(encodeQrCode('x'.repeat(200)).version).toBeGreaterThan(small.version);
+    });
+
+    it('draws the three finder patterns and the timing pattern', () => {
+        const { modules, size } = encodeQrCode('HELLO');
+
+        expect(hasFinderPattern({ version: 1, size, modules }, 0, 0)).toBeTrue();
+        expect(hasFinderPattern({ version: 1, size, modules }, size - 7, 0)).toBeTrue();
+        expect(hasFinderPattern({ version: 1, size, modules }, 0, size - 7)).toBeTrue();
+
+        for (let i = 8; i < size - 8; i++) {
+            expect(modules[6][i]).toBe(i % 2 === 0);
+        }
+    });
+
+    describe('format information', () => {
+        for (const level of ['L', 'M', 'Q', 'H'] as QrErrorCorrectionLevel[]) {
+            it(`matches the reference bits for level ${level}`, () => {
+                const { modules } = encodeQrCode('https://shop.bg/p/42', level);
+                const formatBits = readFormatBits(modules);
+
+                expect(REFERENCE_FORMAT_BITS[level]).toContain(formatBits);
+                expect(readFormatBitsCopy(modules)).toBe(formatBits);
+            });
+        }
+
+        it('sets the dark module above the bottom-left finder', () => {
+            const { modules, size } = encodeQrCode('HELLO');
+
+            expect(modules[size - 8][8]).toBeTrue();
+        });
+    });
+
+    describe('data codewords', () => {
+        for (const level of ['L', 'M', 'Q', 'H'] as QrErrorCorrectionLevel[]) {
+            it(`places the byte mode header and length first at level ${level}`, () => {
+                const { modules, version } = encodeQrCode('HELLO', level);
+                const mask = REFERENCE_FORMAT_BITS[level].indexOf(readFormatBits(modules));
+
+                expect(version).toBe(1);
+                expect(mask).toBeGreaterThanOrEqual(0);
+                // 0100 (byte mode) + 00000101 (5 bytes) + 0100 1000 ('H')
+                expect(readVersion1Codeword(modules, 0, mask)).toBe(0x40);
+                expect(readVersion1Codeword(modules, 1, mask)).toBe(0x54);
+            });
+        }
+    });
+
+    it('is deterministic', () => {
+        expect(encodeQrCode('Купи онлайн')).toEqual(encodeQrCode('Купи онлайн'));
+    });
+
+    it('throws when the text does not fit version 40', () => {
+        expect(() => encodeQrCode('x'.repeat(3000), 'H')).toThrowError();
+    });
+});
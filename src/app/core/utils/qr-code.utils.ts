@@ -0,0 +1,426 @@
+// src/app/core/utils/qr-code.utils.ts
+
+/**
+ * QR code encoder (ISO/IEC 18004, Model 2)
+ *
+ * Local generator - product links must not depend on an external QR service
+ * (TVs are often on restricted networks). Byte mode (UTF-8), versions 1-40,
+ * automatic mask selection by the standard penalty rules.
+ */
+
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCodeMatrix {
+    /** Symbol version 1-40 */
+    version: number;
+
+    /** Modules per side (without quiet zone) */
+    size: number;
+
+    /** modules[y][x] - true = dark */
+    modules: boolean[][];
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+/** Format info bits per level (not in L-M-Q-H order) */
+const FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+/** Error correction codewords per block, indexed by version (0 unused) */
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrectionLevel, number[]> = {
+    L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+    Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+
+/** Error correction blocks, indexed by version (0 unused) */
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrectionLevel, number[]> = {
+    L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+    M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+    Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+    H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+/**
+ * Encode text as a QR code (smallest version that fits)
+ * @throws Error when the text is too long for version 40
+ */
+export function encodeQrCode(text: string, ecl: QrErrorCorrectionLevel = 'M'): QrCodeMatrix {
+    const data = new TextEncoder().encode(text);
+
+    let version = MIN_VERSION;
+    while (version <= MAX_VERSION && getByteModeBits(data.length, version) > getDataCodewordCount(version, ecl) * 8) {
+        version++;
+    }
+    if (version > MAX_VERSION) {
+        throw new Error(`QR code: text too long (${data.length} bytes)`);
+    }
+
+    const codewords = addEccAndInterleave(createDataCodewords(data, version, ecl), version, ecl);
+    const size = version * 4 + 17;
+    const modules = createGrid(size);
+    const isFunction = createGrid(size);
+
+    drawFunctionPatterns(modules, isFunction, version);
+    drawCodewords(modules, isFunction, codewords);
+
+    // Try all 8 masks, keep the one with the lowest penalty
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < 8; mask++) {
+        applyMask(modules, isFunction, mask);
+        drawFormatBits(modules, isFunction, ecl, mask);
+        const penalty = getPenaltyScore(modules);
+        if (penalty < bestPenalty) {
+            bestMask = mask;
+            bestPenalty = penalty;
+        }
+        applyMask(modules, isFunction, mask); // XOR again = undo
+    }
+
+    applyMask(modules, isFunction, bestMask);
+    drawFormatBits(modules, isFunction, ecl, bestMask);
+
+    return { version, size, modules };
+}
+
+// =====================================
+// DATA CODEWORDS
+// =====================================
+
+function getByteModeBits(byteCount: number, version: number): number {
+    return 4 + (version <= 9 ? 8 : 16) + byteCount * 8;
+}
+
+function getRawDataModules(version: number): number {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const alignmentCount = Math.floor(version / 7) + 2;
+        result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+        if (version >= 7) result -= 36;
+    }
+    return result;
+}
+
+function getDataCodewordCount(version: number, ecl: QrErrorCorrectionLevel): number {
+    return Math.floor(getRawDataModules(version) / 8)
+        - ECC_CODEWORDS_PER_BLOCK[ecl][version] * ERROR_CORRECTION_BLOCKS[ecl][version];
+}
+
+function createDataCodewords(data: Uint8Array, version: number, ecl: QrErrorCorrectionLevel): number[] {
+    const bits: number[] = [];
+    const appendBits = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+
+    appendBits(0x4, 4); // Byte mode
+    appendBits(data.length, version <= 9 ? 8 : 16);
+    data.forEach(byte => appendBits(byte, 8));
+
+    // Terminator, byte alignment, then alternating pad bytes
+    const capacity = getDataCodewordCount(version, ecl) * 8;
+    appendBits(0, Math.min(4, capacity - bits.length));
+    appendBits(0, (8 - bits.length % 8) % 8);
+    for (let pad = 0xEC; bits.length < capacity; pad ^= 0xEC ^ 0x11) {
+        appendBits(pad, 8);
+    }
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+        codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    }
+    return codewords;
+}
+
+/**
+ * Split into blocks, append Reed-Solomon ECC per block and interleave
+ */
+function addEccAndInterleave(data: number[], version: number, ecl: QrErrorCorrectionLevel): number[] {
+    const blockCount = ERROR_CORRECTION_BLOCKS[ecl][version];
+    const eccLength = ECC_CODEWORDS_PER_BLOCK[ecl][version];
+    const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+    const shortBlockCount = blockCount - rawCodewords % blockCount;
+    const shortBlockLength = Math.floor(rawCodewords / blockCount);
+    const divisor = reedSolomonDivisor(eccLength);
+
+    const blocks: number[][] = [];
+    for (let i = 0, offset = 0; i < blockCount; i++) {
+        const blockData = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1));
+        offset += blockData.length;
+        const ecc = reedSolomonRemainder(blockData, divisor);
+        if (i < shortBlockCount) blockData.push(0); // Placeholder, skipped below
+        blocks.push([...blockData, ...ecc]);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            if (i !== shortBlockLength - eccLength || j >= shortBlockCount) {
+                result.push(block[i]);
+            }
+        });
+    }
+    return result;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+    const result = new Array<number>(degree).fill(0);
+    result[degree - 1] = 1;
+
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = gfMultiply(result[j], root);
+            if (j + 1 < result.length) result[j] ^= result[j + 1];
+        }
+        root = gfMultiply(root, 0x02);
+    }
+    return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+    const result = new Array<number>(divisor.length).fill(0);
+    for (const byte of data) {
+        const factor = byte ^ (result.shift() as number);
+        result.push(0);
+        divisor.forEach((coefficient, i) => result[i] ^= gfMultiply(coefficient, factor));
+    }
+    return result;
+}
+
+/** Multiplication in GF(2^8 / 0x11D) */
+function gfMultiply(x: number, y: number): number {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11D);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+}
+
+// =====================================
+// MATRIX
+// =====================================
+
+function createGrid(size: number): boolean[][] {
+    return Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+}
+
+function setFunctionModule(modules: boolean[][], isFunction: boolean[][], x: number, y: number, dark: boolean): void {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+}
+
+function drawFunctionPatterns(modules: boolean[][], isFunction: boolean[][], version: number): void {
+    const size = modules.length;
+
+    // Timing patterns
+    for (let i = 0; i < size; i++) {
+        setFunctionModule(modules, isFunction, 6, i, i % 2 === 0);
+        setFunctionModule(modules, isFunction, i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with separators
+    [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const x = cx + dx;
+                const y = cy + dy;
+                if (x < 0 || x >= size || y < 0 || y >= size) continue;
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                setFunctionModule(modules, isFunction, x, y, distance !== 2 && distance !== 4);
+            }
+        }
+    });
+
+    // Alignment patterns (not over the finder corners)
+    const positions = getAlignmentPositions(version, size);
+    const last = positions.length - 1;
+    positions.forEach((cy, i) => positions.forEach((cx, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) {
+                setFunctionModule(modules, isFunction, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+            }
+        }
+    }));
+
+    // Reserve format areas (real bits drawn per mask), version info
+    drawFormatBits(modules, isFunction, 'L', 0);
+    drawVersionBits(modules, isFunction, version);
+}
+
+function getAlignmentPositions(version: number, size: number): number[] {
+    if (version === 1) return [];
+
+    const count = Math.floor(version / 7) + 2;
+    const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+    const result = [6];
+    for (let position = size - 7; result.length < count; position -= step) {
+        result.splice(1, 0, position);
+    }
+    return result;
+}
+
+function drawFormatBits(modules: boolean[][], isFunction: boolean[][], ecl: QrErrorCorrectionLevel, mask: number): void {
+    const size = modules.length;
+    const data = (FORMAT_BITS[ecl] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+        remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+
+    // Around the top-left finder
+    for (let i = 0; i <= 5; i++) setFunctionModule(modules, isFunction, 8, i, bit(i));
+    setFunctionModule(modules, isFunction, 8, 7, bit(6));
+    setFunctionModule(modules, isFunction, 8, 8, bit(7));
+    setFunctionModule(modules, isFunction, 7, 8, bit(8));
+    for (let i = 9; i < 15; i++) setFunctionModule(modules, isFunction, 14 - i, 8, bit(i));
+
+    // Copy next to the other two finders
+    for (let i = 0; i < 8; i++) setFunctionModule(modules, isFunction, size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) setFunctionModule(modules, isFunction, 8, size - 15 + i, bit(i));
+    setFunctionModule(modules, isFunction, 8, size - 8, true); // Dark module
+}
+
+function drawVersionBits(modules: boolean[][], isFunction: boolean[][], version: number): void {
+    if (version < 7) return;
+
+    const size = modules.length;
+    let remainder = version;
+    for (let i = 0; i < 12; i++) {
+        remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1F25);
+    }
+    const bits = (version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) !== 0;
+        const a = size - 11 + i % 3;
+        const b = Math.floor(i / 3);
+        setFunctionModule(modules, isFunction, a, b, dark);
+        setFunctionModule(modules, isFunction, b, a, dark);
+    }
+}
+
+/**
+ * Place codewords in the zigzag order (two-module columns, bottom-right upwards)
+ */
+function drawCodewords(modules: boolean[][], isFunction: boolean[][], codewords: number[]): void {
+    const size = modules.length;
+    let bitIndex = 0;
+
+    for (let right = size - 1; right >= 1; right -= 2) {
+        if (right === 6) right = 5; // Skip the vertical timing pattern
+
+        for (let vertical = 0; vertical < size; vertical++) {
+            for (let j = 0; j < 2; j++) {
+                const x = right - j;
+                const upward = ((right + 1) & 2) === 0;
+                const y = upward ? size - 1 - vertical : vertical;
+
+                if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+                    modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) !== 0;
+                    bitIndex++;
+                }
+            }
+        }
+    }
+}
+
+function applyMask(modules: boolean[][], isFunction: boolean[][], mask: number): void {
+    const size = modules.length;
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            if (!isFunction[y][x] && isMasked(mask, x, y)) {
+                modules[y][x] = !modules[y][x];
+            }
+        }
+    }
+}
+
+function isMasked(mask: number, x: number, y: number): boolean {
+    switch (mask) {
+        case 0: return (x + y) % 2 === 0;
+        case 1: return y % 2 === 0;
+        case 2: return x % 3 === 0;
+        case 3: return (x + y) % 3 === 0;
+        case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+        case 5: return (x * y) % 2 + (x * y) % 3 === 0;
+        case 6: return ((x * y) % 2 + (x * y) % 3) % 2 === 0;
+        default: return ((x + y) % 2 + (x * y) % 3) % 2 === 0;
+    }
+}
+
+// =====================================
+// MASK PENALTY
+// =====================================
+
+function getPenaltyScore(modules: boolean[][]): number {
+    const size = modules.length;
+    const rows = modules;
+    const columns = modules.map((_, x) => modules.map(row => row[x]));
+    let penalty = 0;
+
+    // N1 (same-color runs) and N3 (finder-like patterns) in every row and column
+    for (const line of [...rows, ...columns]) {
+        let runLength = 1;
+        for (let i = 1; i <= size; i++) {
+            if (i < size && line[i] === line[i - 1]) {
+                runLength++;
+                continue;
+            }
+            if (runLength >= 5) penalty += PENALTY_N1 + runLength - 5;
+            runLength = 1;
+        }
+        penalty += countFinderLikePatterns(line) * PENALTY_N3;
+    }
+
+    // N2 - 2x2 blocks of the same color
+    let darkCount = 0;
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            if (modules[y][x]) darkCount++;
+            if (x < size - 1 && y < size - 1) {
+                const color = modules[y][x];
+                if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+                    penalty += PENALTY_N2;
+                }
+            }
+        }
+    }
+
+    // N4 - dark/light balance, 10 points per 5% away from 50%
+    const total = size * size;
+    const deviation = Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1;
+    penalty += Math.max(0, deviation) * PENALTY_N4;
+
+    return penalty;
+}
+
+/**
+ * 1:1:3:1:1 dark pattern with 4 light modules on either side (outside the symbol counts as light)
+ */
+function countFinderLikePatterns(line: boolean[]): number {
+    const pattern = [true, false, true, true, true, false, true];
+    const isLight = (i: number) => i < 0 || i >= line.length || !line[i];
+    let count = 0;
+
+    for (let start = 0; start + pattern.length <= line.length; start++) {
+        if (!pattern.every((dark, i) => line[start + i] === dark)) continue;
+
+        const lightBefore = [1, 2, 3, 4].every(offset => isLight(start - offset));
+        const lightAfter = [0, 1, 2, 3].every(offset => isLight(start + pattern.length + offset));
+        if (lightBefore) count++;
+        if (lightAfter) count++;
+    }
+    return count;
+}
@@ -0,0 +1,92 @@
+// src/app/core/utils/remote-control.utils.spec.ts
+
+import {
+    DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS,
+    findRemoteControlAction,
+    getKeyIdentifiers,
+    getLearnedKeyIdentifier,
+    RemoteControlKeyMappings
+} from './remote-control.utils';
+
+type KeyEvent = Parameters<typeof findRemoteControlAction>[1];
+
+function key(key: string, overrides: Partial<KeyEvent> = {}): KeyEvent {
+    return { key, code: '', keyCode: 0, ...overrides };
+}
+
+describe('remote-control.utils', () => {
+    describe('findRemoteControlAction', () => {
+        it('maps the default keys', () => {
+            expect(findRemoteControlAction(DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, key('ArrowRight'))).toBe('nextSlide');
+            expect(findRemoteControlAction(DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, key('PageUp'))).toBe('previousSlide');
+            expect(findRemoteControlAction(DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, key(' '))).toBe('pauseResume');
+            expect(findRemoteControlAction(DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, key('r'))).toBe('restart');
+        });
+
+        it('matches webOS keys that only report a keyCode', () => {
+            const mappings: RemoteControlKeyMappings = { ...DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, pauseResume: ['keyCode:415'] };
+
+            expect(findRemoteControlAction(mappings, key('Unidentified', { keyCode: 415 }))).toBe('pauseResume');
+        });
+
+        it('matches the physical key code', () => {
+            const mappings: RemoteControlKeyMappings = { ...DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, restart: ['Digit0'] };
+
+            expect(findRemoteControlAction(mappings, key('0', { code: 'Digit0', keyCode: 48 }))).toBe('restart');
+        });
+
+        it('returns null for unmapped keys, so NavigationControls keeps its shortcuts', () => {
+            expect(findRemoteControlAction(DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, key('F'))).toBeNull();
+            expect(findRemoteControlAction(DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, key('Escape'))).toBeNull();
+            expect(findRemoteControlAction(undefined, key('ArrowRight'))).toBeNull();
+        });
+
+        it('uses the first action when a key is mapped twice', () => {
+            const mappings: RemoteControlKeyMappings = { ...DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, restart: ['ArrowRight'] };
+
+            expect(findRemoteControlAction(mappings, key('ArrowRight'))).toBe('nextSlide');
+        });
+
+        it('ignores Ctrl, Alt and Meta combinations', () => {
+            expect(findRemoteControlAction(DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, key('r', { ctrlKey: true }))).toBeNull();
+            expect(findRemoteControlAction(DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, key('ArrowLeft', { altKey: true }))).toBeNull();
+            expect(findRemoteControlAction(DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, key('R', { metaKey: true }))).toBeNull();
+        });
+
+        it('still matches upper-case letters typed with Shift', () => {
+            expect(findRemoteControlAction(DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, key('R', { code: 'KeyR', keyCode: 82 }))).toBe('restart');
+        });
+    });
+
+    describe('getKeyIdentifiers', () => {
+        it('lists the key name, code and keyCode', () => {
+            expect(getKeyIdentifiers(key(' ', { code: 'Space', keyCode: 32 }))).toEqual(['Space', 'Space', 'keyCode:32']);
+            expect(getKeyIdentifiers(key('Unidentified', { code: 'Unidentified', keyCode: 19 }))).toEqual(['keyCode:19']);
+        });
+    });
+
+    describe('getLearnedKeyIdentifier', () => {
+        it('records the key name when the remote reports one', () => {
+            expect(getLearnedKeyIdentifier(key('MediaPlayPause', { keyCode: 10252 }))).toBe('MediaPlayPause');
+            expect(getLearnedKeyIdentifier(key('r', { code: 'KeyR', keyCode: 82 }))).toBe('R');
+        });
+
+        it('falls back to the keyCode, then the physical code', () => {
+            expect(getLearnedKeyIdentifier(key('Unidentified', { code: 'MediaPlay', keyCode: 415 }))).toBe('keyCode:415');
+            expect(getLearnedKeyIdentifier(key('Process', { code: 'F13' }))).toBe('F13');
+            expect(getLearnedKeyIdentifier(key('Unidentified'))).toBeNull();
+        });
+
+        it('does not learn shortcut combinations', () => {
+            expect(getLearnedKeyIdentifier(key('r', { ctrlKey: true }))).toBeNull();
+        });
+
+        it('learns keys that match again when pressed', () => {
+            const event = key('Unidentified', { keyCode: 415 });
+            const learned = getLearnedKeyIdentifier(event)!;
+            const mappings: RemoteControlKeyMappings = { ...DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, pauseResume: [learned] };
+
+            expect(findRemoteControlAction(mappings, event)).toBe('pauseResume');
+        });
+    });
+});
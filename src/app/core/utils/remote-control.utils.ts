@@ -0,0 +1,93 @@
+// src/app/core/utils/remote-control.utils.ts
+
+import { SlideshowTvSettings } from '@core/models/slideshow-config.interface';
+
+/**
+ * TV remote control utilities
+ *
+ * Remotes report keys differently per platform - Tizen sends named keys
+ * ('MediaPlayPause'), webOS often sends 'Unidentified' with only a keyCode (415, 19...).
+ * A mapping entry is therefore matched against the key name, the physical code
+ * and 'keyCode:<n>'.
+ * Ctrl / Alt / Meta combinations never map to an action - remotes do not send them,
+ * so browser and keyboard shortcuts (Ctrl+R, Alt+ArrowLeft) keep working.
+ */
+
+export type RemoteControlKeyMappings = SlideshowTvSettings['remoteControl']['keyMappings'];
+export type RemoteControlAction = keyof RemoteControlKeyMappings;
+
+export const REMOTE_CONTROL_ACTIONS: RemoteControlAction[] = ['nextSlide', 'previousSlide', 'pauseResume', 'restart'];
+
+export const DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS: RemoteControlKeyMappings = {
+    nextSlide: ['ArrowRight', 'PageDown'],
+    previousSlide: ['ArrowLeft', 'PageUp'],
+    pauseResume: ['Space', 'Pause'],
+    restart: ['Home', 'R']
+};
+
+type KeyEventLike = Pick<KeyboardEvent, 'key' | 'code' | 'keyCode'>
+    & Partial<Pick<KeyboardEvent, 'ctrlKey' | 'altKey' | 'metaKey'>>;
+
+const KEY_CODE_PREFIX = 'keyCode:';
+
+/**
+ * Normalize key name - ' ' → 'Space', single characters upper-case ('r' → 'R')
+ */
+function normalizeKeyName(key: string): string {
+    if (key === ' ') return 'Space';
+    return key.length === 1 ? key.toUpperCase() : key;
+}
+
+function isMeaningfulKey(key: string | undefined): key is string {
+    return !!key && key !== 'Unidentified' && key !== 'Process';
+}
+
+function hasShortcutModifier(event: KeyEventLike): boolean {
+    return !!(event.ctrlKey || event.altKey || event.metaKey);
+}
+
+/**
+ * All identifiers a mapping entry may use for this event
+ */
+export function getKeyIdentifiers(event: KeyEventLike): string[] {
+    const identifiers: string[] = [];
+
+    if (isMeaningfulKey(event.key)) identifiers.push(normalizeKeyName(event.key));
+    if (event.code && event.code !== 'Unidentified') identifiers.push(event.code);
+    if (event.keyCode > 0) identifiers.push(`${KEY_CODE_PREFIX}${event.keyCode}`);
+
+    return identifiers;
+}
+
+/**
+ * Identifier recorded by the admin "learn key" mode
+ * Key name when the remote reports one, otherwise the numeric keyCode
+ */
+export function getLearnedKeyIdentifier(event: KeyEventLike): string | null {
+    if (hasShortcutModifier(event)) return null;
+    if (isMeaningfulKey(event.key)) return normalizeKeyName(event.key);
+    if (event.keyCode > 0) return `${KEY_CODE_PREFIX}${event.keyCode}`;
+    if (event.code && event.code !== 'Unidentified') return event.code;
+    return null;
+}
+
+/**
+ * Check if a mapping entry matches the event
+ */
+export function matchesKeyMapping(keys: string[] | undefined, event: KeyEventLike): boolean {
+    if (!keys?.length || hasShortcutModifier(event)) return false;
+
+    const identifiers = getKeyIdentifiers(event);
+    return keys.some(key => identifiers.includes(normalizeKeyName(key)));
+}
+
+/**
+ * Action mapped to the pressed key (first match in REMOTE_CONTROL_ACTIONS order)
+ */
+export function findRemoteControlAction(
+    mappings: RemoteControlKeyMappings | undefined,
+    event: KeyEventLike
+): RemoteControlAction | null {
+    if (!mappings) return null;
+    return REMOTE_CONTROL_ACTIONS.find(action => matchesKeyMapping(mappings[action], event)) ?? null;
+}
@@ -0,0 +1,81 @@
+// src/app/core/utils/rotation.utils.spec.ts
+
+import { SlideshowConfig } from '@core/models/slideshow-config.interface';
+import {
+    getDisplayRotation,
+    getRotatedStageStyles,
+    getStageSize,
+    isPortraitStage,
+    rotateSafeAreaInsets
+} from './rotation.utils';
+
+const LANDSCAPE = { width: 1920, height: 1080 };
+const INSETS = { top: '1px', right: '2px', bottom: '3px', left: '4px' };
+
+describe('rotation.utils', () => {
+    describe('getDisplayRotation', () => {
+        it('reads the configured rotation and ignores invalid values', () => {
+            expect(getDisplayRotation({ tvOptimizations: { rotation: 270 } } as unknown as SlideshowConfig)).toBe(270);
+            expect(getDisplayRotation({ tvOptimizations: { rotation: 45 } } as unknown as SlideshowConfig)).toBe(0);
+            expect(getDisplayRotation(null)).toBe(0);
+        });
+    });
+
+    describe('getStageSize', () => {
+        it('swaps width and height for quarter turns only', () => {
+            expect(getStageSize(90, LANDSCAPE)).toEqual({ width: 1080, height: 1920 });
+            expect(getStageSize(270, LANDSCAPE)).toEqual({ width: 1080, height: 1920 });
+            expect(getStageSize(180, LANDSCAPE)).toEqual(LANDSCAPE);
+        });
+
+        it('detects portrait stages', () => {
+            expect(isPortraitStage(90, LANDSCAPE)).toBeTrue();
+            expect(isPortraitStage(0, LANDSCAPE)).toBeFalse();
+            expect(isPortraitStage(0, { width: 1080, height: 1920 })).toBeTrue();
+        });
+    });
+
+    describe('rotateSafeAreaInsets', () => {
+        it('maps physical edges to the rotated stage edges', () => {
+            expect(rotateSafeAreaInsets(INSETS, 0)).toEqual(INSETS);
+            expect(rotateSafeAreaInsets(INSETS, 90)).toEqual({ top: '2px', right: '3px', bottom: '4px', left: '1px' });
+            expect(rotateSafeAreaInsets(INSETS, 180)).toEqual({ top: '3px', right: '4px', bottom: '1px', left: '2px' });
+            expect(rotateSafeAreaInsets(INSETS, 270)).toEqual({ top: '4px', right: '1px', bottom: '2px', left: '3px' });
+        });
+
+        it('returns to the original insets after a full turn', () => {
+            const quarter = (insets: typeof INSETS) => rotateSafeAreaInsets(insets, 90);
+            expect(quarter(quarter(quarter(quarter(INSETS))))).toEqual(INSETS);
+        });
+    });
+
+    describe('getRotatedStageStyles', () => {
+        it('adds no styles without rotation', () => {
+            expect(getRotatedStageStyles(0, INSETS)).toEqual({});
+        });
+
+        it('rotates quarter turns around the top-left corner with swapped stage sizes', () => {
+            const styles = getRotatedStageStyles(90, INSETS);
+
+            expect(styles['transform']).toBe('rotate(90deg) translateY(-100%)');
+            expect(styles['transform-origin']).toBe('top left');
+            expect(styles['width']).toBe('calc(100vh - 1px - 3px)');
+            expect(styles['height']).toBe('calc(100vw - 4px - 2px)');
+            expect(styles['--stage-width']).toBe(styles['width']);
+            expect(styles['top']).toBe('1px');
+            expect(styles['left']).toBe('4px');
+        });
+
+        it('rotates counter-clockwise quarter turns along the x axis', () => {
+            expect(getRotatedStageStyles(270, INSETS)['transform']).toBe('rotate(-90deg) translateX(-100%)');
+        });
+
+        it('rotates upside down screens around the center', () => {
+            const styles = getRotatedStageStyles(180, INSETS);
+
+            expect(styles['transform']).toBe('rotate(180deg)');
+            expect(styles['transform-origin']).toBe('center');
+            expect(styles['width']).toBe('calc(100vw - 4px - 2px)');
+        });
+    });
+});
@@ -0,0 +1,116 @@
+// src/app/core/utils/rotation.utils.ts
+
+import { DisplayRotation, SlideshowConfig } from '@core/models/slideshow-config.interface';
+import { SafeAreaInsets } from '@core/utils/safe-area.utils';
+
+/**
+ * Display rotation utilities
+ *
+ * For screens mounted vertically (or upside down) when the TV OS cannot rotate
+ * the browser itself. The whole stage is rotated with CSS; "stage" sizes below
+ * are the rotated, logical width/height the templates lay out against.
+ */
+
+export interface ViewportSize {
+    width: number;
+    height: number;
+}
+
+export const DISPLAY_ROTATIONS: DisplayRotation[] = [0, 90, 180, 270];
+
+const FALLBACK_VIEWPORT: ViewportSize = { width: 1920, height: 1080 };
+
+/**
+ * Rotation from configuration (0 when missing)
+ */
+export function getDisplayRotation(config: SlideshowConfig | null | undefined): DisplayRotation {
+    const rotation = config?.tvOptimizations?.rotation ?? 0;
+    return DISPLAY_ROTATIONS.includes(rotation) ? rotation : 0;
+}
+
+/**
+ * 90 / 270 swap the stage width and height
+ */
+export function isQuarterTurn(rotation: DisplayRotation): boolean {
+    return rotation === 90 || rotation === 270;
+}
+
+/**
+ * Physical browser viewport
+ */
+export function getViewportSize(): ViewportSize {
+    if (typeof window === 'undefined') return FALLBACK_VIEWPORT;
+    return {
+        width: window.innerWidth || FALLBACK_VIEWPORT.width,
+        height: window.innerHeight || FALLBACK_VIEWPORT.height
+    };
+}
+
+/**
+ * Logical stage size after rotation
+ */
+export function getStageSize(rotation: DisplayRotation, viewport: ViewportSize = getViewportSize()): ViewportSize {
+    return isQuarterTurn(rotation)
+        ? { width: viewport.height, height: viewport.width }
+        : viewport;
+}
+
+/**
+ * Portrait stage - rotated landscape TV, or a TV whose OS already reports portrait
+ */
+export function isPortraitStage(rotation: DisplayRotation, viewport: ViewportSize = getViewportSize()): boolean {
+    const stage = getStageSize(rotation, viewport);
+    return stage.height > stage.width;
+}
+
+/**
+ * Map physical screen insets to the rotated stage edges
+ * 90° (clockwise): stage top is the physical right edge, stage left the physical top edge
+ */
+export function rotateSafeAreaInsets(insets: SafeAreaInsets, rotation: DisplayRotation): SafeAreaInsets {
+    switch (rotation) {
+        case 90:
+            return { top: insets.right, right: insets.bottom, bottom: insets.left, left: insets.top };
+        case 180:
+            return { top: insets.bottom, right: insets.left, bottom: insets.top, left: insets.right };
+        case 270:
+            return { top: insets.left, right: insets.top, bottom: insets.right, left: insets.bottom };
+        default:
+            return insets;
+    }
+}
+
+/**
+ * Styles that rotate the stage and fit it into the physical safe rectangle
+ * `margins` are physical screen margins; the stage is fixed at the top-left margin
+ * and rotated around its own top-left corner (90 / 270) or center (180).
+ * `--stage-width` / `--stage-height` replace 100vw / 100vh in templates (vw/vh stay physical).
+ */
+export function getRotatedStageStyles(rotation: DisplayRotation, margins: SafeAreaInsets): Record<string, string> {
+    if (rotation === 0) return {};
+
+    const { top, right, bottom, left } = margins;
+    const physicalWidth = `calc(100vw - ${left} - ${right})`;
+    const physicalHeight = `calc(100vh - ${top} - ${bottom})`;
+    const width = isQuarterTurn(rotation) ? physicalHeight : physicalWidth;
+    const height = isQuarterTurn(rotation) ? physicalWidth : physicalHeight;
+
+    const transforms: Record<Exclude<DisplayRotation, 0>, { transform: string; origin: string }> = {
+        90: { transform: 'rotate(90deg) translateY(-100%)', origin: 'top left' },
+        180: { transform: 'rotate(180deg)', origin: 'center' },
+        270: { transform: 'rotate(-90deg) translateX(-100%)', origin: 'top left' }
+    };
+
+    return {
+        position: 'fixed',
+        top,
+        left,
+        margin: '0',
+        width,
+        height,
+        transform: transforms[rotation].transform,
+        'transform-origin': transforms[rotation].origin,
+        '--stage-width': width,
+        '--stage-height': height
+    };
+}
@@ -0,0 +1,33 @@
+// src/app/core/utils/safe-area.utils.ts
+
+import { SlideshowTvSettings } from '@core/models/slideshow-config.interface';
+
+/**
+ * TV safe area insets as CSS lengths
+ */
+export interface SafeAreaInsets {
+    top: string;
+    right: string;
+    bottom: string;
+    left: string;
+}
+
+export const NO_SAFE_AREA_INSETS: SafeAreaInsets = { top: '0px', right: '0px', bottom: '0px', left: '0px' };
+
+/**
+ * Insets for overlays (ticker, widgets) from SlideshowTvSettings.safeArea
+ * customMargins (px) win over marginPercentage (%)
+ */
+export function getSafeAreaInsets(safeArea: SlideshowTvSettings['safeArea'] | undefined): SafeAreaInsets {
+    if (!safeArea?.enabled) {
+        return NO_SAFE_AREA_INSETS;
+    }
+
+    if (safeArea.customMargins) {
+        const { top, right, bottom, left } = safeArea.customMargins;
+        return { top: `${top}px`, right: `${right}px`, bottom: `${bottom}px`, left: `${left}px` };
+    }
+
+    const margin = `${safeArea.marginPercentage}%`;
+    return { top: margin, right: margin, bottom: margin, left: margin };
+}
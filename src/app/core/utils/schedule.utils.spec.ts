@@ -0,0 +1,142 @@
+// src/app/core/utils/schedule.utils.spec.ts
+
+import { SlideshowConfig, SlideshowScheduleEntry } from '@core/models/slideshow-config.interface';
+import {
+    applyScheduleEntry,
+    findActiveScheduleEntry,
+    isScheduleEntryActive,
+    parseScheduleTime
+} from './schedule.utils';
+
+const FRIDAY = 5;
+
+function entry(overrides: Partial<SlideshowScheduleEntry> = {}): SlideshowScheduleEntry {
+    return {
+        id: 'entry',
+        name: 'Entry',
+        enabled: true,
+        priority: 0,
+        overrides: {},
+        ...overrides
+    };
+}
+
+describe('schedule.utils', () => {
+    describe('parseScheduleTime', () => {
+        it('converts HH:mm to minutes since midnight', () => {
+            expect(parseScheduleTime('00:00')).toBe(0);
+            expect(parseScheduleTime('7:30')).toBe(450);
+            expect(parseScheduleTime('24:00')).toBe(1440);
+        });
+
+        it('rejects invalid times', () => {
+            expect(parseScheduleTime('24:01')).toBeNull();
+            expect(parseScheduleTime('12:60')).toBeNull();
+            expect(parseScheduleTime('noon')).toBeNull();
+        });
+    });
+
+    describe('isScheduleEntryActive', () => {
+        it('treats the end of a daytime window as exclusive', () => {
+            const lunch = entry({ timeRange: { start: '11:00', end: '14:00' } });
+
+            expect(isScheduleEntryActive(lunch, new Date(2025, 2, 14, 11, 0))).toBeTrue();
+            expect(isScheduleEntryActive(lunch, new Date(2025, 2, 14, 13, 59))).toBeTrue();
+            expect(isScheduleEntryActive(lunch, new Date(2025, 2, 14, 14, 0))).toBeFalse();
+        });
+
+        it('wraps overnight windows past midnight', () => {
+            const night = entry({ timeRange: { start: '22:00', end: '02:00' } });
+
+            expect(isScheduleEntryActive(night, new Date(2025, 2, 14, 23, 30))).toBeTrue();
+            expect(isScheduleEntryActive(night, new Date(2025, 2, 15, 1, 59))).toBeTrue();
+            expect(isScheduleEntryActive(night, new Date(2025, 2, 15, 2, 0))).toBeFalse();
+            expect(isScheduleEntryActive(night, new Date(2025, 2, 14, 12, 0))).toBeFalse();
+        });
+
+        it('checks the weekday the overnight window started on', () => {
+            const fridayNight = entry({ timeRange: { start: '22:00', end: '02:00' }, weekdays: [FRIDAY] });
+
+            // Saturday 01:00 still belongs to Friday night
+            expect(isScheduleEntryActive(fridayNight, new Date(2025, 2, 15, 1, 0))).toBeTrue();
+            // Friday 01:00 belongs to Thursday night
+            expect(isScheduleEntryActive(fridayNight, new Date(2025, 2, 14, 1, 0))).toBeFalse();
+            expect(isScheduleEntryActive(fridayNight, new Date(2025, 2, 15, 23, 0))).toBeFalse();
+        });
+
+        it('checks the date range against the day the overnight window started on', () => {
+            const lastNight = entry({
+                timeRange: { start: '22:00', end: '02:00' },
+                dateRange: { from: '2025-03-14', to: '2025-03-14' }
+            });
+
+            expect(isScheduleEntryActive(lastNight, new Date(2025, 2, 15, 1, 0))).toBeTrue();
+            expect(isScheduleEntryActive(lastNight, new Date(2025, 2, 15, 23, 0))).toBeFalse();
+        });
+
+        it('never activates disabled entries or entries with invalid times', () => {
+            const now = new Date(2025, 2, 14, 12, 0);
+
+            expect(isScheduleEntryActive(entry({ enabled: false }), now)).toBeFalse();
+            expect(isScheduleEntryActive(entry({ timeRange: { start: '25:00', end: '13:00' } }), now)).toBeFalse();
+        });
+    });
+
+    describe('findActiveScheduleEntry', () => {
+        const now = new Date(2025, 2, 14, 12, 0);
+
+        it('picks the active entry with the highest priority', () => {
+            const schedule = {
+                enabled: true,
+                entries: [
+                    entry({ id: 'low', priority: 1 }),
+                    entry({ id: 'high', priority: 5 }),
+                    entry({ id: 'inactive', priority: 10, timeRange: { start: '18:00', end: '20:00' } })
+                ]
+            };
+
+            expect(findActiveScheduleEntry(schedule, now)?.id).toBe('high');
+        });
+
+        it('keeps the first entry on equal priority', () => {
+            const schedule = {
+                enabled: true,
+                entries: [entry({ id: 'first', priority: 3 }), entry({ id: 'second', priority: 3 })]
+            };
+
+            expect(findActiveScheduleEntry(schedule, now)?.id).toBe('first');
+        });
+
+        it('returns null when the schedule is disabled or nothing matches', () => {
+            expect(findActiveScheduleEntry({ enabled: false, entries: [entry()] }, now)).toBeNull();
+            expect(findActiveScheduleEntry({ enabled: true, entries: [entry({ enabled: false })] }, now)).toBeNull();
+            expect(findActiveScheduleEntry(undefined, now)).toBeNull();
+        });
+    });
+
+    describe('applyScheduleEntry', () => {
+        const config = {
+            products: { selectedProductIds: ['a'], minProducts: 1 },
+            templates: { mode: 'single', selectedTemplateId: 'classic' },
+            timing: { baseSlideDuration: 10000 }
+        } as unknown as SlideshowConfig;
+
+        it('returns the base configuration without an active entry', () => {
+            expect(applyScheduleEntry(config, null)).toBe(config);
+        });
+
+        it('shallow-merges the entry overrides per section', () => {
+            const result = applyScheduleEntry(config, entry({
+                overrides: {
+                    templates: { selectedTemplateId: 'menu' },
+                    timing: { baseSlideDuration: 5000 }
+                }
+            }));
+
+            expect(result.templates.selectedTemplateId).toBe('menu');
+            expect(result.templates.mode).toBe('single');
+            expect(result.timing.baseSlideDuration).toBe(5000);
+            expect(result.products).toEqual(config.products);
+        });
+    });
+});
@@ -0,0 +1,160 @@
+// src/app/core/utils/schedule.utils.ts
+
+import {
+    SlideshowConfig,
+    SlideshowScheduleEntry,
+    SlideshowScheduleOverrides,
+    SlideshowScheduleSettings
+} from '@core/models/slideshow-config.interface';
+
+/**
+ * Dayparting schedule utilities
+ *
+ * Pure helpers for evaluating schedule entries against a point in time
+ * and building the effective configuration for the active entry.
+ * All times are evaluated in the TV's local time zone.
+ */
+
+/**
+ * Convert "HH:mm" string to minutes since midnight
+ *
+ * @param time - Time string in HH:mm format
+ * @returns Minutes since midnight or null for invalid input
+ */
+export function parseScheduleTime(time: string): number | null {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time?.trim() ?? '');
+    if (!match) return null;
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+
+    return hours * 60 + minutes;
+}
+
+/**
+ * Format date as local YYYY-MM-DD (comparable as string)
+ */
+export function toLocalDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Check if a schedule entry is active at the given moment
+ *
+ * Rules:
+ * - Disabled entries are never active
+ * - Missing timeRange/weekdays/dateRange means "no restriction"
+ * - timeRange end is exclusive; end before start wraps past midnight
+ *   (the weekday of a wrapped window is the day it started)
+ *
+ * @param entry - Schedule entry to evaluate
+ * @param now - Moment to evaluate against
+ * @returns true if the entry applies at `now`
+ */
+export function isScheduleEntryActive(entry: SlideshowScheduleEntry, now: Date): boolean {
+    if (!entry.enabled) return false;
+
+    // Resolve the calendar day the current time window belongs to
+    let windowDay = now;
+
+    if (entry.timeRange) {
+        const start = parseScheduleTime(entry.timeRange.start);
+        const end = parseScheduleTime(entry.timeRange.end);
+        if (start === null || end === null) return false;
+
+        const minutes = now.getHours() * 60 + now.getMinutes();
+
+        if (start < end) {
+            if (minutes < start || minutes >= end) return false;
+        } else if (start > end) {
+            // Overnight window (e.g. 22:00 - 02:00)
+            if (minutes >= end && minutes < start) return false;
+
+            if (minutes < end) {
+                windowDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
+            }
+        }
+        // start === end → whole day
+    }
+
+    if (entry.weekdays && entry.weekdays.length > 0 && !entry.weekdays.includes(windowDay.getDay())) {
+        return false;
+    }
+
+    if (entry.dateRange) {
+        const dayKey = toLocalDateKey(windowDay);
+        if (entry.dateRange.from && dayKey < entry.dateRange.from) return false;
+        if (entry.dateRange.to && dayKey > entry.dateRange.to) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Find the schedule entry that should drive the slideshow right now
+ * Highest priority wins; on equal priority the first entry in the list wins.
+ *
+ * @param schedule - Schedule settings from the configuration
+ * @param now - Moment to evaluate against
+ * @returns Active entry or null when the base configuration applies
+ */
+export function findActiveScheduleEntry(
+    schedule: SlideshowScheduleSettings | undefined,
+    now: Date
+): SlideshowScheduleEntry | null {
+    if (!schedule?.enabled || !schedule.entries?.length) return null;
+
+    let active: SlideshowScheduleEntry | null = null;
+
+    for (const entry of schedule.entries) {
+        if (!isScheduleEntryActive(entry, now)) continue;
+
+        if (!active || entry.priority > active.priority) {
+            active = entry;
+        }
+    }
+
+    return active;
+}
+
+/**
+ * Build the effective configuration for a schedule entry
+ * Overrides are shallow-merged per section on top of the base configuration.
+ *
+ * @param config - Base (stored) configuration
+ * @param entry - Active schedule entry or null
+ * @returns Effective configuration (the same object when no entry is active)
+ */
+export function applyScheduleEntry(
+    config: SlideshowConfig,
+    entry: SlideshowScheduleEntry | null
+): SlideshowConfig {
+    if (!entry) return config;
+
+    return applyConfigOverrides(config, entry.overrides);
+}
+
+/**
+ * Shallow-merge products/templates/timing overrides on top of a configuration
+ * Shared by schedule entries and the 'switch-config' end-of-loop action.
+ *
+ * @param config - Base configuration
+ * @param overrides - Section overrides (missing sections are kept as-is)
+ * @returns New configuration object
+ */
+export function applyConfigOverrides(
+    config: SlideshowConfig,
+    overrides: SlideshowScheduleOverrides | undefined
+): SlideshowConfig {
+    const { products, templates, timing } = overrides ?? {};
+
+    return {
+        ...config,
+        products: { ...config.products, ...products },
+        templates: { ...config.templates, ...templates },
+        timing: { ...config.timing, ...timing }
+    };
+}
@@ -0,0 +1,138 @@
+// src/app/core/utils/slide-duration.utils.spec.ts
+
+import { Product } from '@core/models/product.interface';
+import { SlideshowTimingSettings } from '@core/models/slideshow-config.interface';
+import {
+    calculateSlideDuration,
+    clampSlideDuration,
+    getApplicableDurationOverrides
+} from './slide-duration.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2025, 2, 14, 12, 0);
+
+function product(overrides: Partial<Product> = {}): Product {
+    return {
+        id: 'a',
+        name: 'Product',
+        price: 10,
+        imageUrl: '',
+        shortDescription: 'Short',
+        category: '1',
+        inStock: true,
+        ...overrides
+    };
+}
+
+function timing(overrides: Partial<SlideshowTimingSettings> = {}): SlideshowTimingSettings {
+    return {
+        baseSlideDuration: 10000,
+        transitionDuration: 800,
+        transitionType: 'fade',
+        pauseOnInteraction: true,
+        resumeDelay: 5000,
+        durationOverrides: {
+            hasLongDescription: 15000,
+            hasDiscount: 12000,
+            isNewProduct: 14000,
+            isPremiumCategory: 20000
+        },
+        premiumCategories: ['premium'],
+        validation: {
+            minSlideDuration: 3000,
+            maxSlideDuration: 30000,
+            minTransitionDuration: 100,
+            maxTransitionDuration: 3000
+        },
+        ...overrides
+    };
+}
+
+describe('slide-duration.utils', () => {
+    describe('getApplicableDurationOverrides', () => {
+        it('returns nothing for a plain product', () => {
+            expect(getApplicableDurationOverrides(product(), timing(), NOW)).toEqual([]);
+        });
+
+        it('detects long descriptions in any shown text', () => {
+            const long = 'x'.repeat(121);
+
+            expect(getApplicableDurationOverrides(product({ shortDescription: long }), timing(), NOW)).toEqual(['hasLongDescription']);
+            expect(getApplicableDurationOverrides(product({ longDescription: long }), timing(), NOW)).toEqual(['hasLongDescription']);
+            expect(getApplicableDurationOverrides(product({ shortDescription: 'x'.repeat(120) }), timing(), NOW)).toEqual([]);
+        });
+
+        it('detects new products by first seen date or NEW badge', () => {
+            const recent = product({ createdAt: new Date(NOW.getTime() - 2 * DAY_MS) });
+            const old = product({ createdAt: new Date(NOW.getTime() - 31 * DAY_MS) });
+            const badged = product({ badge: { text: 'Ново', color: 'success', position: 'top-left' } });
+
+            expect(getApplicableDurationOverrides(recent, timing(), NOW)).toEqual(['isNewProduct']);
+            expect(getApplicableDurationOverrides(old, timing(), NOW)).toEqual([]);
+            expect(getApplicableDurationOverrides(badged, timing(), NOW)).toEqual(['isNewProduct']);
+        });
+
+        it('does not treat products without a first seen date as new', () => {
+            expect(getApplicableDurationOverrides(product({ createdAt: undefined }), timing(), NOW)).toEqual([]);
+        });
+
+        it('stacks every applicable override', () => {
+            const stacked = product({
+                category: 'premium',
+                discount: { originalPrice: 12, percentage: 17 },
+                createdAt: NOW
+            });
+
+            expect(getApplicableDurationOverrides(stacked, timing(), NOW))
+                .toEqual(['hasDiscount', 'isNewProduct', 'isPremiumCategory']);
+        });
+    });
+
+    describe('calculateSlideDuration', () => {
+        it('uses the base duration without product or overrides', () => {
+            expect(calculateSlideDuration(undefined, timing())).toBe(10000);
+            expect(calculateSlideDuration(product(), timing())).toBe(10000);
+        });
+
+        it('uses the longest applicable override', () => {
+            const discounted = product({ discount: { originalPrice: 12, percentage: 17 } });
+
+            expect(calculateSlideDuration(discounted, timing())).toBe(12000);
+            expect(calculateSlideDuration({ ...discounted, category: 'premium' }, timing())).toBe(20000);
+        });
+
+        it('ignores overrides that are not configured', () => {
+            const discounted = product({ discount: { originalPrice: 12, percentage: 17 } });
+
+            expect(calculateSlideDuration(discounted, timing({ durationOverrides: {} }))).toBe(10000);
+        });
+
+        it('lets customDuration win over every override', () => {
+            const custom = product({
+                category: 'premium',
+                discount: { originalPrice: 12, percentage: 17 },
+                displaySettings: { customDuration: 6000 }
+            });
+
+            expect(calculateSlideDuration(custom, timing())).toBe(6000);
+        });
+
+        it('clamps every result to the validation bounds', () => {
+            expect(calculateSlideDuration(product({ displaySettings: { customDuration: 1000 } }), timing())).toBe(3000);
+            expect(calculateSlideDuration(product({ displaySettings: { customDuration: 60000 } }), timing())).toBe(30000);
+            expect(calculateSlideDuration(undefined, timing({ baseSlideDuration: 45000 }))).toBe(30000);
+            expect(calculateSlideDuration(product({ category: 'premium' }), timing({
+                validation: { minSlideDuration: 3000, maxSlideDuration: 18000, minTransitionDuration: 100, maxTransitionDuration: 3000 }
+            }))).toBe(18000);
+        });
+    });
+
+    describe('clampSlideDuration', () => {
+        it('ignores missing or invalid bounds', () => {
+            const unbounded = { validation: { minSlideDuration: 0, maxSlideDuration: -1, minTransitionDuration: 0, maxTransitionDuration: 0 } };
+
+            expect(clampSlideDuration(500, unbounded)).toBe(500);
+            expect(clampSlideDuration(500, {} as Pick<SlideshowTimingSettings, 'validation'>)).toBe(500);
+        });
+    });
+});
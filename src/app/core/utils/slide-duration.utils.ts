@@ -0,0 +1,113 @@
+// src/app/core/utils/slide-duration.utils.ts
+
+import { Product } from '@core/models/product.interface';
+import { SlideshowTimingSettings } from '@core/models/slideshow-config.interface';
+
+/**
+ * Per-slide duration utilities
+ *
+ * Resolves how long a product stays on screen from timing.durationOverrides
+ * and Product.displaySettings.customDuration, clamped by timing.validation.
+ */
+
+/** Descriptions longer than this (chars) count as "long" */
+const LONG_DESCRIPTION_THRESHOLD = 120;
+
+/** Products first seen within this many days count as "new" */
+const NEW_PRODUCT_MAX_AGE_DAYS = 30;
+
+/** Badge texts that mark a product as new */
+const NEW_BADGE_TEXTS = ['new', 'ново', 'нов'];
+
+/**
+ * Which durationOverrides apply to the product
+ */
+export function getApplicableDurationOverrides(
+    product: Product,
+    timing: Pick<SlideshowTimingSettings, 'premiumCategories'>,
+    now: Date = new Date()
+): Array<keyof SlideshowTimingSettings['durationOverrides']> {
+    const applicable: Array<keyof SlideshowTimingSettings['durationOverrides']> = [];
+
+    if (getDescriptionLength(product) > LONG_DESCRIPTION_THRESHOLD) {
+        applicable.push('hasLongDescription');
+    }
+
+    if ((product.discount?.percentage ?? 0) > 0) {
+        applicable.push('hasDiscount');
+    }
+
+    const badgeText = product.badge?.text?.trim().toLowerCase() ?? '';
+    // createdAt = first seen by this screen (missing → not new)
+    const createdAt = product.createdAt ? new Date(product.createdAt).getTime() : NaN;
+    const ageDays = (now.getTime() - createdAt) / (24 * 60 * 60 * 1000);
+    if (NEW_BADGE_TEXTS.includes(badgeText) || (ageDays >= 0 && ageDays <= NEW_PRODUCT_MAX_AGE_DAYS)) {
+        applicable.push('isNewProduct');
+    }
+
+    if (timing.premiumCategories?.includes(product.category)) {
+        applicable.push('isPremiumCategory');
+    }
+
+    return applicable;
+}
+
+/**
+ * Longest description text shown on the slide
+ * - shortDescription: ERP description (or override)
+ * - longDescription: product override only (the API has no long description)
+ * - secondary.shortDescription: secondary language description (side-by-side / alternate display)
+ */
+function getDescriptionLength(product: Product): number {
+    return Math.max(
+        product.shortDescription?.length ?? 0,
+        product.longDescription?.length ?? 0,
+        product.secondary?.shortDescription?.length ?? 0
+    );
+}
+
+/**
+ * Clamp duration by timing.validation (ignores missing/invalid bounds)
+ */
+export function clampSlideDuration(duration: number, timing: Pick<SlideshowTimingSettings, 'validation'>): number {
+    const min = timing.validation?.minSlideDuration;
+    const max = timing.validation?.maxSlideDuration;
+
+    let result = duration;
+    if (typeof min === 'number' && min > 0) result = Math.max(result, min);
+    if (typeof max === 'number' && max > 0) result = Math.min(result, max);
+    return result;
+}
+
+/**
+ * Resolve slide duration for a product
+ *
+ * Rules:
+ * - displaySettings.customDuration wins when set
+ * - otherwise the longest applicable durationOverride
+ * - otherwise baseSlideDuration
+ * - result is always clamped by timing.validation
+ *
+ * @param product - Product on the slide (undefined → base duration)
+ * @param timing - Timing settings from configuration
+ * @returns Duration in milliseconds
+ */
+export function calculateSlideDuration(product: Product | undefined, timing: SlideshowTimingSettings): number {
+    const base = timing.baseSlideDuration;
+
+    if (!product) {
+        return clampSlideDuration(base, timing);
+    }
+
+    const custom = product.displaySettings?.customDuration;
+    if (typeof custom === 'number' && custom > 0) {
+        return clampSlideDuration(custom, timing);
+    }
+
+    const overrides = getApplicableDurationOverrides(product, timing)
+        .map(key => timing.durationOverrides?.[key])
+        .filter((value): value is number => typeof value === 'number' && value > 0);
+
+    const duration = overrides.length > 0 ? Math.max(...overrides) : base;
+    return clampSlideDuration(duration, timing);
+}
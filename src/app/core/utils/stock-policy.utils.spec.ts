@@ -0,0 +1,98 @@
+// src/app/core/utils/stock-policy.utils.spec.ts
+
+import { Product } from '@core/models/product.interface';
+import { SlideshowStockSettings } from '@core/models/slideshow-config.interface';
+import { ProductBadgeType } from '@core/models/enums';
+import {
+    applyStockPolicy,
+    getSoldOutDisplay,
+    getStockQuantity,
+    getStockSettings,
+    getStockStatus
+} from './stock-policy.utils';
+
+function product(id: string, overrides: Partial<Product> = {}): Product {
+    return {
+        id,
+        name: `Product ${id}`,
+        price: 10,
+        imageUrl: '',
+        shortDescription: '',
+        category: '1',
+        inStock: true,
+        ...overrides
+    };
+}
+
+function stock(overrides: Partial<SlideshowStockSettings> = {}): SlideshowStockSettings {
+    return getStockSettings({ enabled: true, inStockThreshold: 1, lowStockThreshold: 5, ...overrides });
+}
+
+describe('stock-policy.utils', () => {
+    describe('getStockStatus', () => {
+        it('uses the in stock and low stock thresholds', () => {
+            const settings = stock();
+
+            expect(getStockStatus(product('a', { quantity: 0 }), settings)).toBe('sold-out');
+            expect(getStockStatus(product('a', { quantity: 1 }), settings)).toBe('low-stock');
+            expect(getStockStatus(product('a', { quantity: 4 }), settings)).toBe('low-stock');
+            expect(getStockStatus(product('a', { quantity: 5 }), settings)).toBe('in-stock');
+        });
+
+        it('skips the low stock level without a threshold', () => {
+            expect(getStockStatus(product('a', { quantity: 1 }), stock({ lowStockThreshold: null }))).toBe('in-stock');
+        });
+
+        it('treats an unknown quantity as in stock', () => {
+            expect(getStockStatus(product('a'), stock())).toBe('in-stock');
+        });
+
+        it('counts whole packs for pack units', () => {
+            const settings = stock({ unit: 'pack', inStockThreshold: 2 });
+
+            expect(getStockQuantity(product('a', { quantity: 23, quantityPerPack: 12 }), 'pack')).toBe(1);
+            expect(getStockStatus(product('a', { quantity: 23, quantityPerPack: 12 }), settings)).toBe('sold-out');
+            expect(getStockStatus(product('a', { quantity: 24, quantityPerPack: 12 }), settings)).toBe('low-stock');
+        });
+
+        it('falls back to single items when the pack size is missing', () => {
+            expect(getStockQuantity(product('a', { quantity: 23 }), 'bigPack')).toBe(23);
+        });
+    });
+
+    describe('applyStockPolicy', () => {
+        const products = [
+            product('sold-out', { quantity: 0 }),
+            product('low', { quantity: 2 }),
+            product('low-discounted', { quantity: 2, badge: { text: '20%', color: 'error', position: 'top-right', type: ProductBadgeType.SALE } }),
+            product('plenty', { quantity: 50 })
+        ];
+
+        it('returns the list unchanged while disabled', () => {
+            expect(applyStockPolicy(products, { enabled: false })).toBe(products);
+        });
+
+        it('hides sold out products by default', () => {
+            const result = applyStockPolicy(products, stock());
+            expect(result.map(p => p.id)).toEqual(['low', 'low-discounted', 'plenty']);
+        });
+
+        it('keeps sold out products as out of stock for grey / overlay', () => {
+            const result = applyStockPolicy(products, stock({ soldOutBehavior: 'overlay' }));
+            const soldOut = result.find(p => p.id === 'sold-out')!;
+
+            expect(soldOut.inStock).toBeFalse();
+            expect(getSoldOutDisplay(soldOut, stock({ soldOutBehavior: 'overlay' }))).toBe('overlay');
+            expect(getSoldOutDisplay(soldOut, stock({ soldOutBehavior: 'hide' }))).toBeNull();
+        });
+
+        it('adds the low stock badge only to products without a badge', () => {
+            const result = applyStockPolicy(products, stock({ lowStockBadgeText: ' Last items ' }));
+
+            expect(result.find(p => p.id === 'low')?.badge?.text).toBe('Last items');
+            expect(result.find(p => p.id === 'low')?.badge?.type).toBe(ProductBadgeType.LIMITED);
+            expect(result.find(p => p.id === 'low-discounted')?.badge?.type).toBe(ProductBadgeType.SALE);
+            expect(result.find(p => p.id === 'plenty')?.badge).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,99 @@
+// src/app/core/utils/stock-policy.utils.ts
+
+import { Product, ProductStockStatus } from '@core/models/product.interface';
+import { SlideshowStockSettings } from '@core/models/slideshow-config.interface';
+import { ProductBadgeType } from '@core/models/enums';
+
+/**
+ * Stock policy utilities
+ *
+ * Turns the StockItem quantity into availability: in stock threshold,
+ * "last few items" badge and sold out behaviour (hide / grey / overlay).
+ * `inStock` set here is what filters.inStockOnly and template rules see.
+ */
+
+/** Disabled by default - every product stays in stock like before */
+export const DEFAULT_STOCK_SETTINGS: SlideshowStockSettings = {
+    enabled: false,
+    unit: 'item',
+    inStockThreshold: 1,
+    lowStockThreshold: 5,
+    lowStockBadgeText: 'Последни бройки',
+    soldOutBehavior: 'hide',
+    soldOutText: 'Изчерпано'
+};
+
+/**
+ * Stock settings from configuration merged with defaults
+ */
+export function getStockSettings(stock: Partial<SlideshowStockSettings> | null | undefined): SlideshowStockSettings {
+    return { ...DEFAULT_STOCK_SETTINGS, ...stock };
+}
+
+/**
+ * Quantity in the configured unit (undefined = unknown, e.g. old offline snapshots)
+ * Packs fall back to single items when the pack size is missing.
+ */
+export function getStockQuantity(product: Product, unit: SlideshowStockSettings['unit']): number | undefined {
+    if (product.quantity === undefined || product.quantity === null) return undefined;
+
+    const packSize = unit === 'pack'
+        ? product.quantityPerPack
+        : unit === 'bigPack' ? product.quantityPerBigPack : undefined;
+
+    return packSize && packSize > 0 ? Math.floor(product.quantity / packSize) : product.quantity;
+}
+
+/**
+ * Availability level of a product (unknown quantity = in stock)
+ */
+export function getStockStatus(product: Product, stock: SlideshowStockSettings): ProductStockStatus {
+    const quantity = getStockQuantity(product, stock.unit);
+    if (quantity === undefined) return 'in-stock';
+
+    if (quantity < Math.max(0, stock.inStockThreshold)) return 'sold-out';
+    if (stock.lowStockThreshold !== null && quantity < stock.lowStockThreshold) return 'low-stock';
+    return 'in-stock';
+}
+
+/**
+ * Apply the stock policy to a product list
+ * - `inStock` / `stockStatus` from the quantity
+ * - low stock badge for products without a badge (discount badges win)
+ * - sold out products removed for 'hide'
+ */
+export function applyStockPolicy(
+    products: Product[],
+    stock: Partial<SlideshowStockSettings> | null | undefined
+): Product[] {
+    const settings = getStockSettings(stock);
+    if (!settings.enabled) return products;
+
+    return products
+        .map(product => {
+            const stockStatus = getStockStatus(product, settings);
+            const showLowStockBadge = stockStatus === 'low-stock' && !product.badge && !!settings.lowStockBadgeText.trim();
+
+            return {
+                ...product,
+                inStock: stockStatus !== 'sold-out',
+                stockStatus,
+                badge: showLowStockBadge
+                    ? { text: settings.lowStockBadgeText.trim(), color: 'warning' as const, position: 'top-left' as const, type: ProductBadgeType.LIMITED }
+                    : product.badge
+            };
+        })
+        .filter(product => settings.soldOutBehavior !== 'hide' || product.inStock);
+}
+
+/**
+ * How to render a product on screen (null = normal)
+ */
+export function getSoldOutDisplay(
+    product: Product | null | undefined,
+    stock: Partial<SlideshowStockSettings> | null | undefined
+): 'grey' | 'overlay' | null {
+    const settings = getStockSettings(stock);
+    if (!settings.enabled || product?.stockStatus !== 'sold-out') return null;
+    return settings.soldOutBehavior === 'hide' ? null : settings.soldOutBehavior;
+}
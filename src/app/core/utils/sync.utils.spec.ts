@@ -0,0 +1,73 @@
+// src/app/core/utils/sync.utils.spec.ts
+
+import { SlideshowConfig } from '@core/models/slideshow-config.interface';
+import { SyncPlaybackState } from '@core/models/sync.interface';
+import {
+    getFollowerSlideIndex,
+    getSyncOverrides,
+    isSyncMessage,
+    resolveSyncSettings
+} from './sync.utils';
+
+const STATE: SyncPlaybackState = { slideIndex: 3, slideCount: 5, elapsedMs: 1200, durationMs: 8000, paused: false };
+
+function config(sync: object | undefined): SlideshowConfig {
+    return { sync } as unknown as SlideshowConfig;
+}
+
+describe('sync.utils', () => {
+    describe('getSyncOverrides', () => {
+        it('reads the role and slide offset from the page URL', () => {
+            expect(getSyncOverrides('?syncRole=follower&syncOffset=2')).toEqual({ role: 'follower', slideOffset: 2 });
+        });
+
+        it('ignores invalid values', () => {
+            expect(getSyncOverrides('?syncRole=boss&syncOffset=-1')).toEqual({});
+            expect(getSyncOverrides('?syncOffset=1.5')).toEqual({});
+        });
+    });
+
+    describe('resolveSyncSettings', () => {
+        it('returns null when disabled or without a group', () => {
+            expect(resolveSyncSettings(config(undefined))).toBeNull();
+            expect(resolveSyncSettings(config({ enabled: false, groupId: 'store' }))).toBeNull();
+            expect(resolveSyncSettings(config({ enabled: true, groupId: '  ' }))).toBeNull();
+        });
+
+        it('applies URL overrides over the configuration', () => {
+            const settings = resolveSyncSettings(config({ enabled: true, groupId: 'store', role: 'leader', slideOffset: 0 }), '?syncRole=follower');
+
+            expect(settings?.role).toBe('follower');
+            expect(settings?.groupId).toBe('store');
+            expect(settings?.transport).toBe('broadcast-channel');
+        });
+    });
+
+    describe('getFollowerSlideIndex', () => {
+        it('adds the offset and wraps on the follower slide count', () => {
+            expect(getFollowerSlideIndex(STATE, 0, 5)).toBe(3);
+            expect(getFollowerSlideIndex(STATE, 1, 5)).toBe(4);
+            expect(getFollowerSlideIndex(STATE, 2, 5)).toBe(0);
+            expect(getFollowerSlideIndex(STATE, 0, 2)).toBe(1);
+            expect(getFollowerSlideIndex(STATE, 0, 0)).toBe(0);
+        });
+    });
+
+    describe('isSyncMessage', () => {
+        const header = { groupId: 'store', senderId: 'tv-1', role: 'leader' };
+
+        it('accepts valid state, hello and bye messages', () => {
+            expect(isSyncMessage({ ...header, type: 'state', state: STATE })).toBeTrue();
+            expect(isSyncMessage({ ...header, type: 'hello' })).toBeTrue();
+            expect(isSyncMessage({ ...header, type: 'bye' })).toBeTrue();
+        });
+
+        it('rejects foreign or incomplete messages', () => {
+            expect(isSyncMessage(null)).toBeFalse();
+            expect(isSyncMessage('state')).toBeFalse();
+            expect(isSyncMessage({ ...header, role: 'viewer', type: 'hello' })).toBeFalse();
+            expect(isSyncMessage({ ...header, type: 'state' })).toBeFalse();
+            expect(isSyncMessage({ ...header, type: 'state', state: { slideIndex: '1', elapsedMs: 0 } })).toBeFalse();
+        });
+    });
+});
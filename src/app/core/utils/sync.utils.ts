@@ -0,0 +1,85 @@
+// src/app/core/utils/sync.utils.ts
+
+import { SlideshowConfig, SlideshowSyncRole, SlideshowSyncSettings } from '@core/models/slideshow-config.interface';
+import { SyncMessage, SyncPlaybackState } from '@core/models/sync.interface';
+
+/**
+ * Synchronized playback utilities
+ */
+
+/** Leader re-sends its state this often (ms) - late joiners and drift correction */
+export const SYNC_HEARTBEAT_INTERVAL = 2000;
+
+/** Followers play independently when the leader is silent this long (ms) */
+export const SYNC_LEADER_TIMEOUT = 3 * SYNC_HEARTBEAT_INTERVAL;
+
+export const DEFAULT_SYNC_SETTINGS: SlideshowSyncSettings = {
+    enabled: false,
+    groupId: 'store-main',
+    role: 'leader',
+    transport: 'broadcast-channel',
+    serverUrl: '',
+    slideOffset: 0
+};
+
+const SYNC_ROLES: SlideshowSyncRole[] = ['leader', 'follower'];
+
+/**
+ * Per-screen overrides from the page URL: `?syncRole=follower&syncOffset=1`
+ * Tabs on the same machine share localStorage, so role / offset cannot come from the config alone
+ */
+export function getSyncOverrides(search: string): Partial<Pick<SlideshowSyncSettings, 'role' | 'slideOffset'>> {
+    const params = new URLSearchParams(search);
+    const overrides: Partial<Pick<SlideshowSyncSettings, 'role' | 'slideOffset'>> = {};
+
+    const role = params.get('syncRole') as SlideshowSyncRole | null;
+    if (role && SYNC_ROLES.includes(role)) {
+        overrides.role = role;
+    }
+
+    const offset = Number(params.get('syncOffset'));
+    if (params.has('syncOffset') && Number.isInteger(offset) && offset >= 0) {
+        overrides.slideOffset = offset;
+    }
+
+    return overrides;
+}
+
+/**
+ * Effective sync settings for this screen (config + URL overrides), null when disabled
+ */
+export function resolveSyncSettings(config: SlideshowConfig | null | undefined, search: string = ''): SlideshowSyncSettings | null {
+    const sync = config?.sync;
+    if (!sync?.enabled || !sync.groupId.trim()) return null;
+
+    return { ...DEFAULT_SYNC_SETTINGS, ...sync, ...getSyncOverrides(search) };
+}
+
+/**
+ * Slide a follower shows for the leader state ("video wall" offset, wraps on the follower's slide count)
+ */
+export function getFollowerSlideIndex(state: SyncPlaybackState, slideOffset: number, localSlideCount: number): number {
+    if (localSlideCount <= 0) return 0;
+    return (state.slideIndex + slideOffset) % localSlideCount;
+}
+
+/**
+ * Runtime check for messages from transports (other app versions, foreign relay clients)
+ */
+export function isSyncMessage(value: unknown): value is SyncMessage {
+    if (!value || typeof value !== 'object') return false;
+
+    const message = value as Partial<SyncMessage>;
+    const hasHeader = typeof message.groupId === 'string'
+        && typeof message.senderId === 'string'
+        && SYNC_ROLES.includes(message.role as SlideshowSyncRole);
+
+    if (!hasHeader) return false;
+    if (message.type === 'hello' || message.type === 'bye') return true;
+
+    const state = (message as { state?: Partial<SyncPlaybackState> }).state;
+    return message.type === 'state'
+        && !!state
+        && typeof state.slideIndex === 'number'
+        && typeof state.elapsedMs === 'number';
+}
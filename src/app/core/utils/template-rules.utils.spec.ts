@@ -0,0 +1,106 @@
+// src/app/core/utils/template-rules.utils.spec.ts
+
+import { Product } from '@core/models/product.interface';
+import { ProductTemplateRule } from '@core/models/slideshow-config.interface';
+import {
+    findMatchingTemplateRule,
+    productMatchesTemplateRule,
+    sortTemplateRules
+} from './template-rules.utils';
+
+function product(overrides: Partial<Product> = {}): Product {
+    return {
+        id: 'a',
+        name: 'Product',
+        price: 50,
+        imageUrl: '',
+        shortDescription: '',
+        category: 'drinks',
+        inStock: true,
+        ...overrides
+    };
+}
+
+function rule(name: string, overrides: Partial<ProductTemplateRule> = {}): ProductTemplateRule {
+    return { name, conditions: {}, templateId: name, priority: 0, ...overrides };
+}
+
+describe('template-rules.utils', () => {
+    describe('productMatchesTemplateRule', () => {
+        it('matches every product without conditions', () => {
+            expect(productMatchesTemplateRule(product(), rule('any'))).toBeTrue();
+        });
+
+        it('checks the category list', () => {
+            const drinks = rule('drinks', { conditions: { categories: ['drinks', 'snacks'] } });
+
+            expect(productMatchesTemplateRule(product(), drinks)).toBeTrue();
+            expect(productMatchesTemplateRule(product({ category: 'tools' }), drinks)).toBeFalse();
+        });
+
+        it('checks the discount in both directions', () => {
+            const discounted = product({ discount: { originalPrice: 60, percentage: 17 } });
+
+            expect(productMatchesTemplateRule(discounted, rule('sale', { conditions: { hasDiscount: true } }))).toBeTrue();
+            expect(productMatchesTemplateRule(product(), rule('sale', { conditions: { hasDiscount: true } }))).toBeFalse();
+            expect(productMatchesTemplateRule(product(), rule('regular', { conditions: { hasDiscount: false } }))).toBeTrue();
+            expect(productMatchesTemplateRule(discounted, rule('regular', { conditions: { hasDiscount: false } }))).toBeFalse();
+        });
+
+        it('treats the price range bounds as inclusive', () => {
+            const midRange = rule('mid', { conditions: { priceRange: { min: 50, max: 100 } } });
+
+            expect(productMatchesTemplateRule(product({ price: 50 }), midRange)).toBeTrue();
+            expect(productMatchesTemplateRule(product({ price: 100 }), midRange)).toBeTrue();
+            expect(productMatchesTemplateRule(product({ price: 49.99 }), midRange)).toBeFalse();
+        });
+
+        it('matches tags and badge text case-insensitively', () => {
+            const featured = rule('featured', { conditions: { tags: ['Featured'] } });
+
+            expect(productMatchesTemplateRule(product({ tags: ['featured '] }), featured)).toBeTrue();
+            expect(productMatchesTemplateRule(product({ badge: { text: 'FEATURED', color: 'primary', position: 'top-left' } }), featured)).toBeTrue();
+            expect(productMatchesTemplateRule(product({ tags: ['new'] }), featured)).toBeFalse();
+        });
+
+        it('requires all defined conditions', () => {
+            const premiumSale = rule('premium-sale', { conditions: { categories: ['drinks'], hasDiscount: true, inStock: true } });
+
+            expect(productMatchesTemplateRule(product({ discount: { originalPrice: 60, percentage: 17 } }), premiumSale)).toBeTrue();
+            expect(productMatchesTemplateRule(product({ discount: { originalPrice: 60, percentage: 17 }, inStock: false }), premiumSale)).toBeFalse();
+        });
+    });
+
+    describe('sortTemplateRules', () => {
+        it('orders by priority and keeps the config order for ties', () => {
+            const rules = [rule('a', { priority: 1 }), rule('b', { priority: 5 }), rule('c', { priority: 1 })];
+
+            expect(sortTemplateRules(rules).map(r => r.name)).toEqual(['b', 'a', 'c']);
+        });
+    });
+
+    describe('findMatchingTemplateRule', () => {
+        const rules = [
+            rule('fallback-like', { priority: 0 }),
+            rule('sale', { priority: 10, conditions: { hasDiscount: true } }),
+            rule('drinks', { priority: 5, conditions: { categories: ['drinks'] } }),
+            rule('also-drinks', { priority: 5, conditions: { categories: ['drinks'] } })
+        ];
+
+        it('returns the highest priority matching rule', () => {
+            expect(findMatchingTemplateRule(product({ discount: { originalPrice: 60, percentage: 17 } }), rules)?.name).toBe('sale');
+        });
+
+        it('returns the first rule in config order among equal priorities', () => {
+            expect(findMatchingTemplateRule(product(), rules)?.name).toBe('drinks');
+        });
+
+        it('returns null when no rule matches, so the selected template is used', () => {
+            const strictRules = [rule('sale', { conditions: { hasDiscount: true } })];
+
+            expect(findMatchingTemplateRule(product(), strictRules)).toBeNull();
+            expect(findMatchingTemplateRule(product(), [])).toBeNull();
+            expect(findMatchingTemplateRule(product(), undefined)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,82 @@
+// src/app/core/utils/template-rules.utils.ts
+
+import { Product } from '@core/models/product.interface';
+import { ProductTemplateRule } from '@core/models/slideshow-config.interface';
+
+/**
+ * Product-based template rule utilities
+ *
+ * Pure helpers for matching products against ProductTemplateRule conditions.
+ * Used by TemplateRegistryService ('product-based' mode) and the admin rule editor.
+ */
+
+/**
+ * Check if a product satisfies all conditions of a rule
+ *
+ * Rules:
+ * - Missing/empty condition means "no restriction"
+ * - categories: product category must be one of the list
+ * - priceRange: min/max are inclusive
+ * - hasDiscount: product has a discount with percentage > 0
+ * - tags: at least one tag must match product tags or badge text (case-insensitive)
+ *
+ * @param product - Product to evaluate
+ * @param rule - Template rule
+ * @returns true if every defined condition matches
+ */
+export function productMatchesTemplateRule(product: Product, rule: ProductTemplateRule): boolean {
+    const conditions = rule.conditions ?? {};
+
+    if (conditions.categories?.length && !conditions.categories.includes(product.category)) {
+        return false;
+    }
+
+    const { min, max } = conditions.priceRange ?? {};
+    if (min !== undefined && min !== null && product.price < min) return false;
+    if (max !== undefined && max !== null && product.price > max) return false;
+
+    if (conditions.hasDiscount !== undefined) {
+        const hasDiscount = (product.discount?.percentage ?? 0) > 0;
+        if (hasDiscount !== conditions.hasDiscount) return false;
+    }
+
+    if (conditions.inStock !== undefined && product.inStock !== conditions.inStock) {
+        return false;
+    }
+
+    if (conditions.tags?.length) {
+        const productTags = [...(product.tags ?? []), product.badge?.text ?? '']
+            .map(tag => tag.trim().toLowerCase())
+            .filter(Boolean);
+        const matchesTag = conditions.tags.some(tag => productTags.includes(tag.trim().toLowerCase()));
+        if (!matchesTag) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Sort rules by priority (highest first), keeping config order for ties
+ */
+export function sortTemplateRules(rules: ProductTemplateRule[]): ProductTemplateRule[] {
+    return rules
+        .map((rule, index) => ({ rule, index }))
+        .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index)
+        .map(({ rule }) => rule);
+}
+
+/**
+ * Find the highest-priority rule that matches the product
+ *
+ * @param product - Product to evaluate
+ * @param rules - Rules from template settings
+ * @returns Winning rule or null when nothing matches
+ */
+export function findMatchingTemplateRule(
+    product: Product,
+    rules: ProductTemplateRule[] | undefined
+): ProductTemplateRule | null {
+    if (!rules?.length) return null;
+
+    return sortTemplateRules(rules).find(rule => productMatchesTemplateRule(product, rule)) ?? null;
+}
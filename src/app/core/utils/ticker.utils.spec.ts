@@ -0,0 +1,67 @@
+// src/app/core/utils/ticker.utils.spec.ts
+
+import { SlideshowTickerItem, SlideshowTickerSettings } from '@core/models/slideshow-config.interface';
+import { calculateTickerScrollDuration, getActiveTickerItems, isTickerItemActive } from './ticker.utils';
+
+function item(overrides: Partial<SlideshowTickerItem> = {}): SlideshowTickerItem {
+    return { id: 'item', text: 'Работно време 9-18 ч.', enabled: true, ...overrides };
+}
+
+describe('ticker.utils', () => {
+    describe('isTickerItemActive', () => {
+        const range = { from: '2025-03-10', to: '2025-03-14' };
+
+        it('requires an enabled item with text', () => {
+            const now = new Date(2025, 2, 12, 12, 0);
+
+            expect(isTickerItemActive(item(), now)).toBeTrue();
+            expect(isTickerItemActive(item({ enabled: false }), now)).toBeFalse();
+            expect(isTickerItemActive(item({ text: '   ' }), now)).toBeFalse();
+        });
+
+        it('includes the whole first and last day of the range', () => {
+            expect(isTickerItemActive(item({ dateRange: range }), new Date(2025, 2, 10, 0, 0))).toBeTrue();
+            expect(isTickerItemActive(item({ dateRange: range }), new Date(2025, 2, 14, 23, 59, 59))).toBeTrue();
+        });
+
+        it('excludes the days just outside the range', () => {
+            expect(isTickerItemActive(item({ dateRange: range }), new Date(2025, 2, 9, 23, 59, 59))).toBeFalse();
+            expect(isTickerItemActive(item({ dateRange: range }), new Date(2025, 2, 15, 0, 0))).toBeFalse();
+        });
+
+        it('supports open-ended ranges', () => {
+            expect(isTickerItemActive(item({ dateRange: { from: '2025-03-10' } }), new Date(2026, 0, 1))).toBeTrue();
+            expect(isTickerItemActive(item({ dateRange: { from: '2025-03-10' } }), new Date(2025, 2, 9))).toBeFalse();
+            expect(isTickerItemActive(item({ dateRange: { to: '2025-03-14' } }), new Date(2024, 0, 1))).toBeTrue();
+            expect(isTickerItemActive(item({ dateRange: { to: '2025-03-14' } }), new Date(2025, 2, 15))).toBeFalse();
+        });
+
+        it('shows single-day items on that day only', () => {
+            const day = { from: '2025-03-14', to: '2025-03-14' };
+
+            expect(isTickerItemActive(item({ dateRange: day }), new Date(2025, 2, 14, 8, 0))).toBeTrue();
+            expect(isTickerItemActive(item({ dateRange: day }), new Date(2025, 2, 13, 23, 0))).toBeFalse();
+        });
+    });
+
+    describe('getActiveTickerItems', () => {
+        it('keeps the configured order of active items', () => {
+            const settings = {
+                enabled: true,
+                items: [item({ id: 'a' }), item({ id: 'b', enabled: false }), item({ id: 'c' })]
+            } as SlideshowTickerSettings;
+
+            expect(getActiveTickerItems(settings, new Date()).map(i => i.id)).toEqual(['a', 'c']);
+            expect(getActiveTickerItems({ ...settings, enabled: false }, new Date())).toEqual([]);
+            expect(getActiveTickerItems(undefined, new Date())).toEqual([]);
+        });
+    });
+
+    describe('calculateTickerScrollDuration', () => {
+        it('scrolls at the configured speed with a minimum duration', () => {
+            expect(calculateTickerScrollDuration(1200, 60)).toBe(20);
+            expect(calculateTickerScrollDuration(100, 60)).toBe(5);
+            expect(calculateTickerScrollDuration(1200, 0)).toBe(120);
+        });
+    });
+});
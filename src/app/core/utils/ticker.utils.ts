@@ -0,0 +1,40 @@
+// src/app/core/utils/ticker.utils.ts
+
+import { SlideshowTickerItem, SlideshowTickerSettings } from '@core/models/slideshow-config.interface';
+import { toLocalDateKey } from './schedule.utils';
+
+/**
+ * News ticker utilities
+ *
+ * Date filtering uses the TV's local calendar day (same as the dayparting schedule).
+ */
+
+/**
+ * Check if ticker item is enabled, has text and is inside its date range
+ */
+export function isTickerItemActive(item: SlideshowTickerItem, now: Date): boolean {
+    if (!item.enabled || !item.text?.trim()) return false;
+
+    const dayKey = toLocalDateKey(now);
+    if (item.dateRange?.from && dayKey < item.dateRange.from) return false;
+    if (item.dateRange?.to && dayKey > item.dateRange.to) return false;
+
+    return true;
+}
+
+/**
+ * Active ticker items in configured order
+ */
+export function getActiveTickerItems(settings: SlideshowTickerSettings | undefined, now: Date): SlideshowTickerItem[] {
+    if (!settings?.enabled) return [];
+    return settings.items.filter(item => isTickerItemActive(item, now));
+}
+
+/**
+ * Scroll animation duration in seconds for the given content width
+ * @param contentWidth - Width of one copy of the ticker text in pixels
+ * @param speed - Pixels per second
+ */
+export function calculateTickerScrollDuration(contentWidth: number, speed: number): number {
+    return Math.max(5, contentWidth / Math.max(10, speed));
+}
@@ -0,0 +1,62 @@
+// src/app/core/utils/transition.utils.spec.ts
+
+import { PerformanceLevel } from '@core/models/enums';
+import {
+    isStackedTransition,
+    resolveTransitionType,
+    SlideTransitionType,
+    toEmblaDuration
+} from './transition.utils';
+
+const ALL_TYPES: SlideTransitionType[] = ['fade', 'slide', 'zoom', 'flip', 'none'];
+
+describe('transition.utils', () => {
+    describe('resolveTransitionType', () => {
+        it('keeps the selected transition on capable TVs', () => {
+            for (const type of ALL_TYPES) {
+                expect(resolveTransitionType(type, PerformanceLevel.STANDARD)).toBe(type);
+                expect(resolveTransitionType(type, PerformanceLevel.PREMIUM)).toBe(type);
+            }
+        });
+
+        it('keeps the selected transition before the performance level is known', () => {
+            expect(resolveTransitionType('flip', null)).toBe('flip');
+            expect(resolveTransitionType('zoom', undefined)).toBe('zoom');
+        });
+
+        it('downgrades every transition to none on LOW', () => {
+            for (const type of ALL_TYPES) {
+                expect(resolveTransitionType(type, PerformanceLevel.LOW)).toBe('none');
+            }
+        });
+
+        it('downgrades zoom and flip to fade on BASIC', () => {
+            expect(resolveTransitionType('zoom', PerformanceLevel.BASIC)).toBe('fade');
+            expect(resolveTransitionType('flip', PerformanceLevel.BASIC)).toBe('fade');
+            expect(resolveTransitionType('slide', PerformanceLevel.BASIC)).toBe('slide');
+            expect(resolveTransitionType('fade', PerformanceLevel.BASIC)).toBe('fade');
+            expect(resolveTransitionType('none', PerformanceLevel.BASIC)).toBe('none');
+        });
+    });
+
+    describe('isStackedTransition', () => {
+        it('stacks everything except the Embla slide', () => {
+            expect(isStackedTransition('slide')).toBeFalse();
+            expect(ALL_TYPES.filter(isStackedTransition)).toEqual(['fade', 'zoom', 'flip', 'none']);
+        });
+    });
+
+    describe('toEmblaDuration', () => {
+        it('converts milliseconds to Embla scroll units', () => {
+            expect(toEmblaDuration(800)).toBe(50);
+            expect(toEmblaDuration(600)).toBe(38);
+        });
+
+        it('keeps the duration within 10 and 100 units', () => {
+            expect(toEmblaDuration(0)).toBe(10);
+            expect(toEmblaDuration(100)).toBe(10);
+            expect(toEmblaDuration(1600)).toBe(100);
+            expect(toEmblaDuration(3000)).toBe(100);
+        });
+    });
+});
@@ -0,0 +1,48 @@
+// src/app/core/utils/transition.utils.ts
+
+import { PerformanceLevel } from '@core/models/enums';
+import { SlideshowTimingSettings } from '@core/models/slideshow-config.interface';
+
+/**
+ * Slide transition utilities
+ *
+ * 'slide' is Embla's own horizontal scroll. All other types stack the slides
+ * in place and animate the active one with CSS (see slideshow-container.scss).
+ */
+
+export type SlideTransitionType = SlideshowTimingSettings['transitionType'];
+
+/**
+ * Effective transition for the TV's performance level
+ * - LOW: everything becomes 'none' (single repaint per slide)
+ * - BASIC: zoom / flip become 'fade' (opacity only, no 3D transforms)
+ */
+export function resolveTransitionType(
+    type: SlideTransitionType,
+    performanceLevel: PerformanceLevel | null | undefined
+): SlideTransitionType {
+    if (performanceLevel === PerformanceLevel.LOW) {
+        return 'none';
+    }
+
+    if (performanceLevel === PerformanceLevel.BASIC && (type === 'zoom' || type === 'flip')) {
+        return 'fade';
+    }
+
+    return type;
+}
+
+/**
+ * Stacked transitions keep Embla for index tracking only
+ */
+export function isStackedTransition(type: SlideTransitionType): boolean {
+    return type !== 'slide';
+}
+
+/**
+ * Embla `duration` for the 'slide' transition
+ * Embla uses an abstract scroll speed (recommended 20-60), ~16ms per unit
+ */
+export function toEmblaDuration(transitionDurationMs: number): number {
+    return Math.min(100, Math.max(10, Math.round(transitionDurationMs / 16)));
+}
@@ -0,0 +1,98 @@
+// src/app/core/utils/widget.utils.spec.ts
+
+import { Product } from '@core/models/product.interface';
+import { formatCountdown, getDiscountCountdown, getDiscountValidUntil } from './widget.utils';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const NOW = new Date(2025, 2, 14, 12, 0);
+
+function product(validUntil?: Date | string): Product {
+    return {
+        id: 'a',
+        name: 'Product',
+        price: 8,
+        imageUrl: '',
+        shortDescription: '',
+        category: '1',
+        inStock: true,
+        discount: { originalPrice: 10, percentage: 20, validUntil: validUntil as Date | undefined }
+    };
+}
+
+describe('widget.utils', () => {
+    describe('formatCountdown', () => {
+        it('shows the two most significant units', () => {
+            expect(formatCountdown(2 * DAY + 4 * HOUR + 30 * MINUTE)).toBe('2д 4ч');
+            expect(formatCountdown(3 * HOUR + 15 * MINUTE + 59 * SECOND)).toBe('3ч 15м');
+            expect(formatCountdown(12 * MINUTE + 30 * SECOND + 999)).toBe('12м 30с');
+        });
+
+        it('switches units exactly at the boundaries', () => {
+            expect(formatCountdown(DAY)).toBe('1д 0ч');
+            expect(formatCountdown(DAY - 1)).toBe('23ч 59м');
+            expect(formatCountdown(HOUR)).toBe('1ч 0м');
+            expect(formatCountdown(HOUR - 1)).toBe('59м 59с');
+            expect(formatCountdown(MINUTE)).toBe('1м 0с');
+            expect(formatCountdown(999)).toBe('0м 0с');
+        });
+
+        it('never shows negative time', () => {
+            expect(formatCountdown(-5 * MINUTE)).toBe('0м 0с');
+        });
+    });
+
+    describe('getDiscountValidUntil', () => {
+        it('accepts dates and serialized strings', () => {
+            const end = new Date(2025, 2, 20);
+
+            expect(getDiscountValidUntil(product(end))).toBe(end);
+            expect(getDiscountValidUntil(product(end.toISOString()))?.getTime()).toBe(end.getTime());
+            expect(getDiscountValidUntil(product('not a date'))).toBeNull();
+        });
+
+        it('falls back to the campaign end for discounts without their own end date', () => {
+            expect(getDiscountValidUntil(product(), '2025-03-31T20:00')?.getTime()).toBe(new Date(2025, 2, 31, 20, 0).getTime());
+            expect(getDiscountValidUntil(product(new Date(2025, 2, 20)), '2025-03-31T20:00')?.getDate()).toBe(20);
+            expect(getDiscountValidUntil(product())).toBeNull();
+        });
+
+        it('ignores the campaign end for products without a discount', () => {
+            const regular: Product = { ...product(), discount: undefined };
+
+            expect(getDiscountValidUntil(regular, '2025-03-31T20:00')).toBeNull();
+        });
+    });
+
+    describe('getDiscountCountdown', () => {
+        it('shows the remaining time until the discount ends', () => {
+            expect(getDiscountCountdown(product(new Date(NOW.getTime() + 3 * HOUR)), NOW, { maxDays: 0 })).toBe('3ч 0м');
+        });
+
+        it('hides expired discounts', () => {
+            expect(getDiscountCountdown(product(NOW), NOW, { maxDays: 0 })).toBeNull();
+            expect(getDiscountCountdown(product(new Date(NOW.getTime() - MINUTE)), NOW, { maxDays: 0 })).toBeNull();
+        });
+
+        it('hides discounts ending later than maxDays', () => {
+            expect(getDiscountCountdown(product(new Date(NOW.getTime() + 3 * DAY)), NOW, { maxDays: 3 })).toBe('3д 0ч');
+            expect(getDiscountCountdown(product(new Date(NOW.getTime() + 3 * DAY + 1)), NOW, { maxDays: 3 })).toBeNull();
+            expect(getDiscountCountdown(product(new Date(NOW.getTime() + 30 * DAY)), NOW, { maxDays: 0 })).toBe('30д 0ч');
+        });
+
+        it('counts down to the campaign end', () => {
+            const countdown = { maxDays: 0, campaignEnd: '2025-03-15T12:00' };
+
+            expect(getDiscountCountdown(product(), NOW, countdown)).toBe('1д 0ч');
+            expect(getDiscountCountdown(product(), new Date(2025, 2, 15, 12, 0), countdown)).toBeNull();
+        });
+
+        it('hides the widget without an end date', () => {
+            expect(getDiscountCountdown(product(), NOW, { maxDays: 0 })).toBeNull();
+            expect(getDiscountCountdown(null, NOW, { maxDays: 0, campaignEnd: '2025-03-15T12:00' })).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,109 @@
+// src/app/core/utils/widget.utils.ts
+
+import { Product } from '@core/models/product.interface';
+import {
+    SlideshowClockWidget,
+    SlideshowCountdownWidget,
+    SlideshowDateWidget,
+    SlideshowWidgetSettings
+} from '@core/models/slideshow-config.interface';
+
+/**
+ * Overlay widget utilities (clock, date, discount countdown)
+ *
+ * All formatting uses the bg-BG locale and the TV's local time zone.
+ */
+
+const LOCALE = 'bg-BG';
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60 * MS_PER_SECOND;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Defaults - only the discount countdown is on, so it appears automatically
+ * on slides whose product has `discount.validUntil`
+ */
+export const DEFAULT_WIDGET_SETTINGS: SlideshowWidgetSettings = {
+    clock: { enabled: false, position: 'top-right', format: '24h', showSeconds: false },
+    date: { enabled: false, position: 'top-right', format: 'weekday' },
+    discountCountdown: { enabled: true, position: 'bottom-right', label: 'Промоцията изтича след', maxDays: 0 },
+    style: { backgroundColor: '#263238', textColor: '#ffffff', fontSize: 28 }
+};
+
+/**
+ * Format current time, e.g. "14:05" / "2:05 сл.об."
+ */
+export function formatClockTime(now: Date, clock: Pick<SlideshowClockWidget, 'format' | 'showSeconds'>): string {
+    return new Intl.DateTimeFormat(LOCALE, {
+        hour: clock.format === '24h' ? '2-digit' : 'numeric',
+        minute: '2-digit',
+        second: clock.showSeconds ? '2-digit' : undefined,
+        hour12: clock.format === '12h'
+    }).format(now);
+}
+
+/**
+ * Format current date in the configured style
+ */
+export function formatWidgetDate(now: Date, format: SlideshowDateWidget['format']): string {
+    switch (format) {
+        case 'short':
+            return new Intl.DateTimeFormat(LOCALE, { day: '2-digit', month: '2-digit', year: 'numeric' }).format(now);
+        case 'long':
+            return new Intl.DateTimeFormat(LOCALE, { day: 'numeric', month: 'long', year: 'numeric' }).format(now);
+        case 'weekday':
+            return new Intl.DateTimeFormat(LOCALE, { weekday: 'long', day: 'numeric', month: 'long' }).format(now);
+    }
+}
+
+/**
+ * Discount end date of a product (null when missing or invalid)
+ * `validUntil` arrives as string after JSON round-trips (cache, localStorage)
+ * Discounted products without their own end date fall back to the campaign end.
+ */
+export function getDiscountValidUntil(product: Product | null | undefined, campaignEnd?: string): Date | null {
+    if (!product?.discount) return null;
+
+    const validUntil = (product.discount.validUntil as Date | string | undefined) || campaignEnd;
+    if (!validUntil) return null;
+
+    const date = validUntil instanceof Date ? validUntil : new Date(validUntil);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Remaining time in short Bulgarian units - two most significant parts
+ * e.g. "2д 4ч", "3ч 15м", "12м 30с"
+ */
+export function formatCountdown(remainingMs: number): string {
+    const ms = Math.max(0, remainingMs);
+    const days = Math.floor(ms / MS_PER_DAY);
+    const hours = Math.floor((ms % MS_PER_DAY) / MS_PER_HOUR);
+    const minutes = Math.floor((ms % MS_PER_HOUR) / MS_PER_MINUTE);
+    const seconds = Math.floor((ms % MS_PER_MINUTE) / MS_PER_SECOND);
+
+    if (days > 0) return `${days}д ${hours}ч`;
+    if (hours > 0) return `${hours}ч ${minutes}м`;
+    return `${minutes}м ${seconds}с`;
+}
+
+/**
+ * Countdown text for a product discount, or null when it should not be shown
+ * (no end date, already expired, or further away than maxDays)
+ */
+export function getDiscountCountdown(
+    product: Product | null | undefined,
+    now: Date,
+    countdown: Pick<SlideshowCountdownWidget, 'maxDays' | 'campaignEnd'>
+): string | null {
+    const validUntil = getDiscountValidUntil(product, countdown.campaignEnd);
+    if (!validUntil) return null;
+
+    const remaining = validUntil.getTime() - now.getTime();
+    if (remaining <= 0) return null;
+    if (countdown.maxDays > 0 && remaining > countdown.maxDays * MS_PER_DAY) return null;
+
+    return formatCountdown(remaining);
+}
@@ -8,6 +8,7 @@ import { AdminDashboardComponent } from './components/admin-dashboard/admin-dash
  * 
  * MVP Routes:
  * - / → AdminDashboardComponent (main config panel)
+ * - /media → MediaLibraryComponent (image / video uploads)
  * 
  * Future routes (after MVP):
  * - /templates → Template editor
@@ -22,6 +23,15 @@ export const ADMIN_ROUTES: Routes = [
       title: 'Admin Dashboard',
       description: 'Slideshow configuration panel'
     }
+  },
+  {
+    path: 'media',
+    loadComponent: () => import('./pages/media-library/media-library.component')
+      .then(m => m.MediaLibraryComponent),
+    data: {
+      title: 'Media Library',
+      description: 'Image and video uploads for slides'
+    }
   }
   // Future routes will be added here
   // {
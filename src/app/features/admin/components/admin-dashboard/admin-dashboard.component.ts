@@ -43,6 +43,26 @@ import { MenuTemplateConfig } from '@core/models/menu-template-config.interface'
 import { MenuTemplateConfigComponent } from '../menu-template-config/menu-template-config.component';
 import { ClassicPromoTemplateConfig } from '@core/models/classic-promo-template-config.interface';
 import { ClassicPromoTemplateConfigComponent } from '../classic-promo-template-config/classic-promo-template-config.component';
+import { LoopSettingsConfigComponent } from '../loop-settings-config/loop-settings-config.component';
+import { ScheduleConfigComponent } from '../schedule-config/schedule-config.component';
+import { TemplateModeConfigComponent } from '../template-mode-config/template-mode-config.component';
+import { ProductRulesConfigComponent } from '../product-rules-config/product-rules-config.component';
+import { ProductSelectionConfigComponent } from '../product-selection-config/product-selection-config.component';
+import { PlaylistConfigComponent } from '../playlist-config/playlist-config.component';
+import { TickerConfigComponent } from '../ticker-config/ticker-config.component';
+import { WidgetsConfigComponent } from '../widgets-config/widgets-config.component';
+import { TransitionConfigComponent } from '../transition-config/transition-config.component';
+import { EmergencyConfigComponent } from '../emergency-config/emergency-config.component';
+import { RemoteControlConfigComponent } from '../remote-control-config/remote-control-config.component';
+import { LayoutConfigComponent } from '../layout-config/layout-config.component';
+import { RotationConfigComponent } from '../rotation-config/rotation-config.component';
+import { SyncConfigComponent } from '../sync-config/sync-config.component';
+import { QrCodeConfigComponent } from '../qr-code-config/qr-code-config.component';
+import { AutoUpdateConfigComponent } from '../auto-update-config/auto-update-config.component';
+import { StockPolicyConfigComponent } from '../stock-policy-config/stock-policy-config.component';
+import { BadgeRulesConfigComponent } from '../badge-rules-config/badge-rules-config.component';
+import { ProductOverridesConfigComponent } from '../product-overrides-config/product-overrides-config.component';
+import { LanguageConfigComponent } from '../language-config/language-config.component';
 
 /**
  * AdminDashboardComponent - MVP Admin Panel
@@ -76,7 +96,27 @@ import { ClassicPromoTemplateConfigComponent } from '../classic-promo-template-c
         MatIconModule,
         // BaseProductTemplateComponent
         MenuTemplateConfigComponent,
-        ClassicPromoTemplateConfigComponent
+        ClassicPromoTemplateConfigComponent,
+        LoopSettingsConfigComponent,
+        ScheduleConfigComponent,
+        TemplateModeConfigComponent,
+        ProductRulesConfigComponent,
+        ProductSelectionConfigComponent,
+        PlaylistConfigComponent,
+        TickerConfigComponent,
+        WidgetsConfigComponent,
+        TransitionConfigComponent,
+        EmergencyConfigComponent,
+        RemoteControlConfigComponent,
+        LayoutConfigComponent,
+        RotationConfigComponent,
+        SyncConfigComponent,
+        QrCodeConfigComponent,
+        AutoUpdateConfigComponent,
+        StockPolicyConfigComponent,
+        BadgeRulesConfigComponent,
+        ProductOverridesConfigComponent,
+        LanguageConfigComponent
     ],
     templateUrl: './admin-dashboard.component.html',
     styleUrl: './admin-dashboard.component.scss',
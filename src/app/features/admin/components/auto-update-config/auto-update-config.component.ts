@@ -0,0 +1,174 @@
+// src/app/features/admin/components/auto-update-config/auto-update-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Utils
+import { MIN_UPDATE_CHECK_INTERVAL } from '@core/utils/content-update.utils';
+
+/**
+ * Auto Update Configuration Component
+ *
+ * Отговорности:
+ * - Background stock updates: on/off, check interval (minutes)
+ * - Apply behavior: seamless swap, restart on major changes, on-screen notification
+ * - Offline mode: continue with the cached snapshot, max snapshot age (hours), indicator
+ * - Auto-save with debouncing via ConfigService.updateAutoUpdateSettings()
+ */
+@Component({
+    selector: 'app-auto-update-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatInputModule,
+        MatSlideToggleModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './auto-update-config.component.html',
+    styleUrl: './auto-update-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class AutoUpdateConfigComponent implements OnInit, OnDestroy {
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly enabled = signal<boolean>(true);
+    readonly checkIntervalMinutes = signal<number>(10);
+    readonly seamlessUpdate = signal<boolean>(true);
+    readonly restartOnMajorUpdate = signal<boolean>(false);
+    readonly showUpdateNotifications = signal<boolean>(false);
+    readonly continueOffline = signal<boolean>(true);
+    readonly cacheDurationHours = signal<number>(24);
+    readonly showOfflineIndicator = signal<boolean>(true);
+
+    readonly minIntervalMinutes = MIN_UPDATE_CHECK_INTERVAL / 60000;
+
+    ngOnInit(): void {
+        console.log('🔄 AutoUpdateConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 AutoUpdateConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load update / offline settings from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const autoUpdate = this.configService.config().autoUpdate;
+        this.enabled.set(autoUpdate.enabled);
+        this.checkIntervalMinutes.set(Math.round(autoUpdate.checkInterval / 60000));
+        this.seamlessUpdate.set(autoUpdate.behavior.seamlessUpdate);
+        this.restartOnMajorUpdate.set(autoUpdate.behavior.restartOnMajorUpdate);
+        this.showUpdateNotifications.set(autoUpdate.behavior.showUpdateNotifications);
+        this.continueOffline.set(autoUpdate.offline.continueOffline);
+        this.cacheDurationHours.set(Math.round(autoUpdate.offline.cacheDuration / 3600000));
+        this.showOfflineIndicator.set(autoUpdate.offline.showOfflineIndicator);
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Auto-save update settings (skipped while a number field is empty / invalid)
+     */
+    private saveSettings(): void {
+        const minutes = Number(this.checkIntervalMinutes());
+        const hours = Number(this.cacheDurationHours());
+
+        if (!(minutes >= this.minIntervalMinutes) || !(hours > 0)) {
+            console.log('⏸️ Auto update settings invalid - auto-save postponed');
+            return;
+        }
+
+        console.log(`💾 Auto-saving auto update settings (enabled: ${this.enabled()}, every ${minutes} min)`);
+        this.isSaving.set(true);
+
+        this.configService.updateAutoUpdateSettings({
+            enabled: this.enabled(),
+            checkInterval: Math.round(minutes * 60000),
+            behavior: {
+                seamlessUpdate: this.seamlessUpdate(),
+                restartOnMajorUpdate: this.restartOnMajorUpdate(),
+                showUpdateNotifications: this.showUpdateNotifications()
+            },
+            offline: {
+                continueOffline: this.continueOffline(),
+                cacheDuration: Math.round(hours * 3600000),
+                showOfflineIndicator: this.showOfflineIndicator()
+            }
+        })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Auto update settings auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Настройките за обновяване са запазени', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save auto update settings:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на настройките за обновяване', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
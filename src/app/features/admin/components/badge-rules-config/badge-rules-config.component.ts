@@ -0,0 +1,343 @@
+// src/app/features/admin/components/badge-rules-config/badge-rules-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    input,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models
+import { Product, ProductBadge } from '@core/models/product.interface';
+import { ProductTemplate } from '@core/models/template.interface';
+import { ProductBadgeRule } from '@core/models/slideshow-config.interface';
+import { BadgePosition, ProductBadgeType } from '@core/models/enums';
+
+// Utils
+import {
+    BADGE_TEXT_PLACEHOLDERS,
+    createBadgeRule,
+    DEFAULT_BADGE_SETTINGS,
+    getProductBadges,
+    MAX_BADGES_PER_PRODUCT,
+    productMatchesBadgeRule
+} from '@core/utils/badge-rules.utils';
+import { prepareSlideshowProducts } from '@core/utils/product-selection.utils';
+
+type TriState = 'any' | 'yes' | 'no';
+type NumberCondition = 'minDiscount' | 'newWithinDays' | 'quantityBelow';
+
+/**
+ * Badge Rules Configuration Component
+ *
+ * Отговорности:
+ * - CRUD за ProductBadgeRule (type, text, color, position, priority, conditions)
+ * - Badge limit per template (default + per-template override)
+ * - Preview: matching products per rule (same evaluation as the slideshow)
+ * - Auto-save with debouncing via ConfigService.updateBadgeSettings()
+ */
+@Component({
+    selector: 'app-badge-rules-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatButtonModule,
+        MatSlideToggleModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatChipsModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './badge-rules-config.component.html',
+    styleUrl: './badge-rules-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class BadgeRulesConfigComponent implements OnInit, OnDestroy {
+    // Inputs
+    readonly availableTemplates = input<ProductTemplate[]>([]);
+    readonly products = input<Product[]>([]);
+
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly enabled = signal<boolean>(false);
+    readonly rules = signal<ProductBadgeRule[]>([]);
+    readonly defaultMaxBadges = signal<number>(DEFAULT_BADGE_SETTINGS.defaultMaxBadges);
+    readonly templateLimits = signal<Record<string, number>>({});
+
+    // Options
+    readonly maxBadges = MAX_BADGES_PER_PRODUCT;
+    readonly placeholders = BADGE_TEXT_PLACEHOLDERS;
+
+    readonly typeOptions: Array<{ value: ProductBadgeType; label: string }> = [
+        { value: ProductBadgeType.NEW, label: 'Ново' },
+        { value: ProductBadgeType.SALE, label: 'Намаление' },
+        { value: ProductBadgeType.TOP_SELLER, label: 'Топ продажби' },
+        { value: ProductBadgeType.LIMITED, label: 'Ограничено количество' },
+        { value: ProductBadgeType.EXCLUSIVE, label: 'Ексклузивно' },
+        { value: ProductBadgeType.RECOMMENDED, label: 'Препоръчано' },
+        { value: ProductBadgeType.OUT_OF_STOCK, label: 'Изчерпано' }
+    ];
+
+    readonly colorOptions: Array<{ value: ProductBadge['color']; label: string }> = [
+        { value: 'primary', label: 'Синьо' },
+        { value: 'secondary', label: 'Оранжево' },
+        { value: 'success', label: 'Зелено' },
+        { value: 'warning', label: 'Тъмно оранжево' },
+        { value: 'error', label: 'Червено' }
+    ];
+
+    readonly positionOptions: Array<{ value: BadgePosition; label: string }> = [
+        { value: BadgePosition.TOP_LEFT, label: 'Горе вляво' },
+        { value: BadgePosition.TOP_RIGHT, label: 'Горе вдясно' },
+        { value: BadgePosition.BOTTOM_LEFT, label: 'Долу вляво' },
+        { value: BadgePosition.BOTTOM_RIGHT, label: 'Долу вдясно' }
+    ];
+
+    readonly triStateOptions: Array<{ value: TriState; label: string }> = [
+        { value: 'any', label: 'Без значение' },
+        { value: 'yes', label: 'Да' },
+        { value: 'no', label: 'Не' }
+    ];
+
+    // Computed signals
+    readonly availableCategories = computed(() =>
+        [...new Set(this.products().map(p => p.category).filter(Boolean))].sort()
+    );
+
+    /** Products as shown on screen (price lists + stock policy) - discount/quantity conditions need these */
+    private readonly preparedProducts = computed(() =>
+        prepareSlideshowProducts(this.products(), this.configService.config().products)
+    );
+
+    /** Products matching each rule (by rule index) */
+    readonly matchPreview = computed(() => {
+        const now = Date.now();
+        return this.rules().map(rule =>
+            this.preparedProducts().filter(product => productMatchesBadgeRule(product, rule, now))
+        );
+    });
+
+    /** Products with at least one badge (rules + built-in) */
+    readonly badgedProductCount = computed(() => {
+        const settings = {
+            enabled: this.enabled(),
+            rules: this.rules(),
+            defaultMaxBadges: this.defaultMaxBadges(),
+            templateLimits: this.templateLimits()
+        };
+        return this.preparedProducts().filter(product => getProductBadges(product, settings).length > 0).length;
+    });
+
+    ngOnInit(): void {
+        console.log('🏷️ BadgeRulesConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 BadgeRulesConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load badge settings from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const badges = { ...DEFAULT_BADGE_SETTINGS, ...this.configService.config().badges };
+        this.enabled.set(badges.enabled);
+        this.rules.set(structuredClone(badges.rules));
+        this.defaultMaxBadges.set(badges.defaultMaxBadges);
+        this.templateLimits.set({ ...badges.templateLimits });
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Add new rule (lowest priority)
+     */
+    addRule(): void {
+        const rules = this.rules();
+        const lowestPriority = rules.reduce((min, rule) => Math.min(min, rule.priority), 100);
+        const id = `badge-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+        this.rules.set([...rules, createBadgeRule(id, Math.max(0, lowestPriority - 10))]);
+        this.onSettingsChange();
+    }
+
+    /**
+     * Remove rule by index
+     */
+    removeRule(index: number): void {
+        this.rules.update(rules => rules.filter((_, i) => i !== index));
+        this.onSettingsChange();
+    }
+
+    /**
+     * Update top-level rule fields
+     */
+    updateRule(index: number, patch: Partial<ProductBadgeRule>): void {
+        this.rules.update(rules => rules.map((rule, i) => i === index ? { ...rule, ...patch } : rule));
+        this.onSettingsChange();
+    }
+
+    /**
+     * Update rule conditions (undefined removes the condition)
+     */
+    updateConditions(index: number, patch: Partial<ProductBadgeRule['conditions']>): void {
+        const conditions = { ...this.rules()[index].conditions, ...patch };
+
+        (Object.keys(conditions) as Array<keyof typeof conditions>).forEach(key => {
+            if (conditions[key] === undefined) delete conditions[key];
+        });
+
+        this.updateRule(index, { conditions });
+    }
+
+    setPriority(index: number, value: number | string): void {
+        this.updateRule(index, { priority: Number(value) || 0 });
+    }
+
+    setList(index: number, key: 'productIds' | 'categories', values: string[]): void {
+        this.updateConditions(index, { [key]: values.length ? values : undefined });
+    }
+
+    setNumber(index: number, key: NumberCondition, value: number | string | null): void {
+        const parsed = value === null || value === '' ? undefined : Math.max(0, Number(value) || 0);
+        this.updateConditions(index, { [key]: parsed });
+    }
+
+    setInStock(index: number, value: TriState): void {
+        this.updateConditions(index, { inStock: value === 'any' ? undefined : value === 'yes' });
+    }
+
+    getInStock(rule: ProductBadgeRule): TriState {
+        const value = rule.conditions.inStock;
+        return value === undefined ? 'any' : value ? 'yes' : 'no';
+    }
+
+    setTags(index: number, value: string): void {
+        const tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+        this.updateConditions(index, { tags: tags.length ? tags : undefined });
+    }
+
+    getTags(rule: ProductBadgeRule): string {
+        return (rule.conditions.tags ?? []).join(', ');
+    }
+
+    /**
+     * Per-template badge limit (empty = use the default limit)
+     */
+    setTemplateLimit(templateId: string, value: number | string | null): void {
+        this.templateLimits.update(limits => {
+            const updated = { ...limits };
+            if (value === null || value === '') {
+                delete updated[templateId];
+            } else {
+                updated[templateId] = this.clampLimit(value);
+            }
+            return updated;
+        });
+        this.onSettingsChange();
+    }
+
+    setDefaultMaxBadges(value: number | string): void {
+        this.defaultMaxBadges.set(this.clampLimit(value));
+        this.onSettingsChange();
+    }
+
+    private clampLimit(value: number | string): number {
+        return Math.min(MAX_BADGES_PER_PRODUCT, Math.max(0, Math.round(Number(value) || 0)));
+    }
+
+    /**
+     * Auto-save badge settings
+     */
+    private saveSettings(): void {
+        if (this.rules().some(rule => rule.enabled && !rule.text.trim())) {
+            console.log('⏸️ Badge rule without text - auto-save postponed');
+            return;
+        }
+
+        console.log(`💾 Auto-saving ${this.rules().length} badge rules (enabled: ${this.enabled()})`);
+        this.isSaving.set(true);
+
+        this.configService.updateBadgeSettings({
+            enabled: this.enabled(),
+            rules: this.rules(),
+            defaultMaxBadges: this.defaultMaxBadges(),
+            templateLimits: this.templateLimits()
+        })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Badge rules auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Правилата за значки са запазени', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save badge rules:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на правилата за значки', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
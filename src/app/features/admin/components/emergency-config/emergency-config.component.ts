@@ -0,0 +1,189 @@
+// src/app/features/admin/components/emergency-config/emergency-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models
+import { SlideshowEmergencySettings } from '@core/models/slideshow-config.interface';
+
+// Utils
+import { hasEmergencyTitle } from '@core/utils/emergency.utils';
+
+/**
+ * Emergency Takeover Configuration Component
+ *
+ * Отговорности:
+ * - Show / clear the full-screen emergency or closure message (saved immediately)
+ * - Live active state - also follows the TV remote hotkey via the storage listener
+ * - Message title, text and colors (debounced auto-save)
+ */
+@Component({
+    selector: 'app-emergency-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatInputModule,
+        MatIconModule,
+        MatButtonModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './emergency-config.component.html',
+    styleUrl: './emergency-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class EmergencyConfigComponent implements OnInit, OnDestroy {
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly title = signal<string>('');
+    readonly message = signal<string>('');
+    readonly backgroundColor = signal<string>('#b71c1c');
+    readonly textColor = signal<string>('#ffffff');
+
+    // Computed signals - read from config so changes from other tabs (TV hotkey) show up
+    readonly emergency = computed(() => this.configService.config().emergency);
+    readonly isActive = computed(() => !!this.emergency()?.active);
+    readonly emergencyStopKey = computed(() => this.configService.config().general.emergencyStopKey);
+    readonly canActivate = computed(() => hasEmergencyTitle({ title: this.title() }));
+
+    ngOnInit(): void {
+        console.log('🚨 EmergencyConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings(this.buildMessageSettings(), 'Спешното съобщение е запазено'));
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 EmergencyConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load message settings from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const emergency = this.emergency();
+        if (!emergency) return;
+
+        this.title.set(emergency.title);
+        this.message.set(emergency.message ?? '');
+        this.backgroundColor.set(emergency.backgroundColor);
+        this.textColor.set(emergency.textColor);
+    }
+
+    /**
+     * Handle any message field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Show the takeover on all screens now (with the current text)
+     */
+    activate(): void {
+        if (!this.canActivate()) return;
+
+        this.saveSettings({
+            ...this.buildMessageSettings(),
+            active: true,
+            activatedAt: new Date().toISOString(),
+            activatedBy: 'admin'
+        }, 'Спешното съобщение е показано на екрана');
+    }
+
+    /**
+     * Clear the takeover - the slideshow continues where it stopped
+     */
+    deactivate(): void {
+        this.saveSettings({ active: false }, 'Слайдшоуто продължава');
+    }
+
+    private buildMessageSettings(): Partial<SlideshowEmergencySettings> {
+        return {
+            title: this.title().trim(),
+            message: this.message().trim() || undefined,
+            backgroundColor: this.backgroundColor(),
+            textColor: this.textColor()
+        };
+    }
+
+    /**
+     * Save emergency settings
+     */
+    private saveSettings(settings: Partial<SlideshowEmergencySettings>, successMessage: string): void {
+        if (settings.title !== undefined && !settings.title && this.isActive()) {
+            console.warn('⚠️ Emergency title is empty - not saving while the message is on screen');
+            return;
+        }
+
+        console.log('💾 Saving emergency settings', settings);
+        this.isSaving.set(true);
+
+        this.configService.updateEmergencySettings(settings)
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Emergency settings saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open(successMessage, 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to save emergency settings:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на спешното съобщение', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
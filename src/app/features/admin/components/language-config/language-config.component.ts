@@ -0,0 +1,181 @@
+// src/app/features/admin/components/language-config/language-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    input,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models & utils
+import { Product } from '@core/models/product.interface';
+import { SlideshowLanguageSettings } from '@core/models/slideshow-config.interface';
+import {
+    getLanguageSettings,
+    getSecondaryText,
+    hasSecondaryLanguage,
+    MIN_ALTERNATE_INTERVAL
+} from '@core/utils/product-language.utils';
+
+type LanguageMode = SlideshowLanguageSettings['mode'];
+
+/**
+ * Language Configuration Component
+ *
+ * Отговорности:
+ * - Режим на показване на втория език (stk_name_2 / description_2)
+ * - Интервал на редуване на езиците
+ * - Брой продукти с текстове на втория език + пример
+ * - Auto-save with debouncing via ConfigService.updateLanguageSettings()
+ */
+@Component({
+    selector: 'app-language-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './language-config.component.html',
+    styleUrl: './language-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class LanguageConfigComponent implements OnInit, OnDestroy {
+    // Inputs
+    readonly products = input<Product[]>([]);
+
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly mode = signal<LanguageMode>('primary');
+    readonly alternateInterval = signal<number>(8);
+
+    // Options
+    readonly minInterval = MIN_ALTERNATE_INTERVAL;
+
+    readonly modeOptions: Array<{ value: LanguageMode; label: string }> = [
+        { value: 'primary', label: 'Само основен език' },
+        { value: 'side-by-side', label: 'Двата езика едновременно' },
+        { value: 'alternate', label: 'Редуване на езиците' }
+    ];
+
+    // Computed signals
+    readonly bilingualCount = computed(() => this.products().filter(hasSecondaryLanguage).length);
+
+    /** First product with a secondary name - shown as an example */
+    readonly sample = computed(() => {
+        const product = this.products().find(p => !!getSecondaryText(p, 'name'));
+        return product ? { primary: product.name, secondary: getSecondaryText(product, 'name') } : null;
+    });
+
+    ngOnInit(): void {
+        console.log('🌐 LanguageConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 LanguageConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load language settings from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const language = getLanguageSettings(this.configService.config().language);
+        this.mode.set(language.mode);
+        this.alternateInterval.set(language.alternateInterval);
+    }
+
+    setAlternateInterval(value: number | string): void {
+        this.alternateInterval.set(Math.max(MIN_ALTERNATE_INTERVAL, Math.round(Number(value) || 0)));
+        this.onSettingsChange();
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Auto-save language settings
+     */
+    private saveSettings(): void {
+        const language: SlideshowLanguageSettings = {
+            mode: this.mode(),
+            alternateInterval: this.alternateInterval()
+        };
+
+        console.log('💾 Auto-saving language settings:', language);
+        this.isSaving.set(true);
+
+        this.configService.updateLanguageSettings(language)
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Language settings auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Настройките за езика са запазени', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save language settings:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на настройките за езика', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
@@ -0,0 +1,262 @@
+// src/app/features/admin/components/layout-config/layout-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    input,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models
+import { Product } from '@core/models/product.interface';
+import { ProductTemplate } from '@core/models/template.interface';
+import { SlideshowLayoutZone, SlideshowLayoutZoneContent } from '@core/models/slideshow-config.interface';
+
+// Utils
+import { clampZoneRect, DEFAULT_LAYOUT_SETTINGS, DEFAULT_ZONE_SLIDE_DURATION, isZoneInBounds } from '@core/utils/layout.utils';
+
+// Child components
+import { MediaPickerComponent } from '../media-picker/media-picker.component';
+
+/**
+ * Layout Configuration Component
+ *
+ * Отговорности:
+ * - Enable/disable multi-zone layout (disabled = full-screen carousel)
+ * - CRUD на зони: content source, position / size in % of the safe area
+ * - Per-zone products, template, slide duration or image
+ * - Schematic preview of the screen
+ * - Auto-save with debouncing via ConfigService.updateLayoutSettings()
+ */
+@Component({
+    selector: 'app-layout-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatButtonModule,
+        MatSlideToggleModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule,
+        MediaPickerComponent
+    ],
+    templateUrl: './layout-config.component.html',
+    styleUrl: './layout-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class LayoutConfigComponent implements OnInit, OnDestroy {
+    // Inputs
+    readonly availableTemplates = input<ProductTemplate[]>([]);
+    readonly products = input<Product[]>([]);
+
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly layoutChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly enabled = signal<boolean>(false);
+    readonly zones = signal<SlideshowLayoutZone[]>([]);
+    readonly newZoneContent = signal<SlideshowLayoutZoneContent>('products');
+
+    readonly contentOptions: Array<{ value: SlideshowLayoutZoneContent; label: string; icon: string }> = [
+        { value: 'carousel', label: 'Основно слайдшоу', icon: 'view_carousel' },
+        { value: 'products', label: 'Продукти', icon: 'inventory_2' },
+        { value: 'image', label: 'Изображение / Лого', icon: 'image' },
+        { value: 'ticker', label: 'Новинарска лента', icon: 'subtitles' }
+    ];
+
+    // Computed signals
+    readonly carouselZoneCount = computed(() => this.zones().filter(zone => zone.content === 'carousel').length);
+
+    /** Zone ids outside the screen (not saved until fixed) */
+    readonly invalidZoneIds = computed(() => new Set(
+        this.zones().filter(zone => !isZoneInBounds(zone)).map(zone => zone.id)
+    ));
+
+    readonly canSave = computed(() =>
+        this.invalidZoneIds().size === 0 && (!this.enabled() || this.carouselZoneCount() === 1)
+    );
+
+    readonly tickerEnabled = computed(() => !!this.configService.config().ticker?.enabled);
+
+    ngOnInit(): void {
+        console.log('🧩 LayoutConfigComponent.ngOnInit()');
+
+        const layout = this.configService.config().layout ?? DEFAULT_LAYOUT_SETTINGS;
+        this.enabled.set(layout.enabled);
+        this.zones.set(structuredClone(layout.zones));
+
+        this.layoutChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveLayout());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 LayoutConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    onEnabledChange(): void {
+        this.layoutChange$.next();
+    }
+
+    /**
+     * Add zone of the selected content type (bottom-right quarter, adjust afterwards)
+     */
+    addZone(): void {
+        const content = this.newZoneContent();
+        const zone: SlideshowLayoutZone = {
+            id: `zone-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+            name: `${this.getContentOption(content).label} ${this.zones().length + 1}`,
+            content,
+            x: 50,
+            y: 50,
+            width: 50,
+            height: 50
+        };
+
+        if (content === 'products') {
+            zone.productIds = [];
+            zone.slideDuration = DEFAULT_ZONE_SLIDE_DURATION;
+        } else if (content === 'image') {
+            zone.imageUrl = '';
+            zone.imageFit = 'contain';
+        }
+
+        this.zones.update(zones => [...zones, zone]);
+        this.layoutChange$.next();
+    }
+
+    /**
+     * Remove zone by index
+     */
+    removeZone(index: number): void {
+        this.zones.update(zones => zones.filter((_, i) => i !== index));
+        this.layoutChange$.next();
+    }
+
+    /**
+     * Replace zones with the example layout (products 70% + menu + logo + ticker)
+     */
+    applyExampleLayout(): void {
+        this.zones.set(structuredClone(DEFAULT_LAYOUT_SETTINGS.zones));
+        this.layoutChange$.next();
+    }
+
+    /**
+     * Update zone fields ('' / null values remove optional fields)
+     */
+    updateZone(index: number, patch: Partial<Record<keyof SlideshowLayoutZone, unknown>>): void {
+        this.zones.update(zones => zones.map((zone, i) => {
+            if (i !== index) return zone;
+
+            const updated: Record<string, unknown> = { ...zone, ...patch };
+            Object.keys(patch).forEach(key => {
+                if (key === 'name') return;
+                if (updated[key] === '' || updated[key] === null) delete updated[key];
+            });
+            return updated as unknown as SlideshowLayoutZone;
+        }));
+        this.layoutChange$.next();
+    }
+
+    /**
+     * Position / size fields are edited as whole percents
+     */
+    setZoneNumber(index: number, field: 'x' | 'y' | 'width' | 'height' | 'slideDuration', value: number | string | null): void {
+        const number = Number(value);
+        if (value === null || value === '' || isNaN(number)) return;
+        this.updateZone(index, { [field]: Math.round(number) });
+    }
+
+    /**
+     * Preview rectangle (clamped, so invalid zones still show where they would land)
+     */
+    getPreviewStyle(zone: SlideshowLayoutZone): Record<string, string> {
+        const rect = clampZoneRect(zone);
+        return {
+            left: `${rect.x}%`,
+            top: `${rect.y}%`,
+            width: `${rect.width}%`,
+            height: `${rect.height}%`
+        };
+    }
+
+    getContentOption(content: SlideshowLayoutZoneContent): { value: SlideshowLayoutZoneContent; label: string; icon: string } {
+        return this.contentOptions.find(option => option.value === content) ?? this.contentOptions[0];
+    }
+
+    /**
+     * Auto-save layout (skipped while zones are outside the screen or the main zone is missing)
+     */
+    private saveLayout(): void {
+        if (!this.canSave()) {
+            console.log('⏸️ Layout has invalid zones - auto-save postponed');
+            return;
+        }
+
+        console.log(`💾 Auto-saving layout (${this.zones().length} zones, enabled: ${this.enabled()})`);
+        this.isSaving.set(true);
+
+        this.configService.updateLayoutSettings({ enabled: this.enabled(), zones: this.zones() })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Layout auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Разположението е запазено', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save layout:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на разположението', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
@@ -0,0 +1,212 @@
+// src/app/features/admin/components/loop-settings-config/loop-settings-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    input,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models
+import { ProductTemplate } from '@core/models/template.interface';
+import {
+    SlideshowEndAction,
+    SlideshowGeneralSettings
+} from '@core/models/slideshow-config.interface';
+
+type LoopMode = SlideshowGeneralSettings['loopMode'];
+type EndActionType = SlideshowEndAction['type'];
+
+/**
+ * Loop Settings Configuration Component
+ *
+ * Отговорности:
+ * - Loop mode selection (infinite / once / count)
+ * - Loop count for 'count' mode
+ * - End action after the last loop (stop, holding slide, switch template, blank)
+ * - Auto-save with debouncing via ConfigService.updateGeneralSettings()
+ */
+@Component({
+    selector: 'app-loop-settings-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './loop-settings-config.component.html',
+    styleUrl: './loop-settings-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class LoopSettingsConfigComponent implements OnInit, OnDestroy {
+    // Inputs
+    readonly availableTemplates = input<ProductTemplate[]>([]);
+
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly loopMode = signal<LoopMode>('infinite');
+    readonly loopCount = signal<number>(1);
+    readonly endActionType = signal<EndActionType>('stop');
+    readonly holdingTitle = signal<string>('');
+    readonly holdingMessage = signal<string>('');
+    readonly switchTemplateId = signal<string>('');
+
+    // Options
+    readonly loopModeOptions: Array<{ value: LoopMode; label: string }> = [
+        { value: 'infinite', label: 'Безкрайно' },
+        { value: 'once', label: 'Веднъж' },
+        { value: 'count', label: 'Определен брой пъти' }
+    ];
+
+    readonly endActionOptions: Array<{ value: EndActionType; label: string }> = [
+        { value: 'stop', label: 'Спри на последния слайд' },
+        { value: 'holding-slide', label: 'Покажи изчакващ слайд' },
+        { value: 'switch-config', label: 'Превключи към друг темплейт' },
+        { value: 'blank', label: 'Черен екран' }
+    ];
+
+    // Computed signals
+    readonly isFiniteLoop = computed(() => this.loopMode() !== 'infinite');
+
+    ngOnInit(): void {
+        console.log('🔁 LoopSettingsConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(600),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 LoopSettingsConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load loop settings from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const general = this.configService.config().general;
+        const endAction = general.endAction;
+
+        this.loopMode.set(general.loopMode);
+        this.loopCount.set(general.loopCount ?? 1);
+        this.endActionType.set(endAction?.type ?? 'stop');
+        this.holdingTitle.set(endAction?.holdingSlide?.title ?? '');
+        this.holdingMessage.set(endAction?.holdingSlide?.message ?? '');
+        this.switchTemplateId.set(endAction?.switchTo?.templates?.selectedTemplateId ?? '');
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Build end action from current form state
+     */
+    private buildEndAction(): SlideshowEndAction {
+        const previous = this.configService.config().general.endAction;
+        const type = this.endActionType();
+
+        return {
+            ...previous,
+            type,
+            holdingSlide: type === 'holding-slide'
+                ? {
+                    ...previous?.holdingSlide,
+                    title: this.holdingTitle().trim(),
+                    message: this.holdingMessage().trim() || undefined
+                }
+                : previous?.holdingSlide,
+            switchTo: type === 'switch-config' && this.switchTemplateId()
+                ? {
+                    ...previous?.switchTo,
+                    templates: {
+                        ...previous?.switchTo?.templates,
+                        selectedTemplateId: this.switchTemplateId()
+                    }
+                }
+                : previous?.switchTo
+        };
+    }
+
+    /**
+     * Auto-save loop settings
+     */
+    private saveSettings(): void {
+        const loopCount = Math.max(1, Math.floor(Number(this.loopCount()) || 1));
+        console.log(`💾 Auto-saving loop settings: ${this.loopMode()} (${loopCount}), end: ${this.endActionType()}`);
+        this.isSaving.set(true);
+
+        this.configService.updateGeneralSettings({
+            loopMode: this.loopMode(),
+            loopCount,
+            endAction: this.buildEndAction()
+        })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Loop settings auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Настройките за повторение са запазени', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save loop settings:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на настройките за повторение', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
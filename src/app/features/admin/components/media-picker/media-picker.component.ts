@@ -0,0 +1,71 @@
+// src/app/features/admin/components/media-picker/media-picker.component.ts
+
+import {
+    Component,
+    inject,
+    computed,
+    input,
+    output,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+
+// Core services
+import { MediaLibraryService } from '@core/services/media-library.service';
+
+// Models
+import { MediaKind } from '@core/models/media.interface';
+
+/**
+ * Media Picker Component
+ *
+ * Отговорности:
+ * - Избор на файл от медийната библиотека (image / video)
+ * - Emits `media://<id>` reference ('' = без файл от библиотеката)
+ */
+@Component({
+    selector: 'app-media-picker',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule
+    ],
+    templateUrl: './media-picker.component.html',
+    styleUrl: './media-picker.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class MediaPickerComponent {
+    // Inputs
+    readonly kind = input<MediaKind>('image');
+    readonly label = input<string>('От медийната библиотека');
+    readonly value = input<string | null | undefined>('');
+
+    // Outputs
+    readonly valueChange = output<string>();
+
+    // Service injection
+    private readonly mediaLibrary = inject(MediaLibraryService);
+
+    // Computed signals
+    readonly files = computed(() =>
+        this.kind() === 'video' ? this.mediaLibrary.videos() : this.mediaLibrary.images()
+    );
+
+    /** Selected library reference ('' for external URLs) */
+    readonly selectedUrl = computed(() => {
+        const value = this.value();
+        return this.mediaLibrary.isMediaUrl(value) ? value! : '';
+    });
+
+    onSelectionChange(url: string): void {
+        this.valueChange.emit(url);
+    }
+}
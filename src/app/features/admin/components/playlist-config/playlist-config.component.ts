@@ -0,0 +1,286 @@
+// src/app/features/admin/components/playlist-config/playlist-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    input,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models
+import { Product } from '@core/models/product.interface';
+import { ProductTemplate } from '@core/models/template.interface';
+import { PlaylistItem } from '@core/models/slideshow-config.interface';
+
+// Child components
+import { MediaPickerComponent } from '../media-picker/media-picker.component';
+
+type PlaylistItemTypeValue = PlaylistItem['type'];
+
+/** Fields kept as '' while editing (required by validation) */
+const REQUIRED_ITEM_FIELDS = new Set(['name', 'imageUrl', 'videoUrl', 'title']);
+
+/**
+ * Playlist Configuration Component
+ *
+ * Отговорности:
+ * - Enable/disable playlist (disabled = всеки продукт е слайд)
+ * - CRUD и подредба на PlaylistItem (product, menu, promo, image, video, announcement)
+ * - Duration и template override за всеки елемент
+ * - Auto-save with debouncing via ConfigService.updatePlaylistSettings()
+ */
+@Component({
+    selector: 'app-playlist-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatButtonModule,
+        MatSlideToggleModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule,
+        MediaPickerComponent
+    ],
+    templateUrl: './playlist-config.component.html',
+    styleUrl: './playlist-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PlaylistConfigComponent implements OnInit, OnDestroy {
+    // Inputs
+    readonly availableTemplates = input<ProductTemplate[]>([]);
+    readonly products = input<Product[]>([]);
+
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly playlistChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly enabled = signal<boolean>(false);
+    readonly items = signal<PlaylistItem[]>([]);
+    readonly newItemType = signal<PlaylistItemTypeValue>('product');
+
+    readonly itemTypeOptions: Array<{ value: PlaylistItemTypeValue; label: string; icon: string }> = [
+        { value: 'product', label: 'Продукти', icon: 'inventory_2' },
+        { value: 'menu', label: 'Меню страница', icon: 'restaurant_menu' },
+        { value: 'promo', label: 'Промо слайд', icon: 'local_offer' },
+        { value: 'image', label: 'Изображение', icon: 'image' },
+        { value: 'video', label: 'Видео', icon: 'movie' },
+        { value: 'announcement', label: 'Съобщение', icon: 'campaign' }
+    ];
+
+    // Computed signals
+    readonly menuSlides = computed(() =>
+        this.configService.config().templates.templateSpecificConfig?.menu?.slides ?? []
+    );
+
+    readonly promoSlides = computed(() =>
+        this.configService.config().templates.templateSpecificConfig?.classicPromo?.slides ?? []
+    );
+
+    /** Item ids with missing required fields (not saved until fixed) */
+    readonly invalidItemIds = computed(() => new Set(
+        this.items()
+            .filter(item =>
+                (item.type === 'image' && !item.imageUrl) ||
+                (item.type === 'video' && !item.videoUrl) ||
+                (item.type === 'announcement' && !item.title?.trim())
+            )
+            .map(item => item.id)
+    ));
+
+    ngOnInit(): void {
+        console.log('🎞️ PlaylistConfigComponent.ngOnInit()');
+
+        const playlist = this.configService.config().playlist;
+        this.enabled.set(playlist?.enabled ?? false);
+        this.items.set(structuredClone(playlist?.items ?? []));
+
+        this.playlistChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.savePlaylist());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 PlaylistConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    onEnabledChange(): void {
+        this.playlistChange$.next();
+    }
+
+    /**
+     * Add item of the selected type at the end of the playlist
+     */
+    addItem(): void {
+        const type = this.newItemType();
+        const label = this.getTypeOption(type).label;
+        const base = {
+            id: `item-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+            name: `${label} ${this.items().length + 1}`,
+            enabled: true
+        };
+
+        let item: PlaylistItem;
+        switch (type) {
+            case 'product':
+                item = { ...base, type, count: 3 };
+                break;
+            case 'menu':
+                item = { ...base, type, menuSlideId: this.menuSlides()[0]?.slideId };
+                break;
+            case 'promo':
+                item = { ...base, type, promoSlideId: this.promoSlides()[0]?.slideId };
+                break;
+            case 'image':
+                item = { ...base, type, imageUrl: '', fit: 'cover' };
+                break;
+            case 'video':
+                item = { ...base, type, videoUrl: '', fit: 'cover' };
+                break;
+            case 'announcement':
+                item = { ...base, type, title: '' };
+                break;
+        }
+
+        this.items.update(items => [...items, item]);
+        this.playlistChange$.next();
+    }
+
+    /**
+     * Remove item by index
+     */
+    removeItem(index: number): void {
+        this.items.update(items => items.filter((_, i) => i !== index));
+        this.playlistChange$.next();
+    }
+
+    /**
+     * Move item up (-1) or down (+1)
+     */
+    moveItem(index: number, offset: -1 | 1): void {
+        const target = index + offset;
+        const items = [...this.items()];
+        if (target < 0 || target >= items.length) return;
+
+        [items[index], items[target]] = [items[target], items[index]];
+        this.items.set(items);
+        this.playlistChange$.next();
+    }
+
+    /**
+     * Update item fields ('' / null values remove optional fields)
+     */
+    updateItem(index: number, patch: Record<string, unknown>): void {
+        this.items.update(items => items.map((item, i) => {
+            if (i !== index) return item;
+
+            const updated: Record<string, unknown> = { ...item, ...patch };
+            Object.keys(patch).forEach(key => {
+                if (REQUIRED_ITEM_FIELDS.has(key)) return;
+                if (updated[key] === '' || updated[key] === null) delete updated[key];
+            });
+            return updated as unknown as PlaylistItem;
+        }));
+        this.playlistChange$.next();
+    }
+
+    /**
+     * Duration is edited in seconds, stored in milliseconds
+     */
+    getDurationSeconds(item: PlaylistItem): number | null {
+        return item.duration ? item.duration / 1000 : null;
+    }
+
+    setDurationSeconds(index: number, value: number | string | null): void {
+        const seconds = Number(value);
+        this.updateItem(index, { duration: value === null || value === '' || !seconds ? null : Math.round(seconds * 1000) });
+    }
+
+    setCount(index: number, value: number | string | null): void {
+        const count = Number(value);
+        this.updateItem(index, { count: value === null || value === '' || !count ? null : Math.max(1, Math.round(count)) });
+    }
+
+    setProductIds(index: number, productIds: string[]): void {
+        this.updateItem(index, { productIds: productIds.length ? productIds : null });
+    }
+
+    getTypeOption(type: PlaylistItemTypeValue): { value: PlaylistItemTypeValue; label: string; icon: string } {
+        return this.itemTypeOptions.find(option => option.value === type) ?? this.itemTypeOptions[0];
+    }
+
+    /**
+     * Auto-save playlist (skipped while items have missing required fields)
+     */
+    private savePlaylist(): void {
+        if (this.invalidItemIds().size > 0) {
+            console.log('⏸️ Playlist has incomplete items - auto-save postponed');
+            return;
+        }
+
+        console.log(`💾 Auto-saving playlist (${this.items().length} items, enabled: ${this.enabled()})`);
+        this.isSaving.set(true);
+
+        this.configService.updatePlaylistSettings({ enabled: this.enabled(), items: this.items() })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Playlist auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Плейлистата е запазена', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save playlist:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на плейлистата', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
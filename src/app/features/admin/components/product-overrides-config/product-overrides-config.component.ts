@@ -0,0 +1,327 @@
+// src/app/features/admin/components/product-overrides-config/product-overrides-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    input,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+import { MediaLibraryService } from '@core/services/media-library.service';
+
+// Models
+import { Product, ProductBadge } from '@core/models/product.interface';
+import { ProductOverride } from '@core/models/slideshow-config.interface';
+import { BadgePosition } from '@core/models/enums';
+
+// Utils
+import {
+    cleanProductOverride,
+    getProductOverrides,
+    PRODUCT_OVERRIDE_IMAGE_FIELDS,
+    PRODUCT_OVERRIDE_TEXT_FIELDS
+} from '@core/utils/product-overrides.utils';
+
+// Child components
+import { MediaPickerComponent } from '../media-picker/media-picker.component';
+
+type TextField = typeof PRODUCT_OVERRIDE_TEXT_FIELDS[number];
+type ImageField = typeof PRODUCT_OVERRIDE_IMAGE_FIELDS[number];
+type BadgeMode = 'original' | 'hide' | 'custom';
+
+/**
+ * Product Overrides Configuration Component
+ *
+ * Отговорности:
+ * - Избор на продукт и редакция на локалните данни (име, описания, снимки, бадж, показване, край на отстъпката)
+ * - Оригинална стойност от ERP до всяко поле + reset на поле / на целия продукт
+ * - Списък с продуктите, които имат корекции
+ * - Auto-save with debouncing via ConfigService.updateProductOverride()
+ */
+@Component({
+    selector: 'app-product-overrides-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatButtonModule,
+        MatIconModule,
+        MatChipsModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule,
+        // Child components
+        MediaPickerComponent
+    ],
+    templateUrl: './product-overrides-config.component.html',
+    styleUrl: './product-overrides-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProductOverridesConfigComponent implements OnInit, OnDestroy {
+    // Inputs - ERP products (without overrides)
+    readonly products = input<Product[]>([]);
+
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    protected readonly mediaLibrary = inject(MediaLibraryService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly overrideChange$ = new Subject<void>();
+
+    /** Product with unsaved draft changes */
+    private pendingProductId: string | null = null;
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly selectedProductId = signal<string>('');
+    readonly draft = signal<ProductOverride>({});
+
+    // Options
+    readonly textFields: Array<{ field: TextField; label: string; multiline: boolean; maxLength: number }> = [
+        { field: 'name', label: 'Име', multiline: false, maxLength: 50 },
+        { field: 'shortDescription', label: 'Кратко описание', multiline: true, maxLength: 120 },
+        { field: 'longDescription', label: 'Дълго описание', multiline: true, maxLength: 500 }
+    ];
+
+    readonly imageFields: Array<{ field: ImageField; label: string }> = [
+        { field: 'imageUrl', label: 'Снимка' },
+        { field: 'secondaryImageUrl', label: 'Втора снимка' }
+    ];
+
+    readonly badgeModeOptions: Array<{ value: BadgeMode; label: string }> = [
+        { value: 'original', label: 'Оригинален' },
+        { value: 'hide', label: 'Без бадж' },
+        { value: 'custom', label: 'Собствен' }
+    ];
+
+    readonly colorOptions: Array<{ value: ProductBadge['color']; label: string }> = [
+        { value: 'primary', label: 'Синьо' },
+        { value: 'secondary', label: 'Оранжево' },
+        { value: 'success', label: 'Зелено' },
+        { value: 'warning', label: 'Тъмно оранжево' },
+        { value: 'error', label: 'Червено' }
+    ];
+
+    readonly positionOptions: Array<{ value: BadgePosition; label: string }> = [
+        { value: BadgePosition.TOP_LEFT, label: 'Горе вляво' },
+        { value: BadgePosition.TOP_RIGHT, label: 'Горе вдясно' },
+        { value: BadgePosition.BOTTOM_LEFT, label: 'Долу вляво' },
+        { value: BadgePosition.BOTTOM_RIGHT, label: 'Долу вдясно' }
+    ];
+
+    // Computed signals
+    readonly sortedProducts = computed(() =>
+        [...this.products()].sort((a, b) => a.name.localeCompare(b.name))
+    );
+
+    readonly original = computed(() =>
+        this.products().find(product => product.id === this.selectedProductId()) ?? null
+    );
+
+    /** Products with saved overrides (chips for quick selection) */
+    readonly overriddenProducts = computed(() =>
+        Object.keys(getProductOverrides(this.configService.config().products)).map(id => ({
+            id,
+            name: this.products().find(product => product.id === id)?.name ?? id
+        }))
+    );
+
+    readonly badgeMode = computed((): BadgeMode => {
+        const badge = this.draft().badge;
+        return badge === undefined ? 'original' : badge === null ? 'hide' : 'custom';
+    });
+
+    readonly hasOverride = computed(() => cleanProductOverride(this.draft()) !== null);
+
+    ngOnInit(): void {
+        console.log('✏️ ProductOverridesConfigComponent.ngOnInit()');
+
+        this.overrideChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.flushPending());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 ProductOverridesConfigComponent.ngOnDestroy()');
+        this.flushPending();
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Select product and load its saved override (pending changes are saved first)
+     */
+    selectProduct(productId: string): void {
+        this.flushPending();
+        this.selectedProductId.set(productId);
+        this.draft.set(structuredClone(getProductOverrides(this.configService.config().products)[productId] ?? {}));
+    }
+
+    /**
+     * Update draft fields (debounced auto-save)
+     */
+    updateDraft(patch: Partial<ProductOverride>): void {
+        this.draft.update(draft => ({ ...draft, ...patch }));
+        this.onOverrideChange();
+    }
+
+    setField(field: TextField | ImageField, value: string): void {
+        this.updateDraft({ [field]: value });
+    }
+
+    /**
+     * Reset one field to the ERP value
+     */
+    resetField(field: keyof ProductOverride): void {
+        this.draft.update(draft => {
+            const { [field]: _removed, ...rest } = draft;
+            return rest;
+        });
+        this.onOverrideChange();
+    }
+
+    isOverridden(field: TextField | ImageField): boolean {
+        return !!this.draft()[field]?.trim();
+    }
+
+    setBadgeMode(mode: BadgeMode): void {
+        if (mode === 'original') {
+            this.resetField('badge');
+            return;
+        }
+
+        const badge: ProductBadge | null = mode === 'hide'
+            ? null
+            : this.original()?.badge ?? { text: '', color: 'primary', position: BadgePosition.TOP_LEFT };
+        this.updateDraft({ badge });
+    }
+
+    updateBadge(patch: Partial<ProductBadge>): void {
+        const badge = this.draft().badge;
+        if (!badge) return;
+        this.updateDraft({ badge: { ...badge, ...patch } });
+    }
+
+    setPriority(value: number | string | null): void {
+        const priority = value === null || value === '' ? undefined : Number(value) || 0;
+        this.updateDraft({ displaySettings: { ...this.draft().displaySettings, priority } });
+    }
+
+    /** Custom slide duration in seconds (stored in milliseconds) */
+    setDurationSeconds(value: number | string | null): void {
+        const seconds = value === null || value === '' ? 0 : Number(value) || 0;
+        const customDuration = seconds > 0 ? Math.round(seconds * 1000) : undefined;
+        this.updateDraft({ displaySettings: { ...this.draft().displaySettings, customDuration } });
+    }
+
+    /** Discount end ('' from the datetime-local input = no end date) */
+    setDiscountValidUntil(value: string | null): void {
+        if (!value) {
+            this.resetField('discountValidUntil');
+            return;
+        }
+        this.updateDraft({ discountValidUntil: value });
+    }
+
+    getDurationSeconds(): number | null {
+        const duration = this.draft().displaySettings?.customDuration;
+        return duration ? duration / 1000 : null;
+    }
+
+    /**
+     * Remove all overrides of the selected product
+     */
+    resetAll(): void {
+        const productId = this.selectedProductId();
+        if (!productId) return;
+
+        this.draft.set({});
+        this.pendingProductId = null;
+        this.saveOverride(productId, {});
+    }
+
+    getImageUrl(url: string | undefined): string {
+        return this.mediaLibrary.resolveUrl(url);
+    }
+
+    private onOverrideChange(): void {
+        this.pendingProductId = this.selectedProductId() || null;
+        this.overrideChange$.next();
+    }
+
+    private flushPending(): void {
+        const productId = this.pendingProductId;
+        if (!productId) return;
+
+        const draft = this.draft();
+        if (draft.badge && !draft.badge.text.trim()) {
+            console.log('⏸️ Custom badge without text - auto-save postponed');
+            return;
+        }
+
+        this.pendingProductId = null;
+        this.saveOverride(productId, draft);
+    }
+
+    /**
+     * Save override of a product (empty override = reset to ERP data)
+     */
+    private saveOverride(productId: string, override: ProductOverride): void {
+        console.log(`💾 Auto-saving product override: ${productId}`);
+        this.isSaving.set(true);
+
+        this.configService.updateProductOverride(productId, override)
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Product override auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Корекциите на продукта са запазени', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save product override:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на корекциите', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
@@ -0,0 +1,273 @@
+// src/app/features/admin/components/product-rules-config/product-rules-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    input,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models
+import { Product } from '@core/models/product.interface';
+import { ProductTemplate } from '@core/models/template.interface';
+import { ProductTemplateRule } from '@core/models/slideshow-config.interface';
+
+// Utils
+import { findMatchingTemplateRule, productMatchesTemplateRule } from '@core/utils/template-rules.utils';
+
+type TriState = 'any' | 'yes' | 'no';
+
+/**
+ * Rule match preview (per rule)
+ */
+interface RuleMatchPreview {
+    /** Products that get this rule's template */
+    winning: Product[];
+    /** Products that match but are taken by a higher-priority rule */
+    shadowedCount: number;
+}
+
+/**
+ * Product Rules Configuration Component
+ *
+ * Отговорности:
+ * - CRUD за ProductTemplateRule (name, conditions, templateId, priority)
+ * - Preview кои продукти отговарят на всяко правило
+ * - Auto-save with debouncing via ConfigService.updateTemplateSettings()
+ */
+@Component({
+    selector: 'app-product-rules-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatButtonModule,
+        MatIconModule,
+        MatChipsModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './product-rules-config.component.html',
+    styleUrl: './product-rules-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProductRulesConfigComponent implements OnInit, OnDestroy {
+    // Inputs
+    readonly availableTemplates = input<ProductTemplate[]>([]);
+    readonly products = input<Product[]>([]);
+
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly rulesChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly rules = signal<ProductTemplateRule[]>([]);
+
+    readonly triStateOptions: Array<{ value: TriState; label: string }> = [
+        { value: 'any', label: 'Без значение' },
+        { value: 'yes', label: 'Да' },
+        { value: 'no', label: 'Не' }
+    ];
+
+    // Computed signals
+    readonly isProductBasedMode = computed(() =>
+        this.configService.config().templates.mode === 'product-based'
+    );
+
+    readonly availableCategories = computed(() =>
+        [...new Set(this.products().map(p => p.category).filter(Boolean))].sort()
+    );
+
+    /** Match preview per rule index (same evaluation as the slideshow) */
+    readonly matchPreview = computed((): RuleMatchPreview[] => {
+        const rules = this.rules();
+        const products = this.products();
+
+        const winners = new Map(products.map(product => [product.id, findMatchingTemplateRule(product, rules)]));
+
+        return rules.map(rule => {
+            const matched = products.filter(product => productMatchesTemplateRule(product, rule));
+            const winning = matched.filter(product => winners.get(product.id) === rule);
+            return { winning, shadowedCount: matched.length - winning.length };
+        });
+    });
+
+    /** Products not matched by any rule (use the selected template) */
+    readonly unmatchedCount = computed(() => {
+        const rules = this.rules();
+        return this.products().filter(product => !findMatchingTemplateRule(product, rules)).length;
+    });
+
+    ngOnInit(): void {
+        console.log('🧩 ProductRulesConfigComponent.ngOnInit()');
+
+        this.rules.set(structuredClone(this.configService.config().templates.productTemplateRules ?? []));
+
+        this.rulesChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveRules());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 ProductRulesConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Add new rule (lowest priority, default template)
+     */
+    addRule(): void {
+        const rules = this.rules();
+        const lowestPriority = rules.reduce((min, rule) => Math.min(min, rule.priority), 100);
+
+        this.rules.set([
+            ...rules,
+            {
+                name: `Правило ${rules.length + 1}`,
+                conditions: {},
+                templateId: this.availableTemplates()[0]?.id ?? 'classic',
+                priority: Math.max(0, lowestPriority - 10)
+            }
+        ]);
+        this.rulesChange$.next();
+    }
+
+    /**
+     * Remove rule by index
+     */
+    removeRule(index: number): void {
+        this.rules.update(rules => rules.filter((_, i) => i !== index));
+        this.rulesChange$.next();
+    }
+
+    /**
+     * Update top-level rule fields
+     */
+    updateRule(index: number, patch: Partial<ProductTemplateRule>): void {
+        this.rules.update(rules => rules.map((rule, i) => i === index ? { ...rule, ...patch } : rule));
+        this.rulesChange$.next();
+    }
+
+    /**
+     * Update rule conditions (undefined removes the condition)
+     */
+    updateConditions(index: number, patch: Partial<ProductTemplateRule['conditions']>): void {
+        const conditions = { ...this.rules()[index].conditions, ...patch };
+
+        (Object.keys(conditions) as Array<keyof typeof conditions>).forEach(key => {
+            if (conditions[key] === undefined) delete conditions[key];
+        });
+
+        this.updateRule(index, { conditions });
+    }
+
+    setPriority(index: number, value: number | string): void {
+        this.updateRule(index, { priority: Number(value) || 0 });
+    }
+
+    setCategories(index: number, categories: string[]): void {
+        this.updateConditions(index, { categories: categories.length ? categories : undefined });
+    }
+
+    setPrice(index: number, bound: 'min' | 'max', value: number | string | null): void {
+        const parsed = value === null || value === '' ? undefined : Number(value);
+        const priceRange = { ...this.rules()[index].conditions.priceRange, [bound]: parsed };
+
+        if (priceRange.min === undefined) delete priceRange.min;
+        if (priceRange.max === undefined) delete priceRange.max;
+
+        this.updateConditions(index, {
+            priceRange: Object.keys(priceRange).length ? priceRange : undefined
+        });
+    }
+
+    setFlag(index: number, flag: 'hasDiscount' | 'inStock', value: TriState): void {
+        this.updateConditions(index, { [flag]: value === 'any' ? undefined : value === 'yes' });
+    }
+
+    getFlag(rule: ProductTemplateRule, flag: 'hasDiscount' | 'inStock'): TriState {
+        const value = rule.conditions[flag];
+        return value === undefined ? 'any' : value ? 'yes' : 'no';
+    }
+
+    setTags(index: number, value: string): void {
+        const tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+        this.updateConditions(index, { tags: tags.length ? tags : undefined });
+    }
+
+    getTags(rule: ProductTemplateRule): string {
+        return (rule.conditions.tags ?? []).join(', ');
+    }
+
+    getTemplateName(templateId: string): string {
+        return this.availableTemplates().find(t => t.id === templateId)?.name ?? templateId;
+    }
+
+    /**
+     * Auto-save rules
+     */
+    private saveRules(): void {
+        console.log(`💾 Auto-saving ${this.rules().length} product template rules`);
+        this.isSaving.set(true);
+
+        this.configService.updateTemplateSettings({ productTemplateRules: this.rules() })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Product template rules auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Правилата са запазени', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save product template rules:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на правилата', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
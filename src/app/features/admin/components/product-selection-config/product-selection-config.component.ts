@@ -0,0 +1,301 @@
+// src/app/features/admin/components/product-selection-config/product-selection-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    input,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models
+import { Product, ProductPriceField } from '@core/models/product.interface';
+import { SlideshowProductSettings } from '@core/models/slideshow-config.interface';
+
+// Utils
+import { createSeededRandom, prepareSlideshowProducts, selectSlideshowProducts } from '@core/utils/product-selection.utils';
+import { getPricingSettings, PRODUCT_PRICE_FIELDS } from '@core/utils/price-list.utils';
+
+type TriState = 'any' | 'yes' | 'no';
+type ComparePrice = ProductPriceField | 'none';
+type SortBy = SlideshowProductSettings['ordering']['sortBy'];
+type SortDirection = SlideshowProductSettings['ordering']['sortDirection'];
+
+/** Fixed seed so the 'random' preview doesn't jump on every change */
+const PREVIEW_RANDOM_SEED = 20240601;
+
+/**
+ * Product Selection Configuration Component
+ *
+ * Отговорности:
+ * - Filters (categories, inStockOnly, price range, hasDiscount, excludeIds)
+ * - Ordering (sortBy, sortDirection, randomizeOnLoop)
+ * - maxProducts / minProducts limits
+ * - Price lists (display price / "was" price for discounts and badges)
+ * - Preview на крайния списък със слайдове (same pipeline as the slideshow)
+ * - Auto-save with debouncing via ConfigService.updateProductSettings()
+ */
+@Component({
+    selector: 'app-product-selection-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatSlideToggleModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './product-selection-config.component.html',
+    styleUrl: './product-selection-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProductSelectionConfigComponent implements OnInit, OnDestroy {
+    // Inputs
+    readonly products = input<Product[]>([]);
+    readonly selectedProductIds = input<string[]>([]);
+
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals - filters
+    readonly isSaving = signal<boolean>(false);
+    readonly categories = signal<string[]>([]);
+    readonly inStockOnly = signal<boolean>(true);
+    readonly minPrice = signal<number | null>(null);
+    readonly maxPrice = signal<number | null>(null);
+    readonly hasDiscount = signal<TriState>('any');
+    readonly excludeIds = signal<string[]>([]);
+
+    // State signals - ordering & limits
+    readonly sortBy = signal<SortBy>('priority');
+    readonly sortDirection = signal<SortDirection>('desc');
+    readonly randomizeOnLoop = signal<boolean>(false);
+    readonly maxProducts = signal<number | null>(10);
+    readonly minProducts = signal<number>(1);
+
+    // State signals - price lists
+    readonly displayPrice = signal<ProductPriceField>('price');
+    readonly comparePrice = signal<ComparePrice>('basic_price');
+
+    // Options
+    readonly triStateOptions: Array<{ value: TriState; label: string }> = [
+        { value: 'any', label: 'Без значение' },
+        { value: 'yes', label: 'Само с отстъпка' },
+        { value: 'no', label: 'Само без отстъпка' }
+    ];
+
+    readonly sortByOptions: Array<{ value: SortBy; label: string }> = [
+        { value: 'priority', label: 'Приоритет' },
+        { value: 'name', label: 'Име' },
+        { value: 'price', label: 'Цена' },
+        { value: 'category', label: 'Категория' },
+        { value: 'random', label: 'Случайно' }
+    ];
+
+    readonly sortDirectionOptions: Array<{ value: SortDirection; label: string }> = [
+        { value: 'asc', label: 'Възходящо' },
+        { value: 'desc', label: 'Низходящо' }
+    ];
+
+    // Customer price list name from the stock system (same for all products)
+    private readonly customerPriceListName = computed(() =>
+        this.products().find(product => product.priceListName)?.priceListName ?? null
+    );
+
+    readonly priceFieldOptions = computed((): Array<{ value: ProductPriceField; label: string }> =>
+        PRODUCT_PRICE_FIELDS.map(field => ({
+            value: field,
+            label: this.getPriceFieldLabel(field)
+        }))
+    );
+
+    readonly comparePriceOptions = computed((): Array<{ value: ComparePrice; label: string }> => [
+        { value: 'none', label: 'Без отстъпки' },
+        ...this.priceFieldOptions()
+    ]);
+
+    // Computed signals
+    readonly availableCategories = computed(() =>
+        [...new Set(this.products().map(p => p.category).filter(Boolean))].sort()
+    );
+
+    /** Settings object built from the form (same shape as config.products) */
+    readonly currentSettings = computed((): SlideshowProductSettings => ({
+        selectedProductIds: this.selectedProductIds(),
+        filters: {
+            categories: this.categories(),
+            inStockOnly: this.inStockOnly(),
+            minPrice: this.minPrice() ?? undefined,
+            maxPrice: this.maxPrice() ?? undefined,
+            hasDiscount: this.hasDiscount() === 'any' ? undefined : this.hasDiscount() === 'yes',
+            excludeIds: this.excludeIds()
+        },
+        ordering: {
+            sortBy: this.sortBy(),
+            sortDirection: this.sortDirection(),
+            randomizeOnLoop: this.randomizeOnLoop()
+        },
+        maxProducts: this.maxProducts() ?? undefined,
+        minProducts: this.minProducts(),
+        pricing: {
+            displayPrice: this.displayPrice(),
+            comparePrice: this.comparePrice() === 'none' ? null : this.comparePrice() as ProductPriceField
+        }
+    }));
+
+    /** Preview of the final slide list */
+    readonly preview = computed(() => {
+        const settings = this.currentSettings();
+        return selectSlideshowProducts(
+            prepareSlideshowProducts(this.products(), { ...this.configService.config().products, pricing: settings.pricing }),
+            settings,
+            createSeededRandom(PREVIEW_RANDOM_SEED)
+        );
+    });
+
+    ngOnInit(): void {
+        console.log('🧮 ProductSelectionConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 ProductSelectionConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load filters/ordering/limits from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const settings = this.configService.config().products;
+
+        this.categories.set([...(settings.filters?.categories ?? [])]);
+        this.inStockOnly.set(settings.filters?.inStockOnly ?? false);
+        this.minPrice.set(settings.filters?.minPrice ?? null);
+        this.maxPrice.set(settings.filters?.maxPrice ?? null);
+        this.hasDiscount.set(
+            settings.filters?.hasDiscount === undefined || settings.filters?.hasDiscount === null
+                ? 'any'
+                : settings.filters.hasDiscount ? 'yes' : 'no'
+        );
+        this.excludeIds.set([...(settings.filters?.excludeIds ?? [])]);
+
+        this.sortBy.set(settings.ordering?.sortBy ?? 'priority');
+        this.sortDirection.set(settings.ordering?.sortDirection ?? 'desc');
+        this.randomizeOnLoop.set(settings.ordering?.randomizeOnLoop ?? false);
+
+        this.maxProducts.set(settings.maxProducts ?? null);
+        this.minProducts.set(settings.minProducts ?? 1);
+
+        const pricing = getPricingSettings(settings.pricing);
+        this.displayPrice.set(pricing.displayPrice);
+        this.comparePrice.set(pricing.comparePrice ?? 'none');
+    }
+
+    /**
+     * Human readable price list name
+     */
+    private getPriceFieldLabel(field: ProductPriceField): string {
+        switch (field) {
+            case 'price':
+                return 'Продажна цена (price)';
+            case 'basic_price':
+                return 'Базова цена (basic_price)';
+            case 'customer_file_price': {
+                const name = this.customerPriceListName();
+                return name ? `Цена от клиентско досие (${name})` : 'Цена от клиентско досие';
+            }
+            default:
+                return `Ценова листа ${field.replace('price_', '')}`;
+        }
+    }
+
+    /**
+     * Normalize optional number input ('' → null)
+     */
+    toOptionalNumber(value: number | string | null): number | null {
+        return value === null || value === '' ? null : Math.max(0, Number(value) || 0);
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Auto-save product filters, ordering, limits and price lists
+     * selectedProductIds is owned by the dashboard product list
+     */
+    private saveSettings(): void {
+        const { filters, ordering, maxProducts, minProducts, pricing } = this.currentSettings();
+
+        console.log('💾 Auto-saving product selection settings:', { filters, ordering, maxProducts, minProducts, pricing });
+        this.isSaving.set(true);
+
+        this.configService.updateProductSettings({ filters, ordering, maxProducts, minProducts, pricing })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Product selection settings auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Филтрите и подредбата са запазени', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save product selection settings:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на филтрите', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
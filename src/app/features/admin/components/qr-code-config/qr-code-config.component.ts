@@ -0,0 +1,228 @@
+// src/app/features/admin/components/qr-code-config/qr-code-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    input,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+import { AuthService } from '@core/services/auth.service';
+
+// Models & utils
+import { Product } from '@core/models/product.interface';
+import { ProductTemplate } from '@core/models/template.interface';
+import { SlideshowQrCodePlacement, SlideshowWidgetPosition } from '@core/models/slideshow-config.interface';
+import {
+    buildQrCodeUrl,
+    DEFAULT_QR_CODE_PLACEMENT,
+    DEFAULT_QR_CODE_SETTINGS,
+    MAX_QR_CODE_SIZE,
+    MIN_QR_CODE_SIZE,
+    QR_URL_PLACEHOLDERS
+} from '@core/utils/product-qr.utils';
+
+// Shared components
+import { QrCodeComponent } from '@shared/components/qr-code';
+
+/**
+ * QR Code Configuration Component
+ *
+ * Отговорности:
+ * - Enable/disable product QR codes, link pattern and caption
+ * - Per-template position (safe area corner) and size
+ * - Live preview of the link and the code for a sample product
+ * - Auto-save with debouncing via ConfigService.updateQrCodeSettings()
+ */
+@Component({
+    selector: 'app-qr-code-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatSlideToggleModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule,
+        QrCodeComponent
+    ],
+    templateUrl: './qr-code-config.component.html',
+    styleUrl: './qr-code-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class QrCodeConfigComponent implements OnInit, OnDestroy {
+    // Inputs
+    readonly availableTemplates = input<ProductTemplate[]>([]);
+    readonly products = input<Product[]>([]);
+
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly authService = inject(AuthService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly enabled = signal<boolean>(false);
+    readonly urlPattern = signal<string>(DEFAULT_QR_CODE_SETTINGS.urlPattern);
+    readonly label = signal<string>(DEFAULT_QR_CODE_SETTINGS.label);
+    readonly placements = signal<Record<string, SlideshowQrCodePlacement>>({});
+
+    // Options
+    readonly placeholders = QR_URL_PLACEHOLDERS;
+    readonly sizeLimits = { min: MIN_QR_CODE_SIZE, max: MAX_QR_CODE_SIZE };
+
+    readonly positionOptions: Array<{ value: SlideshowWidgetPosition; label: string }> = [
+        { value: 'top-left', label: 'Горе вляво' },
+        { value: 'top-right', label: 'Горе вдясно' },
+        { value: 'bottom-left', label: 'Долу вляво' },
+        { value: 'bottom-right', label: 'Долу вдясно' }
+    ];
+
+    // Computed signals
+    readonly shopDomain = computed(() => this.authService.shopDomain());
+
+    readonly needsShopDomain = computed(() => this.urlPattern().includes('{domain}') && !this.shopDomain());
+
+    /** Link for the first product - what customers will open */
+    readonly previewUrl = computed(() =>
+        buildQrCodeUrl(this.urlPattern(), this.products()[0] ?? null, this.shopDomain())
+    );
+
+    readonly templateRows = computed(() => this.availableTemplates().map(template => ({
+        template,
+        placement: { ...DEFAULT_QR_CODE_PLACEMENT, ...this.placements()[template.id] }
+    })));
+
+    ngOnInit(): void {
+        console.log('🔳 QrCodeConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 QrCodeConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load QR code settings from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const qrCode = { ...DEFAULT_QR_CODE_SETTINGS, ...this.configService.config().qrCode };
+        this.enabled.set(qrCode.enabled);
+        this.urlPattern.set(qrCode.urlPattern);
+        this.label.set(qrCode.label);
+        this.placements.set(structuredClone(qrCode.templates));
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Append placeholder to the link pattern
+     */
+    insertPlaceholder(placeholder: string): void {
+        this.urlPattern.update(pattern => pattern + placeholder);
+        this.onSettingsChange();
+    }
+
+    /**
+     * Update placement of one template (size clamped to the allowed range)
+     */
+    updatePlacement(templateId: string, patch: Partial<SlideshowQrCodePlacement>): void {
+        if (patch.size !== undefined) {
+            const size = Math.round(Number(patch.size));
+            if (isNaN(size)) return;
+            patch = { ...patch, size: Math.min(MAX_QR_CODE_SIZE, Math.max(MIN_QR_CODE_SIZE, size)) };
+        }
+
+        this.placements.update(placements => ({
+            ...placements,
+            [templateId]: { ...DEFAULT_QR_CODE_PLACEMENT, ...placements[templateId], ...patch }
+        }));
+        this.onSettingsChange();
+    }
+
+    /**
+     * Auto-save QR code settings
+     */
+    private saveSettings(): void {
+        if (this.enabled() && !this.urlPattern().trim()) {
+            console.log('⏸️ QR code link pattern empty - auto-save postponed');
+            return;
+        }
+
+        console.log(`💾 Auto-saving QR code settings (enabled: ${this.enabled()})`);
+        this.isSaving.set(true);
+
+        this.configService.updateQrCodeSettings({
+            enabled: this.enabled(),
+            urlPattern: this.urlPattern().trim(),
+            label: this.label().trim(),
+            templates: this.placements()
+        })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ QR code settings auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('QR кодовете са запазени', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save QR code settings:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на QR кодовете', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
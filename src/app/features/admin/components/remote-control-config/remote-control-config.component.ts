@@ -0,0 +1,262 @@
+// src/app/features/admin/components/remote-control-config/remote-control-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    ChangeDetectionStrategy,
+    DOCUMENT
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, fromEvent, timer, take } from 'rxjs';
+
+// Angular Material imports
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Utils
+import {
+    DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS,
+    getLearnedKeyIdentifier,
+    REMOTE_CONTROL_ACTIONS,
+    RemoteControlAction,
+    RemoteControlKeyMappings
+} from '@core/utils/remote-control.utils';
+
+const LEARN_TIMEOUT_MS = 10000;
+
+/**
+ * Remote Control Configuration Component
+ *
+ * Отговорности:
+ * - Enable / disable remote navigation on the TV
+ * - Key list per action (next / previous / pause / restart)
+ * - "Научи" mode - records whatever the TV remote sends (Tizen key names, webOS keyCodes)
+ * - A learned key is moved away from any other action, so one key = one action
+ */
+@Component({
+    selector: 'app-remote-control-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatIconModule,
+        MatButtonModule,
+        MatSlideToggleModule,
+        MatTooltipModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './remote-control-config.component.html',
+    styleUrl: './remote-control-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class RemoteControlConfigComponent implements OnInit, OnDestroy {
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+    private readonly document = inject(DOCUMENT);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly stopLearning$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly enabled = signal<boolean>(true);
+    readonly keyMappings = signal<RemoteControlKeyMappings>(DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS);
+    readonly learningAction = signal<RemoteControlAction | null>(null);
+    readonly lastLearnedKey = signal<string | null>(null);
+
+    readonly actions = REMOTE_CONTROL_ACTIONS;
+    readonly actionLabels: Record<RemoteControlAction, { label: string; icon: string }> = {
+        nextSlide: { label: 'Следващ слайд', icon: 'skip_next' },
+        previousSlide: { label: 'Предишен слайд', icon: 'skip_previous' },
+        pauseResume: { label: 'Пауза / Продължи', icon: 'pause_circle' },
+        restart: { label: 'От началото', icon: 'replay' }
+    };
+
+    // Computed signals
+    readonly emergencyStopKey = computed(() => this.configService.config().general.emergencyStopKey);
+    readonly hasEmergencyConflict = computed(() => {
+        const stopKey = this.emergencyStopKey();
+        return !!stopKey && this.actions.some(action => this.keyMappings()[action].includes(stopKey));
+    });
+
+    ngOnInit(): void {
+        console.log('🎮 RemoteControlConfigComponent.ngOnInit()');
+        this.loadCurrentSettings();
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 RemoteControlConfigComponent.ngOnDestroy()');
+        this.stopLearning$.next();
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load remote control settings from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const remoteControl = this.configService.config().tvOptimizations.remoteControl;
+        if (!remoteControl) return;
+
+        this.enabled.set(remoteControl.enabled);
+        this.keyMappings.set({ ...DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS, ...remoteControl.keyMappings });
+    }
+
+    /**
+     * Handle enabled toggle (saved immediately)
+     */
+    onEnabledChange(): void {
+        this.saveSettings(this.enabled() ? 'Дистанционното управление е включено' : 'Дистанционното управление е изключено');
+    }
+
+    /**
+     * Wait for the next key press and assign it to the action
+     * Capture phase + preventDefault, so the key does not scroll or submit the admin page
+     */
+    startLearning(action: RemoteControlAction): void {
+        this.stopLearning$.next();
+        this.learningAction.set(action);
+        this.lastLearnedKey.set(null);
+
+        console.log(`🎮 Learning key for ${action}...`);
+
+        fromEvent<KeyboardEvent>(this.document, 'keydown', { capture: true })
+            .pipe(
+                take(1),
+                takeUntil(this.stopLearning$),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(event => {
+                event.preventDefault();
+                event.stopPropagation();
+
+                console.log(`🎮 Key received: key="${event.key}" code="${event.code}" keyCode=${event.keyCode}`);
+                this.learningAction.set(null);
+
+                const key = getLearnedKeyIdentifier(event);
+                if (!key) {
+                    this.showMessage('Бутонът не изпраща разпознаваем код', true);
+                    return;
+                }
+
+                this.assignKey(action, key);
+            });
+
+        timer(LEARN_TIMEOUT_MS)
+            .pipe(
+                takeUntil(this.stopLearning$),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => {
+                if (this.learningAction() === action) {
+                    console.log('⏱️ Key learning timed out');
+                    this.cancelLearning();
+                }
+            });
+    }
+
+    /**
+     * Stop waiting for a key press
+     */
+    cancelLearning(): void {
+        this.stopLearning$.next();
+        this.learningAction.set(null);
+    }
+
+    /**
+     * Remove a key from an action (saved immediately)
+     */
+    removeKey(action: RemoteControlAction, key: string): void {
+        this.keyMappings.update(mappings => ({
+            ...mappings,
+            [action]: mappings[action].filter(existing => existing !== key)
+        }));
+        this.saveSettings(`Бутон „${key}“ е премахнат`);
+    }
+
+    /**
+     * Restore the default keys for all actions
+     */
+    resetToDefaults(): void {
+        this.cancelLearning();
+        this.keyMappings.set({ ...DEFAULT_REMOTE_CONTROL_KEY_MAPPINGS });
+        this.saveSettings('Бутоните са върнати по подразбиране');
+    }
+
+    /**
+     * Add a learned key to the action and remove it from all others
+     */
+    private assignKey(action: RemoteControlAction, key: string): void {
+        const current = this.keyMappings();
+        this.lastLearnedKey.set(key);
+
+        if (current[action].includes(key)) {
+            this.showMessage(`Бутон „${key}“ вече е зададен за това действие`);
+            return;
+        }
+
+        const movedFrom = this.actions.find(other => other !== action && current[other].includes(key));
+
+        const updated = { ...current };
+        for (const other of this.actions) {
+            updated[other] = current[other].filter(existing => existing !== key);
+        }
+        updated[action] = [...updated[action], key];
+        this.keyMappings.set(updated);
+
+        this.saveSettings(movedFrom
+            ? `Бутон „${key}“ е преместен от „${this.actionLabels[movedFrom].label}“`
+            : `Бутон „${key}“ е добавен`);
+    }
+
+    /**
+     * Save remote control settings
+     */
+    private saveSettings(successMessage: string): void {
+        console.log('💾 Saving remote control settings', this.keyMappings());
+        this.isSaving.set(true);
+
+        this.configService.updateRemoteControlSettings({
+            enabled: this.enabled(),
+            keyMappings: this.keyMappings()
+        })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Remote control settings saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.showMessage(successMessage);
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to save remote control settings:', error);
+                    this.isSaving.set(false);
+                    this.showMessage('Грешка при запазване на бутоните', true);
+                }
+            });
+    }
+
+    private showMessage(message: string, isError: boolean = false): void {
+        this.snackBar.open(message, isError ? 'Затвори' : 'OK', {
+            duration: isError ? 5000 : 3000,
+            horizontalPosition: 'center',
+            verticalPosition: 'bottom',
+            panelClass: [isError ? 'error-snackbar' : 'success-snackbar']
+        });
+    }
+}
@@ -0,0 +1,116 @@
+// src/app/features/admin/components/rotation-config/rotation-config.component.ts
+
+import {
+    Component,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject, takeUntil } from 'rxjs';
+
+// Angular Material imports
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models & utils
+import { DisplayRotation } from '@core/models/slideshow-config.interface';
+import { getDisplayRotation, isQuarterTurn } from '@core/utils/rotation.utils';
+
+/**
+ * Rotation Configuration Component
+ *
+ * Отговорности:
+ * - Display rotation 0 / 90 / 180 / 270 (for TVs whose OS cannot rotate the browser)
+ * - Schematic preview of the physical screen and the rotated stage
+ * - Saves immediately via ConfigService.updateDisplayRotation()
+ */
+@Component({
+    selector: 'app-rotation-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        // Angular Material modules
+        MatButtonToggleModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './rotation-config.component.html',
+    styleUrl: './rotation-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class RotationConfigComponent implements OnDestroy {
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+
+    // Options
+    readonly rotationOptions: Array<{ value: DisplayRotation; label: string }> = [
+        { value: 0, label: 'Без завъртане' },
+        { value: 90, label: '90° надясно' },
+        { value: 180, label: '180°' },
+        { value: 270, label: '90° наляво' }
+    ];
+
+    // Computed signals
+    readonly rotation = computed(() => getDisplayRotation(this.configService.config()));
+
+    readonly isPortrait = computed(() => isQuarterTurn(this.rotation()));
+
+    ngOnDestroy(): void {
+        console.log('🛑 RotationConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Save rotation (single click - no debounce needed)
+     */
+    onRotationChange(rotation: DisplayRotation): void {
+        if (rotation === this.rotation()) return;
+
+        console.log(`💾 Saving display rotation: ${rotation}°`);
+        this.isSaving.set(true);
+
+        this.configService.updateDisplayRotation(rotation)
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Display rotation saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Ориентацията е запазена', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to save display rotation:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на ориентацията', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
@@ -0,0 +1,294 @@
+// src/app/features/admin/components/schedule-config/schedule-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    input,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatButtonModule } from '@angular/material/button';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+import { ScheduleService } from '@core/services/schedule.service';
+
+// Models
+import { Product } from '@core/models/product.interface';
+import { ProductTemplate } from '@core/models/template.interface';
+import { SlideshowProductSettings, SlideshowScheduleEntry } from '@core/models/slideshow-config.interface';
+
+// Utils
+import { parseScheduleTime } from '@core/utils/schedule.utils';
+
+/**
+ * Schedule (dayparting) Configuration Component
+ *
+ * Отговорности:
+ * - CRUD за SlideshowScheduleEntry (name, priority, time window, weekdays, dates)
+ * - Overrides per entry: template, products, categories, slide duration
+ * - Показва кой запис е активен в момента
+ * - Auto-save with debouncing via ConfigService.updateScheduleSettings()
+ */
+@Component({
+    selector: 'app-schedule-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatButtonModule,
+        MatSlideToggleModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './schedule-config.component.html',
+    styleUrl: './schedule-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ScheduleConfigComponent implements OnInit, OnDestroy {
+    // Inputs
+    readonly availableTemplates = input<ProductTemplate[]>([]);
+    readonly products = input<Product[]>([]);
+
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly scheduleService = inject(ScheduleService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly enabled = signal<boolean>(false);
+    readonly entries = signal<SlideshowScheduleEntry[]>([]);
+
+    // Options
+    readonly weekdayOptions: Array<{ value: number; label: string }> = [
+        { value: 1, label: 'Пн' },
+        { value: 2, label: 'Вт' },
+        { value: 3, label: 'Ср' },
+        { value: 4, label: 'Чт' },
+        { value: 5, label: 'Пт' },
+        { value: 6, label: 'Сб' },
+        { value: 0, label: 'Нд' }
+    ];
+
+    // Computed signals
+    readonly availableCategories = computed(() =>
+        [...new Set(this.products().map(p => p.category).filter(Boolean))].sort()
+    );
+
+    /** ID of the entry driving the slideshow right now (saved configuration) */
+    readonly activeEntryId = computed(() => this.scheduleService.activeEntry()?.id ?? null);
+
+    ngOnInit(): void {
+        console.log('🗓️ ScheduleConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 ScheduleConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load schedule from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const schedule = this.configService.config().schedule;
+        this.enabled.set(schedule?.enabled ?? false);
+        this.entries.set(structuredClone(schedule?.entries ?? []));
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Add new entry (lowest priority, 08:00 - 12:00 every day)
+     */
+    addEntry(): void {
+        const entries = this.entries();
+        const lowestPriority = entries.reduce((min, entry) => Math.min(min, entry.priority), 100);
+
+        this.entries.set([...entries, {
+            id: `schedule-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+            name: 'Нов период',
+            enabled: true,
+            priority: Math.max(0, lowestPriority - 10),
+            timeRange: { start: '08:00', end: '12:00' },
+            overrides: {}
+        }]);
+        this.onSettingsChange();
+    }
+
+    removeEntry(index: number): void {
+        this.entries.update(entries => entries.filter((_, i) => i !== index));
+        this.onSettingsChange();
+    }
+
+    updateEntry(index: number, patch: Partial<SlideshowScheduleEntry>): void {
+        this.entries.update(entries => entries.map((entry, i) => i === index ? { ...entry, ...patch } : entry));
+        this.onSettingsChange();
+    }
+
+    setPriority(index: number, value: number | string): void {
+        this.updateEntry(index, { priority: Number(value) || 0 });
+    }
+
+    /**
+     * Time window (both empty = whole day)
+     */
+    setTime(index: number, key: 'start' | 'end', value: string): void {
+        const timeRange = { start: '00:00', end: '00:00', ...this.entries()[index].timeRange, [key]: value };
+        this.updateEntry(index, { timeRange });
+    }
+
+    clearTime(index: number): void {
+        this.updateEntry(index, { timeRange: undefined });
+    }
+
+    setWeekdays(index: number, weekdays: number[]): void {
+        this.updateEntry(index, { weekdays: weekdays.length ? weekdays : undefined });
+    }
+
+    setDate(index: number, key: 'from' | 'to', value: string): void {
+        const dateRange = { ...this.entries()[index].dateRange, [key]: value || undefined };
+        this.updateEntry(index, { dateRange: dateRange.from || dateRange.to ? dateRange : undefined });
+    }
+
+    // =====================================
+    //  OVERRIDES
+    // =====================================
+
+    /** Template override ('' = keep the base template settings) */
+    setTemplate(index: number, templateId: string): void {
+        const { templates: _previous, ...overrides } = this.entries()[index].overrides;
+        this.updateEntry(index, {
+            overrides: templateId ? { ...overrides, templates: { mode: 'single', selectedTemplateId: templateId } } : overrides
+        });
+    }
+
+    getTemplate(entry: SlideshowScheduleEntry): string {
+        return entry.overrides.templates?.selectedTemplateId ?? '';
+    }
+
+    setProducts(index: number, selectedProductIds: string[]): void {
+        this.updateProductOverrides(index, { selectedProductIds: selectedProductIds.length ? selectedProductIds : undefined });
+    }
+
+    /** Categories override the whole filters section - other base filters are copied in */
+    setCategories(index: number, categories: string[]): void {
+        const filters = categories.length
+            ? { ...this.configService.config().products.filters, categories }
+            : undefined;
+        this.updateProductOverrides(index, { filters });
+    }
+
+    getCategories(entry: SlideshowScheduleEntry): string[] {
+        return entry.overrides.products?.filters?.categories ?? [];
+    }
+
+    /** Slide duration override in seconds ('' = base duration) */
+    setDuration(index: number, value: number | string | null): void {
+        const seconds = value === null || value === '' ? 0 : Number(value) || 0;
+        const { timing: _previous, ...overrides } = this.entries()[index].overrides;
+        this.updateEntry(index, {
+            overrides: seconds > 0 ? { ...overrides, timing: { baseSlideDuration: Math.round(seconds * 1000) } } : overrides
+        });
+    }
+
+    getDuration(entry: SlideshowScheduleEntry): number | null {
+        const duration = entry.overrides.timing?.baseSlideDuration;
+        return duration ? duration / 1000 : null;
+    }
+
+    private updateProductOverrides(index: number, patch: Partial<SlideshowProductSettings>): void {
+        const { products, ...overrides } = this.entries()[index].overrides;
+        const merged: Partial<SlideshowProductSettings> = { ...products, ...patch };
+
+        (Object.keys(merged) as Array<keyof SlideshowProductSettings>).forEach(key => {
+            if (merged[key] === undefined) delete merged[key];
+        });
+
+        this.updateEntry(index, {
+            overrides: Object.keys(merged).length ? { ...overrides, products: merged } : overrides
+        });
+    }
+
+    /**
+     * Auto-save schedule
+     */
+    private saveSettings(): void {
+        const invalid = this.entries().some(entry => entry.timeRange &&
+            (parseScheduleTime(entry.timeRange.start) === null || parseScheduleTime(entry.timeRange.end) === null));
+        if (invalid) {
+            console.log('⏸️ Schedule entry with invalid time - auto-save postponed');
+            return;
+        }
+
+        console.log(`💾 Auto-saving ${this.entries().length} schedule entries (enabled: ${this.enabled()})`);
+        this.isSaving.set(true);
+
+        this.configService.updateScheduleSettings({ enabled: this.enabled(), entries: this.entries() })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Schedule auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Графикът е запазен', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save schedule:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на графика', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
@@ -0,0 +1,227 @@
+// src/app/features/admin/components/stock-policy-config/stock-policy-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    input,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models & utils
+import { Product } from '@core/models/product.interface';
+import { SlideshowStockSettings } from '@core/models/slideshow-config.interface';
+import { getStockSettings, getStockStatus } from '@core/utils/stock-policy.utils';
+
+type StockUnit = SlideshowStockSettings['unit'];
+type SoldOutBehavior = SlideshowStockSettings['soldOutBehavior'];
+
+/**
+ * Stock Policy Configuration Component
+ *
+ * Отговорности:
+ * - Enable/disable quantity based availability (units, packs or big packs)
+ * - In stock threshold, "last few items" badge threshold and text
+ * - Sold out behaviour (hide / grey out / overlay) and overlay text
+ * - Summary of in stock / low stock / sold out products with the current settings
+ * - Auto-save with debouncing via ConfigService.updateProductSettings()
+ */
+@Component({
+    selector: 'app-stock-policy-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatSlideToggleModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './stock-policy-config.component.html',
+    styleUrl: './stock-policy-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class StockPolicyConfigComponent implements OnInit, OnDestroy {
+    // Inputs
+    readonly products = input<Product[]>([]);
+
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly enabled = signal<boolean>(false);
+    readonly unit = signal<StockUnit>('item');
+    readonly inStockThreshold = signal<number>(1);
+    readonly lowStockEnabled = signal<boolean>(true);
+    readonly lowStockThreshold = signal<number>(5);
+    readonly lowStockBadgeText = signal<string>('');
+    readonly soldOutBehavior = signal<SoldOutBehavior>('hide');
+    readonly soldOutText = signal<string>('');
+
+    // Options
+    readonly unitOptions: Array<{ value: StockUnit; label: string }> = [
+        { value: 'item', label: 'Бройки' },
+        { value: 'pack', label: 'Стекове' },
+        { value: 'bigPack', label: 'Кашони' }
+    ];
+
+    readonly soldOutOptions: Array<{ value: SoldOutBehavior; label: string }> = [
+        { value: 'hide', label: 'Скриване' },
+        { value: 'grey', label: 'Сив (приглушен)' },
+        { value: 'overlay', label: 'Надпис върху продукта' }
+    ];
+
+    // Computed signals
+    readonly currentSettings = computed((): SlideshowStockSettings => ({
+        enabled: this.enabled(),
+        unit: this.unit(),
+        inStockThreshold: this.inStockThreshold(),
+        lowStockThreshold: this.lowStockEnabled() ? this.lowStockThreshold() : null,
+        lowStockBadgeText: this.lowStockBadgeText().trim(),
+        soldOutBehavior: this.soldOutBehavior(),
+        soldOutText: this.soldOutText().trim()
+    }));
+
+    /** How the loaded products are classified with the current settings */
+    readonly summary = computed(() => {
+        const settings = this.currentSettings();
+        const counts = { inStock: 0, lowStock: 0, soldOut: 0, unknown: 0 };
+
+        this.products().forEach(product => {
+            if (product.quantity === undefined) {
+                counts.unknown++;
+                return;
+            }
+
+            const status = getStockStatus(product, settings);
+            if (status === 'sold-out') counts.soldOut++;
+            else if (status === 'low-stock') counts.lowStock++;
+            else counts.inStock++;
+        });
+
+        return counts;
+    });
+
+    readonly lowStockThresholdInvalid = computed(() =>
+        this.lowStockEnabled() && this.lowStockThreshold() <= this.inStockThreshold()
+    );
+
+    ngOnInit(): void {
+        console.log('📦 StockPolicyConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 StockPolicyConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load stock policy from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const stock = getStockSettings(this.configService.config().products.stock);
+
+        this.enabled.set(stock.enabled);
+        this.unit.set(stock.unit);
+        this.inStockThreshold.set(stock.inStockThreshold);
+        this.lowStockEnabled.set(stock.lowStockThreshold !== null);
+        this.lowStockThreshold.set(stock.lowStockThreshold ?? 5);
+        this.lowStockBadgeText.set(stock.lowStockBadgeText);
+        this.soldOutBehavior.set(stock.soldOutBehavior);
+        this.soldOutText.set(stock.soldOutText);
+    }
+
+    /**
+     * Normalize threshold input (whole numbers, 0 or more)
+     */
+    toThreshold(value: number | string | null): number {
+        return Math.max(0, Math.round(Number(value) || 0));
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Auto-save stock policy
+     */
+    private saveSettings(): void {
+        const stock = this.currentSettings();
+
+        if (stock.soldOutBehavior === 'overlay' && !stock.soldOutText) {
+            console.log('⏸️ Sold out overlay text empty - auto-save postponed');
+            return;
+        }
+
+        console.log('💾 Auto-saving stock policy:', stock);
+        this.isSaving.set(true);
+
+        this.configService.updateProductSettings({ stock })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Stock policy auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Настройките за наличност са запазени', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save stock policy:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на настройките за наличност', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
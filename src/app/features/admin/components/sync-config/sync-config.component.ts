@@ -0,0 +1,187 @@
+// src/app/features/admin/components/sync-config/sync-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models & utils
+import { SlideshowSyncRole, SlideshowSyncTransportType } from '@core/models/slideshow-config.interface';
+import { DEFAULT_SYNC_SETTINGS } from '@core/utils/sync.utils';
+
+/**
+ * Sync Configuration Component
+ *
+ * Отговорности:
+ * - Enable/disable synchronized playback and the screen group
+ * - Role (leader / follower) and "video wall" slide offset
+ * - Transport: BroadcastChannel (same machine) or WebSocket relay URL
+ * - Auto-save with debouncing via ConfigService.updateSyncSettings()
+ */
+@Component({
+    selector: 'app-sync-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatSlideToggleModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './sync-config.component.html',
+    styleUrl: './sync-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class SyncConfigComponent implements OnInit, OnDestroy {
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly enabled = signal<boolean>(false);
+    readonly groupId = signal<string>(DEFAULT_SYNC_SETTINGS.groupId);
+    readonly role = signal<SlideshowSyncRole>('leader');
+    readonly transport = signal<SlideshowSyncTransportType>('broadcast-channel');
+    readonly serverUrl = signal<string>('');
+    readonly slideOffset = signal<number>(0);
+
+    // Options
+    readonly roleOptions: Array<{ value: SlideshowSyncRole; label: string }> = [
+        { value: 'leader', label: 'Водещ екран' },
+        { value: 'follower', label: 'Следващ екран' }
+    ];
+
+    readonly transportOptions: Array<{ value: SlideshowSyncTransportType; label: string }> = [
+        { value: 'broadcast-channel', label: 'Същият компютър (BroadcastChannel)' },
+        { value: 'websocket', label: 'Отделни устройства (WebSocket)' }
+    ];
+
+    // Computed signals
+    readonly serverUrlInvalid = computed(() =>
+        this.transport() === 'websocket' && !/^wss?:\/\/.+/.test(this.serverUrl().trim())
+    );
+
+    readonly canSave = computed(() =>
+        !this.enabled() || (this.groupId().trim().length > 0 && !this.serverUrlInvalid())
+    );
+
+    /** Example follower URL for a second screen on the same machine */
+    readonly followerUrlExample = computed(() => `/slideshow?syncRole=follower&syncOffset=${Math.max(1, this.slideOffset())}`);
+
+    ngOnInit(): void {
+        console.log('🔗 SyncConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 SyncConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load sync settings from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const sync = { ...DEFAULT_SYNC_SETTINGS, ...this.configService.config().sync };
+        this.enabled.set(sync.enabled);
+        this.groupId.set(sync.groupId);
+        this.role.set(sync.role);
+        this.transport.set(sync.transport);
+        this.serverUrl.set(sync.serverUrl ?? '');
+        this.slideOffset.set(sync.slideOffset);
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Auto-save sync settings (skipped while required fields are missing)
+     */
+    private saveSettings(): void {
+        if (!this.canSave()) {
+            console.log('⏸️ Sync settings incomplete - auto-save postponed');
+            return;
+        }
+
+        const slideOffset = Math.max(0, Math.round(Number(this.slideOffset()) || 0));
+        console.log(`💾 Auto-saving sync settings: ${this.role()} via ${this.transport()} (enabled: ${this.enabled()})`);
+        this.isSaving.set(true);
+
+        this.configService.updateSyncSettings({
+            enabled: this.enabled(),
+            groupId: this.groupId().trim(),
+            role: this.role(),
+            transport: this.transport(),
+            serverUrl: this.serverUrl().trim(),
+            slideOffset: this.role() === 'follower' ? slideOffset : 0
+        })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Sync settings auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Синхронизацията е запазена', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save sync settings:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на синхронизацията', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
@@ -0,0 +1,262 @@
+// src/app/features/admin/components/template-mode-config/template-mode-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    input,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models
+import { ProductTemplate } from '@core/models/template.interface';
+import { SlideshowTemplateSettings } from '@core/models/slideshow-config.interface';
+
+type TemplateMode = SlideshowTemplateSettings['mode'];
+type RotationScope = NonNullable<SlideshowTemplateSettings['rotationScope']>;
+
+/**
+ * Template Mode Configuration Component
+ *
+ * Отговорности:
+ * - Template mode selection (single / rotation / random / product-based)
+ * - Rotation order editing (include + move up/down)
+ * - Weighted random weights per template
+ * - Rotation scope (every slide / every loop)
+ * - Fallback template selection
+ * - Auto-save with debouncing via ConfigService.updateTemplateSettings()
+ */
+@Component({
+    selector: 'app-template-mode-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatCheckboxModule,
+        MatButtonModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './template-mode-config.component.html',
+    styleUrl: './template-mode-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TemplateModeConfigComponent implements OnInit, OnDestroy {
+    // Inputs
+    readonly availableTemplates = input<ProductTemplate[]>([]);
+
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly mode = signal<TemplateMode>('single');
+    readonly rotationScope = signal<RotationScope>('slide');
+    readonly rotationOrder = signal<string[]>([]);
+    readonly randomWeights = signal<Record<string, number>>({});
+    readonly fallbackTemplateId = signal<string>('classic');
+
+    // Options
+    readonly modeOptions: Array<{ value: TemplateMode; label: string }> = [
+        { value: 'single', label: 'Един темплейт' },
+        { value: 'rotation', label: 'Ротация по ред' },
+        { value: 'random', label: 'Случаен (с тегла)' },
+        { value: 'product-based', label: 'По правила за продукти' }
+    ];
+
+    readonly scopeOptions: Array<{ value: RotationScope; label: string }> = [
+        { value: 'slide', label: 'На всеки слайд' },
+        { value: 'loop', label: 'На всеки цикъл' }
+    ];
+
+    // Computed signals
+    readonly isMultiTemplateMode = computed(() =>
+        this.mode() === 'rotation' || this.mode() === 'random'
+    );
+
+    /** Templates in rotation order first, then the rest */
+    readonly orderedTemplates = computed(() => {
+        const order = this.rotationOrder();
+        const templates = this.availableTemplates();
+
+        const included = order
+            .map(id => templates.find(t => t.id === id))
+            .filter((t): t is ProductTemplate => !!t);
+        const excluded = templates.filter(t => !order.includes(t.id));
+
+        return [...included, ...excluded];
+    });
+
+    readonly totalWeight = computed(() =>
+        Object.values(this.randomWeights()).reduce((sum, weight) => sum + (weight > 0 ? weight : 0), 0)
+    );
+
+    ngOnInit(): void {
+        console.log('🎲 TemplateModeConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(600),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 TemplateModeConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load template mode settings from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const templates = this.configService.config().templates;
+
+        this.mode.set(templates.mode);
+        this.rotationScope.set(templates.rotationScope ?? 'slide');
+        this.rotationOrder.set([...(templates.rotationOrder ?? [])]);
+        this.randomWeights.set({ ...(templates.randomWeights ?? {}) });
+        this.fallbackTemplateId.set(templates.fallbackTemplateId || 'classic');
+    }
+
+    /**
+     * Check if template is part of rotation
+     */
+    isInRotation(templateId: string): boolean {
+        return this.rotationOrder().includes(templateId);
+    }
+
+    /**
+     * Include/exclude template from rotation
+     */
+    toggleRotationTemplate(templateId: string): void {
+        this.rotationOrder.update(order =>
+            order.includes(templateId)
+                ? order.filter(id => id !== templateId)
+                : [...order, templateId]
+        );
+        this.onSettingsChange();
+    }
+
+    /**
+     * Move template up/down in rotation order
+     */
+    moveRotationTemplate(templateId: string, direction: -1 | 1): void {
+        const order = [...this.rotationOrder()];
+        const index = order.indexOf(templateId);
+        const target = index + direction;
+
+        if (index === -1 || target < 0 || target >= order.length) {
+            return;
+        }
+
+        [order[index], order[target]] = [order[target], order[index]];
+        this.rotationOrder.set(order);
+        this.onSettingsChange();
+    }
+
+    /**
+     * Get random weight for template
+     */
+    getWeight(templateId: string): number {
+        return this.randomWeights()[templateId] ?? 0;
+    }
+
+    /**
+     * Update random weight for template
+     */
+    setWeight(templateId: string, value: number | string): void {
+        const weight = Math.max(0, Number(value) || 0);
+        this.randomWeights.update(weights => ({ ...weights, [templateId]: weight }));
+        this.onSettingsChange();
+    }
+
+    /**
+     * Chance (%) of template in random mode
+     */
+    getChance(templateId: string): number {
+        const total = this.totalWeight();
+        return total > 0 ? Math.round((this.getWeight(templateId) / total) * 100) : 0;
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Auto-save template mode settings
+     */
+    private saveSettings(): void {
+        console.log(`💾 Auto-saving template mode: ${this.mode()} (${this.rotationScope()})`);
+        this.isSaving.set(true);
+
+        this.configService.updateTemplateSettings({
+            mode: this.mode(),
+            rotationScope: this.rotationScope(),
+            rotationOrder: this.rotationOrder(),
+            randomWeights: this.randomWeights(),
+            fallbackTemplateId: this.fallbackTemplateId()
+        })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Template mode auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Режимът на темплейтите е запазен', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save template mode:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на режима на темплейтите', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
@@ -0,0 +1,262 @@
+// src/app/features/admin/components/ticker-config/ticker-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+import { ScheduleService } from '@core/services/schedule.service';
+
+// Models & utils
+import {
+    SlideshowTickerItem,
+    SlideshowTickerSettings
+} from '@core/models/slideshow-config.interface';
+import { isTickerItemActive } from '@core/utils/ticker.utils';
+
+type TickerPosition = SlideshowTickerSettings['position'];
+
+/**
+ * Ticker Configuration Component
+ *
+ * Отговорности:
+ * - Enable / disable the news ticker, position top / bottom
+ * - Speed, paging interval (weak TVs), colors, font size and separator
+ * - Ordered list of messages with optional start / end dates
+ * - Auto-save with debouncing via ConfigService.updateTickerSettings()
+ */
+@Component({
+    selector: 'app-ticker-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatIconModule,
+        MatButtonModule,
+        MatSlideToggleModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './ticker-config.component.html',
+    styleUrl: './ticker-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TickerConfigComponent implements OnInit, OnDestroy {
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly scheduleService = inject(ScheduleService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly enabled = signal<boolean>(false);
+    readonly position = signal<TickerPosition>('bottom');
+    readonly speed = signal<number>(80);
+    readonly pageDuration = signal<number>(6);
+    readonly backgroundColor = signal<string>('#1a237e');
+    readonly textColor = signal<string>('#ffffff');
+    readonly fontSize = signal<number>(28);
+    readonly separator = signal<string>('•');
+    readonly items = signal<SlideshowTickerItem[]>([]);
+
+    // Options
+    readonly positionOptions: Array<{ value: TickerPosition; label: string }> = [
+        { value: 'bottom', label: 'Долу' },
+        { value: 'top', label: 'Горе' }
+    ];
+
+    // Computed signals
+    readonly invalidItemIds = computed(() => new Set(
+        this.items()
+            .filter(item => item.dateRange?.from && item.dateRange?.to && item.dateRange.from > item.dateRange.to)
+            .map(item => item.id)
+    ));
+
+    readonly activeItemIds = computed(() => {
+        const now = this.scheduleService.now();
+        return new Set(this.items().filter(item => isTickerItemActive(item, now)).map(item => item.id));
+    });
+
+    readonly previewItems = computed(() => this.items().filter(item => this.activeItemIds().has(item.id)));
+
+    ngOnInit(): void {
+        console.log('📰 TickerConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 TickerConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load ticker settings from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const ticker = this.configService.config().ticker;
+        if (!ticker) return;
+
+        this.enabled.set(ticker.enabled);
+        this.position.set(ticker.position);
+        this.speed.set(ticker.speed);
+        this.pageDuration.set(ticker.pageDuration);
+        this.backgroundColor.set(ticker.backgroundColor);
+        this.textColor.set(ticker.textColor);
+        this.fontSize.set(ticker.fontSize);
+        this.separator.set(ticker.separator ?? '•');
+        this.items.set(ticker.items.map(item => ({ ...item })));
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Add empty message at the end of the ticker
+     */
+    addItem(): void {
+        const item: SlideshowTickerItem = {
+            id: `ticker-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+            text: '',
+            enabled: true
+        };
+
+        this.items.update(items => [...items, item]);
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Remove message by index
+     */
+    removeItem(index: number): void {
+        this.items.update(items => items.filter((_, i) => i !== index));
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Move message up (-1) or down (+1)
+     */
+    moveItem(index: number, offset: -1 | 1): void {
+        const target = index + offset;
+        const items = [...this.items()];
+        if (target < 0 || target >= items.length) return;
+
+        [items[index], items[target]] = [items[target], items[index]];
+        this.items.set(items);
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Update message text / enabled flag
+     */
+    updateItem(index: number, patch: Partial<Pick<SlideshowTickerItem, 'text' | 'enabled'>>): void {
+        this.items.update(items => items.map((item, i) => i === index ? { ...item, ...patch } : item));
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Update start ('from') or end ('to') date - empty value removes the bound
+     */
+    updateItemDate(index: number, bound: 'from' | 'to', value: string): void {
+        this.items.update(items => items.map((item, i) => {
+            if (i !== index) return item;
+
+            const dateRange = { ...item.dateRange, [bound]: value || undefined };
+            const { dateRange: _previous, ...rest } = item;
+            return dateRange.from || dateRange.to ? { ...rest, dateRange } : rest;
+        }));
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Auto-save ticker settings (skipped while a date range is invalid)
+     */
+    private saveSettings(): void {
+        if (this.invalidItemIds().size > 0) {
+            console.warn('⚠️ Ticker has invalid date ranges - not saving');
+            return;
+        }
+
+        const settings: Partial<SlideshowTickerSettings> = {
+            enabled: this.enabled(),
+            position: this.position(),
+            speed: Math.min(500, Math.max(10, Number(this.speed()) || 80)),
+            pageDuration: Math.max(2, Number(this.pageDuration()) || 6),
+            backgroundColor: this.backgroundColor(),
+            textColor: this.textColor(),
+            fontSize: Math.max(12, Number(this.fontSize()) || 28),
+            separator: this.separator(),
+            items: this.items().map(item => ({ ...item, text: item.text.trim() }))
+        };
+
+        console.log(`💾 Auto-saving ticker: ${settings.enabled ? 'on' : 'off'}, ${settings.items!.length} messages`);
+        this.isSaving.set(true);
+
+        this.configService.updateTickerSettings(settings)
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Ticker settings auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Новинарската лента е запазена', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save ticker settings:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на новинарската лента', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
@@ -0,0 +1,192 @@
+// src/app/features/admin/components/transition-config/transition-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    effect,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+
+// Models & utils
+import { PerformanceLevel } from '@core/models/enums';
+import { isStackedTransition, resolveTransitionType, SlideTransitionType } from '@core/utils/transition.utils';
+
+// Pause between preview transitions (ms)
+const PREVIEW_HOLD = 1500;
+
+/**
+ * Transition Configuration Component
+ *
+ * Отговорности:
+ * - Transition type (fade / slide / zoom / flip / none) and duration
+ * - Live preview with the same stacked / scroll rendering as the slideshow
+ * - Shows the automatic downgrade on BASIC / LOW performance TVs
+ * - Auto-save with debouncing via ConfigService.updateTimingSettings()
+ */
+@Component({
+    selector: 'app-transition-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatIconModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './transition-config.component.html',
+    styleUrl: './transition-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TransitionConfigComponent implements OnInit, OnDestroy {
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+    readonly transitionType = signal<SlideTransitionType>('fade');
+    readonly transitionDuration = signal<number>(1000);
+    readonly previewIndex = signal<number>(0);
+
+    // Options
+    readonly transitionOptions: Array<{ value: SlideTransitionType; label: string }> = [
+        { value: 'fade', label: 'Избледняване' },
+        { value: 'slide', label: 'Плъзгане' },
+        { value: 'zoom', label: 'Приближаване' },
+        { value: 'flip', label: 'Обръщане' },
+        { value: 'none', label: 'Без преход' }
+    ];
+
+    readonly previewSlides = ['A', 'B'];
+
+    // Computed signals
+    readonly durationLimits = computed(() => {
+        const validation = this.configService.config().timing.validation;
+        return { min: validation.minTransitionDuration, max: validation.maxTransitionDuration };
+    });
+
+    readonly isStacked = computed(() => isStackedTransition(this.transitionType()));
+
+    readonly previewDuration = computed(() => this.transitionType() === 'none' ? 0 : this.clampDuration(this.transitionDuration()));
+
+    readonly downgrades = computed(() => [
+        { level: 'BASIC', type: resolveTransitionType(this.transitionType(), PerformanceLevel.BASIC) },
+        { level: 'LOW', type: resolveTransitionType(this.transitionType(), PerformanceLevel.LOW) }
+    ].filter(downgrade => downgrade.type !== this.transitionType()));
+
+    // Preview loop - switch slides after each transition + hold
+    private readonly previewEffect = effect((onCleanup) => {
+        const period = this.previewDuration() + PREVIEW_HOLD;
+        const intervalId = setInterval(() => this.previewIndex.update(index => (index + 1) % this.previewSlides.length), period);
+        onCleanup(() => clearInterval(intervalId));
+    });
+
+    ngOnInit(): void {
+        console.log('🎬 TransitionConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 TransitionConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load transition settings from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const timing = this.configService.config().timing;
+        this.transitionType.set(timing.transitionType);
+        this.transitionDuration.set(timing.transitionDuration);
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    getTransitionLabel(type: SlideTransitionType): string {
+        return this.transitionOptions.find(option => option.value === type)?.label ?? type;
+    }
+
+    private clampDuration(duration: number): number {
+        const { min, max } = this.durationLimits();
+        return Math.min(max, Math.max(min, Number(duration) || min));
+    }
+
+    /**
+     * Auto-save transition settings
+     */
+    private saveSettings(): void {
+        const transitionDuration = this.clampDuration(this.transitionDuration());
+        console.log(`💾 Auto-saving transition: ${this.transitionType()} (${transitionDuration}ms)`);
+        this.isSaving.set(true);
+
+        this.configService.updateTimingSettings({
+            transitionType: this.transitionType(),
+            transitionDuration
+        })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Transition settings auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Преходът е запазен', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save transition settings:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на прехода', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
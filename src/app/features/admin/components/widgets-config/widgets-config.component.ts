@@ -0,0 +1,244 @@
+// src/app/features/admin/components/widgets-config/widgets-config.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Subject, takeUntil, debounceTime } from 'rxjs';
+
+// Angular Material imports
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatInputModule } from '@angular/material/input';
+import { MatIconModule } from '@angular/material/icon';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+import { ScheduleService } from '@core/services/schedule.service';
+
+// Models & utils
+import {
+    SlideshowClockWidget,
+    SlideshowDateWidget,
+    SlideshowWidgetPosition,
+    SlideshowWidgetSettings
+} from '@core/models/slideshow-config.interface';
+import {
+    DEFAULT_WIDGET_SETTINGS,
+    formatClockTime,
+    formatCountdown,
+    formatWidgetDate
+} from '@core/utils/widget.utils';
+
+/**
+ * Widgets Configuration Component
+ *
+ * Отговорности:
+ * - Clock: enable, corner, 24h / 12h, seconds
+ * - Date: enable, corner, short / long / weekday format
+ * - Discount countdown: enable, corner, label, max days before it appears, campaign end
+ * - Shared widget colors and font size, live bg-BG preview
+ * - Auto-save with debouncing via ConfigService.updateWidgetSettings()
+ */
+@Component({
+    selector: 'app-widgets-config',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        // Angular Material modules
+        MatFormFieldModule,
+        MatSelectModule,
+        MatInputModule,
+        MatIconModule,
+        MatSlideToggleModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule
+    ],
+    templateUrl: './widgets-config.component.html',
+    styleUrl: './widgets-config.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class WidgetsConfigComponent implements OnInit, OnDestroy {
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly scheduleService = inject(ScheduleService);
+    private readonly snackBar = inject(MatSnackBar);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+    private readonly settingsChange$ = new Subject<void>();
+
+    // State signals
+    readonly isSaving = signal<boolean>(false);
+
+    readonly clockEnabled = signal<boolean>(false);
+    readonly clockPosition = signal<SlideshowWidgetPosition>('top-right');
+    readonly clockFormat = signal<SlideshowClockWidget['format']>('24h');
+    readonly clockShowSeconds = signal<boolean>(false);
+
+    readonly dateEnabled = signal<boolean>(false);
+    readonly datePosition = signal<SlideshowWidgetPosition>('top-right');
+    readonly dateFormat = signal<SlideshowDateWidget['format']>('weekday');
+
+    readonly countdownEnabled = signal<boolean>(true);
+    readonly countdownPosition = signal<SlideshowWidgetPosition>('bottom-right');
+    readonly countdownLabel = signal<string>('');
+    readonly countdownMaxDays = signal<number>(0);
+    readonly countdownCampaignEnd = signal<string>('');
+
+    readonly backgroundColor = signal<string>('#000000');
+    readonly textColor = signal<string>('#ffffff');
+    readonly fontSize = signal<number>(28);
+
+    // Options
+    readonly positionOptions: Array<{ value: SlideshowWidgetPosition; label: string }> = [
+        { value: 'top-left', label: 'Горе вляво' },
+        { value: 'top-right', label: 'Горе вдясно' },
+        { value: 'bottom-left', label: 'Долу вляво' },
+        { value: 'bottom-right', label: 'Долу вдясно' }
+    ];
+
+    readonly clockFormatOptions: Array<{ value: SlideshowClockWidget['format']; label: string }> = [
+        { value: '24h', label: '24-часов' },
+        { value: '12h', label: '12-часов' }
+    ];
+
+    readonly dateFormatOptions: Array<{ value: SlideshowDateWidget['format']; label: string }> = [
+        { value: 'short', label: 'Кратък (19.10.2026 г.)' },
+        { value: 'long', label: 'Дълъг (19 октомври 2026 г.)' },
+        { value: 'weekday', label: 'С ден от седмицата' }
+    ];
+
+    // Computed signals - preview in bg-BG
+    readonly clockPreview = computed(() =>
+        formatClockTime(this.scheduleService.now(), { format: this.clockFormat(), showSeconds: this.clockShowSeconds() })
+    );
+
+    readonly datePreview = computed(() => formatWidgetDate(this.scheduleService.now(), this.dateFormat()));
+
+    readonly countdownPreview = computed(() => formatCountdown((2 * 24 + 4) * 60 * 60 * 1000));
+
+    ngOnInit(): void {
+        console.log('🕒 WidgetsConfigComponent.ngOnInit()');
+
+        this.loadCurrentSettings();
+
+        this.settingsChange$
+            .pipe(
+                debounceTime(800),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.saveSettings());
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 WidgetsConfigComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    /**
+     * Load widget settings from current configuration
+     */
+    private loadCurrentSettings(): void {
+        const widgets = this.configService.config().widgets ?? DEFAULT_WIDGET_SETTINGS;
+
+        this.clockEnabled.set(widgets.clock.enabled);
+        this.clockPosition.set(widgets.clock.position);
+        this.clockFormat.set(widgets.clock.format);
+        this.clockShowSeconds.set(widgets.clock.showSeconds);
+
+        this.dateEnabled.set(widgets.date.enabled);
+        this.datePosition.set(widgets.date.position);
+        this.dateFormat.set(widgets.date.format);
+
+        this.countdownEnabled.set(widgets.discountCountdown.enabled);
+        this.countdownPosition.set(widgets.discountCountdown.position);
+        this.countdownLabel.set(widgets.discountCountdown.label);
+        this.countdownMaxDays.set(widgets.discountCountdown.maxDays);
+        this.countdownCampaignEnd.set(widgets.discountCountdown.campaignEnd ?? '');
+
+        this.backgroundColor.set(widgets.style.backgroundColor);
+        this.textColor.set(widgets.style.textColor);
+        this.fontSize.set(widgets.style.fontSize);
+    }
+
+    /**
+     * Handle any field change (debounced auto-save)
+     */
+    onSettingsChange(): void {
+        this.settingsChange$.next();
+    }
+
+    /**
+     * Auto-save widget settings
+     */
+    private saveSettings(): void {
+        const settings: SlideshowWidgetSettings = {
+            clock: {
+                enabled: this.clockEnabled(),
+                position: this.clockPosition(),
+                format: this.clockFormat(),
+                showSeconds: this.clockShowSeconds()
+            },
+            date: {
+                enabled: this.dateEnabled(),
+                position: this.datePosition(),
+                format: this.dateFormat()
+            },
+            discountCountdown: {
+                enabled: this.countdownEnabled(),
+                position: this.countdownPosition(),
+                label: this.countdownLabel().trim(),
+                maxDays: Math.max(0, Math.floor(Number(this.countdownMaxDays()) || 0)),
+                campaignEnd: this.countdownCampaignEnd() || undefined
+            },
+            style: {
+                backgroundColor: this.backgroundColor(),
+                textColor: this.textColor(),
+                fontSize: Math.min(120, Math.max(12, Number(this.fontSize()) || 28))
+            }
+        };
+
+        console.log('💾 Auto-saving widget settings');
+        this.isSaving.set(true);
+
+        this.configService.updateWidgetSettings(settings)
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => {
+                    console.log('✅ Widget settings auto-saved');
+                    setTimeout(() => {
+                        this.isSaving.set(false);
+                        this.snackBar.open('Настройките на джаджите са запазени', 'OK', {
+                            duration: 3000,
+                            horizontalPosition: 'center',
+                            verticalPosition: 'bottom',
+                            panelClass: ['success-snackbar']
+                        });
+                    }, 300);
+                },
+                error: (error) => {
+                    console.error('❌ Failed to auto-save widget settings:', error);
+                    this.isSaving.set(false);
+                    this.snackBar.open('Грешка при запазване на джаджите', 'Затвори', {
+                        duration: 5000,
+                        horizontalPosition: 'center',
+                        verticalPosition: 'bottom',
+                        panelClass: ['error-snackbar']
+                    });
+                }
+            });
+    }
+}
@@ -11,6 +11,9 @@ export * from './admin.routes';
 // Components
 export * from './components/admin-dashboard/admin-dashboard.component';
 
+// Pages
+export * from './pages/media-library/media-library.component';
+
 // Future exports will be added here
 // export * from './pages/templates/templates.component';
 // export * from './pages/analytics/analytics.component';
\ No newline at end of file
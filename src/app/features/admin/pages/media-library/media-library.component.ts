@@ -0,0 +1,327 @@
+// src/app/features/admin/pages/media-library/media-library.component.ts
+
+import {
+    Component,
+    OnInit,
+    OnDestroy,
+    inject,
+    signal,
+    computed,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { Observable, Subject, takeUntil } from 'rxjs';
+
+// Angular Material imports
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSnackBar, MatSnackBarModule } from '@angular/material/snack-bar';
+
+// Core services
+import { ConfigService } from '@core/services/config.service';
+import { MediaLibraryService } from '@core/services/media-library.service';
+import { ProductApiService } from '@core/services/product-api.service';
+
+// Models
+import { Product } from '@core/models/product.interface';
+import { UploadedFile } from '@core/models/api-response.interface';
+import { UploadStatus } from '@core/models/enums';
+import { PlaylistItem, SlideshowConfig } from '@core/models/slideshow-config.interface';
+
+// Utils
+import { getProductOverrides } from '@core/utils/product-overrides.utils';
+
+// Child components
+import { MediaPickerComponent } from '../../components/media-picker/media-picker.component';
+
+/**
+ * Media Library Page (/admin/media)
+ *
+ * Отговорности:
+ * - Качване на изображения и видео (file input + drag & drop)
+ * - Прогрес по UploadStatus за всеки файл
+ * - Преглед и изтриване на файловете в библиотеката
+ * - Използване: слайд в плейлистата, фон на съобщение, снимка на продукт
+ */
+@Component({
+    selector: 'app-media-library',
+    standalone: true,
+    imports: [
+        CommonModule,
+        FormsModule,
+        RouterLink,
+        // Angular Material modules
+        MatCardModule,
+        MatButtonModule,
+        MatIconModule,
+        MatFormFieldModule,
+        MatSelectModule,
+        MatProgressBarModule,
+        MatProgressSpinnerModule,
+        MatSnackBarModule,
+        MediaPickerComponent
+    ],
+    templateUrl: './media-library.component.html',
+    styleUrl: './media-library.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class MediaLibraryComponent implements OnInit, OnDestroy {
+    // Service injection
+    private readonly configService = inject(ConfigService);
+    private readonly productApi = inject(ProductApiService);
+    private readonly snackBar = inject(MatSnackBar);
+    protected readonly mediaLibrary = inject(MediaLibraryService);
+
+    // Lifecycle management
+    private readonly destroy$ = new Subject<void>();
+
+    // State signals
+    readonly products = signal<Product[]>([]);
+    readonly isDragOver = signal<boolean>(false);
+    readonly overrideProductId = signal<string>('');
+    readonly overrideImageUrl = signal<string>('');
+
+    readonly UploadStatus = UploadStatus;
+
+    readonly statusLabels: Record<UploadStatus, string> = {
+        [UploadStatus.PENDING]: 'Изчакване',
+        [UploadStatus.UPLOADING]: 'Качване',
+        [UploadStatus.PROCESSING]: 'Обработка',
+        [UploadStatus.COMPLETED]: 'Готово',
+        [UploadStatus.FAILED]: 'Грешка'
+    };
+
+    readonly acceptedTypes = 'image/jpeg,image/png,image/webp,image/svg+xml,image/gif,video/mp4,video/webm';
+
+    // Computed signals
+    readonly imageOverrides = computed(() =>
+        Object.entries(getProductOverrides(this.configService.config().products))
+            .filter(([, override]) => !!override.imageUrl)
+            .map(([productId, override]) => ({ productId, url: override.imageUrl! }))
+    );
+
+    /** Serialized config - used to show which files are referenced */
+    private readonly configJson = computed(() => JSON.stringify(this.configService.config()));
+
+    ngOnInit(): void {
+        console.log('🗂️ MediaLibraryComponent.ngOnInit()');
+
+        this.productApi.getProducts()
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: (products: Product[]) => this.products.set(products),
+                error: (error) => console.error('❌ Error loading products:', error)
+            });
+    }
+
+    ngOnDestroy(): void {
+        console.log('🛑 MediaLibraryComponent.ngOnDestroy()');
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+
+    // =====================================
+    //  UPLOAD
+    // =====================================
+
+    onFileInput(event: Event): void {
+        const input = event.target as HTMLInputElement;
+        if (input.files?.length) {
+            void this.uploadFiles(input.files);
+        }
+        input.value = '';
+    }
+
+    onDragOver(event: DragEvent): void {
+        event.preventDefault();
+        this.isDragOver.set(true);
+    }
+
+    onDragLeave(): void {
+        this.isDragOver.set(false);
+    }
+
+    onDrop(event: DragEvent): void {
+        event.preventDefault();
+        this.isDragOver.set(false);
+        if (event.dataTransfer?.files.length) {
+            void this.uploadFiles(event.dataTransfer.files);
+        }
+    }
+
+    private async uploadFiles(files: FileList): Promise<void> {
+        const total = files.length;
+        const uploaded = await this.mediaLibrary.uploadFiles(files);
+
+        if (uploaded.length === total) {
+            this.showSuccess(`Качени файлове: ${uploaded.length}`);
+        } else {
+            this.showError(`Качени ${uploaded.length} от ${total} файла`);
+        }
+    }
+
+    // =====================================
+    //  LIBRARY ACTIONS
+    // =====================================
+
+    isUsed(file: UploadedFile): boolean {
+        return this.configJson().includes(file.url);
+    }
+
+    async deleteFile(file: UploadedFile): Promise<void> {
+        const message = this.isUsed(file)
+            ? `"${file.originalName}" се използва в конфигурацията. Изтриване въпреки това?`
+            : `Изтриване на "${file.originalName}"?`;
+
+        if (!confirm(message)) {
+            return;
+        }
+
+        try {
+            await this.mediaLibrary.delete(file.id);
+            this.showSuccess('Файлът е изтрит');
+        } catch (error) {
+            console.error('❌ Failed to delete media file:', error);
+            this.showError('Грешка при изтриване на файла');
+        }
+    }
+
+    /**
+     * Add image / video slide to the playlist
+     */
+    addToPlaylist(file: UploadedFile): void {
+        const base = this.createPlaylistItemBase(file);
+        const item: PlaylistItem = this.mediaLibrary.getKind(file) === 'video'
+            ? { ...base, type: 'video', videoUrl: file.url, fit: 'cover' }
+            : { ...base, type: 'image', imageUrl: file.url, fit: 'cover' };
+
+        this.appendPlaylistItem(item);
+    }
+
+    /**
+     * Add announcement slide with the image as background
+     */
+    addAnnouncement(file: UploadedFile): void {
+        this.appendPlaylistItem({
+            ...this.createPlaylistItemBase(file),
+            type: 'announcement',
+            title: this.getBaseName(file),
+            backgroundImageUrl: file.url
+        });
+    }
+
+    // =====================================
+    //  PRODUCT IMAGE OVERRIDES
+    // =====================================
+
+    setProductImage(): void {
+        const productId = this.overrideProductId();
+        const url = this.overrideImageUrl();
+        if (!productId || !url) return;
+
+        this.saveProductImage(productId, url, 'Снимката на продукта е зададена');
+        this.overrideProductId.set('');
+        this.overrideImageUrl.set('');
+    }
+
+    removeProductImage(productId: string): void {
+        this.saveProductImage(productId, undefined, 'Оригиналната снимка е възстановена');
+    }
+
+    getProductName(productId: string): string {
+        return this.products().find(product => product.id === productId)?.name ?? productId;
+    }
+
+    getFileName(url: string): string {
+        return this.mediaLibrary.findByUrl(url)?.originalName ?? url;
+    }
+
+    // =====================================
+    //  FORMATTING
+    // =====================================
+
+    formatSize(bytes: number): string {
+        if (bytes < 1024 * 1024) {
+            return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+        }
+        return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    }
+
+    formatDuration(milliseconds: number | undefined): string {
+        if (!milliseconds) return '';
+        const seconds = Math.round(milliseconds / 1000);
+        return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    }
+
+    // =====================================
+    //  PRIVATE HELPERS
+    // =====================================
+
+    private createPlaylistItemBase(file: UploadedFile): { id: string; name: string; enabled: boolean } {
+        return {
+            id: `item-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+            name: this.getBaseName(file),
+            enabled: true
+        };
+    }
+
+    private getBaseName(file: UploadedFile): string {
+        return file.originalName.replace(/\.[^.]+$/, '');
+    }
+
+    private appendPlaylistItem(item: PlaylistItem): void {
+        const items = this.configService.config().playlist?.items ?? [];
+
+        this.save(
+            this.configService.updatePlaylistSettings({ items: [...items, item] }),
+            this.configService.config().playlist?.enabled
+                ? 'Добавено в плейлистата'
+                : 'Добавено в плейлистата (плейлистата е изключена)'
+        );
+    }
+
+    /**
+     * Image is part of the product override (name / description overrides are kept)
+     */
+    private saveProductImage(productId: string, imageUrl: string | undefined, successMessage: string): void {
+        const override = getProductOverrides(this.configService.config().products)[productId];
+        this.save(this.configService.updateProductOverride(productId, { ...override, imageUrl }), successMessage);
+    }
+
+    private save(request: Observable<SlideshowConfig>, successMessage: string): void {
+        request
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                next: () => this.showSuccess(successMessage),
+                error: (error) => {
+                    console.error('❌ Failed to save media usage:', error);
+                    this.showError('Грешка при запазване');
+                }
+            });
+    }
+
+    private showSuccess(message: string): void {
+        this.snackBar.open(message, 'OK', {
+            duration: 3000,
+            horizontalPosition: 'center',
+            verticalPosition: 'bottom',
+            panelClass: ['success-snackbar']
+        });
+    }
+
+    private showError(message: string): void {
+        this.snackBar.open(message, 'Затвори', {
+            duration: 5000,
+            horizontalPosition: 'center',
+            verticalPosition: 'bottom',
+            panelClass: ['error-snackbar']
+        });
+    }
+}
@@ -0,0 +1,59 @@
+import {
+    Component,
+    input,
+    computed,
+    inject,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import {
+    AnnouncementPlaylistItem,
+    ImagePlaylistItem
+} from '@core/models/slideshow-config.interface';
+import { MediaLibraryService } from '@core/services/media-library.service';
+
+/**
+ * CustomSlideComponent - Слайдове без продукт от плейлистата
+ *
+ * Отговорности:
+ * - Full-screen image slides (cover / contain)
+ * - Announcement slides (заглавие, текст, опционално изображение)
+ * - TV-friendly typography, без анимации
+ * - `media://` URLs от медийната библиотека
+ */
+@Component({
+    selector: 'app-custom-slide',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './custom-slide.component.html',
+    styleUrl: './custom-slide.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class CustomSlideComponent {
+    private readonly mediaLibrary = inject(MediaLibraryService);
+
+    // ✅ Input signals
+    readonly item = input.required<ImagePlaylistItem | AnnouncementPlaylistItem>();
+
+    // ✅ Computed signals
+    readonly imageItem = computed(() => {
+        const item = this.item();
+        return item.type === 'image' ? item : null;
+    });
+
+    readonly announcementItem = computed(() => {
+        const item = this.item();
+        return item.type === 'announcement' ? item : null;
+    });
+
+    readonly backgroundColor = computed(() => this.item().backgroundColor || '#000000');
+
+    readonly imageUrl = computed(() => this.mediaLibrary.resolveUrl(this.item().imageUrl));
+
+    readonly backgroundImageUrl = computed(() => {
+        const announcement = this.announcementItem();
+        const url = this.mediaLibrary.resolveUrl(announcement?.backgroundImageUrl);
+        return url ? `url("${url}")` : null;
+    });
+}
@@ -0,0 +1 @@
+export * from './custom-slide.component';
\ No newline at end of file
@@ -11,4 +11,9 @@ export * from './slide-progress/slide-progress.component';
 export * from './navigation-controls/navigation-controls.component';
 export * from './loading-state/loading-state.component';
 export * from './error-state/error-state.component';
-export * from './template-loader/template-loader.component';
\ No newline at end of file
+export * from './template-loader/template-loader.component';
+export * from './custom-slide/custom-slide.component';
+export * from './video-slide/video-slide.component';
+export * from './news-ticker/news-ticker.component';
+export * from './overlay-widgets/overlay-widgets.component';
+export * from './layout-zone/layout-zone.component';
\ No newline at end of file
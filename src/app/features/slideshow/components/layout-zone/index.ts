@@ -0,0 +1 @@
+export * from './layout-zone.component';
@@ -0,0 +1,129 @@
+import {
+    Component,
+    OnDestroy,
+    input,
+    signal,
+    computed,
+    effect,
+    inject,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Subject, catchError, combineLatest, distinctUntilChanged, of, startWith, switchMap, takeUntil } from 'rxjs';
+
+import { Product } from '@core/models/product.interface';
+import { SlideshowLayoutZone, SlideshowTickerSettings } from '@core/models/slideshow-config.interface';
+import { MediaLibraryService } from '@core/services/media-library.service';
+import { ContentUpdateService } from '@core/services/content-update.service';
+import { clampZoneRect, DEFAULT_ZONE_SLIDE_DURATION } from '@core/utils/layout.utils';
+import { SlideShowService } from '../../services/slideshow.service';
+import { TemplateLoaderComponent } from '../template-loader/template-loader.component';
+import { NewsTickerComponent } from '../news-ticker/news-ticker.component';
+
+/**
+ * LayoutZoneComponent - Една зона от multi-zone layout
+ *
+ * Отговорности:
+ * - Position and size in percent of the safe-area frame
+ * - 'products' zones: own product list, template and timer (independent of the main carousel)
+ * - 'image' zones: static image / logo (`media://` URLs from the media library)
+ * - 'ticker' zones: the news ticker inside the zone instead of the overlay
+ */
+@Component({
+    selector: 'app-layout-zone',
+    standalone: true,
+    imports: [CommonModule, TemplateLoaderComponent, NewsTickerComponent],
+    templateUrl: './layout-zone.component.html',
+    styleUrl: './layout-zone.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    host: {
+        '[style.left.%]': 'rect().x',
+        '[style.top.%]': 'rect().y',
+        '[style.width.%]': 'rect().width',
+        '[style.height.%]': 'rect().height',
+        '[style.background-color]': 'zone().backgroundColor || null',
+        '[attr.data-zone-id]': 'zone().id'
+    }
+})
+export class LayoutZoneComponent implements OnDestroy {
+    private readonly slideShowService = inject(SlideShowService);
+    private readonly mediaLibrary = inject(MediaLibraryService);
+    private readonly contentUpdates = inject(ContentUpdateService);
+
+    private readonly destroy$ = new Subject<void>();
+
+    // ✅ Input signals
+    readonly zone = input.required<SlideshowLayoutZone>();
+    readonly tickerSettings = input<SlideshowTickerSettings | null>(null);
+    readonly animationsEnabled = input<boolean>(true);
+    readonly fallbackTemplateName = input<string | null>('classic');
+    /** Stop the zone timer (emergency takeover) */
+    readonly paused = input<boolean>(false);
+
+    // ✅ State signals
+    readonly products = signal<Product[]>([]);
+    readonly currentIndex = signal<number>(0);
+
+    // ✅ Computed signals
+    readonly rect = computed(() => clampZoneRect(this.zone()));
+
+    readonly currentProduct = computed(() => {
+        const products = this.products();
+        return products.length > 0 ? products[this.currentIndex() % products.length] : null;
+    });
+
+    readonly templateName = computed(() => this.zone().templateId || this.fallbackTemplateName() || 'classic');
+
+    readonly imageUrl = computed(() => this.mediaLibrary.resolveUrl(this.zone().imageUrl));
+
+    private readonly productIdsKey = computed(() =>
+        this.zone().content === 'products' ? (this.zone().productIds ?? []).join(',') : null
+    );
+
+    constructor() {
+        // Reload zone products when its product list changes or the stock data was updated
+        combineLatest([
+            toObservable(this.productIdsKey).pipe(distinctUntilChanged()),
+            this.contentUpdates.updates$.pipe(startWith(null))
+        ])
+            .pipe(
+                switchMap(([key]) => key === null
+                    ? of<Product[]>([])
+                    : this.slideShowService.loadZoneProducts(key ? key.split(',') : []).pipe(
+                        catchError(error => {
+                            console.error(`❌ LayoutZoneComponent: Failed to load products for zone "${this.zone().name}"`, error);
+                            return of<Product[]>([]);
+                        })
+                    )
+                ),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(products => {
+                console.log(`🧩 LayoutZoneComponent: Zone "${this.zone().name}" has ${products.length} products`);
+                // Keep the product on screen after a content update (first product when it was removed)
+                const currentId = this.currentProduct()?.id;
+                this.products.set(products);
+                this.currentIndex.set(Math.max(0, products.findIndex(product => product.id === currentId)));
+            });
+    }
+
+    // Own slide timer - runs only with more than one product
+    private readonly playbackEffect = effect((onCleanup) => {
+        const count = this.products().length;
+        const duration = this.zone().slideDuration || DEFAULT_ZONE_SLIDE_DURATION;
+
+        if (count < 2 || this.paused()) return;
+
+        const intervalId = setInterval(
+            () => this.currentIndex.update(index => (index + 1) % count),
+            duration * 1000
+        );
+        onCleanup(() => clearInterval(intervalId));
+    });
+
+    ngOnDestroy(): void {
+        this.destroy$.next();
+        this.destroy$.complete();
+    }
+}
@@ -318,6 +318,9 @@ export class NavigationControlsComponent implements OnInit, OnDestroy {
     onKeyDown(event: KeyboardEvent): void {
         if (!this.remoteControlEnabled()) return;
 
+        // Already handled by the container's configurable remote control mappings
+        if (event.defaultPrevented) return;
+
         console.log(`NavigationControlsComponent: Key pressed: "${event.key}" (code: ${event.code})`);
 
         if (!this.isCarouselReady() && event.key !== 'h' && event.key !== 'H' && event.key !== 'Escape') {
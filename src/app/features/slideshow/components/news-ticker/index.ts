@@ -0,0 +1 @@
+export * from './news-ticker.component';
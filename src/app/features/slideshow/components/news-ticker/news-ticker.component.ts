@@ -0,0 +1,94 @@
+import {
+    Component,
+    ElementRef,
+    ViewChild,
+    input,
+    signal,
+    computed,
+    effect,
+    inject,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { SlideshowTickerSettings } from '@core/models/slideshow-config.interface';
+import { ScheduleService } from '@core/services/schedule.service';
+import { NO_SAFE_AREA_INSETS, SafeAreaInsets } from '@core/utils/safe-area.utils';
+import { calculateTickerScrollDuration, getActiveTickerItems } from '@core/utils/ticker.utils';
+
+/**
+ * NewsTickerComponent - Новинарска лента над слайдовете
+ *
+ * Отговорности:
+ * - Active items by date range (local calendar day)
+ * - GPU-friendly scroll (translate3d, duration from content width / speed)
+ * - Stepped paging fallback when animations are disabled (weak TVs)
+ * - Position top / bottom inside the TV safe area insets
+ */
+@Component({
+    selector: 'app-news-ticker',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './news-ticker.component.html',
+    styleUrl: './news-ticker.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush,
+    host: {
+        '[style.top]': "settings().position === 'top' ? insets().top : null",
+        '[style.bottom]': "settings().position === 'bottom' ? insets().bottom : null",
+        '[style.left]': 'insets().left',
+        '[style.right]': 'insets().right',
+        '[class.hidden]': 'activeItems().length === 0'
+    }
+})
+export class NewsTickerComponent {
+    private readonly scheduleService = inject(ScheduleService);
+
+    // ✅ Input signals
+    readonly settings = input.required<SlideshowTickerSettings>();
+    readonly animationsEnabled = input<boolean>(true);
+    readonly insets = input<SafeAreaInsets>(NO_SAFE_AREA_INSETS);
+
+    @ViewChild('content') private contentRef?: ElementRef<HTMLElement>;
+
+    // ✅ State signals
+    readonly scrollDuration = signal<number>(20);
+    readonly pageIndex = signal<number>(0);
+
+    // ✅ Computed signals
+    readonly activeItems = computed(() => getActiveTickerItems(this.settings(), this.scheduleService.now()));
+
+    readonly separator = computed(() => this.settings().separator ?? '•');
+
+    readonly currentPageItem = computed(() => {
+        const items = this.activeItems();
+        return items.length > 0 ? items[this.pageIndex() % items.length] : null;
+    });
+
+    // Re-measure scroll duration when text, font or speed changes
+    private readonly measureEffect = effect(() => {
+        const speed = this.settings().speed;
+        this.activeItems();
+        this.settings().fontSize;
+
+        if (!this.animationsEnabled()) return;
+
+        // Content is rendered in the next macrotask
+        setTimeout(() => {
+            const width = this.contentRef?.nativeElement.offsetWidth ?? 0;
+            if (width > 0) {
+                this.scrollDuration.set(calculateTickerScrollDuration(width, speed));
+            }
+        });
+    });
+
+    // Stepped paging (no animations) - one item per pageDuration
+    private readonly pagingEffect = effect((onCleanup) => {
+        const itemCount = this.activeItems().length;
+        const pageDuration = Math.max(2, this.settings().pageDuration) * 1000;
+
+        if (this.animationsEnabled() || itemCount <= 1) return;
+
+        const intervalId = setInterval(() => this.pageIndex.update(index => (index + 1) % itemCount), pageDuration);
+        onCleanup(() => clearInterval(intervalId));
+    });
+}
@@ -0,0 +1 @@
+export * from './overlay-widgets.component';
@@ -0,0 +1,109 @@
+import {
+    Component,
+    input,
+    signal,
+    computed,
+    effect,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { Product } from '@core/models/product.interface';
+import { SlideshowWidgetPosition, SlideshowWidgetSettings } from '@core/models/slideshow-config.interface';
+import { NO_SAFE_AREA_INSETS, SafeAreaInsets } from '@core/utils/safe-area.utils';
+import { formatClockTime, formatWidgetDate, getDiscountCountdown } from '@core/utils/widget.utils';
+
+interface OverlayWidget {
+    key: 'clock' | 'date' | 'countdown';
+    label?: string;
+    text: string;
+}
+
+interface OverlayWidgetCorner {
+    position: SlideshowWidgetPosition;
+    widgets: OverlayWidget[];
+}
+
+const CORNERS: SlideshowWidgetPosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+/**
+ * OverlayWidgetsComponent - Часовник, дата и обратно броене над слайдовете
+ *
+ * Отговорности:
+ * - Clock and date in bg-BG locale (own 1s tick)
+ * - Discount countdown for the current product (ProductDiscount.validUntil)
+ * - Widgets grouped by corner, stacked inside the TV safe area insets
+ */
+@Component({
+    selector: 'app-overlay-widgets',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './overlay-widgets.component.html',
+    styleUrl: './overlay-widgets.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class OverlayWidgetsComponent {
+    // ✅ Input signals
+    readonly settings = input.required<SlideshowWidgetSettings>();
+    readonly product = input<Product | null>(null);
+    readonly insets = input<SafeAreaInsets>(NO_SAFE_AREA_INSETS);
+    /** Space taken by the news ticker - corners on that edge move past it */
+    readonly tickerReserve = input<{ position: 'top' | 'bottom'; height: number } | null>(null);
+
+    // ✅ State signals
+    readonly now = signal<Date>(new Date());
+
+    // ✅ Computed signals
+    readonly corners = computed((): OverlayWidgetCorner[] => {
+        const settings = this.settings();
+        const now = this.now();
+        const widgets: Array<OverlayWidget & { position: SlideshowWidgetPosition }> = [];
+
+        if (settings.date.enabled) {
+            widgets.push({ key: 'date', position: settings.date.position, text: formatWidgetDate(now, settings.date.format) });
+        }
+
+        if (settings.clock.enabled) {
+            widgets.push({ key: 'clock', position: settings.clock.position, text: formatClockTime(now, settings.clock) });
+        }
+
+        if (settings.discountCountdown.enabled) {
+            const countdown = getDiscountCountdown(this.product(), now, settings.discountCountdown);
+            if (countdown) {
+                widgets.push({
+                    key: 'countdown',
+                    position: settings.discountCountdown.position,
+                    label: settings.discountCountdown.label,
+                    text: countdown
+                });
+            }
+        }
+
+        return CORNERS
+            .map(position => ({ position, widgets: widgets.filter(widget => widget.position === position) }))
+            .filter(corner => corner.widgets.length > 0);
+    });
+
+    // 1s tick only while at least one widget is enabled
+    private readonly tickEffect = effect((onCleanup) => {
+        const { clock, date, discountCountdown } = this.settings();
+        if (!clock.enabled && !date.enabled && !discountCountdown.enabled) return;
+
+        this.now.set(new Date());
+        const intervalId = setInterval(() => this.now.set(new Date()), 1000);
+        onCleanup(() => clearInterval(intervalId));
+    });
+
+    /**
+     * Absolute offsets for a corner container
+     */
+    getCornerStyle(position: SlideshowWidgetPosition): Record<string, string> {
+        const insets = this.insets();
+        const reserve = this.tickerReserve();
+        const [vertical, horizontal] = position.split('-') as ['top' | 'bottom', 'left' | 'right'];
+        return {
+            [vertical]: reserve?.position === vertical ? `calc(${insets[vertical]} + ${reserve.height}px)` : insets[vertical],
+            [horizontal]: insets[horizontal]
+        };
+    }
+}
@@ -51,7 +51,7 @@ export class SlideProgressComponent implements OnInit, OnDestroy {
     // ✅ Angular 18 Input signals
     readonly currentIndex = input.required<number>();
     readonly totalSlides = input.required<number>();
-    readonly slideInterval = input<number>(20000); // milliseconds
+    readonly slideInterval = input<number>(20000); // milliseconds - duration of the CURRENT slide (per-slide)
     readonly showCounter = input<boolean>(true);
     readonly showProgressBar = input<boolean>(true);
     readonly autoHide = input<boolean>(false);
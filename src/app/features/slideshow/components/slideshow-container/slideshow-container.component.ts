@@ -17,12 +17,44 @@ import {
     isDevMode,
 } from '@angular/core';
 import { isPlatformBrowser } from '@angular/common';
-import { Observable, Subject, interval, combineLatest, fromEvent, firstValueFrom, timer, Subscription, BehaviorSubject } from 'rxjs';
-import { takeUntil, startWith, debounceTime, filter, switchMap, tap, finalize } from 'rxjs/operators';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { Observable, Subject, interval, combineLatest, fromEvent, firstValueFrom, timer, defer, Subscription, BehaviorSubject } from 'rxjs';
+import { takeUntil, startWith, debounceTime, filter, switchMap, tap, finalize, skip, distinctUntilChanged, repeat, map, pairwise, withLatestFrom } from 'rxjs/operators';
 
 import { Product } from '@core/models/product.interface';
 import { ProductTemplate } from '@core/models/template.interface';
-import { SlideshowConfig, SlideshowTvSettings } from '@core/models/slideshow-config.interface';
+import {
+    SlideshowConfig,
+    SlideshowEndAction,
+    SlideshowGeneralSettings,
+    SlideshowSlide,
+    SlideshowTvSettings,
+    VideoPlaylistItem
+} from '@core/models/slideshow-config.interface';
+import { applyConfigOverrides } from '@core/utils/schedule.utils';
+import {
+    buildSlideshowSlides,
+    calculatePlaylistSlideDuration,
+    getSlideTemplateOverride,
+    hasNonProductPlaylistItems,
+    isPlayingVideoSlide
+} from '@core/utils/playlist.utils';
+import { shuffleProducts } from '@core/utils/product-selection.utils';
+import { applyProductOverrides } from '@core/utils/product-overrides.utils';
+import { getSafeAreaInsets, NO_SAFE_AREA_INSETS, SafeAreaInsets } from '@core/utils/safe-area.utils';
+import { DEFAULT_WIDGET_SETTINGS } from '@core/utils/widget.utils';
+import { getActiveEmergency, isEmergencyOnlyChange } from '@core/utils/emergency.utils';
+import { findRemoteControlAction } from '@core/utils/remote-control.utils';
+import { getCarouselZone, getSecondaryZones, getZoneStyles, hasTickerZone, isLayoutActive } from '@core/utils/layout.utils';
+import {
+    getDisplayRotation,
+    getRotatedStageStyles,
+    getViewportSize,
+    isPortraitStage,
+    rotateSafeAreaInsets,
+    ViewportSize
+} from '@core/utils/rotation.utils';
+import { isStackedTransition, resolveTransitionType, SlideTransitionType, toEmblaDuration } from '@core/utils/transition.utils';
 import { PerformanceLevel, TvPlatform, TvResolution } from '@core/models/enums';
 import { ProductApiService } from '@core/services/product-api.service';
 import { ApiError } from '@core/models/api-response.interface';
@@ -31,6 +63,14 @@ import { ConfigService } from '@core/services/config.service';
 import { TemplateRegistryService } from '@core/services/template-registry.service';
 import { PerformanceMonitorService } from '@core/services/performance-monitor.service';
 import { TvOptimizationsService } from '@core/services/tv-optimizations.service';
+import { ScheduleService } from '@core/services/schedule.service';
+import { MediaLibraryService } from '@core/services/media-library.service';
+import { PlaybackSyncService, ReceivedSyncState } from '@core/services/playback-sync.service';
+import { SyncPlaybackState } from '@core/models/sync.interface';
+import { getFollowerSlideIndex, resolveSyncSettings } from '@core/utils/sync.utils';
+import { ContentUpdateService } from '@core/services/content-update.service';
+import { ContentUpdate } from '@core/models/content-update.interface';
+import { describeContentUpdate, UPDATE_NOTIFICATION_DURATION } from '@core/utils/content-update.utils';
 import { SlideShowService } from '../../services/slideshow.service';
 import { ProductSlideComponent } from '../product-slide';
 import { SlideProgressComponent } from '../slide-progress';
@@ -38,6 +78,11 @@ import { NavigationControlsComponent } from '../navigation-controls';
 import { LoadingStateComponent } from '../loading-state';
 import { ErrorStateComponent } from '../error-state';
 import { TemplateLoaderComponent } from '../template-loader';
+import { CustomSlideComponent } from '../custom-slide';
+import { VideoSlideComponent } from '../video-slide';
+import { NewsTickerComponent } from '../news-ticker';
+import { OverlayWidgetsComponent } from '../overlay-widgets';
+import { LayoutZoneComponent } from '../layout-zone';
 import { EmblaCarouselDirective, EmblaCarouselType } from 'embla-carousel-angular';
 
 /**
@@ -59,7 +104,7 @@ import { EmblaCarouselDirective, EmblaCarouselType } from 'embla-carousel-angula
     imports: [CommonModule,
         // ProductSlideComponent, 
         SlideProgressComponent,
-        NavigationControlsComponent, LoadingStateComponent, ErrorStateComponent, EmblaCarouselDirective, TemplateLoaderComponent],
+        NavigationControlsComponent, LoadingStateComponent, ErrorStateComponent, EmblaCarouselDirective, TemplateLoaderComponent, CustomSlideComponent, VideoSlideComponent, NewsTickerComponent, OverlayWidgetsComponent, LayoutZoneComponent],
     templateUrl: './slideshow-container.component.html',
     styleUrls: ['./slideshow-container.component.scss'],
     changeDetection: ChangeDetectionStrategy.OnPush
@@ -89,7 +134,11 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
     private readonly templateRegistry = inject(TemplateRegistryService);
     private readonly performanceMonitor = inject(PerformanceMonitorService);
     private readonly tvOptimizations = inject(TvOptimizationsService);
+    private readonly scheduleService = inject(ScheduleService);
+    private readonly mediaLibrary = inject(MediaLibraryService);
     private readonly slideShowService = inject(SlideShowService);
+    private readonly playbackSync = inject(PlaybackSyncService);
+    private readonly contentUpdates = inject(ContentUpdateService);
     private readonly elementRef = inject(ElementRef);
     private readonly renderer = inject(Renderer2);
     private readonly platformId = inject(PLATFORM_ID);
@@ -113,8 +162,27 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
     // ✅ NEW: Transition state signal
     protected readonly isTransitioning = signal<boolean>(false);
 
+    // Loop tracking за loopMode 'once' / 'count'
+    protected readonly completedLoops = signal<number>(0);
+    protected readonly playbackEnded = signal<boolean>(false);
+    protected readonly activeEndAction = signal<SlideshowEndAction | null>(null);
+
+    // Product selection: set when fewer than minProducts match the filters
+    protected readonly productShortfall = signal<{ matched: number; required: number } | null>(null);
+
     // Auto-rotation timer управление
     private autoRotationTimer$?: Subscription;
+
+    // Emergency takeover: whether auto-rotation continues when the message is cleared
+    private emergencyPause: { resumeRotation: boolean } | null = null;
+    // Follower: local time the leader's current slide started (Date.now() based)
+    private syncSlideStartedAt = 0;
+    // Follower: leader playback is paused (user pause on the leader TV)
+    private readonly syncLeaderPaused = signal<boolean>(false);
+    // Background content update waiting for the next slide (the slide on screen was removed)
+    private pendingContentUpdate: ContentUpdate | null = null;
+    private contentUpdateNoticeTimeout?: ReturnType<typeof setTimeout>;
+    private readonly isHelpVisible = signal<boolean>(false);
     private readonly pausedByUser = signal<boolean>(false);
     private readonly lastUserInteraction = signal<number>(0);
     private readonly autoRotationEnabled = signal<boolean>(true);
@@ -138,6 +206,8 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
 
     // TV-specific reactive state  
     protected readonly performanceLevel = signal<PerformanceLevel>(PerformanceLevel.STANDARD);
+    // Performance level the playlist slides were built with (updated at loop boundaries only)
+    private readonly playlistPerformanceLevel = signal<PerformanceLevel>(PerformanceLevel.STANDARD);
     protected readonly isTvDevice = signal<boolean>(false);
     protected readonly tvPlatform = signal<TvPlatform | null>(null);
     protected readonly currentResolution = signal<TvResolution | null>(null);
@@ -162,11 +232,49 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         return config?.timing?.baseSlideDuration ?? 20000; // Default 20 seconds
     });
 
+    /**
+     * Duration per slide (customDuration / durationOverrides, clamped by timing.validation)
+     */
+    readonly slideDurations = computed((): number[] => {
+        const timing = this.config()?.timing;
+        if (!timing) {
+            return [];
+        }
+        const videoDurations = this.videoDurations();
+        return this.slides().map(slide =>
+            isPlayingVideoSlide(slide) && videoDurations[slide.key]
+                ? videoDurations[slide.key]
+                : calculatePlaylistSlideDuration(slide, timing)
+        );
+    });
+
+    /**
+     * Duration of the current slide - shared by auto-rotation timer and SlideProgress
+     */
+    readonly currentSlideDuration = computed((): number =>
+        this.slideDurations()[this.currentSlideIndex()] ?? this.slideInterval()
+    );
+
     readonly transitionDuration = computed((): number => {
         const config = this.config();
         return config?.timing?.transitionDuration ?? 500; // Default 500ms
     });
 
+    /**
+     * Transition actually rendered - zoom / flip downgrade to fade on BASIC, everything to none on LOW
+     */
+    readonly effectiveTransition = computed((): SlideTransitionType =>
+        resolveTransitionType(this.config()?.timing?.transitionType ?? 'slide', this.performanceLevel())
+    );
+
+    /** Transition duration for the rendered transition (0 for 'none') */
+    readonly effectiveTransitionDuration = computed((): number =>
+        this.effectiveTransition() === 'none' ? 0 : this.transitionDuration()
+    );
+
+    /** Fade / zoom / flip / none stack the slides in place instead of scrolling */
+    protected readonly isStackedTransition = computed(() => isStackedTransition(this.effectiveTransition()));
+
     // Performance-aware timing adjustments
     readonly effectiveSlideInterval = computed((): number => {
         const baseInterval = this.slideInterval();
@@ -204,6 +312,31 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
     protected readonly tvSettings = computed(() => this.config()?.tvOptimizations);
     protected readonly safeAreaEnabled = computed(() => this.tvSettings()?.safeArea?.enabled ?? true);
 
+    /** Stage rotation (portrait / upside-down mounted screens) */
+    protected readonly displayRotation = computed(() => getDisplayRotation(this.config()));
+    private readonly viewportSize = signal<ViewportSize>(getViewportSize());
+    protected readonly isPortrait = computed(() => isPortraitStage(this.displayRotation(), this.viewportSize()));
+
+    /** Synchronized playback for this screen (config + ?syncRole / ?syncOffset), null when disabled */
+    protected readonly syncSettings = computed(() => resolveSyncSettings(
+        this.config(),
+        isPlatformBrowser(this.platformId) ? window.location.search : ''
+    ));
+
+    /** Follower with a live leader - slides are driven by the leader, not the local timer */
+    protected readonly isSyncFollowing = this.playbackSync.isFollowingLeader;
+
+    private readonly syncSettings$ = toObservable(this.syncSettings);
+    private readonly syncFollowing$ = toObservable(this.isSyncFollowing);
+    private readonly syncLeaderState$ = toObservable(this.playbackSync.leaderState);
+    private readonly syncPublish$ = combineLatest([toObservable(this.currentSlideIndex), toObservable(this.pausedByUser)]);
+
+    /** Background content updates (polling follows autoUpdate settings) */
+    private readonly autoUpdateSettings$ = toObservable(computed(() => this.config()?.autoUpdate ?? null));
+
+    /** Short "content updated" summary (autoUpdate.behavior.showUpdateNotifications) */
+    protected readonly contentUpdateNotice = signal<string | null>(null);
+
     /**
      * Check if current template requires fullscreen mode (zero padding/margin).
      * Fullscreen templates bypass TV safe area padding for edge-to-edge display.
@@ -214,7 +347,7 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
      * @returns {boolean} True if current template should render in fullscreen mode
      */
     protected readonly isFullscreenTemplate = computed(() => {
-        const templateId = this.config()?.templates?.selectedTemplateId;
+        const templateId = this.currentTemplate();
 
         // List of template IDs that require fullscreen mode (no safe area padding)
         const fullscreenTemplateIds = ['minimal', 'classic', 'modern', 'menu', 'classic-promo'];
@@ -251,18 +384,30 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
 
     // TV-specific styling computed values
     protected readonly safeAreaStyles = computed(() => {
+        const rotation = this.displayRotation();
+
         // Fullscreen templates bypass safe area margins
         if (this.isFullscreenTemplate()) {
             console.log('🎬 Fullscreen template detected - disabling safe area margins');
-            return {};
+            return getRotatedStageStyles(rotation, NO_SAFE_AREA_INSETS);
         }
 
         const tvSettings = this.tvSettings();
         if (!this.safeAreaEnabled() || !tvSettings?.safeArea) {
-            return {};
+            return getRotatedStageStyles(rotation, NO_SAFE_AREA_INSETS);
         }
 
         const { safeArea } = tvSettings;
+
+        // Rotated stage: physical screen margins (`margin: N%` = N% of the screen width)
+        if (rotation !== 0) {
+            const screenMargin = `${safeArea.marginPercentage}vw`;
+            const margins = safeArea.customMargins
+                ? getSafeAreaInsets(safeArea)
+                : { top: screenMargin, right: screenMargin, bottom: screenMargin, left: screenMargin };
+            return getRotatedStageStyles(rotation, margins);
+        }
+
         if (safeArea.customMargins) {
             return {
                 'margin-top': `${safeArea.customMargins.top}px`,
@@ -278,6 +423,68 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         };
     });
 
+    /**
+     * Safe area insets for overlays (ticker, widgets)
+     * Fullscreen templates skip the container margins, so overlays apply the safe area themselves
+     */
+    protected readonly overlayInsets = computed((): SafeAreaInsets =>
+        this.isFullscreenTemplate()
+            ? rotateSafeAreaInsets(getSafeAreaInsets(this.tvSettings()?.safeArea), this.displayRotation())
+            : NO_SAFE_AREA_INSETS
+    );
+
+    /** News ticker settings (null when disabled) */
+    protected readonly tickerSettings = computed(() => {
+        const ticker = this.config()?.ticker;
+        return ticker?.enabled ? ticker : null;
+    });
+
+    /** Height reserved by the ticker bar, so corner widgets do not overlap it */
+    protected readonly tickerReserve = computed(() => {
+        const ticker = this.tickerSettings();
+        return ticker && !this.hasTickerZone() ? { position: ticker.position, height: Math.ceil(ticker.fontSize * 2.1) } : null;
+    });
+
+    /** Multi-zone layout (inactive = single full-screen carousel) */
+    protected readonly layout = computed(() => this.config()?.layout);
+    protected readonly isLayoutActive = computed(() => isLayoutActive(this.layout()));
+    protected readonly hasTickerZone = computed(() => hasTickerZone(this.layout()));
+
+    /** Main carousel zone position inside the safe-area frame */
+    protected readonly carouselZoneStyles = computed(() => {
+        const zone = this.isLayoutActive() ? getCarouselZone(this.layout()) : null;
+        return zone ? getZoneStyles(zone) : null;
+    });
+
+    /** Zones with their own content (products, image, ticker) */
+    protected readonly secondaryZones = computed(() => getSecondaryZones(this.layout()));
+
+    /** Layout frame padding - zones stay inside the TV safe area */
+    protected readonly layoutInsets = computed((): SafeAreaInsets =>
+        this.isLayoutActive() ? this.overlayInsets() : NO_SAFE_AREA_INSETS
+    );
+
+    /** Emergency takeover message (null when not active) */
+    protected readonly emergency = computed(() => getActiveEmergency(this.config()));
+
+    protected readonly isEmergencyActive = computed(() => !!this.emergency());
+
+    private readonly emergencyActive$ = toObservable(this.isEmergencyActive);
+
+    /** Takeover covers the whole screen - its text stays inside the TV safe area */
+    protected readonly emergencyInsets = computed((): SafeAreaInsets =>
+        rotateSafeAreaInsets(getSafeAreaInsets(this.tvSettings()?.safeArea), this.displayRotation())
+    );
+
+    /** Overlay widgets (configs saved before widgets existed get the defaults) */
+    protected readonly widgetSettings = computed(() => this.config()?.widgets ?? DEFAULT_WIDGET_SETTINGS);
+
+    /** Product on the current slide - null for menu, promo, image, video and announcement slides */
+    protected readonly currentSlideProduct = computed((): Product | null => {
+        const slide = this.slides()[this.currentSlideIndex()];
+        return slide?.type === 'product' ? slide.product : null;
+    });
+
     // Performance-based feature flags (using numeric enum)
     protected readonly animationsEnabled = computed(() => {
         const performanceLevel = this.performanceLevel();
@@ -296,16 +503,39 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
     private memoryCleanupInterval?: any;
     private performanceCheckInterval?: any;
     protected readonly preloadedImages = new Set<string>();
+    protected readonly preloadedVideos = new Set<string>();
 
     // TrackBy function for performance optimization
     protected trackByProductId = (index: number, product: Product): string => {
         return product.id || `product-${index}`;
     };
 
+    /**
+     * Slides rendered by the carousel (playlist items when enabled, one per product otherwise)
+     */
+    readonly slides = computed((): SlideshowSlide[] => {
+        const config = this.config();
+        // Overrides again with the media library resolver (`media://` images)
+        const products = applyProductOverrides(
+            this.products(),
+            config?.products,
+            url => this.mediaLibrary.resolveUrl(url)
+        );
+        return buildSlideshowSlides(config, products, this.playlistPerformanceLevel());
+    });
+
+    /** Video slides stop on the current frame while playback is paused (user / leader pause, emergency takeover) */
+    protected readonly isVideoPaused = computed(() =>
+        this.pausedByUser() || this.syncLeaderPaused() || this.isEmergencyActive()
+    );
+
+    /** Measured video length per slide key (ms) - used by SlideProgress for video slides */
+    private readonly videoDurations = signal<Record<string, number>>({});
+
     readonly currentProduct = computed(() => {
-        const products = this.products(); // или съответния signal с продукти
-        const index = this.currentSlideIndex(); // или съответния signal с индекс
-        return products.length > 0 ? products[index] : null;
+        const slides = this.slides();
+        const index = this.currentSlideIndex();
+        return slides.length > 0 ? slides[index]?.product ?? null : null;
     });
 
     // ✅ NEW: Additional computed signals for LoadingStateComponent integration
@@ -367,7 +597,49 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
 
     readonly currentTemplate = computed(() => {
         const config = this.config();
-        return config?.templates?.selectedTemplateId || 'classic';
+        return this.slideTemplateIds()[this.currentSlideIndex()]
+            || config?.templates?.selectedTemplateId
+            || 'classic';
+    });
+
+    /**
+     * Stream position per slide for template rotation/random modes.
+     * Slide i starts at position i and moves one loop ahead (+N) each time it is left,
+     * so the template is swapped while the slide is off-screen.
+     */
+    private readonly slideTemplatePositions = signal<number[]>([]);
+    private pendingTemplateAdvance: number | null = null;
+
+    /**
+     * Template ID per slide (resolved through TemplateRegistryService incl. fallback)
+     */
+    readonly slideTemplateIds = computed((): string[] => {
+        const settings = this.config()?.templates;
+        const slides = this.slides();
+        const positions = this.slideTemplatePositions();
+
+        if (!settings) {
+            return [];
+        }
+
+        return slides.map((slide, index) => {
+            // Playlist item template / menu & promo slides override the template mode
+            const override = getSlideTemplateOverride(slide);
+            return override
+                ? this.templateRegistry.resolveTemplateId(override, settings.fallbackTemplateId)
+                : this.templateRegistry.selectTemplate(settings, positions[index] ?? index, slides.length, slide.product);
+        });
+    });
+
+    /**
+     * Fallback template for TemplateLoader (null when fallback is disabled)
+     */
+    readonly fallbackTemplateId = computed((): string | null => {
+        const templates = this.config()?.templates;
+        if (templates?.allowFallback === false) {
+            return null;
+        }
+        return templates?.fallbackTemplateId || 'classic';
     });
 
     /**
@@ -378,6 +650,11 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
     readonly currentSlideCount = computed(() => {
         const templateId = this.config()?.templates?.selectedTemplateId;
 
+        // For Playlist - every item is its own slide
+        if (this.config()?.playlist?.enabled) {
+            return this.slides().length;
+        }
+
         // For Menu Template - count slides from menu config
         if (templateId === 'menu') {
             const menuConfig = this.config()?.templates?.templateSpecificConfig?.menu;
@@ -404,6 +681,25 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         return shouldRotate;
     });
 
+    /**
+     * Number of full loops to play before the end action runs
+     * - 'infinite': never ends
+     * - 'once': 1 loop
+     * - 'count': loopCount loops (minimum 1)
+     */
+    readonly targetLoopCount = computed((): number => {
+        const general = this.config()?.general;
+
+        switch (general?.loopMode) {
+            case 'once':
+                return 1;
+            case 'count':
+                return Math.max(1, general.loopCount ?? 1);
+            default:
+                return Infinity;
+        }
+    });
+
     readonly showProgressIndicators = computed(() => {
         const config = this.config();
         return config?.general?.showProgressIndicators || false;
@@ -435,16 +731,17 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
             // Performance optimizations based on TV capabilities
             ...(performanceLevel && performanceLevel <= 2 ? {
                 // Low performance TV settings
-                duration: 50, // Faster transitions for weak hardware
                 watchDrag: false,
                 watchResize: false,
             } : {
                 // Standard performance settings  
-                duration: 30,
                 watchDrag: false,
                 watchResize: true,
             }),
 
+            // 'slide' honors transitionDuration; stacked transitions only need Embla for the index
+            duration: this.isStackedTransition() ? 20 : toEmblaDuration(this.transitionDuration()),
+
             // Auto-play settings (handled by our custom logic)
             startIndex: 0,
         };
@@ -475,6 +772,9 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         this.autoRotationStartPending = false;
 
         this.stopAutoRotation();
+        this.playbackSync.stop();
+        this.contentUpdates.stop();
+        clearTimeout(this.contentUpdateNoticeTimeout);
 
         // Clean up subscriptions
         this.destroy$.next();
@@ -672,6 +972,7 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
             // Sync with our internal state САМО ако има реална промяна
             if (selectedIndex !== currentIndex) {
                 console.log(`Updating currentSlideIndex: ${currentIndex} -> ${selectedIndex}`);
+                this.pendingTemplateAdvance = currentIndex;
                 this.currentSlideIndex.set(selectedIndex);
 
                 // ✅ NEW: Sync progress bar без reset
@@ -684,6 +985,19 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
             console.log('Embla carousel transition settled');
             this.isTransitioning.set(false);
 
+            // Previous slide is off-screen now → prepare its next template
+            if (this.pendingTemplateAdvance !== null) {
+                this.advanceSlideTemplate(this.pendingTemplateAdvance);
+                this.pendingTemplateAdvance = null;
+            }
+
+            // Content update postponed because its slide was removed → apply on the new slide
+            if (this.pendingContentUpdate) {
+                const update = this.pendingContentUpdate;
+                this.pendingContentUpdate = null;
+                this.applySeamlessContentUpdate(update, true);
+            }
+
             // Performance monitoring: track transition time
             if (this.performanceMonitor) {
                 const measurementEnd = this.performanceMonitor.startApiMeasurement('carousel_transition');
@@ -705,6 +1019,24 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         });
     }
 
+    /**
+     * Move slide one loop ahead in the template stream (rotation/random modes)
+     */
+    private advanceSlideTemplate(index: number): void {
+        const count = this.slides().length;
+        const mode = this.config()?.templates?.mode;
+
+        if (mode !== 'rotation' && mode !== 'random') {
+            return;
+        }
+
+        this.slideTemplatePositions.update(positions => {
+            const next = positions.length === count ? [...positions] : this.slides().map((_, i) => i);
+            next[index] = (next[index] ?? index) + count;
+            return next;
+        });
+    }
+
     // ✅ NEW: Метод за progress sync
     private syncProgressWithCarousel(newIndex: number): void {
         // Sync progress bar плавно без reset
@@ -767,12 +1099,22 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
             .subscribe(config => {
                 console.log('📋 Config update received:', config);
                 if (config) {
-                    this.config.set(config);
+                    const previous = this.config();
+                    const resolved = this.scheduleService.resolveConfig(config);
+
+                    // 🚨 Only the emergency takeover changed - keep products and slide position
+                    if (previous && isEmergencyOnlyChange(previous, resolved)) {
+                        this.config.set(resolved);
+                        return;
+                    }
+
+                    // Apply dayparting overrides (active schedule entry) on top of stored config
+                    this.config.set(resolved);
                     this.updateTvSettings(config.tvOptimizations);
 
                     // Optional: Reload products only if this is a significant config change
                     // (Skip on initial load since we already called loadProducts above)
-                    const isInitialLoad = this.products().length === 0;
+                    const isInitialLoad = this.products().length === 0 && !this.productShortfall();
                     if (!isInitialLoad) {
                         console.log('🔄 Config changed after initial load, refreshing products');
                         this.loadProducts();
@@ -780,14 +1122,50 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
                 }
             });
 
+        // Previous / reloaded config of each storage reload (compared per cross-tab event)
+        const configPairs$ = this.configService.config$.pipe(
+            map(config => this.scheduleService.resolveConfig(config)),
+            pairwise()
+        );
+
         // ✅ NEW: Listen for config changes from other tabs
         this.configService.getConfigChanges$()
-            .pipe(takeUntil(this.destroy$))
-            .subscribe(() => {
+            .pipe(
+                withLatestFrom(configPairs$),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(([, [previous, next]]) => {
+                if (isEmergencyOnlyChange(previous, next)) {
+                    console.log('🚨 SlideShow: Emergency takeover changed in another tab - keeping slideshow position');
+                    return;
+                }
+
                 console.log('🔔 SlideShow: Config changed in another tab, reloading...');
-                this.handleConfigChangeFromAdmin();
+                this.handleConfigChangeFromAdmin(previous);
             });
 
+        // 🗓️ Dayparting: switch products/template/timing when the schedule window changes
+        this.scheduleService.activeEntryChanges$
+            .pipe(
+                distinctUntilChanged(),
+                skip(1), // Initial window is already applied via config$
+                takeUntil(this.destroy$)
+            )
+            .subscribe(entryId => this.handleScheduleChange(entryId));
+
+        // 🚨 Emergency takeover: freeze on activation, continue where it stopped when cleared
+        this.emergencyActive$
+            .pipe(
+                distinctUntilChanged(),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(active => active ? this.enterEmergencyTakeover() : this.exitEmergencyTakeover());
+
+        this.setupEmergencyHotkey();
+        this.setupViewportListener();
+        this.setupPlaybackSync();
+        this.setupContentUpdates();
+
         // Start performance monitoring instead of setupPerformanceMonitoring
         this.startPerformanceMonitoring();
     }
@@ -795,8 +1173,9 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
     /**
  * Handle config changes from admin panel (cross-tab)
  * Gracefully reloads slideshow with new settings
+ * @param oldConfig - Config before the change (config$ has already applied cross-tab changes)
  */
-    private handleConfigChangeFromAdmin(): void {
+    private handleConfigChangeFromAdmin(oldConfig: SlideshowConfig | null = this.config()): void {
         console.log('🔄 Handling config change from admin panel...');
 
 
@@ -807,8 +1186,7 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
             this.slideProgressComponent.handleConfigChange();
         }
 
-        const oldConfig = this.config();
-        const newConfig = this.configService.config();
+        const newConfig = this.scheduleService.effectiveConfig();
 
         console.log('📊 Config comparison:', {
             oldTemplate: oldConfig?.templates?.selectedTemplateId,
@@ -822,22 +1200,33 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         // Update local config signal
         this.config.set(newConfig);
 
-        // Check if products selection changed
+        // Check if products selection changed (selection, filters, ordering, limits)
         const productsChanged =
-            JSON.stringify(oldConfig?.products?.selectedProductIds || []) !==
-            JSON.stringify(newConfig.products.selectedProductIds);
+            JSON.stringify(oldConfig?.products || {}) !==
+            JSON.stringify(newConfig.products);
 
         // Check if timing changed
         const timingChanged =
             oldConfig?.timing?.baseSlideDuration !==
             newConfig.timing.baseSlideDuration;
 
+        // Check if loop settings changed (mode, count, end action)
+        const loopChanged =
+            JSON.stringify(this.getLoopSettings(oldConfig)) !==
+            JSON.stringify(this.getLoopSettings(newConfig));
+
+        // New loop / product / timing settings = new campaign → start counting loops from zero
+        if (loopChanged || productsChanged || timingChanged) {
+            this.resetLoopState();
+        }
+
         if (timingChanged) {
             console.log('⏱️ Slide duration changed, restarting timer...');
             this.restartAutoRotation();
         }
 
-        if (productsChanged) {
+        // Cross-tab changes: config$ has already started the reload with the new config
+        if (productsChanged && !this.isLoading()) {
             console.log('🔄 Products selection changed, reloading products...');
             this.loadProducts();
         }
@@ -855,6 +1244,17 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         console.log('✅ Config update handled successfully');
     }
 
+    /**
+     * Handle dayparting schedule window change
+     * Reuses the admin change flow so products/timing/template are swapped without reload
+     */
+    private handleScheduleChange(entryId: string | null): void {
+        const entry = this.scheduleService.activeEntry();
+        console.log(`🗓️ Schedule window changed → ${entry ? `"${entry.name}" (${entryId})` : 'base configuration'}`);
+
+        this.handleConfigChangeFromAdmin();
+    }
+
     /**
      * Update performance level based on current metrics (using numeric enum)
      */
@@ -873,6 +1273,11 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
             console.log(`SlideShowContainerComponent: Performance level changed to ${this.getPerformanceLevelName(newLevel)}`);
             this.performanceLevel.set(newLevel);
             this.adaptToPerformanceLevel(newLevel);
+
+            // Nothing on screen yet → playlist can follow immediately
+            if (this.slides().length === 0) {
+                this.playlistPerformanceLevel.set(newLevel);
+            }
         }
     }
 
@@ -918,15 +1323,7 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
 
         console.log('SlideShowContainerComponent: Setting up TV remote control listeners');
 
-        // Remote control navigation
-        // fromEvent<KeyboardEvent>(document, 'keydown')
-        //     .pipe(
-        //         takeUntil(this.destroy$),
-        //         filter(event => this.isRemoteControlKey(event.key))
-        //     )
-        //     .subscribe(event => {
-        //         this.handleRemoteControlInput(event);
-        //     });
+        // Remote control navigation - handled by handleRemoteControlInput (document:keydown)
 
         // Fullscreen change detection
         fromEvent(document, 'fullscreenchange')
@@ -938,55 +1335,59 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
 
     /**
      * Handle remote control input
+     * Keys come from tvOptimizations.remoteControl.keyMappings (key name, code or 'keyCode:<n>').
+     * Handled keys are marked with preventDefault so NavigationControls skips its built-in shortcuts.
      */
     @HostListener('document:keydown', ['$event'])
-    // handleRemoteControlInput(event: KeyboardEvent): void {
-    //     if (!this.remoteControlEnabled()) {
-    //         return;
-    //     }
+    handleRemoteControlInput(event: KeyboardEvent): void {
+        if (!this.remoteControlEnabled() || this.isEmergencyActive() || this.isHelpVisible()) {
+            return;
+        }
 
-    //     const tvSettings = this.tvSettings();
-    //     if (!tvSettings?.remoteControl?.keyMappings) {
-    //         return;
-    //     }
+        if (!this.isRemoteControlKey(event)) {
+            return;
+        }
 
-    //     const { keyMappings } = tvSettings.remoteControl;
-    //     const key = event.key;
-
-    //     // Prevent default TV browser behavior
-    //     event.preventDefault();
-    //     event.stopPropagation();
-
-    //     if (keyMappings.nextSlide.includes(key)) {
-    //         this.nextSlide();
-    //     } else if (keyMappings.previousSlide.includes(key)) {
-    //         this.previousSlide();
-    //     } else if (keyMappings.pauseResume.includes(key)) {
-    //         this.toggleAutoPlay();
-    //     } else if (keyMappings.restart.includes(key)) {
-    //         this.restartSlideshow();
-    //     }
+        const action = findRemoteControlAction(this.tvSettings()?.remoteControl?.keyMappings, event);
+        const slideCount = this.slides().length;
 
-    //     console.log(`SlideShowContainerComponent: Handled remote control input: ${key}`);
-    // }
+        // Prevent default TV browser behavior
+        event.preventDefault();
+        event.stopPropagation();
+
+        if (!this.emblaCarousel() || slideCount === 0) {
+            console.log('SlideShowContainerComponent: Carousel not ready - ignoring remote control input');
+            return;
+        }
+
+        switch (action) {
+            case 'nextSlide':
+                this.goToSlide((this.currentSlideIndex() + 1) % slideCount);
+                break;
+            case 'previousSlide':
+                this.goToSlide((this.currentSlideIndex() - 1 + slideCount) % slideCount);
+                break;
+            case 'pauseResume':
+                if (this.isAutoPlaying()) {
+                    this.onPauseAutoRotation();
+                } else {
+                    this.onResumeAutoRotation();
+                }
+                break;
+            case 'restart':
+                this.restartSlideshow();
+                break;
+        }
+
+        console.log(`🎮 SlideShowContainerComponent: Remote control "${event.key}" (keyCode: ${event.keyCode}) → ${action}`);
+    }
 
     /**
      * Check if key is a remote control key
      */
-    // private isRemoteControlKey(key: string): boolean {
-    //     const tvSettings = this.tvSettings();
-    //     if (!tvSettings?.remoteControl?.keyMappings) {
-    //         return false;
-    //     }
-
-    //     const { keyMappings } = tvSettings.remoteControl;
-    //     return [
-    //         ...keyMappings.nextSlide,
-    //         ...keyMappings.previousSlide,
-    //         ...keyMappings.pauseResume,
-    //         ...keyMappings.restart
-    //     ].includes(key);
-    // }
+    private isRemoteControlKey(event: KeyboardEvent): boolean {
+        return findRemoteControlAction(this.tvSettings()?.remoteControl?.keyMappings, event) !== null;
+    }
 
     /**
      * Apply TV safe area styles
@@ -996,6 +1397,11 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
             return;
         }
 
+        // Rotated stage is position: fixed with its own safe area - host margins do not apply
+        if (this.displayRotation() !== 0) {
+            return;
+        }
+
         const styles = this.safeAreaStyles();
         const element = this.elementRef.nativeElement;
 
@@ -1044,6 +1450,7 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
 
         // Clear preloaded images cache
         this.preloadedImages.clear();
+        this.preloadedVideos.clear();
 
         // Force garbage collection if available
         if ('gc' in window) {
@@ -1081,10 +1488,26 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
 
             // ✅ CORRECT: Use SlideShowService which adds slideshow business logic
             // This includes: config-based product limiting, slideshow-specific processing
-            const products = await firstValueFrom(this.slideShowService.loadProducts());
+            const selection = await firstValueFrom(this.slideShowService.loadProductSelection(this.config() ?? undefined));
+            const products = selection.products;
+
+            // Playlist with images / announcements can run without products
+            const hasStandaloneSlides = hasNonProductPlaylistItems(this.config()?.playlist);
+
+            if (!selection.meetsMinimum && !hasStandaloneSlides) {
+                console.warn(`⚠️ Not enough products: ${products.length} of minimum ${selection.minProducts}`);
+                this.products.set([]);
+                this.productShortfall.set({ matched: products.length, required: selection.minProducts });
+                return;
+            }
+
+            this.productShortfall.set(null);
 
-            if (products && products.length > 0) {
+            if (products && (products.length > 0 || hasStandaloneSlides)) {
                 this.products.set(products);
+                this.slideTemplatePositions.set([]);
+                this.pendingTemplateAdvance = null;
+                this.preloadVideoSlides(this.slides());
                 console.log(`✅ Loaded ${products.length} products successfully (via SlideShowService)`);
             } else {
                 console.warn('No products returned from SlideShowService');
@@ -1098,6 +1521,38 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
             this.isLoading.set(false);
         }
     }
+    /**
+     * Preload playlist videos (metadata + first frames) for smooth playback
+     * Skipped on LOW performance TVs - videos are removed or shown as poster there
+     */
+    private preloadVideoSlides(slides: SlideshowSlide[]): void {
+        if (!this.preloadingEnabled()) {
+            return;
+        }
+
+        const videoUrls = slides
+            .filter(slide => isPlayingVideoSlide(slide))
+            .map(slide => this.mediaLibrary.resolveUrl((slide.item as VideoPlaylistItem).videoUrl))
+            .filter(url => !!url && !this.preloadedVideos.has(url))
+            .slice(0, this.preloadCount());
+
+        console.log(`SlideShowContainerComponent: Preloading ${videoUrls.length} videos`);
+
+        videoUrls.forEach(url => {
+            const video = document.createElement('video');
+            video.muted = true;
+            video.preload = 'auto';
+            video.oncanplaythrough = () => {
+                this.preloadedVideos.add(url);
+                console.log(`SlideShowContainerComponent: Preloaded video ${url}`);
+            };
+            video.onerror = () => {
+                console.warn(`SlideShowContainerComponent: Failed to preload video ${url}`);
+            };
+            video.src = url;
+        });
+    }
+
     /**
      * Preload product images for smooth slideshow
      */
@@ -1189,8 +1644,10 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
     }
 
     public restartSlideshow(): void {
+        this.resetLoopState();
         this.currentSlideIndex.set(0);
-        this.isAutoPlaying.set(true);
+        this.emblaCarousel()?.scrollTo(0, true);
+        this.restartAutoRotation();
         console.log('SlideShowContainerComponent: Slideshow restarted');
     }
 
@@ -1237,8 +1694,8 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
 
         // Fallback to direct calculation
         const currentIndex = this.currentSlideIndex();
-        const products = this.products();
-        const nextIndex = (currentIndex + 1) % products.length;
+        const slides = this.slides();
+        const nextIndex = (currentIndex + 1) % slides.length;
         this.goToSlide(nextIndex, false);
 
         // console.log('SlideShowContainerComponent.nextSlide() - Manual navigation with pause');
@@ -1247,9 +1704,9 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         // this.handleUserInteraction('navigation');
 
         // const carousel = this.emblaCarousel();
-        // const products = this.products();
+        // const slides = this.slides();
 
-        // if (products.length === 0) {
+        // if (slides.length === 0) {
         //     console.warn('No products available for navigation');
         //     return;
         // }
@@ -1281,8 +1738,8 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
 
         // Fallback to direct calculation
         const currentIndex = this.currentSlideIndex();
-        const products = this.products();
-        const prevIndex = currentIndex === 0 ? products.length - 1 : currentIndex - 1;
+        const slides = this.slides();
+        const prevIndex = currentIndex === 0 ? slides.length - 1 : currentIndex - 1;
         this.goToSlide(prevIndex, false);
 
         // console.log('SlideShowContainerComponent.previousSlide() - Manual navigation with pause');
@@ -1291,9 +1748,9 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         // this.handleUserInteraction('navigation');
 
         // const carousel = this.emblaCarousel();
-        // const products = this.products();
+        // const slides = this.slides();
 
-        // if (products.length === 0) {
+        // if (slides.length === 0) {
         //     console.warn('No products available for navigation');
         //     return;
         // }
@@ -1310,7 +1767,7 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         //     carousel.scrollPrev();
         // } else {
         //     console.log('Carousel at beginning - using loop navigation');
-        //     carousel.scrollTo(products.length - 1, false); // Jump to end
+        //     carousel.scrollTo(slides.length - 1, false); // Jump to end
         // }
     }
 
@@ -1322,9 +1779,9 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         console.log('SlideShowContainerComponent.nextSlideAutomatic() - Automatic navigation (no pause)');
 
         const carousel = this.emblaCarousel();
-        const products = this.products();
+        const slides = this.slides();
 
-        if (products.length === 0) {
+        if (slides.length === 0) {
             console.warn('No products available for automatic navigation');
             return;
         }
@@ -1361,14 +1818,14 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         console.log(`SlideShowContainerComponent.goToSlide(${targetIndex}, smooth: ${smooth}) - Direct navigation`);
 
         const carousel = this.emblaCarousel();
-        const products = this.products();
+        const slides = this.slides();
 
-        if (!carousel || products.length === 0) {
+        if (!carousel || slides.length === 0) {
             console.warn('Cannot navigate - carousel not ready or no products');
             return;
         }
 
-        const validIndex = Math.max(0, Math.min(targetIndex, products.length - 1));
+        const validIndex = Math.max(0, Math.min(targetIndex, slides.length - 1));
 
         if (!carousel) {
             console.warn('Embla carousel not ready - using fallback for direct navigation');
@@ -1392,11 +1849,11 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
      * Fallback next slide method when Embla is not ready
      */
     private fallbackNextSlide(): void {
-        const products = this.products();
-        if (products.length === 0) return;
+        const slides = this.slides();
+        if (slides.length === 0) return;
 
         const currentIndex = this.currentSlideIndex();
-        const nextIndex = (currentIndex + 1) % products.length;
+        const nextIndex = (currentIndex + 1) % slides.length;
         this.currentSlideIndex.set(nextIndex);
     }
 
@@ -1404,11 +1861,11 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
      * Fallback previous slide method when Embla is not ready
      */
     private fallbackPreviousSlide(): void {
-        const products = this.products();
-        if (products.length === 0) return;
+        const slides = this.slides();
+        if (slides.length === 0) return;
 
         const currentIndex = this.currentSlideIndex();
-        const prevIndex = currentIndex === 0 ? products.length - 1 : currentIndex - 1;
+        const prevIndex = currentIndex === 0 ? slides.length - 1 : currentIndex - 1;
         this.currentSlideIndex.set(prevIndex);
     }
 
@@ -1451,6 +1908,7 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
 
         // Clear preloaded images
         this.preloadedImages.clear();
+        this.preloadedVideos.clear();
 
         console.log('SlideShowContainerComponent: TV optimizations cleaned up');
     }
@@ -1625,10 +2083,10 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
     handleProgressClick(event: { targetIndex: number; percentage: number }): void {
         console.log('SlideShowContainerComponent.handleProgressClick() - Manual progress navigation', event);
 
-        const products = this.products();
-        const targetIndex = Math.max(0, Math.min(event.targetIndex, products.length - 1));
+        const slides = this.slides();
+        const targetIndex = Math.max(0, Math.min(event.targetIndex, slides.length - 1));
 
-        if (products.length === 0) {
+        if (slides.length === 0) {
             console.warn('No products available for progress navigation');
             return;
         }
@@ -1636,18 +2094,19 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         // Use goToSlide method which handles Embla carousel properly
         this.goToSlide(targetIndex, true);
 
-        console.log(`Progress navigation to slide ${targetIndex + 1}/${products.length}`);
+        console.log(`Progress navigation to slide ${targetIndex + 1}/${slides.length}`);
     }
 
     // Handle help toggle from navigation controls
     onHelpToggle(helpVisible: boolean): void {
         console.log(`SlideShowContainerComponent.onHelpToggle(${helpVisible}) - Help overlay toggled`);
+        this.isHelpVisible.set(helpVisible);
         // Optional: could track help usage statistics
     }
 
     // Enhanced methods за по-добра интеграция
     hasProducts(): boolean {
-        return this.products().length > 0;
+        return this.slides().length > 0;
     }
 
     // =====================================
@@ -1819,6 +2278,45 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         // Може да се добави логика за performance tracking тук
     }
 
+    /**
+     * Current slide is a playable video - timer waits for its `ended` event
+     * (missing / unresolved media falls back to the timer so playback never gets stuck)
+     */
+    private isWaitingForVideoEnd(): boolean {
+        const slide = this.slides()[this.currentSlideIndex()];
+        return isPlayingVideoSlide(slide) &&
+            !!this.mediaLibrary.resolveUrl((slide.item as VideoPlaylistItem).videoUrl);
+    }
+
+    /**
+     * Video slide finished - advance instead of waiting for the timer
+     */
+    onVideoEnded(index: number): void {
+        if (index !== this.currentSlideIndex() || !this.shouldAutoRotationBeRunning()) {
+            return;
+        }
+
+        console.log(`🎬 Video slide ${index + 1} ended - advancing`);
+        this.nextSlideWithRotation();
+
+        // Fresh timer so the next slide gets its full duration
+        if (!this.playbackEnded()) {
+            this.restartAutoRotation();
+        }
+    }
+
+    /**
+     * Video failed to load/play - don't get stuck on a black slide
+     */
+    onVideoError(index: number, error: string): void {
+        console.error(`SlideShowContainerComponent.onVideoError() - Video slide ${index + 1} failed:`, error);
+        this.onVideoEnded(index);
+    }
+
+    onVideoDurationChange(key: string, duration: number): void {
+        this.videoDurations.update(durations => ({ ...durations, [key]: duration }));
+    }
+
     // =====================================
     //  AUTO-ROTATION СИСТЕМА
     // =====================================
@@ -1902,7 +2400,8 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
             hasMultipleSlides: rotationAllowed, // ✅ ПРОМЕНЕНО: вместо hasProducts
             hasConfig: config !== null && config !== undefined,
             isEnabled: enabled === true,
-            notPausedByUser: this.pausedByUser() === false
+            notPausedByUser: this.pausedByUser() === false,
+            notEnded: this.playbackEnded() === false
         };
 
         // Only log if conditions changed
@@ -1915,7 +2414,8 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         return conditions.hasMultipleSlides &&
             conditions.hasConfig &&
             conditions.isEnabled &&
-            conditions.notPausedByUser;
+            conditions.notPausedByUser &&
+            conditions.notEnded;
     }
 
     /**
@@ -2070,7 +2570,7 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
 
         setTimeout(() => {
             if (this.shouldAutoRotationBeRunning()) {
-                this.startAutoRotationTimer(this.slideInterval(), 'restart');
+                this.startAutoRotationTimer(this.currentSlideDuration(), 'restart');
             } else {
                 console.warn('⚠️ RESTART: Conditions not met after navigation - debugging:');
                 console.log({
@@ -2117,16 +2617,16 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
  * Enhanced timer creation with type awareness
  */
     private startAutoRotationTimer(initialDelay: number, type: 'restart' | 'continue'): void {
-        const interval = this.slideInterval();
-
         console.log(`🚀 Starting auto-rotation timer: ${type} mode`);
         console.log(`   Initial delay: ${initialDelay}ms`);
-        console.log(`   Repeat interval: ${interval}ms`);
+        console.log('   Next intervals: per-slide duration');
 
         this.stopAutoRotation();
 
-        // Create timer with custom initial delay, then regular intervals
-        this.autoRotationTimer$ = timer(initialDelay, interval).pipe(
+        // Custom initial delay, then each tick waits for the duration of the slide now on screen
+        let tickCount = 0;
+        this.autoRotationTimer$ = defer(() => timer(tickCount++ === 0 ? initialDelay : this.currentSlideDuration())).pipe(
+            repeat(),
             takeUntil(this.destroy$),
             filter(() => {
                 const notPaused = !this.pausedByUser();
@@ -2145,14 +2645,26 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
                     console.log('⏸️ Auto-rotation tick skipped - no carousel');
                     return false;
                 }
+                if (this.isWaitingForVideoEnd()) {
+                    console.log('⏸️ Auto-rotation tick skipped - waiting for video to end');
+                    return false;
+                }
+                if (this.isEmergencyActive()) {
+                    console.log('⏸️ Auto-rotation tick skipped - emergency takeover on screen');
+                    return false;
+                }
+                if (this.isSyncFollowing()) {
+                    console.log('⏸️ Auto-rotation tick skipped - following sync leader');
+                    return false;
+                }
 
                 return true;
             }),
-            tap((tickCount) => {
-                if (tickCount === 0) {
+            tap(() => {
+                if (tickCount === 1) {
                     console.log(`🎯 Auto-rotation first tick (${type}) - advancing to next slide`);
                 } else {
-                    console.log(`🎯 Auto-rotation tick #${tickCount + 1} - advancing to next slide`);
+                    console.log(`🎯 Auto-rotation tick #${tickCount} - advancing to next slide`);
                 }
 
                 // Reset timer state after each advance (fresh start for next slide)
@@ -2220,6 +2732,315 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         }, resumeDelay);
     }
 
+    /**
+     * Track the physical viewport - portrait detection for TVs whose OS rotates itself
+     */
+    private setupViewportListener(): void {
+        fromEvent(window, 'resize')
+            .pipe(
+                debounceTime(250),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.viewportSize.set(getViewportSize()));
+    }
+
+    /**
+     * Synchronized playback across screens
+     * Leader publishes slide changes, followers align index and timer to the leader
+     */
+    private setupPlaybackSync(): void {
+        this.syncSettings$
+            .pipe(takeUntil(this.destroy$))
+            .subscribe(settings => settings
+                ? this.playbackSync.start(settings, () => this.getSyncPlaybackState())
+                : this.playbackSync.stop()
+            );
+
+        // Leader: slide change / pause / resume → publish immediately
+        this.syncPublish$
+            .pipe(
+                filter(() => this.playbackSync.isLeader()),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(() => this.playbackSync.publishState());
+
+        // Follower: leader found → stop own timer, leader lost → continue with the remaining time
+        this.syncFollowing$
+            .pipe(
+                distinctUntilChanged(),
+                skip(1),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(following => following ? this.stopAutoRotation() : this.exitSyncFollow());
+
+        this.syncLeaderState$
+            .pipe(
+                filter((received): received is ReceivedSyncState => received !== null),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(received => this.applyLeaderState(received));
+    }
+
+    /**
+     * Playback state sent by the leader
+     */
+    private getSyncPlaybackState(): SyncPlaybackState | null {
+        const slideCount = this.slides().length;
+        if (slideCount === 0) return null;
+
+        const paused = this.timerState.isPaused;
+        return {
+            slideIndex: this.currentSlideIndex(),
+            slideCount,
+            elapsedMs: paused ? this.timerState.elapsedTime : Date.now() - this.timerState.startedAt,
+            durationMs: this.currentSlideDuration(),
+            paused
+        };
+    }
+
+    /**
+     * Follower: show the leader's slide (+ offset) and take over its elapsed time
+     */
+    private applyLeaderState({ state, receivedAt }: ReceivedSyncState): void {
+        const slideCount = this.slides().length;
+        const carousel = this.emblaCarousel();
+        if (slideCount === 0 || this.isEmergencyActive()) return;
+
+        this.syncSlideStartedAt = receivedAt - state.elapsedMs;
+        this.syncLeaderPaused.set(state.paused);
+
+        const targetIndex = getFollowerSlideIndex(state, this.syncSettings()?.slideOffset ?? 0, slideCount);
+        if (targetIndex === this.currentSlideIndex()) return;
+
+        console.log(`🔗 Sync: Leader on slide ${state.slideIndex + 1} → showing slide ${targetIndex + 1}`);
+        if (carousel) {
+            carousel.scrollTo(targetIndex);
+        } else {
+            this.currentSlideIndex.set(targetIndex);
+        }
+    }
+
+    /**
+     * Follower lost its leader - continue the current slide with the leader's remaining time
+     */
+    private exitSyncFollow(): void {
+        const elapsed = Math.max(0, Date.now() - this.syncSlideStartedAt);
+        this.syncLeaderPaused.set(false);
+        console.log(`🔗 Sync: Playing independently from slide ${this.currentSlideIndex() + 1} (${elapsed}ms elapsed)`);
+
+        this.timerState = {
+            startedAt: this.syncSlideStartedAt,
+            pausedAt: Date.now(),
+            elapsedTime: elapsed,
+            remainingTime: Math.max(0, this.currentSlideDuration() - elapsed),
+            isPaused: true
+        };
+        this.pausedByUser.set(false);
+        this.continueAutoRotation();
+    }
+
+    /**
+     * Background content updates: start / stop polling with the config, apply detected changes
+     */
+    private setupContentUpdates(): void {
+        this.autoUpdateSettings$
+            .pipe(takeUntil(this.destroy$))
+            .subscribe(settings => settings ? this.contentUpdates.start(settings) : this.contentUpdates.stop());
+
+        this.contentUpdates.updates$
+            .pipe(takeUntil(this.destroy$))
+            .subscribe(update => this.handleContentUpdate(update));
+    }
+
+    /**
+     * Apply changed stock data
+     * - seamlessUpdate: the slide on screen stays (same product, template and timer)
+     * - seamlessUpdate off, or a major change with restartOnMajorUpdate: reload and start from the first slide
+     */
+    private handleContentUpdate(update: ContentUpdate): void {
+        const behavior = this.config()?.autoUpdate?.behavior;
+
+        if (behavior?.showUpdateNotifications) {
+            this.showContentUpdateNotice(update);
+        }
+
+        // Nothing on screen yet (empty / error / shortfall state) → regular load
+        if (this.slides().length === 0 || this.hasError()) {
+            this.loadProducts();
+            return;
+        }
+
+        // Finished playback and the emergency takeover are never restarted by an update
+        const canRestart = !this.playbackEnded() && !this.isEmergencyActive();
+        const restart = !behavior?.seamlessUpdate || (update.isMajor && !!behavior.restartOnMajorUpdate);
+
+        if (restart && canRestart) {
+            console.log(`🔄 Content update${update.isMajor ? ' (major)' : ''} - restarting slideshow`);
+            this.pendingContentUpdate = null;
+            this.slideProgressComponent?.handleConfigChange();
+            this.loadProducts().then(() => this.restartSlideshow());
+            return;
+        }
+
+        this.applySeamlessContentUpdate(update);
+    }
+
+    /**
+     * Swap in the new product list while the current slide stays on screen
+     * @param force - Apply even if the slide on screen was removed (already postponed once)
+     */
+    private async applySeamlessContentUpdate(update: ContentUpdate, force = false): Promise<void> {
+        const config = this.config();
+        const previousIndex = this.currentSlideIndex();
+        const previousKey = this.slides()[previousIndex]?.key;
+        const previousPosition = this.slideTemplatePositions()[previousIndex] ?? previousIndex;
+
+        try {
+            const selection = await firstValueFrom(this.slideShowService.loadProductSelection(config ?? undefined));
+
+            // Not enough products left → regular load shows the shortfall state
+            if (!selection.meetsMinimum && !hasNonProductPlaylistItems(config?.playlist)) {
+                this.loadProducts();
+                return;
+            }
+
+            const nextKeys = buildSlideshowSlides(config, selection.products, this.playlistPerformanceLevel()).map(slide => slide.key);
+            if (nextKeys.length === 0) {
+                this.loadProducts();
+                return;
+            }
+
+            const nextIndex = previousKey ? nextKeys.indexOf(previousKey) : -1;
+            if (nextIndex < 0 && !force) {
+                console.log('⏳ Content update: slide on screen was removed - applying on the next slide');
+                this.pendingContentUpdate = update;
+                return;
+            }
+
+            const targetIndex = nextIndex >= 0 ? nextIndex : Math.min(previousIndex, nextKeys.length - 1);
+
+            this.products.set(selection.products);
+            this.productShortfall.set(null);
+            this.pendingTemplateAdvance = null;
+
+            // Slide on screen keeps its template stream position → same template in rotation / random modes
+            this.slideTemplatePositions.set(nextKeys.map((_, i) => i === nextIndex ? previousPosition : i));
+            this.preloadVideoSlides(this.slides());
+
+            if (targetIndex !== previousIndex) {
+                this.keepSlideOnScreen(targetIndex);
+            }
+
+            console.log(`✅ Content update applied seamlessly (${selection.products.length} products, slide ${targetIndex + 1})`);
+        } catch (error) {
+            console.error('❌ Failed to apply content update - keeping current slides', error);
+        }
+    }
+
+    /**
+     * The slide on screen moved to another index - follow it without animation or timer reset
+     * Embla re-initializes on slide DOM changes (keeping the old index), so the jump runs right after reInit.
+     */
+    private keepSlideOnScreen(index: number): void {
+        this.currentSlideIndex.set(index);
+
+        const carousel = this.emblaCarousel();
+        if (!carousel) return;
+
+        let jumped = false;
+        const jump = () => {
+            if (jumped) return;
+            jumped = true;
+            carousel.off('reInit', jump);
+            carousel.scrollTo(index, true);
+        };
+
+        carousel.on('reInit', jump);
+        setTimeout(jump, 100); // Slide DOM unchanged (reordered in place) → no reInit
+    }
+
+    /**
+     * Show a short summary of the update
+     */
+    private showContentUpdateNotice(update: ContentUpdate): void {
+        const summary = describeContentUpdate(update);
+        if (!summary) return;
+
+        clearTimeout(this.contentUpdateNoticeTimeout);
+        this.contentUpdateNotice.set(summary);
+        this.contentUpdateNoticeTimeout = setTimeout(() => this.contentUpdateNotice.set(null), UPDATE_NOTIFICATION_DURATION);
+    }
+
+    /**
+     * Emergency hotkey (general.emergencyStopKey) toggles the takeover for all tabs
+     * Works even when remote control navigation is disabled
+     */
+    private setupEmergencyHotkey(): void {
+        fromEvent<KeyboardEvent>(document, 'keydown')
+            .pipe(
+                filter(event => {
+                    const emergencyStopKey = this.config()?.general?.emergencyStopKey;
+                    return !!emergencyStopKey && event.key === emergencyStopKey;
+                }),
+                // Escape closes the navigation help first
+                filter(() => !this.isHelpVisible()),
+                takeUntil(this.destroy$)
+            )
+            .subscribe(event => {
+                event.preventDefault();
+                this.toggleEmergencyTakeover();
+            });
+    }
+
+    /**
+     * Show / clear the takeover via ConfigService (saved → admin tabs update through the storage listener)
+     */
+    private toggleEmergencyTakeover(): void {
+        const active = !this.isEmergencyActive();
+        console.log(`🚨 Emergency hotkey → ${active ? 'show' : 'clear'} takeover`);
+
+        this.configService.updateEmergencySettings(active
+            ? { active, activatedAt: new Date().toISOString(), activatedBy: 'remote' }
+            : { active })
+            .pipe(takeUntil(this.destroy$))
+            .subscribe({
+                error: (error) => console.error('❌ Failed to toggle emergency takeover:', error)
+            });
+    }
+
+    /**
+     * Emergency takeover shown - freeze auto-rotation with the remaining slide time
+     */
+    private enterEmergencyTakeover(): void {
+        if (this.emergencyPause) return;
+
+        const resumeRotation = this.isAutoPlaying() && !this.timerState.isPaused;
+        console.log(`🚨 Emergency takeover ON - slide ${this.currentSlideIndex() + 1} frozen (resume afterwards: ${resumeRotation})`);
+        this.emergencyPause = { resumeRotation };
+
+        if (resumeRotation) {
+            this.updateTimerState();
+            this.timerState.pausedAt = Date.now();
+            this.timerState.isPaused = true;
+            this.stopAutoRotation();
+        }
+    }
+
+    /**
+     * Emergency takeover cleared - continue the same slide with its remaining time
+     */
+    private exitEmergencyTakeover(): void {
+        const pause = this.emergencyPause;
+        if (!pause) return;
+
+        this.emergencyPause = null;
+        console.log(`✅ Emergency takeover OFF - continuing slide ${this.currentSlideIndex() + 1}`);
+
+        if (pause.resumeRotation) {
+            this.continueAutoRotation();
+        }
+    }
+
     /**
  * Reset timer state for fresh start
  */
@@ -2240,7 +3061,7 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
     private updateTimerState(): void {
         if (!this.timerState.isPaused) {
             this.timerState.elapsedTime = Date.now() - this.timerState.startedAt;
-            this.timerState.remainingTime = Math.max(0, this.slideInterval() - this.timerState.elapsedTime);
+            this.timerState.remainingTime = Math.max(0, this.currentSlideDuration() - this.timerState.elapsedTime);
         }
     }
 
@@ -2253,9 +3074,9 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         console.log('SlideShowContainerComponent.nextSlideWithRotation() - Timer-based automatic navigation');
 
         const carousel = this.emblaCarousel();
-        const products = this.products();
+        const slides = this.slides();
 
-        if (!carousel || products.length === 0) {
+        if (!carousel || slides.length === 0) {
             console.warn('Cannot advance slide - carousel not ready or no products');
             return;
         }
@@ -2274,6 +3095,12 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
             // Ако FPS = 0 (не се измерва), продължава нормално
         }
 
+        // Last slide finished → one full loop completed
+        const lastIndex = carousel.scrollSnapList().length - 1;
+        if (carousel.selectedScrollSnap() >= lastIndex && this.handleLoopCompleted()) {
+            return;
+        }
+
         // Advance to next slide using Embla
         if (carousel.canScrollNext()) {
             carousel.scrollNext();
@@ -2283,6 +3110,116 @@ export class SlideShowContainerComponent implements OnInit, OnDestroy, AfterView
         }
     }
 
+    /**
+     * Count a completed loop and run the end action when the target is reached
+     * @returns true if playback ended (caller should not advance)
+     */
+    private handleLoopCompleted(): boolean {
+        const completed = this.completedLoops() + 1;
+        this.completedLoops.set(completed);
+
+        // Video slides follow performance changes only between loops (never removes the slide on screen)
+        this.playlistPerformanceLevel.set(this.performanceLevel());
+
+        const target = this.targetLoopCount();
+        console.log(`🔁 Loop ${completed}/${target === Infinity ? '∞' : target} completed`);
+
+        if (completed < target) {
+            if (this.config()?.products?.ordering?.randomizeOnLoop) {
+                this.reshuffleForNextLoop();
+                return true;
+            }
+            return false;
+        }
+
+        this.runEndAction(this.config()?.general?.endAction ?? { type: 'stop' });
+        return true;
+    }
+
+    /**
+     * Execute end-of-loop action
+     * - stop: stay on the last slide
+     * - holding-slide / blank: overlay over the carousel
+     * - switch-config: apply alternate settings and keep looping forever
+     */
+    private runEndAction(action: SlideshowEndAction): void {
+        console.log(`🏁 Slideshow finished - end action: ${action.type}`);
+
+        if (action.type === 'switch-config') {
+            const config = this.config();
+
+            if (config && action.switchTo) {
+                this.switchToEndConfig(config, action);
+                return;
+            }
+
+            console.warn('⚠️ switch-config end action without target settings - stopping on last slide');
+        }
+
+        this.playbackEnded.set(true);
+        this.activeEndAction.set(action.type === 'switch-config' ? { type: 'stop' } : action);
+        this.stopAutoRotation();
+    }
+
+    /**
+     * Apply the alternate settings of a 'switch-config' end action
+     * The switched settings loop infinitely until the next config/schedule change.
+     */
+    private switchToEndConfig(config: SlideshowConfig, action: SlideshowEndAction): void {
+        const switched = applyConfigOverrides(config, action.switchTo);
+
+        this.config.set({
+            ...switched,
+            general: { ...switched.general, loopMode: 'infinite' }
+        });
+        this.completedLoops.set(0);
+
+        this.slideProgressComponent?.handleConfigChange();
+        this.loadProducts().then(() => {
+            this.emblaCarousel()?.scrollTo(0, true);
+            this.restartAutoRotation();
+        });
+    }
+
+    /**
+     * New random order for the next loop (ordering.randomizeOnLoop)
+     * Embla re-initializes on slide DOM changes, then we jump to the first slide.
+     */
+    private reshuffleForNextLoop(): void {
+        const products = shuffleProducts(this.products());
+        console.log('🔀 Randomizing product order for next loop');
+
+        this.products.set(products);
+        this.slideTemplatePositions.set([]);
+        this.pendingTemplateAdvance = null;
+
+        setTimeout(() => {
+            this.emblaCarousel()?.scrollTo(0, true);
+            this.restartAutoRotation();
+        });
+    }
+
+    /**
+     * Loop related general settings (compared on config changes)
+     */
+    private getLoopSettings(config: SlideshowConfig | null): Pick<SlideshowGeneralSettings, 'loopMode' | 'loopCount' | 'endAction'> {
+        const general = config?.general;
+        return {
+            loopMode: general?.loopMode ?? 'infinite',
+            loopCount: general?.loopCount,
+            endAction: general?.endAction
+        };
+    }
+
+    /**
+     * Reset loop counter and clear end-of-loop state
+     */
+    private resetLoopState(): void {
+        this.completedLoops.set(0);
+        this.playbackEnded.set(false);
+        this.activeEndAction.set(null);
+    }
+
     /**
      * Setup performance monitoring for rotation adjustments
      */
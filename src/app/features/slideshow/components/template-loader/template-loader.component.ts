@@ -22,8 +22,9 @@ import { takeUntil } from 'rxjs/operators';
 
 import { Product } from '@core/models/product.interface';
 import { TemplateRegistryService } from '@core/services/template-registry.service';
-import { ConfigService } from '@core/services/config.service';
+import { ScheduleService } from '@core/services/schedule.service';
 import { PerformanceMonitorService } from '@core/services/performance-monitor.service';
+import { getSoldOutDisplay, getStockSettings } from '@core/utils/stock-policy.utils';
 
 // Import TemplateFactory utility (будe created separately)
 // import { TemplateFactory } from '../../../templates/utils/template-factory.util';
@@ -65,6 +66,8 @@ export class TemplateLoaderComponent implements OnInit, OnDestroy, AfterViewInit
     readonly imageQuality = input<'low' | 'medium' | 'high'>('medium');
     readonly enableAnimations = input<boolean>(true);
     readonly forceReload = input<boolean>(false);
+    readonly fallbackTemplateName = input<string | null>('classic'); // null = fallback disabled
+    readonly templateSlideId = input<string | null>(null); // menu page / promo slide (playlist items)
 
     // ✅ Angular 18 Output signals
     readonly templateLoaded = output<{ templateName: string; success: boolean; loadTime: number }>();
@@ -73,7 +76,7 @@ export class TemplateLoaderComponent implements OnInit, OnDestroy, AfterViewInit
 
     // ✅ Service injection с inject()
     private readonly templateRegistry = inject(TemplateRegistryService);
-    private readonly configService = inject(ConfigService);
+    private readonly scheduleService = inject(ScheduleService);
     private readonly performanceMonitor = inject(PerformanceMonitorService);
     private readonly cdr = inject(ChangeDetectorRef);
 
@@ -125,10 +128,18 @@ export class TemplateLoaderComponent implements OnInit, OnDestroy, AfterViewInit
         if (this.hasError()) classes.push('template-loader--error');
         if (this.isReady()) classes.push('template-loader--ready');
         if (this.isUsingFallback()) classes.push('template-loader--fallback');
+        if (this.soldOutDisplay()) classes.push(`template-loader--sold-out-${this.soldOutDisplay()}`);
 
         return classes.join(' ');
     });
 
+    /** Sold out rendering from the stock policy (grey / overlay) */
+    readonly soldOutDisplay = computed(() =>
+        getSoldOutDisplay(this.product(), this.scheduleService.effectiveConfig().products.stock)
+    );
+
+    readonly soldOutText = computed(() => getStockSettings(this.scheduleService.effectiveConfig().products.stock).soldOutText);
+
     readonly hasLoadedComponent = computed(() => {
 
         const hasRef = this.currentComponentRef !== null;
@@ -265,6 +276,13 @@ export class TemplateLoaderComponent implements OnInit, OnDestroy, AfterViewInit
         this.isUsingFallbackSignal.set(false);
 
         try {
+            // Unknown/inactive template → configured fallback (registry would silently return classic)
+            if (!this.templateRegistry.hasTemplate(templateName)) {
+                console.warn(`TemplateLoaderComponent: Template '${templateName}' not registered`);
+                await this.loadFallbackTemplate(product, `Template '${templateName}' not found`);
+                return;
+            }
+
             // Get template component from registry
             const templateComponent = this.templateRegistry.getTemplateComponent(templateName);
 
@@ -291,6 +309,11 @@ export class TemplateLoaderComponent implements OnInit, OnDestroy, AfterViewInit
             componentRef.setInput('imageQuality', this.imageQuality());
             componentRef.setInput('enableAnimations', this.enableAnimations());
 
+            // Multi-slide templates (menu / classic-promo) render the requested page
+            if (this.templateSlideId() !== null && 'slideId' in componentRef.instance) {
+                componentRef.setInput('slideId', this.templateSlideId());
+            }
+
             // Subscribe to component outputs if available
             if (componentRef.instance.templateLoaded) {
                 componentRef.instance.templateLoaded
@@ -368,11 +391,11 @@ export class TemplateLoaderComponent implements OnInit, OnDestroy, AfterViewInit
     private async loadFallbackTemplate(product: Product, reason: string): Promise<void> {
         console.log(`TemplateLoaderComponent.loadFallbackTemplate() - Reason: ${reason}`);
 
-        const fallbackTemplate = 'classic'; // Always fall back to classic
+        const fallbackTemplate = this.fallbackTemplateName();
 
-        if (this.templateName() === fallbackTemplate) {
-            // If classic template itself fails, use inline fallback
-            this.handleLoadingError(reason, fallbackTemplate);
+        if (!fallbackTemplate || this.templateName() === fallbackTemplate) {
+            // Fallback disabled or fallback template itself fails - use inline fallback
+            this.handleLoadingError(reason, fallbackTemplate || this.templateName());
             return;
         }
 
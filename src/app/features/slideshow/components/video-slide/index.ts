@@ -0,0 +1 @@
+export * from './video-slide.component';
@@ -0,0 +1,122 @@
+import {
+    Component,
+    ElementRef,
+    ViewChild,
+    input,
+    output,
+    computed,
+    effect,
+    inject,
+    ChangeDetectionStrategy
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { VideoPlaylistItem } from '@core/models/slideshow-config.interface';
+import { MediaLibraryService } from '@core/services/media-library.service';
+
+/**
+ * VideoSlideComponent - Видео слайд от плейлистата
+ *
+ * Отговорности:
+ * - Muted inline playback само докато слайдът е активен
+ * - Рестарт от началото при всяко показване
+ * - paused (потребителска пауза / emergency takeover) спира без превъртане - продължава от същия кадър
+ * - Poster-only режим за LOW performance TVs
+ * - ended / videoError → контейнерът преминава към следващия слайд
+ */
+@Component({
+    selector: 'app-video-slide',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './video-slide.component.html',
+    styleUrl: './video-slide.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class VideoSlideComponent {
+    private readonly mediaLibrary = inject(MediaLibraryService);
+
+    // ✅ Input signals
+    readonly item = input.required<VideoPlaylistItem>();
+    readonly active = input<boolean>(false);
+    readonly posterOnly = input<boolean>(false);
+    readonly paused = input<boolean>(false);
+
+    // ✅ Outputs
+    readonly ended = output<void>();
+    readonly videoError = output<string>();
+    /** Video duration in milliseconds (after metadata is loaded) */
+    readonly durationChange = output<number>();
+
+    @ViewChild('video') private videoRef?: ElementRef<HTMLVideoElement>;
+
+    // ✅ Computed signals
+    readonly backgroundColor = computed(() => this.item().backgroundColor || '#000000');
+    readonly fitContain = computed(() => this.item().fit === 'contain');
+    readonly videoUrl = computed(() => this.mediaLibrary.resolveUrl(this.item().videoUrl));
+    readonly posterUrl = computed(() => this.mediaLibrary.resolveUrl(this.item().posterUrl));
+
+    // Slide was active on the last playback update (rewind only when it becomes active)
+    private wasActive = false;
+
+    // Play when the slide becomes active, pause (and rewind) otherwise
+    private readonly playbackEffect = effect(() => {
+        const active = this.active();
+        const paused = this.paused();
+        const posterOnly = this.posterOnly();
+        const videoUrl = this.videoUrl();
+
+        // Video element exists after first render - defer to next macrotask
+        setTimeout(() => {
+            const restart = active && !this.wasActive;
+            this.wasActive = active;
+            this.updatePlayback(active && !paused && !posterOnly && !!videoUrl, restart);
+        });
+    });
+
+    private updatePlayback(shouldPlay: boolean, restart: boolean): void {
+        const video = this.videoRef?.nativeElement;
+        if (!video) return;
+
+        if (restart) {
+            video.currentTime = 0;
+        }
+
+        if (!shouldPlay) {
+            video.pause();
+            return;
+        }
+
+        video.muted = true;
+        video.play().catch(error => {
+            // play() interrupted by pause() / a new source - not a playback failure
+            if (error?.name === 'AbortError') return;
+
+            console.warn(`VideoSlideComponent: Autoplay failed for "${this.item().name}"`, error);
+            this.videoError.emit(String(error?.message ?? error));
+        });
+    }
+
+    onLoadedMetadata(event: Event): void {
+        const duration = (event.target as HTMLVideoElement).duration;
+        if (Number.isFinite(duration) && duration > 0) {
+            this.durationChange.emit(Math.round(duration * 1000));
+        }
+    }
+
+    onEnded(): void {
+        if (this.active()) {
+            console.log(`🎬 Video ended: ${this.item().name}`);
+            this.ended.emit();
+        }
+    }
+
+    onError(): void {
+        // Media library URL not resolved yet - not an error
+        if (!this.videoUrl()) return;
+
+        console.warn(`VideoSlideComponent: Failed to load video ${this.item().videoUrl}`);
+        if (this.active()) {
+            this.videoError.emit(`Failed to load video ${this.item().videoUrl}`);
+        }
+    }
+}
@@ -2,14 +2,17 @@ import { Injectable, inject } from '@angular/core';
 import { Observable, of, BehaviorSubject, interval, Subscription } from 'rxjs';
 import { tap, switchMap, takeWhile, map } from 'rxjs/operators';
 
-import { Product } from '@core/models/product.interface';
+import { Product, ProductSelectionResult } from '@core/models/product.interface';
 import { ProductTemplate } from '@core/models/template.interface';
 import { SlideshowConfig } from '@core/models/slideshow-config.interface';
 import { ProductApiService } from '@core/services/product-api.service';
 import { ConfigService } from '@core/services/config.service';
+import { ScheduleService } from '@core/services/schedule.service';
 import { TemplateRegistryService } from '@core/services/template-registry.service';
 import { PerformanceMonitorService } from '@core/services/performance-monitor.service';
 import { PerformanceLevel } from '@core/models/enums';
+import { prepareSlideshowProducts, selectSlideshowProducts } from '@core/utils/product-selection.utils';
+import { getZoneProducts } from '@core/utils/layout.utils';
 
 /**
  * SlideShowService управлява логиката на слайдшоу, включително преходите между слайдове,
@@ -23,6 +26,7 @@ export class SlideShowService {
     // Инжектиране на сервиси с използване на функцията inject
     private productApiService = inject(ProductApiService);
     private configService = inject(ConfigService);
+    private scheduleService = inject(ScheduleService);
     private templateRegistry = inject(TemplateRegistryService);
     private performanceMonitor = inject(PerformanceMonitorService);
 
@@ -37,57 +41,51 @@ export class SlideShowService {
 
     /**
      * Зарежда продукти с помощта на ProductApiService според конфигурацията
+     * @param config - Конфигурация за използване (по подразбиране ефективната от графика)
      */
 
-    loadProducts(): Observable<Product[]> {
-        console.log('🔄 SlideShowService.loadProducts()');
+    loadProducts(config: SlideshowConfig = this.scheduleService.effectiveConfig()): Observable<Product[]> {
+        return this.loadProductSelection(config).pipe(
+            map(selection => selection.products)
+        );
+    }
 
-        // Get configuration
-        const config = this.configService.config();
-        const selectedProductIds = config.products.selectedProductIds || [];
-        const maxProducts = this.getMaxProductCountSafe();
+    /**
+     * Зарежда продукти и прилага целия selection pipeline
+     * (pricing / stock → selectedProductIds → filters → ordering → maxProducts → minProducts)
+     * @param config - Конфигурация за използване (по подразбиране ефективната от графика)
+     */
+    loadProductSelection(config: SlideshowConfig = this.scheduleService.effectiveConfig()): Observable<ProductSelectionResult> {
+        console.log('🔄 SlideShowService.loadProductSelection()');
+
+        const settings = {
+            ...config.products,
+            maxProducts: config.products.maxProducts ?? this.getMaxProductCountSafe()
+        };
 
         return this.productApiService.getProducts().pipe(
-            map((products: Product[]) => {
-                console.log(`✅ Received ${products.length} products from API`);
-
-                // ✅ FILTER: Only show selected products from admin panel
-                let filteredProducts: Product[];
-
-                if (selectedProductIds.length > 0) {
-                    // Show ONLY selected products
-                    filteredProducts = products.filter(p => selectedProductIds.includes(p.id));
-                    console.log(`🎯 Filtered to ${filteredProducts.length} selected products (from ${selectedProductIds.length} IDs)`);
-                } else {
-                    // No selection = show first N products (fallback)
-                    filteredProducts = products.slice(0, maxProducts);
-                    console.log(`⚠️ No products selected in admin, showing first ${filteredProducts.length}`);
+            map((products: Product[]) => selectSlideshowProducts(prepareSlideshowProducts(products, settings), settings)),
+            tap((selection: ProductSelectionResult) => {
+                if (!selection.meetsMinimum) {
+                    console.warn(`⚠️ Only ${selection.products.length} products - minimum is ${selection.minProducts}`);
                 }
-
-                return filteredProducts;
-            }),
-            tap((products: Product[]) => {
-                console.log(`✅ SlideShow will display ${products.length} products`);
+                console.log(`✅ SlideShow will display ${selection.products.length} products`);
             })
         );
     }
 
-    // loadProducts(): Observable<Product[]> {
-    //     console.log('🔄 SlideShowService.loadProducts()');
-    //     // Получаваме лимит на продукти от конфигурацията
-    //     const maxProducts = this.getMaxProductCount();
-
-    //     return this.productApiService.getProducts().pipe(
-    //         tap((products: Product[]) => {
-    //             console.log(`✅ Заредени ${products.length} продукта`);
-
-    //             // Ограничаваме броя продукти, ако надвишава лимита от конфигурацията
-    //             if (products.length > maxProducts) {
-    //                 console.log(`⚠️ Броят продукти надвишава лимита (${maxProducts}), отрязваме до лимита`);
-    //             }
-    //         })
-    //     );
-    // }
+    /**
+     * Зарежда продуктите на layout зона (собствен списък, без selection pipeline-а)
+     * @param productIds - ID-та в реда на показване (празен списък = всички продукти)
+     */
+    loadZoneProducts(productIds: string[] = []): Observable<Product[]> {
+        return this.productApiService.getProducts().pipe(
+            map((allProducts: Product[]) => getZoneProducts(
+                prepareSlideshowProducts(allProducts, this.scheduleService.effectiveConfig().products),
+                productIds
+            ))
+        );
+    }
 
     /**
      * Зарежда шаблон по ID
@@ -225,7 +223,7 @@ export class SlideShowService {
      */
     getMaxProductCount(): number {
         // Получаваме стойност от конфигурацията
-        const config = this.configService.config();
+        const config = this.scheduleService.effectiveConfig();
         // Връщаме максимален брой продукти или 10 по подразбиране
         return config?.products?.maxProducts ?? 10;
     }
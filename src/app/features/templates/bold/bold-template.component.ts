@@ -2,6 +2,9 @@ import { Component, OnInit, ChangeDetectionStrategy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 
 import { BaseProductTemplateComponent } from '../base/base-product-template.component';
+import { ProductQrCodeComponent } from '@shared/components/product-qr-code';
+import { ProductBadgesComponent } from '@shared/components/product-badges';
+import { ProductTextComponent } from '@shared/components/product-text';
 
 /**
  * Bold product template - STUB VERSION
@@ -11,12 +14,12 @@ import { BaseProductTemplateComponent } from '../base/base-product-template.comp
 @Component({
     selector: 'app-bold-template',
     standalone: true,
-    imports: [CommonModule],
+    imports: [CommonModule, ProductQrCodeComponent, ProductBadgesComponent, ProductTextComponent],
     template: `
     <!-- Bold Template STUB - Basic fallback display -->
-    <div [class]="getTemplateClasses()">
-      <div style="padding: 40px; text-align: center; background: linear-gradient(45deg, #ff6b35, #f7931e); min-height: 100vh; display: flex; flex-direction: column; justify-content: center; color: white;">
-        <h1 style="font-size: 36px; margin-bottom: 20px; font-weight: 900; text-shadow: 2px 2px 4px rgba(0,0,0,0.3);">{{ product().name }}</h1>
+    <div [class]="getTemplateClasses()" style="position: relative;">
+      <div style="padding: 40px; text-align: center; background: linear-gradient(45deg, #ff6b35, #f7931e); min-height: var(--stage-height, 100vh); display: flex; flex-direction: column; justify-content: center; color: white;">
+        <h1 style="font-size: 36px; margin-bottom: 20px; font-weight: 900; text-shadow: 2px 2px 4px rgba(0,0,0,0.3);"><app-product-text [product]="product()" field="name" /></h1>
         <div style="font-size: 32px; margin-bottom: 16px; font-weight: 800; text-shadow: 2px 2px 4px rgba(0,0,0,0.3);">{{ formatPrice(product().price) }}</div>
         <p style="font-size: 22px; opacity: 0.9;">BOLD TEMPLATE - В РАЗРАБОТКА</p>
         <img 
@@ -26,6 +29,8 @@ import { BaseProductTemplateComponent } from '../base/base-product-template.comp
           style="max-width: 350px; max-height: 220px; object-fit: cover; margin: 20px auto; border-radius: 12px; box-shadow: 0 4px 20px rgba(0,0,0,0.3);"
         />
       </div>
+      <app-product-badges [product]="product()" [templateId]="templateName" />
+      <app-product-qr-code [product]="product()" [templateId]="templateName" />
     </div>
   `,
     changeDetection: ChangeDetectionStrategy.OnPush
@@ -7,6 +7,7 @@ import {
     inject,
     signal,
     computed,
+    input,
     ChangeDetectionStrategy
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
@@ -15,8 +16,15 @@ import { takeUntil } from 'rxjs/operators';
 
 import { BaseProductTemplateComponent } from '../base/base-product-template.component';
 import { Product } from '@core/models/product.interface';
-import { ConfigService } from '@core/services/config.service';
+import { ScheduleService } from '@core/services/schedule.service';
 import { ProductApiService } from '@core/services/product-api.service';
+import { ContentUpdateService } from '@core/services/content-update.service';
+import { getDisplayRotation, isPortraitStage } from '@core/utils/rotation.utils';
+import { prepareSlideshowProducts } from '@core/utils/product-selection.utils';
+import { getSoldOutDisplay, getStockSettings } from '@core/utils/stock-policy.utils';
+import { ProductQrCodeComponent } from '@shared/components/product-qr-code';
+import { ProductBadgesComponent } from '@shared/components/product-badges';
+import { ProductTextComponent } from '@shared/components/product-text';
 import {
     ClassicPromoTemplateConfig,
     ClassicPromoSlide,
@@ -40,11 +48,12 @@ import {
  * - 2 products: 2 large columns (1fr 1fr)
  * - 3 products: 3 medium columns (1fr 1fr 1fr)
  * - 4 products: 4 small columns (1fr 1fr 1fr 1fr)
+ * - Portrait screens: 1 column (stacked rows) for 2-3 products, 2x2 for 4
  */
 @Component({
     selector: 'app-classic-promo-template',
     standalone: true,
-    imports: [CommonModule],
+    imports: [CommonModule, ProductQrCodeComponent, ProductBadgesComponent, ProductTextComponent],
     templateUrl: './classic-promo-template.component.html',
     styleUrl: './classic-promo-template.component.scss',
     changeDetection: ChangeDetectionStrategy.OnPush
@@ -54,9 +63,13 @@ export class ClassicPromoTemplateComponent extends BaseProductTemplateComponent
     readonly templateName = 'classic-promo';
     readonly displayName = 'Classic Promo';
 
+    // Playlist: which promo slide to show (first slide when null)
+    readonly slideId = input<string | null>(null);
+
     // Service injection
-    private readonly configService = inject(ConfigService);
+    private readonly scheduleService = inject(ScheduleService);
     private readonly productApiService = inject(ProductApiService);
+    private readonly contentUpdates = inject(ContentUpdateService);
 
     // Lifecycle management
     private readonly destroy$ = new Subject<void>();
@@ -80,16 +93,32 @@ export class ClassicPromoTemplateComponent extends BaseProductTemplateComponent
 
     readonly productCount = computed(() => this.slideProducts().length);
 
+    readonly isPortrait = computed(() =>
+        isPortraitStage(getDisplayRotation(this.scheduleService.effectiveConfig()))
+    );
+
     readonly columnCount = computed(() => {
         const count = this.productCount();
+        if (this.isPortrait()) {
+            return count <= 3 ? 1 : 2; // Stacked rows or 2x2
+        }
         return Math.min(Math.max(count, 2), 4); // Clamp between 2-4
     });
 
+    readonly rowCount = computed(() =>
+        Math.max(1, Math.ceil(this.productCount() / this.columnCount()))
+    );
+
     readonly gridTemplateColumns = computed(() => {
         const count = this.columnCount();
         return `repeat(${count}, 1fr)`;
     });
 
+    readonly gridTemplateRows = computed(() => {
+        const count = this.rowCount();
+        return `repeat(${count}, 1fr)`;
+    });
+
     readonly layoutBackgroundColor = computed(() =>
         this.config().layout.backgroundColor
     );
@@ -138,6 +167,16 @@ export class ClassicPromoTemplateComponent extends BaseProductTemplateComponent
         // Load configuration
         this.loadConfiguration();
 
+        // Background stock update - refresh prices without the loading state
+        this.contentUpdates.updates$
+            .pipe(takeUntil(this.destroy$))
+            .subscribe(() => {
+                const slide = this.currentSlideSignal();
+                if (slide) {
+                    this.loadSlide(slide, true);
+                }
+            });
+
         // Signal template loaded
         this.onTemplateLoaded();
     }
@@ -157,7 +196,7 @@ export class ClassicPromoTemplateComponent extends BaseProductTemplateComponent
     private loadConfiguration(): void {
         try {
             // Access current configuration using signal accessor
-            const slideshowConfig = this.configService.config();
+            const slideshowConfig = this.scheduleService.effectiveConfig();
 
             if (!slideshowConfig) {
                 console.warn('No slideshow configuration found, using defaults');
@@ -174,7 +213,8 @@ export class ClassicPromoTemplateComponent extends BaseProductTemplateComponent
 
                 // Load first slide by default
                 if (classicPromoConfig.slides.length > 0) {
-                    this.loadSlide(classicPromoConfig.slides[0]);
+                    const slide = classicPromoConfig.slides.find(s => s.slideId === this.slideId());
+                    this.loadSlide(slide ?? classicPromoConfig.slides[0]);
                 } else {
                     console.warn('No slides configured, using default');
                     this.loadDefaultSlide();
@@ -194,19 +234,25 @@ export class ClassicPromoTemplateComponent extends BaseProductTemplateComponent
 
     /**
      * Load a specific slide and its products
+     * @param silent - Keep the current products on screen while loading (background updates)
      */
-    private loadSlide(slide: ClassicPromoSlide): void {
+    private loadSlide(slide: ClassicPromoSlide, silent = false): void {
         console.log(`Loading slide: ${slide.name} with ${slide.productIds.length} products`);
 
         this.currentSlideSignal.set(slide);
-        this.isLoadingSignal.set(true);
+        if (!silent) {
+            this.isLoadingSignal.set(true);
+        }
         this.errorMessageSignal.set('');
 
         // Fetch products for this slide using getProducts() method
         this.productApiService.getProducts()
             .pipe(takeUntil(this.destroy$))
             .subscribe({
-                next: (products: Product[]) => {
+                next: (allProducts: Product[]) => {
+                    // Configured price lists and stock policy
+                    const products = prepareSlideshowProducts(allProducts, this.scheduleService.effectiveConfig().products);
+
                     // Filter products that match slide's productIds
                     const slideProducts = products.filter((product: Product) =>
                         slide.productIds.includes(product.id)
@@ -262,6 +308,17 @@ export class ClassicPromoTemplateComponent extends BaseProductTemplateComponent
         return product.id;
     }
 
+    /**
+     * Sold out rendering from the stock policy (grey / overlay, null = normal)
+     */
+    getSoldOutDisplay(product: Product): 'grey' | 'overlay' | null {
+        return getSoldOutDisplay(product, this.scheduleService.effectiveConfig().products.stock);
+    }
+
+    get soldOutText(): string {
+        return getStockSettings(this.scheduleService.effectiveConfig().products.stock).soldOutText;
+    }
+
     /**
      * Get truncated product description for display
      */
@@ -2,6 +2,9 @@ import { Component, OnInit, ChangeDetectionStrategy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 
 import { BaseProductTemplateComponent } from '../base/base-product-template.component';
+import { ProductQrCodeComponent } from '@shared/components/product-qr-code';
+import { ProductBadgesComponent } from '@shared/components/product-badges';
+import { ProductTextComponent } from '@shared/components/product-text';
 
 /**
  * Classic product template - Traditional centered layout
@@ -18,7 +21,7 @@ import { BaseProductTemplateComponent } from '../base/base-product-template.comp
 @Component({
     selector: 'app-classic-template',
     standalone: true,
-    imports: [CommonModule],
+    imports: [CommonModule, ProductQrCodeComponent, ProductBadgesComponent, ProductTextComponent],
     templateUrl: './classic-template.component.html',
     styleUrl: './classic-template.component.scss',
     changeDetection: ChangeDetectionStrategy.OnPush
@@ -102,16 +102,26 @@ export function calculateOptimalFontSize(
  * @param groupCount - Number of groups to display
  * @param totalProductCount - Total number of products (for density calculation)
  * @param screenWidth - Screen width in pixels (optional, defaults to window.innerWidth)
- * @returns Number of columns (2-6) - capped to prevent off-screen overflow
+ * @param columnControl - Manual override / auto optimizations (optional)
+ * @param screenHeight - Screen height in pixels (optional, defaults to window.innerHeight)
+ * @returns Number of columns (2-6, portrait 1-3) - capped to prevent off-screen overflow
  */
 export function calculateColumnCount(
     groupCount: number,
     totalProductCount: number = 0,
     screenWidth?: number,
     columnControl?: ColumnControlConfig,
+    screenHeight?: number,
 ): number {
     const width = screenWidth || (typeof window !== 'undefined' ? window.innerWidth : 1920);
-    console.log(`\n🔢 [calculateColumnCount] START - Groups: ${groupCount}, Products: ${totalProductCount}, Screen: ${width}px`);
+    const height = screenHeight || (typeof window !== 'undefined' ? window.innerHeight : 1080);
+    console.log(`\n🔢 [calculateColumnCount] START - Groups: ${groupCount}, Products: ${totalProductCount}, Screen: ${width}x${height}px`);
+
+    // ✅ PORTRAIT: narrow screen = fewer columns, but each column is taller and fits more products
+    const isPortrait = height > width;
+    const minColumns = isPortrait ? 1 : 2;
+    const maxColumns = isPortrait ? 3 : 6;
+    const columnHeightFactor = isPortrait ? Math.min(2, height / width) : 1;
 
     // ✅ CRITICAL FIX: Group headers take vertical space!
     // Each group header is ~1.4x larger than product font + padding/border
@@ -128,7 +138,12 @@ export function calculateColumnCount(
 
     // First pass: estimate columns based on groups
     let estimatedColumns = 3; // default
-    if (groupCount <= 2) estimatedColumns = 2;
+    if (isPortrait) {
+        if (groupCount <= 1) estimatedColumns = 1;
+        else if (groupCount <= 4) estimatedColumns = 2;
+        else estimatedColumns = 3;
+    }
+    else if (groupCount <= 2) estimatedColumns = 2;
     else if (groupCount <= 4) estimatedColumns = 3;
     else if (groupCount <= 6) estimatedColumns = 4;
     else if (groupCount <= 9) estimatedColumns = 5;
@@ -143,6 +158,8 @@ export function calculateColumnCount(
     else if (estimatedColumns <= 4) PRODUCTS_PER_COLUMN = 9; // Increased from 8
     else PRODUCTS_PER_COLUMN = 8; // 5+ columns - increased from 7
 
+    PRODUCTS_PER_COLUMN = Math.floor(PRODUCTS_PER_COLUMN * columnHeightFactor);
+
     console.log(`📊 [calculateColumnCount] Products per column: ${PRODUCTS_PER_COLUMN}`);
 
     // Calculate minimum columns needed based on EFFECTIVE products (including group headers)
@@ -160,7 +177,7 @@ export function calculateColumnCount(
 
     if (effectiveProductCount > threshold) {
         console.log(`⚠️ [calculateColumnCount] Products exceed 90% capacity! Adding +1 column`);
-        calculatedColumns = Math.min(6, calculatedColumns + 1);
+        calculatedColumns = Math.min(maxColumns, calculatedColumns + 1);
     }
 
     if (columnControl) {
@@ -178,8 +195,8 @@ export function calculateColumnCount(
     // ✅ FINAL: Log final column count
     console.log(`✅ [calculateColumnCount] Final columns: ${calculatedColumns} for ${totalProductCount} products + ${groupCount} groups = ${effectiveProductCount} effective units`);
 
-    // Final bounds: 2-6 columns
-    return Math.min(6, Math.max(2, calculatedColumns));
+    // Final bounds: 2-6 columns (portrait 1-3)
+    return Math.min(maxColumns, Math.max(minColumns, calculatedColumns));
 }
 
 /**
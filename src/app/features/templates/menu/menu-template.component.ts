@@ -7,6 +7,7 @@ import {
     inject,
     signal,
     computed,
+    input,
     ChangeDetectionStrategy
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
@@ -15,6 +16,8 @@ import { Subject, takeUntil } from 'rxjs';
 // Core services
 import { ProductApiService } from '@core/services/product-api.service';
 import { ConfigService } from '@core/services/config.service';
+import { ScheduleService } from '@core/services/schedule.service';
+import { ContentUpdateService } from '@core/services/content-update.service';
 
 // Models
 import { ProductGroupWithProducts } from '@core/models/api/product-group.interface';
@@ -30,6 +33,11 @@ import {
     getTotalProductCount
 } from './helpers/menu-template-helpers';
 import { convertBgnToEur, shouldShowEurCurrency } from '@core/utils/currency.utils';
+import { prepareSlideshowProducts } from '@core/utils/product-selection.utils';
+import { getSoldOutDisplay, getStockSettings } from '@core/utils/stock-policy.utils';
+import { getDisplayRotation, getStageSize } from '@core/utils/rotation.utils';
+import { ProductQrCodeComponent } from '@shared/components/product-qr-code';
+import { ProductTextComponent } from '@shared/components/product-text';
 
 /**
  * Menu Template Component
@@ -52,7 +60,7 @@ import { convertBgnToEur, shouldShowEurCurrency } from '@core/utils/currency.uti
 @Component({
     selector: 'app-menu-template',
     standalone: true,
-    imports: [CommonModule],
+    imports: [CommonModule, ProductQrCodeComponent, ProductTextComponent],
     templateUrl: './menu-template.component.html',
     styleUrl: './menu-template.component.scss',
     changeDetection: ChangeDetectionStrategy.OnPush
@@ -62,9 +70,14 @@ export class MenuTemplateComponent implements OnInit, OnDestroy {
     readonly templateName = 'menu';
     readonly displayName = 'Меню';
 
+    // Playlist: which menu page to show (first page when null)
+    readonly slideId = input<string | null>(null);
+
     // Service injection
     private readonly productApiService = inject(ProductApiService);
     private readonly configService = inject(ConfigService);
+    private readonly scheduleService = inject(ScheduleService);
+    private readonly contentUpdates = inject(ContentUpdateService);
 
     // Lifecycle management
     private readonly destroy$ = new Subject<void>();
@@ -113,6 +126,14 @@ export class MenuTemplateComponent implements OnInit, OnDestroy {
                 console.log('🔔 MenuTemplate: Config changed in admin panel, reloading...');
                 this.loadMenuData();
             });
+
+        // ✅ Background stock update - refresh prices / groups without the loading state
+        this.contentUpdates.updates$
+            .pipe(takeUntil(this.destroy$))
+            .subscribe(() => {
+                console.log('🆕 MenuTemplate: Stock data updated, refreshing menu...');
+                this.loadMenuData(true);
+            });
     }
 
     ngOnDestroy(): void {
@@ -122,14 +143,17 @@ export class MenuTemplateComponent implements OnInit, OnDestroy {
 
     /**
      * Load menu configuration and data from API
+     * @param silent - Keep the current menu on screen while loading (background updates)
      */
-    private loadMenuData(): void {
+    private loadMenuData(silent = false): void {
         console.log('📂 Loading menu data...');
-        this.isLoadingSignal.set(true);
+        if (!silent) {
+            this.isLoadingSignal.set(true);
+        }
         this.errorMessageSignal.set('');
 
         // Get current config
-        const config = this.configService.config();
+        const config = this.scheduleService.effectiveConfig();
         const menuConfig = config.templates.templateSpecificConfig?.menu;
 
         // Validate menu config exists
@@ -157,8 +181,12 @@ export class MenuTemplateComponent implements OnInit, OnDestroy {
                         return;
                     }
 
-                    // Store all groups
-                    this.allGroupsSignal.set(response.data);
+                    // Store all groups (with the configured price lists and stock policy)
+                    const productSettings = this.scheduleService.effectiveConfig().products;
+                    this.allGroupsSignal.set(response.data.map(group => ({
+                        ...group,
+                        group_products: prepareSlideshowProducts(group.group_products, productSettings)
+                    })));
 
                     // Apply filters and settings
                     this.applyMenuConfiguration(menuConfig);
@@ -178,8 +206,8 @@ export class MenuTemplateComponent implements OnInit, OnDestroy {
     private applyMenuConfiguration(menuConfig: MenuTemplateConfig): void {
         console.log('⚙️ Applying menu configuration:', menuConfig);
 
-        // Get current slide (MVP: always first slide)
-        const currentSlide = menuConfig.slides[0];
+        // Get current slide (playlist page or first slide)
+        const currentSlide = menuConfig.slides.find(slide => slide.slideId === this.slideId()) ?? menuConfig.slides[0];
         if (!currentSlide) {
             this.handleError('No slides configured in menu template');
             return;
@@ -204,11 +232,14 @@ export class MenuTemplateComponent implements OnInit, OnDestroy {
         const fontConfig = menuConfig.fontScaling;
 
         // Calculate column count FIRST (considering both groups and products)
+        // Stage size - width/height swapped when the screen is rotated to portrait
+        const stage = getStageSize(getDisplayRotation(this.scheduleService.effectiveConfig()));
         const columns = calculateColumnCount(
             groupCount,
             totalProducts,
-            undefined,  // screenWidth - let function use window.innerWidth
-            menuConfig.columnControl  // ✨ Pass column control config
+            stage.width,
+            menuConfig.columnControl,  // ✨ Pass column control config
+            stage.height
         );
 
         // Log column control details if present
@@ -281,6 +312,17 @@ export class MenuTemplateComponent implements OnInit, OnDestroy {
         }).format(price);
     }
 
+    /**
+     * Sold out rendering from the stock policy (grey / overlay, null = normal)
+     */
+    protected getSoldOutDisplay(product: Product): 'grey' | 'overlay' | null {
+        return getSoldOutDisplay(product, this.scheduleService.effectiveConfig().products.stock);
+    }
+
+    protected get soldOutText(): string {
+        return getStockSettings(this.scheduleService.effectiveConfig().products.stock).soldOutText;
+    }
+
     /**
      * Format price in EUR (temporary promotional feature)
      * Returns null if EUR display is disabled
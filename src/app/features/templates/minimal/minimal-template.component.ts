@@ -2,6 +2,9 @@ import { Component, OnInit, ChangeDetectionStrategy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 
 import { BaseProductTemplateComponent } from '../base/base-product-template.component';
+import { ProductQrCodeComponent } from '@shared/components/product-qr-code';
+import { ProductBadgesComponent } from '@shared/components/product-badges';
+import { ProductTextComponent } from '@shared/components/product-text';
 
 /**
  * Minimal product template - Fullscreen TV-optimized layout
@@ -24,7 +27,7 @@ import { BaseProductTemplateComponent } from '../base/base-product-template.comp
 @Component({
   selector: 'app-minimal-template',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, ProductQrCodeComponent, ProductBadgesComponent, ProductTextComponent],
   templateUrl: './minimal-template.component.html',
   styleUrl: './minimal-template.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush
@@ -2,6 +2,9 @@ import { Component, OnInit, ChangeDetectionStrategy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 
 import { BaseProductTemplateComponent } from '../base/base-product-template.component';
+import { ProductQrCodeComponent } from '@shared/components/product-qr-code';
+import { ProductBadgesComponent } from '@shared/components/product-badges';
+import { ProductTextComponent } from '@shared/components/product-text';
 
 /**
  * Modern product template - STUB VERSION
@@ -11,12 +14,12 @@ import { BaseProductTemplateComponent } from '../base/base-product-template.comp
 @Component({
   selector: 'app-modern-template',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, ProductQrCodeComponent, ProductBadgesComponent, ProductTextComponent],
   template: `
     <!-- Modern Template STUB - Basic fallback display -->
-    <div [class]="getTemplateClasses()">
-      <div style="padding: 40px; text-align: center; background: #f5f5f5; min-height: 100vh; display: flex; flex-direction: column; justify-content: center;">
-        <h1 style="font-size: 32px; color: #333; margin-bottom: 20px;">{{ product().name }}</h1>
+    <div [class]="getTemplateClasses()" style="position: relative;">
+      <div style="padding: 40px; text-align: center; background: #f5f5f5; min-height: var(--stage-height, 100vh); display: flex; flex-direction: column; justify-content: center;">
+        <h1 style="font-size: 32px; color: #333; margin-bottom: 20px;"><app-product-text [product]="product()" field="name" /></h1>
         <div style="font-size: 28px; color: #ff6b35; margin-bottom: 8px;">{{ formatPrice(product().price) }}</div>
         @if (formatPriceEur(product().price)) {
         <div style="font-size: 28px; color: #ff6b35; margin-bottom: 16px;">{{ formatPriceEur(product().price) }}</div>
@@ -29,6 +32,8 @@ import { BaseProductTemplateComponent } from '../base/base-product-template.comp
           style="max-width: 300px; max-height: 200px; object-fit: cover; margin: 20px auto; border-radius: 8px;"
         />
       </div>
+      <app-product-badges [product]="product()" [templateId]="templateName" />
+      <app-product-qr-code [product]="product()" [templateId]="templateName" />
     </div>
   `,
   changeDetection: ChangeDetectionStrategy.OnPush
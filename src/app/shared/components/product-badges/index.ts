@@ -0,0 +1 @@
+export * from './product-badges.component';
\ No newline at end of file
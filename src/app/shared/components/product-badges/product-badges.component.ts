@@ -0,0 +1,70 @@
+// src/app/shared/components/product-badges/product-badges.component.ts
+
+import { Component, ChangeDetectionStrategy, computed, inject, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { Product, ProductBadge } from '@core/models/product.interface';
+import { ScheduleService } from '@core/services/schedule.service';
+import { getTemplateBadges } from '@core/utils/badge-rules.utils';
+
+type BadgeCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/** Gap between the safe area edge and the badges */
+const EDGE_GAP = '1.5vmin';
+
+const CORNERS: BadgeCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+/**
+ * ProductBadgesComponent - product badges (NEW, SALE, TOP...) for templates
+ *
+ * Отговорности:
+ * - Badges from SlideshowConfig.badges rules + built-in discount / low stock badge
+ * - Per-template badge cap (SlideshowConfig.badges.templateLimits[templateId])
+ * - Badges grouped by corner; full-screen templates stay inside the TV safe area
+ * - `contained` - positioned inside a product card (classic-promo grid) instead of the screen
+ *
+ * Usage: place inside a positioned element of the template (absolutely positioned)
+ */
+@Component({
+    selector: 'app-product-badges',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './product-badges.component.html',
+    styleUrl: './product-badges.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProductBadgesComponent {
+    private readonly scheduleService = inject(ScheduleService);
+
+    readonly product = input<Product | null>(null);
+    readonly templateId = input.required<string>();
+    readonly contained = input<boolean>(false);
+
+    readonly badges = computed(() =>
+        getTemplateBadges(this.product(), this.scheduleService.effectiveConfig().badges, this.templateId())
+    );
+
+    /** Non-empty corners in fixed order */
+    readonly corners = computed(() => {
+        const badges = this.badges();
+        return CORNERS
+            .map(corner => ({ corner, badges: badges.filter(badge => badge.position === corner) }))
+            .filter(group => group.badges.length > 0);
+    });
+
+    getCornerStyles(corner: BadgeCorner): Record<string, string> {
+        const [vertical, horizontal] = corner.split('-') as ['top' | 'bottom', 'left' | 'right'];
+        const gap = this.contained() ? '0.75em' : EDGE_GAP;
+
+        return this.contained()
+            ? { [vertical]: gap, [horizontal]: gap }
+            : {
+                [vertical]: `calc(var(--safe-area-${vertical}, 0px) + ${gap})`,
+                [horizontal]: `calc(var(--safe-area-${horizontal}, 0px) + ${gap})`
+            };
+    }
+
+    trackBadge(index: number, badge: ProductBadge): string {
+        return `${badge.type ?? 'badge'}-${index}`;
+    }
+}
@@ -0,0 +1 @@
+export * from './product-qr-code.component';
\ No newline at end of file
@@ -0,0 +1,65 @@
+// src/app/shared/components/product-qr-code/product-qr-code.component.ts
+
+import { Component, ChangeDetectionStrategy, computed, inject, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { Product } from '@core/models/product.interface';
+import { ScheduleService } from '@core/services/schedule.service';
+import { AuthService } from '@core/services/auth.service';
+import { buildQrCodeUrl, getQrCodePlacement } from '@core/utils/product-qr.utils';
+import { QrCodeComponent } from '../qr-code/qr-code.component';
+
+/** Gap between the safe area edge and the code */
+const EDGE_GAP = '1.5vmin';
+
+/**
+ * ProductQrCodeComponent - "Купи онлайн" QR element for templates
+ *
+ * Отговорности:
+ * - Builds the product link from SlideshowConfig.qrCode.urlPattern and the shop domain
+ * - Per-template position / size (SlideshowConfig.qrCode.templates[templateId])
+ * - Stays inside the TV safe area (--safe-area-* set by the slideshow container)
+ * - Renders nothing when disabled or when the link cannot be built
+ *
+ * Usage: place as the last child of the template root (positioned absolutely)
+ */
+@Component({
+    selector: 'app-product-qr-code',
+    standalone: true,
+    imports: [CommonModule, QrCodeComponent],
+    templateUrl: './product-qr-code.component.html',
+    styleUrl: './product-qr-code.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProductQrCodeComponent {
+    private readonly scheduleService = inject(ScheduleService);
+    private readonly authService = inject(AuthService);
+
+    /** Product on the slide; null = shop home page (menu, promo) */
+    readonly product = input<Product | null>(null);
+    readonly templateId = input.required<string>();
+
+    private readonly settings = computed(() => this.scheduleService.effectiveConfig().qrCode);
+
+    readonly placement = computed(() => getQrCodePlacement(this.settings(), this.templateId()));
+
+    readonly url = computed(() => {
+        const settings = this.settings();
+        if (!settings || !this.placement()) return null;
+        return buildQrCodeUrl(settings.urlPattern, this.product(), this.authService.shopDomain());
+    });
+
+    readonly label = computed(() => this.settings()?.label?.trim() ?? '');
+
+    readonly positionStyles = computed((): Record<string, string> => {
+        const placement = this.placement();
+        if (!placement) return {};
+
+        const [vertical, horizontal] = placement.position.split('-') as ['top' | 'bottom', 'left' | 'right'];
+        return {
+            [vertical]: `calc(var(--safe-area-${vertical}, 0px) + ${EDGE_GAP})`,
+            [horizontal]: `calc(var(--safe-area-${horizontal}, 0px) + ${EDGE_GAP})`,
+            width: `calc(min(var(--stage-width, 100vw), var(--stage-height, 100vh)) * ${placement.size / 100})`
+        };
+    });
+}
@@ -0,0 +1 @@
+export * from './product-text.component';
\ No newline at end of file
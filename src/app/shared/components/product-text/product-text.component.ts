@@ -0,0 +1,67 @@
+// src/app/shared/components/product-text/product-text.component.ts
+
+import { Component, ChangeDetectionStrategy, computed, inject, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+import { Product } from '@core/models/product.interface';
+import { ProductLanguageService } from '@core/services/product-language.service';
+import {
+    getProductTextMode,
+    getSecondaryText,
+    isSecondaryTextVisible,
+    ProductTextField
+} from '@core/utils/product-language.utils';
+
+/**
+ * ProductTextComponent - product name / description in one or two languages
+ *
+ * Отговорности:
+ * - 'primary' - only the primary text (as before)
+ * - 'side-by-side' - secondary text under the primary one, smaller and lighter
+ * - 'alternate' - one language at a time, switched by ProductLanguageService
+ * - Products without secondary text always show the primary text
+ *
+ * Usage: inside the template element that carries the text styles
+ * (<h1 class="product-name"><app-product-text [product]="product()" field="name" /></h1>)
+ */
+@Component({
+    selector: 'app-product-text',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './product-text.component.html',
+    styleUrl: './product-text.component.scss',
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ProductTextComponent {
+    private readonly language = inject(ProductLanguageService);
+
+    readonly product = input<Product | null>(null);
+    readonly field = input.required<ProductTextField>();
+
+    /** Primary text as formatted by the template (default: product[field]) */
+    readonly text = input<string | null>(null);
+
+    /** Truncate the secondary text like the template truncates the primary one */
+    readonly maxLength = input<number | null>(null);
+
+    readonly primaryText = computed(() => this.text() ?? this.product()?.[this.field()] ?? '');
+
+    readonly secondaryText = computed(() => {
+        if (this.language.mode() === 'primary') return '';
+        return this.truncate(getSecondaryText(this.product(), this.field()), this.maxLength());
+    });
+
+    readonly mode = computed(() => getProductTextMode(this.language.mode(), this.secondaryText()));
+
+    readonly showSecondary = computed(() =>
+        isSecondaryTextVisible(this.language.mode(), this.secondaryText(), this.language.showSecondary())
+    );
+
+    private truncate(text: string, maxLength: number | null): string {
+        if (!maxLength || text.length <= maxLength) return text;
+
+        const truncated = text.substring(0, maxLength);
+        const lastSpace = truncated.lastIndexOf(' ');
+        return (lastSpace > 0 ? truncated.substring(0, lastSpace) : truncated) + '...';
+    }
+}
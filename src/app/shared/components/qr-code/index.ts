@@ -0,0 +1 @@
+export * from './qr-code.component';
\ No newline at end of file
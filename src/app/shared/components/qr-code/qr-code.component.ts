@@ -0,0 +1,74 @@
+// src/app/shared/components/qr-code/qr-code.component.ts
+
+import { Component, ChangeDetectionStrategy, computed, input } from '@angular/core';
+
+import { encodeQrCode, QrErrorCorrectionLevel } from '@core/utils/qr-code.utils';
+
+/** Light modules around the symbol required by scanners */
+const QUIET_ZONE = 4;
+
+/**
+ * QrCodeComponent - QR code as inline SVG
+ *
+ * Отговорности:
+ * - Encodes `value` locally (no external QR service)
+ * - Scales to the host size without blurring (one SVG path, crisp edges)
+ * - Renders nothing when the value cannot be encoded
+ */
+@Component({
+    selector: 'app-qr-code',
+    standalone: true,
+    template: `
+        @if (path(); as path) {
+        <svg class="qr-code" [attr.viewBox]="viewBox()" shape-rendering="crispEdges" role="img" [attr.aria-label]="value()">
+            <rect width="100%" height="100%" [attr.fill]="lightColor()" />
+            <path [attr.d]="path" [attr.fill]="darkColor()" />
+        </svg>
+        }
+    `,
+    styles: [`
+        :host {
+            display: block;
+            aspect-ratio: 1;
+        }
+
+        .qr-code {
+            display: block;
+            width: 100%;
+            height: 100%;
+        }
+    `],
+    changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class QrCodeComponent {
+    readonly value = input.required<string>();
+    readonly errorCorrection = input<QrErrorCorrectionLevel>('M');
+    readonly darkColor = input<string>('#000000');
+    readonly lightColor = input<string>('#ffffff');
+
+    private readonly matrix = computed(() => {
+        try {
+            return this.value() ? encodeQrCode(this.value(), this.errorCorrection()) : null;
+        } catch (error) {
+            console.error('❌ QrCodeComponent: Cannot encode value', error);
+            return null;
+        }
+    });
+
+    readonly viewBox = computed(() => {
+        const size = (this.matrix()?.size ?? 0) + QUIET_ZONE * 2;
+        return `0 0 ${size} ${size}`;
+    });
+
+    /** One 1x1 square per dark module */
+    readonly path = computed(() => {
+        const matrix = this.matrix();
+        if (!matrix) return null;
+
+        const segments: string[] = [];
+        matrix.modules.forEach((row, y) => row.forEach((dark, x) => {
+            if (dark) segments.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+        }));
+        return segments.join('');
+    });
+}
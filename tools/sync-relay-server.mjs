@@ -0,0 +1,146 @@
+// tools/sync-relay-server.mjs
+//
+// Local stand-in for the synchronized playback relay (WebSocket transport).
+// Forwards every text message to the other clients of the same ?group=...
+// No dependencies - Node.js built-ins only.
+//
+// Usage: npm run sync-relay [-- --port 8787]
+// Screens: Sync transport "WebSocket", server URL ws://<this-machine>:8787
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 60 * 1024;
+
+const portArgIndex = process.argv.indexOf('--port');
+const port = Number(portArgIndex > -1 ? process.argv[portArgIndex + 1] : process.env.SYNC_RELAY_PORT) || 8787;
+
+/** @type {Map<string, Set<import('node:net').Socket>>} */
+const groups = new Map();
+
+const server = createServer((_request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain' });
+    response.end('TV slideshow sync relay - WebSocket connections only\n');
+});
+
+server.on('upgrade', (request, socket) => {
+    const key = request.headers['sec-websocket-key'];
+    if (!key || request.headers.upgrade?.toLowerCase() !== 'websocket') {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+
+    const group = new URL(request.url ?? '/', 'http://relay').searchParams.get('group') || 'default';
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        ''
+    ].join('\r\n'));
+
+    const members = groups.get(group) ?? new Set();
+    members.add(socket);
+    groups.set(group, members);
+    console.log(`🔗 Client joined "${group}" (${members.size} in group)`);
+
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', chunk => {
+        buffer = Buffer.concat([buffer, chunk]);
+
+        let frame;
+        while ((frame = readFrame(buffer))) {
+            buffer = buffer.subarray(frame.length);
+
+            if (frame.opcode === 0x8) {
+                socket.end(encodeFrame(Buffer.alloc(0), 0x8));
+                return;
+            }
+            if (frame.opcode === 0x9) {
+                socket.write(encodeFrame(frame.payload, 0xA));
+                continue;
+            }
+            if (frame.opcode === 0x1) {
+                relay(group, socket, frame.payload);
+            }
+        }
+
+        if (buffer.length > MAX_PAYLOAD + 14) {
+            console.warn('⚠️ Frame too large - closing client');
+            socket.destroy();
+        }
+    });
+
+    const leave = () => {
+        if (!members.delete(socket)) return;
+        console.log(`👋 Client left "${group}" (${members.size} in group)`);
+        if (members.size === 0) groups.delete(group);
+    };
+    socket.on('close', leave);
+    socket.on('error', leave);
+});
+
+/**
+ * Forward a text payload to every other client of the group
+ */
+function relay(group, sender, payload) {
+    const frame = encodeFrame(payload, 0x1);
+    for (const client of groups.get(group) ?? []) {
+        if (client !== sender && client.writable) client.write(frame);
+    }
+}
+
+/**
+ * Parse one complete client frame (clients always mask), null when more data is needed
+ * Fragmented messages are not used by the slideshow and are not supported.
+ */
+function readFrame(buffer) {
+    if (buffer.length < 2) return null;
+
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let payloadLength = buffer[1] & 0x7f;
+    let offset = 2;
+
+    if (payloadLength === 126) {
+        if (buffer.length < 4) return null;
+        payloadLength = buffer.readUInt16BE(2);
+        offset = 4;
+    } else if (payloadLength === 127) {
+        if (buffer.length < 10) return null;
+        payloadLength = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    const length = offset + maskLength + payloadLength;
+    if (payloadLength > MAX_PAYLOAD || buffer.length < length) return null;
+
+    const payload = Buffer.from(buffer.subarray(offset + maskLength, length));
+    if (masked) {
+        const mask = buffer.subarray(offset, offset + 4);
+        for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+
+    return { opcode, payload, length };
+}
+
+/**
+ * Server frame (unmasked, single fragment)
+ */
+function encodeFrame(payload, opcode) {
+    const length = payload.length;
+    const header = length < 126
+        ? Buffer.from([0x80 | opcode, length])
+        : Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff]);
+    return Buffer.concat([header, payload]);
+}
+
+server.listen(port, () => {
+    console.log(`📡 Sync relay listening on ws://localhost:${port}`);
+});